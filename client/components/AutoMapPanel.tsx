@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import type { AutoMapJobSummary } from "@shared/api";
+import { Pause, Play, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/components/ui/use-toast";
+import { apiFetch } from "@/lib/api";
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_TEXT: Record<AutoMapJobSummary["status"], string> = {
+  running: "Running",
+  cancelled: "Cancelled",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+const isRunning = (job: AutoMapJobSummary | null) =>
+  job?.status === "running" && job.active;
+
+// Starts, follows, cancels and resumes the batch auto-map job. Shows the
+// most recent job; `onProgress` fires whenever new proposals were stored.
+export function AutoMapPanel({ onProgress }: { onProgress: () => void }) {
+  const toast = useToast();
+  const [job, setJob] = useState<AutoMapJobSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    apiFetch<{ jobs: AutoMapJobSummary[] }>("/api/codes/automap")
+      .then((data) => setJob(data.jobs[0] ?? null))
+      .catch((error) => console.error("Auto-map load error:", error));
+  }, []);
+
+  // Poll while the server is still working on the job, which includes
+  // finishing the current batch after a cancel
+  useEffect(() => {
+    if (!job?.active) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const next = await apiFetch<AutoMapJobSummary>(
+          `/api/codes/automap/${job.id}`,
+        );
+        if (next.proposed !== job.proposed) onProgress();
+        setJob(next);
+      } catch (error) {
+        console.error("Auto-map poll error:", error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job]);
+
+  const run = async (path: string) => {
+    setBusy(true);
+    try {
+      setJob(await apiFetch<AutoMapJobSummary>(path, { method: "POST" }));
+    } catch (error: any) {
+      toast.toast({
+        title: "Auto-map error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resumable =
+    job &&
+    job.status !== "completed" &&
+    !job.active &&
+    job.processed < job.total;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="font-semibold">Auto-map</h2>
+          <p className="text-sm text-muted-foreground">
+            Propose ICD-11 targets for unmapped and pending NAMASTE codes.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          {isRunning(job) ? (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy}
+              onClick={() => run(`/api/codes/automap/${job!.id}/cancel`)}
+            >
+              <Pause className="w-4 h-4 mr-1" /> Cancel
+            </Button>
+          ) : (
+            <>
+              {resumable && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busy}
+                  onClick={() => run(`/api/codes/automap/${job!.id}/resume`)}
+                >
+                  <Play className="w-4 h-4 mr-1" /> Resume
+                </Button>
+              )}
+              <Button
+                size="sm"
+                disabled={busy}
+                onClick={() => run("/api/codes/automap")}
+              >
+                <Wand2 className="w-4 h-4 mr-1" /> Run auto-map
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {job && (
+        <div className="space-y-1">
+          <Progress
+            value={job.total ? (job.processed / job.total) * 100 : 100}
+          />
+          <p className="text-xs text-muted-foreground">
+            {job.status === "running" && !job.active
+              ? "Interrupted"
+              : STATUS_TEXT[job.status]}{" "}
+            · {job.processed} of {job.total} codes · {job.proposed} proposed ·{" "}
+            {job.no_match} without a match
+            {job.error && ` · ${job.error}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
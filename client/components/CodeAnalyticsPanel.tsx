@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import type { CodeAnalyticsResponse } from "@shared/api";
+import {
+  Chart as ChartJS,
+  ArcElement,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { Bar, Pie } from "react-chartjs-2";
+import { apiFetch } from "@/lib/api";
+
+ChartJS.register(
+  ArcElement,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  Tooltip,
+  Legend,
+);
+
+const COLORS = [
+  "#f87171",
+  "#60a5fa",
+  "#34d399",
+  "#fbbf24",
+  "#a78bfa",
+  "#f472b6",
+  "#facc15",
+];
+
+// Symptom frequencies, co-occurring codes and diagnoses over time for a
+// NAMASTE code, from what clinicians recorded on patients
+export function CodeAnalyticsPanel({ namasteCode }: { namasteCode: string }) {
+  const [analytics, setAnalytics] = useState<CodeAnalyticsResponse | null>(
+    null,
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAnalytics(null);
+    setError(null);
+    apiFetch<CodeAnalyticsResponse>(
+      `/api/analytics/codes/${encodeURIComponent(namasteCode)}`,
+    )
+      .then(setAnalytics)
+      .catch((err) => setError(err.message));
+  }, [namasteCode]);
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+  if (!analytics) {
+    return <p className="text-sm text-muted-foreground">Loading usage...</p>;
+  }
+  if (analytics.diagnoses === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No patient has been diagnosed with this code yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        {analytics.diagnoses} diagnoses across {analytics.patients} patients
+      </p>
+
+      {analytics.symptoms.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2">Recorded symptoms</h3>
+          <div className="flex justify-center">
+            <Pie
+              data={{
+                labels: analytics.symptoms.map((s) => s.symptom),
+                datasets: [
+                  {
+                    label: "Diagnoses",
+                    data: analytics.symptoms.map((s) => s.count),
+                    backgroundColor: COLORS,
+                  },
+                ],
+              }}
+              options={{
+                plugins: {
+                  legend: { position: "bottom" },
+                  tooltip: {
+                    callbacks: {
+                      // Share of diagnoses, not of symptom mentions
+                      label: (context: any) => {
+                        const percentage = (
+                          (context.raw / analytics.diagnoses) *
+                          100
+                        ).toFixed(1);
+                        return `${context.label}: ${percentage}% of diagnoses (${context.raw})`;
+                      },
+                    },
+                  },
+                },
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="font-semibold mb-2">Diagnoses per month</h3>
+        <Bar
+          data={{
+            labels: analytics.timeline.map((point) => point.month),
+            datasets: [
+              {
+                label: "Diagnoses",
+                data: analytics.timeline.map((point) => point.count),
+                backgroundColor: "#60a5fa",
+              },
+            ],
+          }}
+          options={{
+            plugins: { legend: { display: false } },
+            scales: { y: { beginAtZero: true, ticks: { precision: 0 } } },
+          }}
+        />
+      </div>
+
+      {analytics.co_occurring.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2">Often diagnosed together</h3>
+          <ul className="text-sm space-y-1">
+            {analytics.co_occurring.map((code) => (
+              <li key={code.namaste_code}>
+                <span className="font-mono">{code.namaste_code}</span>
+                {code.namaste_name && ` ${code.namaste_name}`}
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {code.patients} of {analytics.patients} patients
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { Check, ChevronsUpDown, Loader2 } from "lucide-react";
+import type { ValueSet, ValueSetContains } from "@shared/fhir";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useI18n } from "@/contexts/I18nContext";
+import { cn } from "@/lib/utils";
+
+interface CodeComboboxProps {
+  valueSet: "namaste" | "icd11-mapped";
+  value: string;
+  onSelect: (concept: ValueSetContains) => void;
+  category?: string;
+  placeholder?: string;
+  // Let the user keep a code that is not in the terminology yet
+  allowCustom?: boolean;
+  className?: string;
+}
+
+const PAGE_SIZE = 20;
+
+export function CodeCombobox({
+  valueSet,
+  value,
+  onSelect,
+  category,
+  placeholder = "Search codes...",
+  allowCustom = false,
+  className,
+}: CodeComboboxProps) {
+  const { language } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [options, setOptions] = useState<ValueSetContains[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  // Debounced $expand against the server-side value set
+  useEffect(() => {
+    if (!open) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({
+        filter,
+        count: String(PAGE_SIZE),
+        displayLanguage: language,
+      });
+      if (category) params.set("category", category);
+
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/fhir/ValueSet/${valueSet}/$expand?${params}`,
+          {
+            signal: controller.signal,
+          },
+        );
+        const data: ValueSet = await res.json();
+        setOptions(data.expansion?.contains ?? []);
+        setTotal(data.expansion?.total ?? 0);
+      } catch (error: any) {
+        if (error?.name !== "AbortError") {
+          console.error("ValueSet expand error:", error);
+          setOptions([]);
+        }
+      } finally {
+        setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, filter, valueSet, category, language]);
+
+  const select = (concept: ValueSetContains) => {
+    onSelect(concept);
+    setOpen(false);
+    setFilter("");
+  };
+
+  const typed = filter.trim();
+  const showCustom =
+    allowCustom && typed && !options.some((o) => o.code === typed);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", className)}
+        >
+          <span className={cn("truncate", !value && "text-muted-foreground")}>
+            {value || placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-72 p-0">
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder={placeholder}
+            value={filter}
+            onValueChange={setFilter}
+          />
+          <CommandList>
+            {loading && (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {!loading && !showCustom && (
+              <CommandEmpty>No codes found.</CommandEmpty>
+            )}
+
+            {showCustom && (
+              <CommandGroup>
+                <CommandItem
+                  value={`custom:${typed}`}
+                  onSelect={() => select({ system: "", code: typed })}
+                >
+                  Use "{typed}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {!loading && options.length > 0 && (
+              <CommandGroup
+                heading={
+                  total > options.length
+                    ? `Showing ${options.length} of ${total}`
+                    : undefined
+                }
+              >
+                {options.map((option) => (
+                  <CommandItem
+                    key={`${option.system}|${option.code}`}
+                    value={`${option.system}|${option.code}`}
+                    onSelect={() => select(option)}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        value === option.code ? "opacity-100" : "opacity-0",
+                      )}
+                    />
+                    <span className="font-medium">{option.code}</span>
+                    {option.display && (
+                      <span className="ml-2 truncate text-muted-foreground">
+                        {option.display}
+                      </span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,339 @@
+import { useEffect, useState } from "react";
+import Papa from "papaparse";
+import type {
+  CodemapFileFormat,
+  CodemapImportField,
+  CodemapImportProfile,
+  CodemapImportResponse,
+  CodemapImportRow,
+  ColumnMapping,
+} from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { apiFetch } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+// File types accepted by the upload inputs that open this dialog
+export const CODE_LIST_ACCEPT = ".csv,.xlsx,.json";
+
+const FIELD_LABELS: Record<CodemapImportField, string> = {
+  namaste_code: "NAMASTE code",
+  namaste_name: "NAMASTE name",
+  icd11_code: "ICD-11 code",
+  icd11_name: "ICD-11 name",
+  icd11_extensions: "ICD-11 extensions",
+  equivalence: "Equivalence",
+  category: "Category",
+  symptoms: "Symptoms",
+  description: "Description",
+};
+
+const CONTENT_TYPES: Record<CodemapFileFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  conceptmap: "application/fhir+json",
+};
+
+const formatForFile = (file: File): CodemapFileFormat => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) return "xlsx";
+  if (name.endsWith(".json")) return "conceptmap";
+  return "csv";
+};
+
+interface CodeImportDialogProps {
+  file: File | null;
+  onClose: () => void;
+  onImported: (response: CodemapImportResponse) => void;
+}
+
+const hasErrors = (row: CodemapImportRow) =>
+  row.issues.some((issue) => issue.severity === "error");
+
+const importable = (row: CodemapImportRow) => !row.exists && !hasErrors(row);
+
+// One line per issue so the report opens cleanly in a spreadsheet
+function downloadErrorReport(fileName: string, rows: CodemapImportRow[]) {
+  const report = rows.flatMap((row) =>
+    row.issues.map((issue) => ({
+      line: row.line,
+      namaste_code: row.mapping.namaste_code,
+      icd11_code: row.mapping.icd11_code,
+      severity: issue.severity,
+      field: issue.field,
+      message: issue.message,
+    })),
+  );
+
+  const blob = new Blob([Papa.unparse(report)], {
+    type: "text/csv;charset=utf-8;",
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName.replace(/\.\w+$/, "")}_import_report.csv`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+// Uploads a code list for a server-side dry run, lets the user fix the
+// column mapping and deselect rows, then commits the rest
+export function CodeImportDialog({
+  file,
+  onClose,
+  onImported,
+}: CodeImportDialogProps) {
+  const toast = useToast();
+  const [source, setSource] = useState("");
+  const [columns, setColumns] = useState<ColumnMapping | undefined>();
+  const [profiles, setProfiles] = useState<CodemapImportProfile[]>([]);
+  const [preview, setPreview] = useState<CodemapImportResponse | null>(null);
+  const [skipped, setSkipped] = useState<Set<number>>(new Set());
+  const [committing, setCommitting] = useState(false);
+
+  const upload = (dryRun: boolean, skip: number[] = []) => {
+    const format = formatForFile(file!);
+    const params = new URLSearchParams({
+      format,
+      dryRun: String(dryRun),
+      skip: skip.join(","),
+    });
+    if (source.trim()) params.set("source", source.trim());
+    if (columns) params.set("columns", JSON.stringify(columns));
+
+    return apiFetch<CodemapImportResponse>(`/api/codes/import?${params}`, {
+      method: "POST",
+      headers: { "Content-Type": CONTENT_TYPES[format] },
+      body: file!,
+    });
+  };
+
+  useEffect(() => {
+    if (!file) return;
+    setSource("");
+    setColumns(undefined);
+    setPreview(null);
+    setSkipped(new Set());
+
+    apiFetch<{ profiles: CodemapImportProfile[] }>("/api/codes/import/profiles")
+      .then((data) => setProfiles(data.profiles))
+      .catch((error) => console.error("Import profiles error:", error));
+  }, [file]);
+
+  // Re-run the dry run whenever the source or column mapping changes
+  useEffect(() => {
+    if (!file) return;
+
+    const timer = setTimeout(() => {
+      upload(true)
+        .then(setPreview)
+        .catch((error) => {
+          toast.toast({
+            title: "Import error",
+            description: error.message,
+            variant: "destructive",
+          });
+          onClose();
+        });
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [file, source, columns]);
+
+  if (!file || !preview) return null;
+
+  const { rows, summary } = preview;
+  const selected = rows.filter(
+    (row) => importable(row) && !skipped.has(row.line),
+  );
+
+  const toggle = (line: number, include: boolean) =>
+    setSkipped((prev) => {
+      const next = new Set(prev);
+      if (include) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+
+  const handleCommit = async () => {
+    setCommitting(true);
+    try {
+      onImported(await upload(false, [...skipped]));
+      onClose();
+    } catch (error: any) {
+      toast.toast({
+        title: "Insert error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Import preview: {file.name}</DialogTitle>
+          <DialogDescription>
+            {summary.total} rows · {summary.valid} valid · {summary.invalid}{" "}
+            with errors · {summary.warnings} with warnings. Rows with errors or
+            already in the codemap are not imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview.format !== "conceptmap" && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-sm font-medium">Source</label>
+              <Input
+                list="code-list-sources"
+                placeholder="e.g. Ministry of AYUSH; its column mapping is remembered"
+                value={source}
+                onChange={(e) => {
+                  setSource(e.target.value);
+                  setColumns(undefined);
+                }}
+              />
+              <datalist id="code-list-sources">
+                {profiles.map((profile) => (
+                  <option key={profile.source} value={profile.source} />
+                ))}
+              </datalist>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(Object.keys(FIELD_LABELS) as CodemapImportField[]).map(
+                (field) => (
+                  <div key={field}>
+                    <label className="text-xs text-muted-foreground">
+                      {FIELD_LABELS[field]}
+                    </label>
+                    <select
+                      value={preview.columns[field] ?? ""}
+                      onChange={(e) =>
+                        setColumns({
+                          ...preview.columns,
+                          [field]: e.target.value || undefined,
+                        })
+                      }
+                      className="w-full px-2 py-1 rounded-lg border border-input bg-background text-sm"
+                    >
+                      <option value="">— not in file —</option>
+                      {preview.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ),
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-[50vh] overflow-auto border rounded">
+          <table className="w-full text-sm">
+            <thead className="bg-muted sticky top-0">
+              <tr className="text-left">
+                <th className="p-2">Import</th>
+                <th className="p-2">Row</th>
+                <th className="p-2">NAMASTE</th>
+                <th className="p-2">ICD-11</th>
+                <th className="p-2">Category</th>
+                <th className="p-2">Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.line}
+                  className={cn(
+                    "border-t align-top",
+                    hasErrors(row) && "bg-red-50",
+                    !hasErrors(row) && row.issues.length > 0 && "bg-yellow-50",
+                  )}
+                >
+                  <td className="p-2">
+                    <Checkbox
+                      checked={importable(row) && !skipped.has(row.line)}
+                      disabled={!importable(row)}
+                      onCheckedChange={(checked) =>
+                        toggle(row.line, checked === true)
+                      }
+                    />
+                  </td>
+                  <td className="p-2">{row.line}</td>
+                  <td className="p-2">
+                    <div className="font-medium">
+                      {row.mapping.namaste_code || "—"}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {row.mapping.namaste_name}
+                    </div>
+                  </td>
+                  <td className="p-2">
+                    <div className="font-medium">
+                      {row.mapping.icd11_code || "—"}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {row.mapping.icd11_name}
+                    </div>
+                  </td>
+                  <td className="p-2">{row.mapping.category}</td>
+                  <td className="p-2">
+                    {row.issues.map((issue, i) => (
+                      <p
+                        key={i}
+                        className={
+                          issue.severity === "error"
+                            ? "text-red-600"
+                            : "text-yellow-700"
+                        }
+                      >
+                        {issue.message}
+                      </p>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            disabled={!rows.some((row) => row.issues.length)}
+            onClick={() => downloadErrorReport(file.name, rows)}
+          >
+            Download error report
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={committing || selected.length === 0}
+            onClick={handleCommit}
+          >
+            {committing ? "Importing..." : `Import ${selected.length} rows`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
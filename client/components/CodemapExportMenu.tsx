@@ -0,0 +1,53 @@
+import type { CodeCategory, CodemapFileFormat } from "@shared/api";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const FORMATS: Array<{ format: CodemapFileFormat; label: string }> = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel (XLSX)" },
+  { format: "conceptmap", label: "FHIR ConceptMap (JSON)" },
+];
+
+interface CodemapExportMenuProps {
+  label?: string;
+  category?: CodeCategory;
+  className?: string;
+}
+
+// The server builds every format, so each option is a plain download link
+export function CodemapExportMenu({
+  label = "Export Mappings",
+  category,
+  className,
+}: CodemapExportMenuProps) {
+  const hrefFor = (format: CodemapFileFormat) => {
+    const params = new URLSearchParams({ format });
+    if (category) params.set("category", category);
+    return `/api/codes/export?${params}`;
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className}>
+          <Download className="w-4 h-4" /> {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={hrefFor(format)} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import type { CodemapSortField } from "@shared/api";
+import { MAPPING_STATUSES, STATUS_LABELS } from "@shared/workflow";
+import { ArrowDown, ArrowUp, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+const SEARCH_DELAY_MS = 300;
+
+const SORT_LABELS: Record<CodemapSortField, string> = {
+  created_at: "Created",
+  updated_at: "Last edited",
+  namaste_code: "NAMASTE code",
+  namaste_name: "NAMASTE name",
+  icd11_code: "ICD-11 code",
+  icd11_name: "ICD-11 name",
+  category: "Category",
+  status: "Status",
+  confidence: "Confidence",
+  created_by: "Created by",
+};
+
+const selectClass =
+  "w-full px-3 py-2 rounded-lg border border-input bg-background text-sm";
+
+export type MappingFilterUpdate = Record<string, string | null>;
+
+interface MappingListFiltersProps {
+  // Uses the GET /api/mappings query parameter names
+  params: URLSearchParams;
+  onChange: (update: MappingFilterUpdate) => void;
+}
+
+// Filter and sort controls for the mapping list. State lives in the URL,
+// so filtered views can be bookmarked and shared.
+export function MappingListFilters({
+  params,
+  onChange,
+}: MappingListFiltersProps) {
+  const q = params.get("q") ?? "";
+  const [search, setSearch] = useState(q);
+
+  // Keep typing local and only push a settled search term
+  useEffect(() => setSearch(q), [q]);
+  useEffect(() => {
+    if (search === q) return;
+    const timer = setTimeout(
+      () => onChange({ q: search || null }),
+      SEARCH_DELAY_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const category = params.get("category") ?? "all";
+  const order = params.get("order") ?? "desc";
+  const text = (key: string) => params.get(key) ?? "";
+  const set = (key: string) => (e: { target: { value: string } }) =>
+    onChange({ [key]: e.target.value || null });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Search codes and names..."
+          className="pl-10"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        {["all", "Ayurveda", "Siddha", "Unani"].map((c) => (
+          <button
+            key={c}
+            onClick={() => onChange({ category: c === "all" ? null : c })}
+            className={cn(
+              "px-3 py-1.5 rounded-lg text-sm font-medium",
+              category === c
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted text-foreground hover:bg-muted/80",
+            )}
+          >
+            {c === "all" ? "All Categories" : c}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label className="text-xs font-medium">Status</label>
+          <select
+            value={text("status")}
+            onChange={set("status")}
+            className={selectClass}
+          >
+            <option value="">Any status</option>
+            {MAPPING_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="text-xs font-medium">Confidence</label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              placeholder="Min"
+              value={text("min_confidence")}
+              onChange={set("min_confidence")}
+            />
+            <Input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              placeholder="Max"
+              value={text("max_confidence")}
+              onChange={set("max_confidence")}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs font-medium">Created by</label>
+          <Input
+            placeholder="Email or auto-map"
+            value={text("created_by")}
+            onChange={set("created_by")}
+          />
+        </div>
+
+        <div>
+          <label className="text-xs font-medium">Created between</label>
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              value={text("created_from")}
+              onChange={set("created_from")}
+            />
+            <Input
+              type="date"
+              value={text("created_to")}
+              onChange={set("created_to")}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div>
+          <label className="text-xs font-medium">Sort by</label>
+          <select
+            value={text("sort") || "created_at"}
+            onChange={set("sort")}
+            className={selectClass}
+          >
+            {(Object.keys(SORT_LABELS) as CodemapSortField[]).map((field) => (
+              <option key={field} value={field}>
+                {SORT_LABELS[field]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="mb-0.5"
+          onClick={() => onChange({ order: order === "asc" ? "desc" : "asc" })}
+        >
+          {order === "asc" ? (
+            <ArrowUp className="w-4 h-4 mr-1" />
+          ) : (
+            <ArrowDown className="w-4 h-4 mr-1" />
+          )}
+          {order === "asc" ? "Ascending" : "Descending"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import type {
+  MappingSuggestion,
+  MappingSuggestionRequest,
+  MappingSuggestionResponse,
+  SuggestionFeatureName,
+} from "@shared/api";
+import { Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { apiFetch } from "@/lib/api";
+
+const FEATURE_LABELS: Record<SuggestionFeatureName, string> = {
+  name: "Name",
+  description: "Description",
+  symptoms: "Symptoms",
+  similarity: "Spelling similarity",
+  precedent: "Reviewed mappings",
+  llm: "Language model",
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+interface MappingSuggestionsProps {
+  source: MappingSuggestionRequest;
+  onPick: (suggestion: MappingSuggestion) => void;
+}
+
+// Asks the server for ranked ICD-11 targets and shows why each was
+// proposed; picking one hands it to the form
+export function MappingSuggestions({
+  source,
+  onPick,
+}: MappingSuggestionsProps) {
+  const toast = useToast();
+  const [result, setResult] = useState<MappingSuggestionResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const canSuggest = Boolean(source.namaste_code || source.namaste_name);
+
+  const handleSuggest = async () => {
+    setLoading(true);
+    try {
+      setResult(
+        await apiFetch<MappingSuggestionResponse>("/api/codes/suggestions", {
+          method: "POST",
+          body: JSON.stringify(source),
+        }),
+      );
+    } catch (error: any) {
+      toast.toast({
+        title: "Suggestion error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        disabled={!canSuggest || loading}
+        onClick={handleSuggest}
+      >
+        {loading ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Sparkles className="w-4 h-4" />
+        )}
+        Suggest ICD-11 targets
+      </Button>
+
+      {result && result.suggestions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No candidates matched among {result.candidates} ICD-11 codes.
+        </p>
+      )}
+
+      {result && result.suggestions.length > 0 && (
+        <ul className="space-y-2">
+          {result.suggestions.map((suggestion) => (
+            <li
+              key={suggestion.icd11Code}
+              className="rounded-lg border border-border p-3 flex items-start justify-between gap-4"
+            >
+              <div className="space-y-1">
+                <p className="font-medium">
+                  {suggestion.icd11Code} {suggestion.icd11Description}
+                  <span className="ml-2 text-sm text-muted-foreground">
+                    {percent(suggestion.confidence)} confidence
+                  </span>
+                </p>
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {suggestion.features.map((f) => (
+                    <li key={f.feature}>
+                      {FEATURE_LABELS[f.feature]} {percent(f.score)} (weight{" "}
+                      {percent(f.weight)})
+                      {f.matches.length > 0 && `: ${f.matches.join(", ")}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => onPick(suggestion)}
+              >
+                Use
+              </Button>
+            </li>
+          ))}
+          <li className="text-xs text-muted-foreground">
+            Ranked by the {result.provider} model from {result.candidates}{" "}
+            ICD-11 codes.
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
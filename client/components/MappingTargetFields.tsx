@@ -0,0 +1,173 @@
+import type { CodemapRow, MappingEquivalence } from "@shared/api";
+import {
+  EQUIVALENCE_LABELS,
+  formatIcd11Expression,
+  icd11TargetIssues,
+  MAPPING_EQUIVALENCES,
+  splitIcd11Extensions,
+} from "@shared/codemap";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CodeCombobox } from "@/components/CodeCombobox";
+
+// One ICD-11 target as edited in a form; extensions stay free text until
+// the row is saved so separators can be typed
+export interface MappingTargetDraft {
+  icd11_code: string;
+  icd11_name: string;
+  icd11_extensions: string;
+  equivalence: MappingEquivalence;
+  // Set when the target came from a suggestion
+  confidence?: number | null;
+}
+
+export const EMPTY_TARGET: MappingTargetDraft = {
+  icd11_code: "",
+  icd11_name: "",
+  icd11_extensions: "",
+  equivalence: "equivalent",
+};
+
+export const targetDraftFor = (
+  row: Pick<
+    CodemapRow,
+    | "icd11_code"
+    | "icd11_name"
+    | "icd11_extensions"
+    | "equivalence"
+    | "confidence"
+  >,
+): MappingTargetDraft => ({
+  icd11_code: row.icd11_code ?? "",
+  icd11_name: row.icd11_name ?? "",
+  icd11_extensions: (row.icd11_extensions ?? []).join("&"),
+  equivalence: row.equivalence ?? "inexact",
+  confidence: row.confidence,
+});
+
+// The codemap columns a draft is saved as
+export function targetColumns(draft: MappingTargetDraft) {
+  const unmatched = draft.equivalence === "unmatched";
+
+  return {
+    icd11_code: unmatched ? "" : draft.icd11_code.trim().toUpperCase(),
+    icd11_name: unmatched ? null : draft.icd11_name.trim() || null,
+    icd11_extensions: unmatched
+      ? []
+      : splitIcd11Extensions(draft.icd11_extensions),
+    equivalence: draft.equivalence,
+    confidence: unmatched ? null : (draft.confidence ?? null),
+  };
+}
+
+// Returns the first problem with a draft, or null when it can be saved
+export function targetError(draft: MappingTargetDraft): string | null {
+  return icd11TargetIssues(targetColumns(draft))[0]?.message ?? null;
+}
+
+interface MappingTargetFieldsProps {
+  target: MappingTargetDraft;
+  onChange: (target: MappingTargetDraft) => void;
+  onRemove?: () => void;
+}
+
+export function MappingTargetFields({
+  target,
+  onChange,
+  onRemove,
+}: MappingTargetFieldsProps) {
+  const unmatched = target.equivalence === "unmatched";
+  const { icd11_code, icd11_extensions } = targetColumns(target);
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium">Equivalence *</label>
+          <select
+            value={target.equivalence}
+            onChange={(e) =>
+              onChange({
+                ...target,
+                equivalence: e.target.value as MappingEquivalence,
+              })
+            }
+            className="w-full px-3 py-2 rounded-lg border border-input bg-background"
+          >
+            {MAPPING_EQUIVALENCES.map((equivalence) => (
+              <option key={equivalence} value={equivalence}>
+                {EQUIVALENCE_LABELS[equivalence]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {onRemove && (
+          <div className="flex items-end justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={onRemove}
+            >
+              <Trash2 className="w-4 h-4 mr-1" /> Remove target
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!unmatched && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium">ICD-11 Code *</label>
+              <CodeCombobox
+                valueSet="icd11-mapped"
+                value={target.icd11_code}
+                placeholder="Search or enter an ICD-11 code..."
+                allowCustom
+                onSelect={(concept) =>
+                  onChange({
+                    ...target,
+                    icd11_code: concept.code,
+                    icd11_name: concept.display ?? target.icd11_name,
+                    confidence: null,
+                  })
+                }
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">ICD-11 Name</label>
+              <Input
+                value={target.icd11_name}
+                onChange={(e) =>
+                  onChange({ ...target, icd11_name: e.target.value })
+                }
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium">
+              Extension codes (postcoordination)
+            </label>
+            <Input
+              placeholder="e.g. XK8G, XS25"
+              value={target.icd11_extensions}
+              onChange={(e) =>
+                onChange({ ...target, icd11_extensions: e.target.value })
+              }
+            />
+            {icd11_code && icd11_extensions.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Coded as {formatIcd11Expression(icd11_code, icd11_extensions)}
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
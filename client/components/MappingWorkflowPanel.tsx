@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import type { CodemapRow, MappingHistoryEntry } from "@shared/api";
+import {
+  availableActions,
+  normalizeStatus,
+  STATUS_LABELS,
+  type MappingStatus,
+  type WorkflowAction,
+} from "@shared/workflow";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { apiFetch } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+const ACTION_LABELS: Record<WorkflowAction, string> = {
+  propose: "Propose",
+  withdraw: "Withdraw",
+  assign: "Assign reviewer",
+  approve: "Approve",
+  reject: "Reject",
+  rework: "Back to draft",
+  deprecate: "Deprecate",
+};
+
+export const STATUS_COLORS: Record<MappingStatus, string> = {
+  draft: "bg-gray-400",
+  proposed: "bg-yellow-500",
+  under_review: "bg-blue-500",
+  approved: "bg-green-500",
+  rejected: "bg-red-500",
+  deprecated: "bg-gray-600",
+};
+
+interface MappingWorkflowPanelProps {
+  mapping: CodemapRow;
+  onChanged: (mapping: CodemapRow) => void;
+}
+
+export function MappingWorkflowPanel({
+  mapping,
+  onChanged,
+}: MappingWorkflowPanelProps) {
+  const toast = useToast();
+  const [history, setHistory] = useState<MappingHistoryEntry[]>([]);
+  const [reviewer, setReviewer] = useState(mapping.reviewer ?? "");
+  const [justification, setJustification] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    apiFetch<{ history: MappingHistoryEntry[] }>(
+      `/api/mappings/${mapping.id}/history`,
+    )
+      .then((data) => setHistory(data.history))
+      .catch((error) => console.error("History load error:", error));
+  }, [mapping.id]);
+
+  const runAction = async (action: WorkflowAction) => {
+    setBusy(true);
+    try {
+      const data = await apiFetch<{
+        mapping: CodemapRow;
+        entry: MappingHistoryEntry;
+      }>(`/api/mappings/${mapping.id}/transitions`, {
+        method: "POST",
+        body: JSON.stringify({ action, reviewer, justification }),
+      });
+
+      setHistory((prev) => [...prev, data.entry]);
+      setJustification("");
+      onChanged(data.mapping);
+      toast.toast({ title: ACTION_LABELS[action] });
+    } catch (error: any) {
+      toast.toast({
+        title: "Workflow error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const status = normalizeStatus(mapping.status);
+  const actions = availableActions(status);
+
+  return (
+    <div className="mt-4 space-y-4 border-t border-border pt-4">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <span className="flex items-center gap-2 font-medium">
+          <span className={cn("w-3 h-3 rounded-full", STATUS_COLORS[status])} />
+          {STATUS_LABELS[status]}
+        </span>
+        {mapping.proposed_by && (
+          <span className="text-muted-foreground">
+            Proposed by {mapping.proposed_by}
+          </span>
+        )}
+        {mapping.edited_by && (
+          <span className="text-muted-foreground">
+            Last edited by {mapping.edited_by}
+          </span>
+        )}
+        {mapping.reviewer && (
+          <span className="text-muted-foreground">
+            Reviewer {mapping.reviewer}
+          </span>
+        )}
+      </div>
+
+      {actions.length > 0 && (
+        <div className="space-y-3">
+          {actions.includes("assign") && (
+            <Input
+              placeholder="Reviewer email"
+              value={reviewer}
+              onChange={(e) => setReviewer(e.target.value)}
+            />
+          )}
+          {(actions.includes("reject") || actions.includes("deprecate")) && (
+            <textarea
+              className="w-full border rounded p-2 text-sm"
+              rows={2}
+              placeholder="Justification (required to reject or deprecate)"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+            />
+          )}
+          <div className="flex flex-wrap gap-2">
+            {actions.map((action) => (
+              <Button
+                key={action}
+                size="sm"
+                variant={action === "reject" ? "destructive" : "outline"}
+                disabled={busy}
+                onClick={() => runAction(action)}
+              >
+                {ACTION_LABELS[action]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="font-semibold mb-2">History</h3>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No transitions yet.</p>
+        ) : (
+          <ol className="space-y-2 text-sm">
+            {history.map((entry) => (
+              <li key={entry.id} className="border-l-2 border-border pl-3">
+                <p>
+                  <span className="font-medium">{entry.actor}</span>{" "}
+                  {ACTION_LABELS[entry.action as WorkflowAction] ??
+                    entry.action}
+                  {": "}
+                  {STATUS_LABELS[entry.from_status as MappingStatus]} →{" "}
+                  {STATUS_LABELS[entry.to_status as MappingStatus]}
+                </p>
+                {entry.justification && (
+                  <p className="text-muted-foreground">
+                    “{entry.justification}”
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {entry.created_at.slice(0, 19).replace("T", " ")}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import type {
+  ReleaseDiff,
+  TerminologyReleaseSummary,
+  TerminologySystem,
+} from "@shared/api";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { apiFetch } from "@/lib/api";
+
+const SYSTEM_LABELS: Record<TerminologySystem, string> = {
+  namaste: "NAMASTE",
+  icd11: "ICD-11",
+};
+
+// Long releases are summarised; the full lists stay available via the API
+const PREVIEW_LIMIT = 50;
+
+function DiffSection({
+  title,
+  items,
+}: {
+  title: string;
+  items: React.ReactNode[];
+}) {
+  return (
+    <div>
+      <h4 className="font-semibold mb-1">
+        {title} ({items.length})
+      </h4>
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        <ul className="text-sm space-y-1 max-h-48 overflow-y-auto">
+          {items.slice(0, PREVIEW_LIMIT).map((item, i) => (
+            <li key={i}>{item}</li>
+          ))}
+          {items.length > PREVIEW_LIMIT && (
+            <li className="text-muted-foreground">
+              …and {items.length - PREVIEW_LIMIT} more
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ReleaseDiffView({ diff }: { diff: ReleaseDiff }) {
+  return (
+    <div className="rounded-lg border border-border bg-card p-6 space-y-4">
+      <h3 className="font-semibold">
+        {SYSTEM_LABELS[diff.to.system]} {diff.from.version} → {diff.to.version}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <DiffSection
+          title="Added"
+          items={diff.added.map((c) => `${c.code} ${c.display ?? ""}`)}
+        />
+        <DiffSection
+          title="Removed"
+          items={diff.removed.map((c) => `${c.code} ${c.display ?? ""}`)}
+        />
+        <DiffSection
+          title="Renamed"
+          items={diff.renamed.map(
+            (r) => `${r.code}: “${r.from ?? ""}” → “${r.to ?? ""}”`,
+          )}
+        />
+        <DiffSection
+          title="Remapped"
+          items={diff.remapped.map(
+            (r) => `${r.from.code} → ${r.to.code} ${r.to.display ?? ""}`,
+          )}
+        />
+      </div>
+      <DiffSection
+        title="Mappings pointing at retired codes"
+        items={diff.affected_mappings.map(
+          (row) => `${row.namaste_code} → ${row.icd11_code} (${row.status})`,
+        )}
+      />
+    </div>
+  );
+}
+
+// Admin tab for publishing NAMASTE / ICD-11 code list versions and
+// comparing any two of them
+export function TerminologyReleases() {
+  const toast = useToast();
+  const [releases, setReleases] = useState<TerminologyReleaseSummary[]>([]);
+  const [system, setSystem] = useState<TerminologySystem>("namaste");
+  const [version, setVersion] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [publishing, setPublishing] = useState(false);
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [diff, setDiff] = useState<ReleaseDiff | null>(null);
+
+  const fetchReleases = () =>
+    apiFetch<{ releases: TerminologyReleaseSummary[] }>("/api/codes/releases")
+      .then((data) => setReleases(data.releases))
+      .catch((error) => console.error("Releases load error:", error));
+
+  useEffect(() => {
+    fetchReleases();
+  }, []);
+
+  const showError = (error: any) =>
+    toast.toast({
+      title: "Release error",
+      description: error.message,
+      variant: "destructive",
+    });
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !version.trim()) return;
+
+    const isXlsx = file.name.toLowerCase().endsWith(".xlsx");
+    const params = new URLSearchParams({
+      system,
+      version: version.trim(),
+      format: isXlsx ? "xlsx" : "csv",
+    });
+
+    setPublishing(true);
+    try {
+      const result = await apiFetch<{
+        diff: ReleaseDiff | null;
+        marked: number;
+        stale: string[];
+      }>(`/api/codes/releases?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: file,
+      });
+
+      toast.toast({
+        title: "Release published",
+        description: result.diff
+          ? `${result.marked} mappings now point at retired codes.` +
+            (result.stale.length
+              ? ` ${result.stale.length} mappings were being edited; publish this version again to mark them.`
+              : "")
+          : "First release for this system; nothing to compare yet.",
+      });
+      setDiff(result.diff);
+      setVersion("");
+      setFile(null);
+      fetchReleases();
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    try {
+      const params = new URLSearchParams({ from: fromId, to: toId });
+      setDiff(
+        await apiFetch<ReleaseDiff>(`/api/codes/releases/diff?${params}`),
+      );
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const fromRelease = releases.find((r) => r.id === fromId);
+  const comparable = releases.filter(
+    (r) => r.id !== fromId && (!fromRelease || r.system === fromRelease.system),
+  );
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={handlePublish}
+        className="rounded-lg border border-border bg-card p-6 space-y-4"
+      >
+        <h3 className="font-semibold">Publish a release</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <select
+            value={system}
+            onChange={(e) => setSystem(e.target.value as TerminologySystem)}
+            className="w-full px-3 py-2 rounded-lg border border-input bg-background"
+          >
+            <option value="namaste">NAMASTE</option>
+            <option value="icd11">ICD-11</option>
+          </select>
+          <Input
+            placeholder="Version, e.g. 2025-01"
+            value={version}
+            onChange={(e) => setVersion(e.target.value)}
+          />
+          <Input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+        </div>
+        <Button
+          type="submit"
+          className="gap-2"
+          disabled={publishing || !file || !version.trim()}
+        >
+          <Upload className="w-4 h-4" />
+          {publishing ? "Publishing..." : "Publish Release"}
+        </Button>
+      </form>
+
+      <div className="rounded-lg border border-border bg-card p-6 space-y-4">
+        <h3 className="font-semibold">Compare releases</h3>
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={fromId}
+            onChange={(e) => {
+              setFromId(e.target.value);
+              setToId("");
+            }}
+            className="px-3 py-2 rounded-lg border border-input bg-background"
+          >
+            <option value="">From…</option>
+            {releases.map((r) => (
+              <option key={r.id} value={r.id}>
+                {SYSTEM_LABELS[r.system]} {r.version}
+              </option>
+            ))}
+          </select>
+          <select
+            value={toId}
+            onChange={(e) => setToId(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-input bg-background"
+          >
+            <option value="">To…</option>
+            {comparable.map((r) => (
+              <option key={r.id} value={r.id}>
+                {SYSTEM_LABELS[r.system]} {r.version}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            disabled={!fromId || !toId}
+            onClick={handleCompare}
+          >
+            Compare
+          </Button>
+        </div>
+      </div>
+
+      {diff && <ReleaseDiffView diff={diff} />}
+
+      <div className="space-y-2">
+        {releases.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No releases published yet.
+          </p>
+        )}
+        {releases.map((release) => (
+          <div
+            key={release.id}
+            className="rounded-lg border border-border bg-card p-4 flex items-center justify-between"
+          >
+            <div>
+              <p className="font-semibold">
+                {SYSTEM_LABELS[release.system]} {release.version}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {release.code_count} codes · published{" "}
+                {release.created_at.split("T")[0]}
+                {release.created_by && ` by ${release.created_by}`}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -44,7 +44,8 @@ function buildUserFromSupabase(supaUser: any, fallbackEmail?: string): User {
     email: supaUser.email ?? fallbackEmail ?? "",
     firstName: (meta.firstName as string) || "",
     lastName: (meta.lastName as string) || "",
-    role: (meta.role as "admin" | "user") || "user",
+    // app_metadata is set by the server only; the API checks the same field
+    role: supaUser?.app_metadata?.role === "admin" ? "admin" : "user",
     avatar: meta.avatar as string | undefined,
   };
 }
@@ -65,13 +66,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           let baseUser = buildUserFromSupabase(supaUser);
           if (stored) {
             const storedUser: User = JSON.parse(stored);
-            baseUser = { ...baseUser, ...storedUser };
+            baseUser = { ...baseUser, ...storedUser, role: baseUser.role };
           }
           setUser(baseUser);
           localStorage.setItem(STORAGE_KEY, JSON.stringify(baseUser));
         } else if (stored) {
-          const storedUser: User = JSON.parse(stored);
-          setUser(storedUser);
+          // Without a session the API would refuse every request
+          localStorage.removeItem(STORAGE_KEY);
         }
       } finally {
         setIsLoading(false);
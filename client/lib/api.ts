@@ -0,0 +1,34 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// The server verifies the Supabase access token and looks up the role
+// itself; nothing the client says about the user is trusted
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// fetch() for our own API: sends JSON plus the signed-in user's token, and
+// turns `{ error }` responses into thrown Errors carrying the HTTP status
+export async function apiFetch<T = any>(
+  path: string,
+  init: RequestInit = {},
+): Promise<T> {
+  const res = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+      ...(await authHeaders()),
+      ...init.headers,
+    },
+  });
+
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw Object.assign(
+      new Error(data?.error || `Request failed (${res.status})`),
+      { status: res.status },
+    );
+  }
+  return data as T;
+}
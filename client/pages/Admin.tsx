@@ -1,5 +1,14 @@
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { CodeCombobox } from "@/components/CodeCombobox";
+import {
+  CODE_LIST_ACCEPT,
+  CodeImportDialog,
+} from "@/components/CodeImportDialog";
+import { CodemapExportMenu } from "@/components/CodemapExportMenu";
+import { TerminologyReleases } from "@/components/TerminologyReleases";
+import { useToast } from "@/components/ui/use-toast";
+import type { CodemapImportResponse } from "@shared/api";
 import {
   Plus,
   Settings,
@@ -10,9 +19,9 @@ import {
   Users,
   Database,
   TrendingUp,
-  Download,
+  History,
 } from "lucide-react";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { cn } from "@/lib/utils";
 
 interface NAMASTECode {
@@ -120,9 +129,10 @@ const mockUsers: User[] = [
   },
 ];
 
-type TabType = "codes" | "mappings" | "coverage" | "users";
+type TabType = "codes" | "mappings" | "releases" | "coverage" | "users";
 
 export default function Admin() {
+  const toast = useToast();
   const [activeTab, setActiveTab] = useState<TabType>("codes");
   const [codes, setCodes] = useState<NAMASTECode[]>(mockCodes);
   const [mappings, setMappings] = useState<Mapping[]>(mockMappings);
@@ -188,26 +198,15 @@ export default function Admin() {
     setUsers(users.filter((u) => u.id !== id));
   };
 
-  const handleDownloadMappings = () => {
-    const csv = [
-      ["NAMASTE Code", "ICD-11 Code", "Confidence", "Status"],
-      ...mappings.map((m) => [
-        m.namasteCode,
-        m.icd11Code,
-        m.confidence.toString(),
-        m.status,
-      ]),
-    ]
-      .map((row) => row.join(","))
-      .join("\n");
-
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = "mappings.csv";
-    link.click();
-    URL.revokeObjectURL(url);
+  // Code lists and mappings share one import pipeline on the server
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+
+  const handleImported = (result: CodemapImportResponse) => {
+    toast.toast({
+      title: "Upload complete",
+      description: `Inserted ${result.summary.inserted}, skipped ${result.summary.skipped}.`,
+    });
   };
 
   const tabs: { id: TabType; label: string; icon: React.ReactNode }[] = [
@@ -221,6 +220,11 @@ export default function Admin() {
       label: "Mappings",
       icon: <TrendingUp className="w-4 h-4" />,
     },
+    {
+      id: "releases",
+      label: "Releases",
+      icon: <History className="w-4 h-4" />,
+    },
     {
       id: "coverage",
       label: "Coverage",
@@ -307,14 +311,15 @@ export default function Admin() {
                 <Plus className="w-4 h-4" />
                 {showCodeForm ? "Cancel" : "Add Code"}
               </Button>
-              <Button variant="outline" className="gap-2">
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => fileInputRef.current?.click()}
+              >
                 <Upload className="w-4 h-4" />
-                Upload CSV
-              </Button>
-              <Button variant="outline" className="gap-2">
-                <Download className="w-4 h-4" />
-                Export
+                Upload Code List
               </Button>
+              <CodemapExportMenu label="Export" className="gap-2" />
             </div>
 
             {showCodeForm && (
@@ -326,13 +331,17 @@ export default function Admin() {
                       <label className="text-sm font-medium mb-1 block">
                         Code *
                       </label>
-                      <Input
+                      <CodeCombobox
+                        valueSet="namaste"
                         placeholder="e.g., AYR-001"
                         value={codeFormData.code}
-                        onChange={(e) =>
+                        allowCustom
+                        onSelect={(concept) =>
                           setCodeFormData({
                             ...codeFormData,
-                            code: e.target.value,
+                            code: concept.code,
+                            description:
+                              concept.display ?? codeFormData.description,
                           })
                         }
                       />
@@ -430,18 +439,15 @@ export default function Admin() {
         {activeTab === "mappings" && (
           <div className="space-y-4">
             <div className="flex gap-3">
-              <Button variant="outline" className="gap-2">
-                <Upload className="w-4 h-4" />
-                Upload Mappings CSV
-              </Button>
               <Button
-                onClick={handleDownloadMappings}
                 variant="outline"
                 className="gap-2"
+                onClick={() => fileInputRef.current?.click()}
               >
-                <Download className="w-4 h-4" />
-                Export Mappings
+                <Upload className="w-4 h-4" />
+                Upload Mappings
               </Button>
+              <CodemapExportMenu className="gap-2" />
             </div>
 
             <div className="space-y-2">
@@ -501,6 +507,9 @@ export default function Admin() {
           </div>
         )}
 
+        {/* Releases Tab */}
+        {activeTab === "releases" && <TerminologyReleases />}
+
         {/* Coverage Tab */}
         {activeTab === "coverage" && (
           <div className="space-y-6">
@@ -754,6 +763,22 @@ export default function Admin() {
           </div>
         )}
       </div>
+
+      <input
+        type="file"
+        accept={CODE_LIST_ACCEPT}
+        ref={fileInputRef}
+        className="hidden"
+        onChange={(e) => {
+          setImportFile(e.target.files?.[0] ?? null);
+          e.target.value = "";
+        }}
+      />
+      <CodeImportDialog
+        file={importFile}
+        onClose={() => setImportFile(null)}
+        onImported={handleImported}
+      />
     </>
   );
 }
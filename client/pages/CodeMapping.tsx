@@ -1,38 +1,69 @@
-import { useEffect, useMemo, useRef, useState } from "react";
-import { supabase } from "../lib/supabaseClient";
+import { useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { CodeCombobox } from "@/components/CodeCombobox";
+import {
+  CODE_LIST_ACCEPT,
+  CodeImportDialog,
+} from "@/components/CodeImportDialog";
+import { CodemapExportMenu } from "@/components/CodemapExportMenu";
+import {
+  EMPTY_TARGET,
+  MappingTargetFields,
+  targetColumns,
+  targetDraftFor,
+  targetError,
+  type MappingTargetDraft,
+} from "@/components/MappingTargetFields";
+import { MappingSuggestions } from "@/components/MappingSuggestions";
+import { AutoMapPanel } from "@/components/AutoMapPanel";
+import { CodeAnalyticsPanel } from "@/components/CodeAnalyticsPanel";
+import {
+  MappingListFilters,
+  type MappingFilterUpdate,
+} from "@/components/MappingListFilters";
+import {
+  MappingWorkflowPanel,
+  STATUS_COLORS,
+} from "@/components/MappingWorkflowPanel";
+import { normalizeStatus, STATUS_LABELS } from "@shared/workflow";
+import {
+  EQUIVALENCE_LABELS,
+  formatIcd11Expression,
+  mappingVersion,
+} from "@shared/codemap";
+import type {
+  CodeCategory,
+  CodemapBulkRequest,
+  CodemapImportResponse,
+  CodemapListResponse,
+  MappingSuggestion,
+} from "@shared/api";
+import { apiFetch } from "@/lib/api";
 import {
   Upload,
-  Search,
   ArrowRight,
   Edit2,
   Trash2,
   Copy,
   Eye,
-  Download,
   Plus,
 } from "lucide-react";
-import Papa from "papaparse";
 import Modal from "@/components/ui/modal.tsx";
 import { useToast } from "@/components/ui/use-toast";
-import {
-  Chart as ChartJS,
-  ArcElement,
-  Tooltip,
-  Legend,
-} from "chart.js";
-import { Pie } from "react-chartjs-2";
-import { cn } from "@/lib/utils";
-
-ChartJS.register(ArcElement, Tooltip, Legend);
 
 export default function CodeMapping() {
   const toast = useToast();
 
+  // Filters, sort and search are kept in the URL
+  const [searchParams, setSearchParams] = useSearchParams();
   const [mappings, setMappings] = useState<any[]>([]);
-  const [search, setSearch] = useState("");
-  const [filterCategory, setFilterCategory] = useState("all");
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [targetCounts, setTargetCounts] = useState<Record<string, number>>(
+    {},
+  );
   const [editing, setEditing] = useState<any | null>(null);
   const [viewing, setViewing] = useState<any | null>(null);
   const [showForm, setShowForm] = useState(false);
@@ -40,236 +71,203 @@ export default function CodeMapping() {
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
+  // One codemap row is created per ICD-11 target
   const [formData, setFormData] = useState({
     namaste_code: "",
     namaste_name: "",
-    icd11_code: "",
-    icd11_name: "",
+    targets: [EMPTY_TARGET] as MappingTargetDraft[],
     category: "Ayurveda",
     symptoms: "",
     description: "",
-    status: "pending",
   });
 
-  // Fetch mappings
-  const fetchMappings = async () => {
+  // Fetch mappings one page at a time. Responses to an outdated filter
+  // are dropped, as are pages that arrive after the list was reset.
+  const requestId = useRef(0);
+  const loadMoreRef = useRef<HTMLButtonElement | null>(null);
+
+  const fetchMappings = async (cursor?: string) => {
+    const id = ++requestId.current;
+    const params = new URLSearchParams(searchParams);
+    if (cursor) params.set("cursor", cursor);
+
     setLoading(true);
-    const { data, error } = await supabase
-      .from("codemap")
-      .select("*")
-      .order("created_at", { ascending: false });
+    try {
+      const data = await apiFetch<CodemapListResponse>(
+        `/api/mappings?${params}`,
+      );
+      if (id !== requestId.current) return;
 
-    setLoading(false);
-    if (error) {
+      setMappings((current) =>
+        cursor ? [...current, ...data.mappings] : data.mappings,
+      );
+      setTargetCounts((current) =>
+        cursor ? { ...current, ...data.target_counts } : data.target_counts,
+      );
+      setTotal(data.total);
+      setNextCursor(data.next_cursor);
+    } catch (error: any) {
       console.error(error);
       toast.toast({
         title: "Error",
         description: error.message,
         variant: "destructive",
       });
-      return;
+    } finally {
+      if (id === requestId.current) setLoading(false);
     }
-    setMappings(data || []);
   };
 
-  useEffect(() => {
-    fetchMappings();
-  }, []);
-
-  // Normalize keys
-  const normalizeKey = (k: string) => k.toString().trim().toLowerCase();
-
-  const mapRowToCodemap = (row: Record<string, any>) => {
-    const normalized: Record<string, any> = {};
-    Object.keys(row || {}).forEach((k) => {
-      normalized[normalizeKey(k)] = row[k];
-    });
-
-    const find = (keys: string[]) => {
-      for (const k of keys) {
-        if (normalized[k] !== undefined && String(normalized[k]).trim() !== "") {
-          return normalized[k];
+  const updateFilters = (update: MappingFilterUpdate) =>
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        for (const [key, value] of Object.entries(update)) {
+          if (value) next.set(key, value);
+          else next.delete(key);
         }
-      }
-      return undefined;
-    };
-
-    return {
-      namaste_code: find(["namaste_code", "namaste code", "namaste"]) || "",
-      namaste_name: find(["namaste_name", "namaste name"]) || null,
-      icd11_code: find(["icd11_code", "icd11 code", "icd_code", "icd"]) || "",
-      icd11_name: find(["icd11_name", "icd name"]) || null,
-      category: find(["category", "system"]) || "Ayurveda",
-      symptoms: find(["symptoms", "symptom"]) || null,
-      description: find(["description", "desc"]) || null,
-      status: (find(["status"]) || "pending").toString().toLowerCase(),
-    };
-  };
-
-  // Filter duplicates
-  const filterOutExisting = async (rows: any[]) => {
-    if (!rows.length) return [];
-
-    const existingSet = new Set<string>();
-    const chunkSize = 100;
-
-    for (let i = 0; i < rows.length; i += chunkSize) {
-      const chunk = rows.slice(i, i + chunkSize);
-      const namasteCodes = chunk.map((r) => r.namaste_code);
-
-      const { data } = await supabase
-        .from("codemap")
-        .select("namaste_code, icd11_code")
-        .in("namaste_code", namasteCodes);
-
-      (data || []).forEach((r: any) => {
-        existingSet.add(
-          `${r.namaste_code.toLowerCase()}||${r.icd11_code.toLowerCase()}`
-        );
-      });
-    }
-
-    const uniqueRows = rows.filter((r) => {
-      const key = `${r.namaste_code.toLowerCase()}||${r.icd11_code.toLowerCase()}`;
-      return !existingSet.has(key);
-    });
-
-    return {
-      uniqueRows,
-      skipped: rows.length - uniqueRows.length,
-    };
-  };
-
-  // CSV upload
-  const handleCSVUpload = (e: any) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: async (results) => {
-        const parsed = results.data || [];
-
-        const mapped = parsed
-          .map(mapRowToCodemap)
-          .filter((r) => r.namaste_code && r.icd11_code);
-
-        const { uniqueRows, skipped } = await filterOutExisting(mapped);
-
-        if (!uniqueRows.length) {
-          toast.toast({
-            title: "No new rows",
-            description: `${mapped.length} rows existed already.`,
-          });
-          return;
-        }
-
-        const { error } = await supabase.from("codemap").insert(uniqueRows);
-
-        if (error) {
-          toast.toast({
-            title: "Insert error",
-            description: error.message,
-            variant: "destructive",
-          });
-          return;
-        }
-
-        toast.toast({
-          title: "Upload complete",
-          description: `Inserted ${uniqueRows.length}, skipped ${skipped}.`,
-        });
-
-        fetchMappings();
+        return next;
       },
+      { replace: true },
+    );
+
+  // Someone else changed the row since it was loaded: show theirs
+  const handleWriteError = (title: string, error: any) => {
+    toast.toast({
+      title: error.status === 412 ? "Mapping changed" : title,
+      description: error.message,
+      variant: "destructive",
     });
+    if (error.status === 412) {
+      setEditing(null);
+      fetchMappings();
+    }
   };
 
-  // Export CSV
-  const handleCSVExport = async () => {
-    const { data } = await supabase.from("codemap").select("*");
+  useEffect(() => {
+    fetchMappings();
+  }, [searchParams.toString()]);
 
-    if (!data?.length) {
-      toast.toast({ title: "No data", description: "Nothing to export." });
-      return;
-    }
+  // Infinite scroll: load the next page once the button comes into view
+  useEffect(() => {
+    const button = loadMoreRef.current;
+    if (!button || !nextCursor || loading) return;
 
-    const csv = Papa.unparse(data);
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) fetchMappings(nextCursor);
+    });
+    observer.observe(button);
+    return () => observer.disconnect();
+  }, [nextCursor, loading]);
 
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
+  // Code list upload: the dialog runs a server-side dry run first
+  const [importFile, setImportFile] = useState<File | null>(null);
 
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = "codemap_export.csv";
-    link.click();
+  const handleCodeListUpload = (e: any) => {
+    setImportFile(e.target.files?.[0] ?? null);
+    e.target.value = "";
+  };
 
-    URL.revokeObjectURL(url);
+  const handleImported = (result: CodemapImportResponse) => {
+    toast.toast({
+      title: "Upload complete",
+      description: `Inserted ${result.summary.inserted}, skipped ${result.summary.skipped}.`,
+    });
+    fetchMappings();
   };
 
   // Create manual mapping
   const handleCreateMapping = async (e: any) => {
     e.preventDefault();
 
-    const { error } = await supabase.from("codemap").insert([formData]);
-
-    if (error) {
+    const invalid = formData.targets.map(targetError).find(Boolean);
+    if (invalid) {
       toast.toast({
-        title: "Insert error",
-        description: error.message,
+        title: "Invalid target",
+        description: invalid,
         variant: "destructive",
       });
       return;
     }
 
+    // One request, so either every target is created or none is
+    const { targets, ...source } = formData;
+    const request: CodemapBulkRequest = {
+      create: targets.map((target) => ({
+        ...source,
+        category: source.category as CodeCategory,
+        ...targetColumns(target),
+      })),
+    };
+
+    try {
+      await apiFetch("/api/mappings/bulk", {
+        method: "POST",
+        body: JSON.stringify(request),
+      });
+    } catch (error: any) {
+      handleWriteError("Insert error", error);
+      return;
+    }
+
     toast.toast({ title: "Created" });
     setShowForm(false);
     setFormData({
       namaste_code: "",
       namaste_name: "",
-      icd11_code: "",
-      icd11_name: "",
+      targets: [EMPTY_TARGET],
       category: "Ayurveda",
       symptoms: "",
       description: "",
-      status: "pending",
     });
 
     fetchMappings();
   };
 
-  // Edit mapping
-  const saveEdit = async (data: any) => {
-    const { error } = await supabase
-      .from("codemap")
-      .update(data)
-      .eq("id", data.id);
-
-    if (error) {
+  // Edit mapping; `target` holds the ICD-11 side as a form draft
+  const saveEdit = async ({ target, ...data }: any) => {
+    const invalid = targetError(target);
+    if (invalid) {
       toast.toast({
-        title: "Update error",
-        description: error.message,
+        title: "Invalid target",
+        description: invalid,
         variant: "destructive",
       });
       return;
     }
 
+    try {
+      await apiFetch(`/api/mappings/${data.id}`, {
+        method: "PATCH",
+        headers: { "If-Match": `"${mappingVersion(data)}"` },
+        body: JSON.stringify({
+          namaste_code: data.namaste_code,
+          namaste_name: data.namaste_name,
+          category: data.category,
+          description: data.description,
+          symptoms: data.symptoms,
+          ...targetColumns(target),
+        }),
+      });
+    } catch (error: any) {
+      handleWriteError("Update error", error);
+      return;
+    }
+
     toast.toast({ title: "Updated" });
     setEditing(null);
     fetchMappings();
   };
 
   // Delete mapping
-  const handleDelete = async (id: string) => {
-    const { error } = await supabase.from("codemap").delete().eq("id", id);
-
-    if (error) {
-      toast.toast({
-        title: "Delete error",
-        description: error.message,
-        variant: "destructive",
+  const handleDelete = async (item: any) => {
+    try {
+      await apiFetch(`/api/mappings/${item.id}`, {
+        method: "DELETE",
+        headers: { "If-Match": `"${mappingVersion(item)}"` },
       });
+    } catch (error: any) {
+      handleWriteError("Delete error", error);
       return;
     }
 
@@ -277,21 +275,31 @@ export default function CodeMapping() {
     fetchMappings();
   };
 
-  const filteredMappings = useMemo(() => {
-    const s = search.toLowerCase();
-    return mappings.filter((item) => {
-      const match =
-        item.namaste_code?.toLowerCase().includes(s) ||
-        item.namaste_name?.toLowerCase().includes(s) ||
-        item.icd11_code?.toLowerCase().includes(s) ||
-        item.icd11_name?.toLowerCase().includes(s);
-
-      return (
-        match &&
-        (filterCategory === "all" || item.category === filterCategory)
-      );
+  const setTarget = (index: number, target: MappingTargetDraft) =>
+    setFormData({
+      ...formData,
+      targets: formData.targets.map((t, i) => (i === index ? target : t)),
     });
-  }, [search, filterCategory, mappings]);
+
+  // A picked suggestion fills the first empty target or adds a new one
+  const handlePickSuggestion = (suggestion: MappingSuggestion) => {
+    const target: MappingTargetDraft = {
+      ...EMPTY_TARGET,
+      icd11_code: suggestion.icd11Code,
+      icd11_name: suggestion.icd11Description,
+      equivalence: "inexact",
+      confidence: suggestion.confidence,
+    };
+    const empty = formData.targets.findIndex((t) => !t.icd11_code.trim());
+
+    setFormData({
+      ...formData,
+      targets:
+        empty === -1
+          ? [...formData.targets, target]
+          : formData.targets.map((t, i) => (i === empty ? target : t)),
+    });
+  };
 
   const categoryColor = (cat: string) => {
     switch (cat) {
@@ -306,29 +314,6 @@ export default function CodeMapping() {
     }
   };
 
-  const getChartData = (item: any) => ({
-    labels: item.symptoms
-      ? item.symptoms.split(",").map((s: string) => s.trim())
-      : [],
-    datasets: [
-      {
-        label: "Count",
-        data: item.symptoms
-          ? item.symptoms.split(",").map(() => Math.floor(Math.random() * 50 + 1))
-          : [],
-        backgroundColor: [
-          "#f87171",
-          "#60a5fa",
-          "#34d399",
-          "#fbbf24",
-          "#a78bfa",
-          "#f472b6",
-          "#facc15",
-        ],
-      },
-    ],
-  });
-
   return (
     <div className="p-6 max-w-6xl mx-auto space-y-8">
       <div className="flex flex-col gap-4">
@@ -342,10 +327,10 @@ export default function CodeMapping() {
         <div className="flex flex-wrap gap-3 mt-2">
           <input
             type="file"
-            accept=".csv"
+            accept={CODE_LIST_ACCEPT}
             ref={fileInputRef}
             className="hidden"
-            onChange={handleCSVUpload}
+            onChange={handleCodeListUpload}
           />
 
           <Button
@@ -355,13 +340,7 @@ export default function CodeMapping() {
             <Upload className="w-4 h-4" /> Upload Code List
           </Button>
 
-          <Button
-            variant="outline"
-            className="gap-2 px-5 py-3"
-            onClick={handleCSVExport}
-          >
-            <Download className="w-4 h-4" /> Export Mappings
-          </Button>
+          <CodemapExportMenu className="gap-2 px-5 py-3" />
 
           <Button
             variant="outline"
@@ -374,36 +353,13 @@ export default function CodeMapping() {
         </div>
       </div>
 
-      <div className="flex flex-col gap-4">
-        <div className="relative">
-          <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-          <Input
-            placeholder="Search codes, names, symptoms..."
-            className="pl-10"
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-          />
-        </div>
+      <AutoMapPanel onProgress={fetchMappings} />
 
-        <div className="flex gap-2 flex-wrap">
-          {["all", "Ayurveda", "Siddha", "Unani"].map((c) => (
-            <button
-              key={c}
-              onClick={() => setFilterCategory(c)}
-              className={cn(
-                "px-3 py-1.5 rounded-lg text-sm font-medium",
-                filterCategory === c
-                  ? "bg-primary text-primary-foreground"
-                  : "bg-muted text-foreground hover:bg-muted/80"
-              )}
-            >
-              {c === "all" ? "All Categories" : c}
-            </button>
-          ))}
-        </div>
+      <div className="flex flex-col gap-4">
+        <MappingListFilters params={searchParams} onChange={updateFilters} />
 
         <p className="text-sm text-muted-foreground">
-          {filteredMappings.length} of {mappings.length} mappings
+          {mappings.length} of {total} mappings
         </p>
       </div>
 
@@ -415,10 +371,18 @@ export default function CodeMapping() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="text-sm font-medium">NAMASTE Code *</label>
-                <Input
+                <CodeCombobox
+                  valueSet="namaste"
+                  category={formData.category}
                   value={formData.namaste_code}
-                  onChange={(e) =>
-                    setFormData({ ...formData, namaste_code: e.target.value })
+                  placeholder="Search or enter a NAMASTE code..."
+                  allowCustom
+                  onSelect={(concept) =>
+                    setFormData({
+                      ...formData,
+                      namaste_code: concept.code,
+                      namaste_name: concept.display ?? formData.namaste_name,
+                    })
                   }
                 />
               </div>
@@ -449,26 +413,49 @@ export default function CodeMapping() {
               />
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="text-sm font-medium">ICD-11 Code *</label>
-                <Input
-                  value={formData.icd11_code}
-                  onChange={(e) =>
-                    setFormData({ ...formData, icd11_code: e.target.value })
-                  }
-                />
-              </div>
-
-              <div>
-                <label className="text-sm font-medium">ICD-11 Name</label>
-                <Input
-                  value={formData.icd11_name}
-                  onChange={(e) =>
-                    setFormData({ ...formData, icd11_name: e.target.value })
+            <div className="space-y-3">
+              <label className="text-sm font-medium">ICD-11 Targets</label>
+              <MappingSuggestions
+                source={{
+                  namaste_code: formData.namaste_code || undefined,
+                  namaste_name: formData.namaste_name || undefined,
+                  description: formData.description || undefined,
+                  symptoms: formData.symptoms || undefined,
+                  category: formData.category as CodeCategory,
+                }}
+                onPick={handlePickSuggestion}
+              />
+              {formData.targets.map((target, index) => (
+                <MappingTargetFields
+                  key={index}
+                  target={target}
+                  onChange={(updated) => setTarget(index, updated)}
+                  onRemove={
+                    formData.targets.length > 1
+                      ? () =>
+                          setFormData({
+                            ...formData,
+                            targets: formData.targets.filter(
+                              (_, i) => i !== index
+                            ),
+                          })
+                      : undefined
                   }
                 />
-              </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setFormData({
+                    ...formData,
+                    targets: [...formData.targets, EMPTY_TARGET],
+                  })
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add another target
+              </Button>
             </div>
 
             <div>
@@ -512,12 +499,12 @@ export default function CodeMapping() {
       {/* PART 2 STARTS IN NEXT MESSAGE */}
 
       {/* LISTING */}
-      {filteredMappings.length === 0 ? (
+      {mappings.length === 0 ? (
         <p className="text-center text-muted-foreground mt-10">
           No mappings found.
         </p>
       ) : (
-        filteredMappings.map((item) => (
+        mappings.map((item) => (
           <div
             key={item.id}
             className="
@@ -569,8 +556,13 @@ export default function CodeMapping() {
               </div>
 
               {/* ARROW */}
-              <div className="flex items-center justify-center">
+              <div className="flex flex-col items-center justify-center gap-1">
                 <ArrowRight className="w-8 h-8 text-gray-400 dark:text-gray-300" />
+                {item.equivalence && (
+                  <span className="text-xs text-muted-foreground">
+                    {EQUIVALENCE_LABELS[item.equivalence]}
+                  </span>
+                )}
               </div>
 
               {/* RIGHT SIDE — ICD */}
@@ -581,12 +573,22 @@ export default function CodeMapping() {
 
                 <div className="flex items-center justify-end gap-2">
                   <p className="text-2xl font-bold tracking-wide text-primary/60 dark:text-primary/70">
-                    {item.icd11_code}
+                    {item.icd11_code
+                      ? formatIcd11Expression(
+                          item.icd11_code,
+                          item.icd11_extensions
+                        )
+                      : "—"}
                   </p>
 
                   <button
                     onClick={() =>
-                      navigator.clipboard.writeText(item.icd11_code)
+                      navigator.clipboard.writeText(
+                        formatIcd11Expression(
+                          item.icd11_code,
+                          item.icd11_extensions
+                        )
+                      )
                     }
                     className="p-1 rounded hover:bg-gray-200 dark:hover:bg-white/10 transition"
                   >
@@ -613,30 +615,42 @@ export default function CodeMapping() {
             <div className="mt-5 flex items-center gap-2">
               <span
                 className={`w-3 h-3 rounded-full ${
-                  item.status === "verified"
-                    ? "bg-green-500"
-                    : item.status === "pending"
-                    ? "bg-yellow-500"
-                    : "bg-red-500"
+                  STATUS_COLORS[normalizeStatus(item.status)]
                 }`}
               ></span>
 
-              <span
-                className={`text-sm font-medium ${
-                  item.status === "verified"
-                    ? "text-green-600 dark:text-green-400"
-                    : item.status === "pending"
-                    ? "text-yellow-600 dark:text-yellow-400"
-                    : "text-red-600 dark:text-red-400"
-                }`}
-              >
-                {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+              <span className="text-sm font-medium">
+                {STATUS_LABELS[normalizeStatus(item.status)]}
               </span>
+
+              {item.reviewer && (
+                <span className="text-xs text-muted-foreground">
+                  · Reviewer {item.reviewer}
+                </span>
+              )}
+
+              {(targetCounts[item.namaste_code] ?? 0) > 1 && (
+                <span className="text-xs text-muted-foreground">
+                  · 1 of {targetCounts[item.namaste_code]} ICD-11 targets
+                </span>
+              )}
+
+              {item.retired_in && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">
+                  Code retired in {item.retired_in}
+                </span>
+              )}
             </div>
 
             {/* ACTION BUTTONS */}
             <div className="mt-4 flex justify-end gap-2">
-              <Button variant="outline" size="sm" onClick={() => setEditing(item)}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setEditing({ ...item, target: targetDraftFor(item) })
+                }
+              >
                 <Edit2 className="w-4 h-4 mr-1" /> Edit
               </Button>
 
@@ -647,7 +661,7 @@ export default function CodeMapping() {
               <Button
                 variant="destructive"
                 size="sm"
-                onClick={() => handleDelete(item.id)}
+                onClick={() => handleDelete(item)}
               >
                 <Trash2 className="w-4 h-4 mr-1" /> Delete
               </Button>
@@ -656,6 +670,19 @@ export default function CodeMapping() {
         ))
       )}
 
+      {nextCursor && (
+        <div className="flex justify-center">
+          <Button
+            ref={loadMoreRef}
+            variant="outline"
+            disabled={loading}
+            onClick={() => fetchMappings(nextCursor)}
+          >
+            {loading ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+
       {/* EDIT MODAL */}
       {editing && (
         <Modal title="Edit Code Mapping" onClose={() => setEditing(null)}>
@@ -663,12 +690,9 @@ export default function CodeMapping() {
             {[
               "namaste_code",
               "namaste_name",
-              "icd11_code",
-              "icd11_name",
               "category",
               "description",
               "symptoms",
-              "status",
             ].map((field) => (
               <div key={field}>
                 <p className="text-sm font-medium capitalize">
@@ -683,6 +707,11 @@ export default function CodeMapping() {
               </div>
             ))}
 
+            <MappingTargetFields
+              target={editing.target}
+              onChange={(target) => setEditing({ ...editing, target })}
+            />
+
             <div className="flex gap-3 mt-4">
               <Button onClick={() => saveEdit(editing)}>Save Changes</Button>
               <Button variant="outline" onClick={() => setEditing(null)}>
@@ -703,38 +732,34 @@ export default function CodeMapping() {
             <div className="flex flex-col gap-3 pb-6">
               <p><strong>NAMASTE Code:</strong> {viewing.namaste_code}</p>
               <p><strong>NAMASTE Name:</strong> {viewing.namaste_name}</p>
-              <p><strong>ICD-11 Code:</strong> {viewing.icd11_code}</p>
+              <p>
+                <strong>ICD-11 Code:</strong>{" "}
+                {formatIcd11Expression(
+                  viewing.icd11_code,
+                  viewing.icd11_extensions
+                )}
+              </p>
               <p><strong>ICD-11 Name:</strong> {viewing.icd11_name}</p>
+              <p>
+                <strong>Equivalence:</strong>{" "}
+                {EQUIVALENCE_LABELS[viewing.equivalence] ?? "Not recorded"}
+              </p>
               <p><strong>Category:</strong> {viewing.category}</p>
               <p><strong>Symptoms:</strong> {viewing.symptoms}</p>
               <p><strong>Description:</strong> {viewing.description}</p>
-              <p><strong>Status:</strong> {viewing.status}</p>
-
-              {/* PIE CHART */}
-              <div className="mt-4 flex justify-center">
-                <Pie
-                  data={getChartData(viewing)}
-                  options={{
-                    plugins: {
-                      legend: { position: "bottom" },
-                      tooltip: {
-                        callbacks: {
-                          label: (context: any) => {
-                            const total = context.dataset.data.reduce(
-                              (a: number, b: number) => a + b,
-                              0
-                            );
-                            const value = context.raw;
-                            const percentage = ((value / total) * 100).toFixed(
-                              1
-                            );
-                            return `${context.label}: ${percentage}% (${value})`;
-                          },
-                        },
-                      },
-                    },
-                  }}
-                />
+              <MappingWorkflowPanel
+                mapping={viewing}
+                onChanged={(updated) => {
+                  setViewing(updated);
+                  setMappings((prev) =>
+                    prev.map((m) => (m.id === updated.id ? updated : m))
+                  );
+                }}
+              />
+
+              {/* USAGE */}
+              <div className="mt-4">
+                <CodeAnalyticsPanel namasteCode={viewing.namaste_code} />
               </div>
 
               {/* DOWNLOAD */}
@@ -744,8 +769,9 @@ export default function CodeMapping() {
                     const csv = `data:text/csv;charset=utf-8,
 NAMASTE Code,${viewing.namaste_code}
 NAMASTE Name,${viewing.namaste_name}
-ICD-11 Code,${viewing.icd11_code}
+ICD-11 Code,${formatIcd11Expression(viewing.icd11_code, viewing.icd11_extensions)}
 ICD-11 Name,${viewing.icd11_name}
+Equivalence,${viewing.equivalence ?? ""}
 Category,${viewing.category}
 Symptoms,${viewing.symptoms}
 Description,${(viewing.description || "").replace(/\n/g, " ")}
@@ -764,6 +790,12 @@ Status,${viewing.status}`;
           </div>
         </Modal>
       )}
+
+      <CodeImportDialog
+        file={importFile}
+        onClose={() => setImportFile(null)}
+        onImported={handleImported}
+      />
     </div>
   );
 }
@@ -32,7 +32,7 @@ export default function Login() {
 
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { manualLogin } = useAuth();
+  const { login, signup } = useAuth();
 
   const API = "http://localhost:8080/api/auth";
 
@@ -132,14 +132,9 @@ export default function Login() {
       const data = await res.json();
       if (!res.ok) throw new Error(data.error);
 
-      // Save user inside Auth Context
-      manualLogin({
-        id: data?.user?._id || "",
-        email: data.user.email,
-        firstName: data.user.firstName,
-        lastName: data.user.lastName,
-        role: data.user.role || "user",
-      });
+      // Create the Supabase account the API requests are authorised with,
+      // and start its session
+      await signup(email, password, firstName, lastName);
 
       toast({ title: "Account Created" });
       navigate("/");
@@ -171,13 +166,8 @@ export default function Login() {
 
       if (!res.ok) throw new Error(data.error || "Invalid credentials");
 
-      manualLogin({
-        id: data?.user?._id || "",
-        email: data.user.email,
-        firstName: data.user.firstName,
-        lastName: data.user.lastName,
-        role: data.user.role || "user",
-      });
+      // Start the Supabase session the API requests are authorised with
+      await login(email, password);
 
       toast({ title: "Login Successful" });
       navigate("/");
@@ -2,9 +2,17 @@ import { useEffect, useState } from "react";
 import { Link, useParams } from "react-router-dom";
 
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { supabase } from "@/lib/supabaseClient";
-import { ArrowLeft, Download, Plus, Trash2 } from "lucide-react";
+import { CodeCombobox } from "@/components/CodeCombobox";
+import type { Bundle, Parameters, ValueSetContains } from "@shared/fhir";
+import type {
+  AuditEventListResponse,
+  AuditEventRow,
+  NewPatientDiagnosisRequest,
+  PatientDiagnosisRow,
+  PatientRow,
+} from "@shared/api";
+import { apiFetch } from "@/lib/api";
+import { ArrowLeft, Download, History, Plus, Trash2 } from "lucide-react";
 
 interface Patient {
   id: string;
@@ -21,21 +29,6 @@ interface Patient {
   createdAt: string;
 }
 
-interface PatientRow {
-  id: string;
-  created_at: string;
-  first_name: string;
-  last_name: string;
-  date_of_birth: string | null;
-  gender: "male" | "female" | "other" | null;
-  admit_date: string | null;
-  email: string | null;
-  phone: string | null;
-  guardian_name: string | null;
-  guardian_phone: string | null;
-  address: string | null;
-}
-
 interface Diagnosis {
   id: string;
   namasteCode: string;
@@ -43,18 +36,40 @@ interface Diagnosis {
   symptoms?: string;
   clinicalNotes?: string;
   recordedAt: string;
+  // Sent back as If-Match, so a delete only removes what was shown
+  version: number;
 }
 
-interface DiagnosisRow {
+// One write to the patient or their diagnoses, as audited
+interface TimelineEntry {
   id: string;
-  created_at: string;
-  patient_id: string;
-  namaste_code: string;
-  icd11_code: string;
-  symptoms: string | null;
-  clinical_notes: string | null;
+  summary: string;
+  agent: string;
+  recordedAt: string;
+  // The codemap version a diagnosis' ICD-11 code was taken from
+  mappingVersion?: string;
 }
 
+function mapAuditEvent(row: AuditEventRow): TimelineEntry {
+  return {
+    id: row.id,
+    summary: row.summary,
+    agent: row.agent || "unknown",
+    recordedAt: row.recorded_at.slice(0, 19).replace("T", " "),
+    mappingVersion:
+      row.source_mapping_version?.slice(0, 19).replace("T", " ") || undefined,
+  };
+}
+
+// Newest first; the page works without it
+const fetchTimeline = (patientId: string) =>
+  apiFetch<AuditEventListResponse>(`/api/patients/${patientId}/audit`)
+    .then((data) => data.events.map(mapAuditEvent))
+    .catch((error) => {
+      console.error("Timeline load error:", error);
+      return [];
+    });
+
 function mapPatient(row: PatientRow): Patient {
   return {
     id: row.id,
@@ -72,7 +87,7 @@ function mapPatient(row: PatientRow): Patient {
   };
 }
 
-function mapDiagnosis(row: DiagnosisRow): Diagnosis {
+function mapDiagnosis(row: PatientDiagnosisRow): Diagnosis {
   return {
     id: row.id,
     namasteCode: row.namaste_code,
@@ -80,6 +95,7 @@ function mapDiagnosis(row: DiagnosisRow): Diagnosis {
     symptoms: row.symptoms || undefined,
     clinicalNotes: row.clinical_notes || undefined,
     recordedAt: row.created_at.slice(0, 19).replace("T", " "),
+    version: row.version_id,
   };
 }
 
@@ -87,6 +103,7 @@ export default function PatientDetail() {
   const { patientId } = useParams();
   const [patient, setPatient] = useState<Patient | null>(null);
   const [diagnoses, setDiagnoses] = useState<Diagnosis[]>([]);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
 
@@ -103,36 +120,22 @@ export default function PatientDetail() {
 
       setLoading(true);
 
-      const { data: patientData, error: patientError } = await supabase
-        .from("patients")
-        .select("*")
-        .eq("id", patientId)
-        .maybeSingle();
-
-      if (patientError) {
-        console.error("Patient load error:", patientError);
-        setPatient(null);
-        setLoading(false);
-        return;
-      }
-
-      if (patientData) {
-        setPatient(mapPatient(patientData as PatientRow));
-      } else {
+      try {
+        const [patientData, diagData, timelineData] = await Promise.all([
+          apiFetch<PatientRow>(`/api/patients/${patientId}`),
+          apiFetch<{ diagnoses: PatientDiagnosisRow[] }>(
+            `/api/patients/${patientId}/diagnoses`,
+          ),
+          fetchTimeline(patientId),
+        ]);
+        setPatient(mapPatient(patientData));
+        setDiagnoses(diagData.diagnoses.map(mapDiagnosis));
+        setTimeline(timelineData);
+      } catch (error) {
+        console.error("Patient load error:", error);
         setPatient(null);
-      }
-
-      const { data: diagData, error: diagError } = await supabase
-        .from("patient_diagnoses")
-        .select("*")
-        .eq("patient_id", patientId)
-        .order("created_at", { ascending: true });
-
-      if (diagError) {
-        console.error("Diagnosis load error:", diagError);
         setDiagnoses([]);
-      } else if (diagData) {
-        setDiagnoses((diagData as DiagnosisRow[]).map(mapDiagnosis));
+        setTimeline([]);
       }
 
       setLoading(false);
@@ -145,29 +148,29 @@ export default function PatientDetail() {
     e.preventDefault();
     if (!patient || !formData.namasteCode || !formData.icd11Code) return;
 
-    const { data, error } = await supabase
-      .from("patient_diagnoses")
-      .insert({
-        patient_id: patient.id,
-        namaste_code: formData.namasteCode,
-        icd11_code: formData.icd11Code,
-        symptoms: formData.symptoms || null,
-        clinical_notes: formData.clinicalNotes || null,
-      })
-      .select()
-      .single();
-
-    if (error) {
+    const body: NewPatientDiagnosisRequest = {
+      namaste_code: formData.namasteCode,
+      icd11_code: formData.icd11Code,
+      symptoms: formData.symptoms || null,
+      clinical_notes: formData.clinicalNotes || null,
+    };
+
+    try {
+      const data = await apiFetch<PatientDiagnosisRow>(
+        `/api/patients/${patient.id}/diagnoses`,
+        { method: "POST", body: JSON.stringify(body) },
+      );
+      setDiagnoses((prev) => [...prev, mapDiagnosis(data)]);
+      setTimeline(await fetchTimeline(patient.id));
+    } catch (error: any) {
       console.error("Add diagnosis error:", error);
-      alert("Failed to add diagnosis.");
+      // 422: the NAMASTE code is not in the terminology
+      alert(
+        error.status === 422 ? error.message : "Failed to add diagnosis.",
+      );
       return;
     }
 
-    if (data) {
-      const newDiag = mapDiagnosis(data as DiagnosisRow);
-      setDiagnoses((prev) => [...prev, newDiag]);
-    }
-
     setFormData({
       namasteCode: "",
       icd11Code: "",
@@ -177,82 +180,71 @@ export default function PatientDetail() {
     setShowForm(false);
   };
 
-  const handleDeleteDiagnosis = async (id: string) => {
+  // Pre-fill the ICD-11 code from the codemap when the NAMASTE code has one
+  const handleSelectNamaste = async (concept: ValueSetContains) => {
+    setFormData((prev) => ({ ...prev, namasteCode: concept.code }));
+
+    const params = new URLSearchParams({
+      system: concept.system,
+      code: concept.code,
+    });
+    const res = await fetch(`/fhir/ConceptMap/$translate?${params}`);
+    if (!res.ok) return;
+
+    const result: Parameters = await res.json();
+    // Unmatched entries carry no concept, so take the first that does
+    const target = result.parameter
+      .filter((p) => p.name === "match")
+      .map((m) => m.part?.find((p) => p.name === "concept")?.valueCoding)
+      .find((coding) => coding?.code);
+
+    if (target?.code) {
+      setFormData((prev) => ({ ...prev, icd11Code: target.code! }));
+    }
+  };
+
+  const handleDeleteDiagnosis = async (diagnosis: Diagnosis) => {
     const ok = window.confirm("Delete this diagnosis?");
     if (!ok) return;
 
-    const { error } = await supabase
-      .from("patient_diagnoses")
-      .delete()
-      .eq("id", id);
-
-    if (error) {
+    try {
+      await apiFetch(`/api/patients/${patientId}/diagnoses/${diagnosis.id}`, {
+        method: "DELETE",
+        headers: { "If-Match": `"${diagnosis.version}"` },
+      });
+    } catch (error: any) {
       console.error("Delete diagnosis error:", error);
-      alert("Failed to delete diagnosis.");
+      alert(error.status === 412 ? error.message : "Failed to delete diagnosis.");
+      // 412: someone else changed it since it was loaded; show theirs
+      if (error.status === 412) {
+        const data = await apiFetch<{ diagnoses: PatientDiagnosisRow[] }>(
+          `/api/patients/${patientId}/diagnoses`,
+        ).catch(() => null);
+        if (data) setDiagnoses(data.diagnoses.map(mapDiagnosis));
+      }
       return;
     }
 
-    setDiagnoses((prev) => prev.filter((d) => d.id !== id));
+    setDiagnoses((prev) => prev.filter((d) => d.id !== diagnosis.id));
+    if (patientId) setTimeline(await fetchTimeline(patientId));
   };
 
-  const exportFHIR = () => {
+  // The server codes each Condition in both NAMASTE and ICD-11, and
+  // validates the bundle against the ABDM profiles before sending it
+  const exportFHIR = async () => {
     if (!patient) return;
 
-    const bundle = {
-      resourceType: "Bundle",
-      type: "document",
-      timestamp: new Date().toISOString(),
-      entry: [
-        {
-          resource: {
-            resourceType: "Patient",
-            id: patient.id,
-            name: [
-              {
-                use: "official",
-                given: [patient.firstName],
-                family: patient.lastName,
-              },
-            ],
-            birthDate: patient.dateOfBirth,
-            gender: patient.gender,
-            telecom: [
-              patient.email ? { system: "email", value: patient.email } : null,
-              patient.phone ? { system: "phone", value: patient.phone } : null,
-            ].filter(Boolean),
-            address: patient.address
-              ? [
-                  {
-                    text: patient.address,
-                  },
-                ]
-              : undefined,
-          },
-        },
-        ...diagnoses.map((d) => ({
-          resource: {
-            resourceType: "Condition",
-            id: d.id,
-            code: {
-              coding: [
-                {
-                  system: "http://id.who.int/icd/release/11/mms",
-                  code: d.icd11Code,
-                },
-              ],
-            },
-            subject: {
-              reference: `Patient/${patient.id}`,
-            },
-            recordedDate: d.recordedAt,
-            note: [
-              ...(d.symptoms ? [{ text: `Symptoms: ${d.symptoms}` }] : []),
-              ...(d.clinicalNotes ? [{ text: d.clinicalNotes }] : []),
-            ],
-          },
-        })),
-      ],
-    };
+    let bundle: Bundle;
+    try {
+      bundle = await apiFetch<Bundle>(`/api/patients/${patient.id}/fhir`);
+    } catch (error: any) {
+      console.error("FHIR export error:", error);
+      // 422: the bundle does not conform to the ABDM profiles
+      alert(
+        error.status === 422 ? error.message : "Failed to export FHIR bundle.",
+      );
+      return;
+    }
 
     const blob = new Blob([JSON.stringify(bundle, null, 2)], {
       type: "application/json",
@@ -346,20 +338,27 @@ export default function PatientDetail() {
           <div className="rounded-lg border border-border p-4">
             <form onSubmit={handleAddDiagnosis} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <InputField
-                  label="Namaste Code *"
-                  value={formData.namasteCode}
-                  onChange={(v) =>
-                    setFormData({ ...formData, namasteCode: v })
-                  }
-                />
-                <InputField
-                  label="ICD-11 Code *"
-                  value={formData.icd11Code}
-                  onChange={(v) =>
-                    setFormData({ ...formData, icd11Code: v })
-                  }
-                />
+                <div>
+                  <label className="text-sm mb-1 block">Namaste Code *</label>
+                  <CodeCombobox
+                    valueSet="namaste"
+                    value={formData.namasteCode}
+                    placeholder="Search NAMASTE codes..."
+                    onSelect={handleSelectNamaste}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm mb-1 block">ICD-11 Code *</label>
+                  <CodeCombobox
+                    valueSet="icd11-mapped"
+                    value={formData.icd11Code}
+                    placeholder="Search ICD-11 codes..."
+                    allowCustom
+                    onSelect={(concept) =>
+                      setFormData({ ...formData, icd11Code: concept.code })
+                    }
+                  />
+                </div>
               </div>
 
               <div>
@@ -429,7 +428,7 @@ export default function PatientDetail() {
                   size="sm"
                   variant="outline"
                   className="text-destructive"
-                  onClick={() => handleDeleteDiagnosis(d.id)}
+                  onClick={() => handleDeleteDiagnosis(d)}
                 >
                   <Trash2 className="w-4 h-4" />
                   Delete
@@ -439,6 +438,33 @@ export default function PatientDetail() {
           </div>
         )}
       </div>
+
+      <div className="space-y-4 border-t border-border pt-8">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Timeline
+        </h2>
+
+        {timeline.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            No changes recorded yet.
+          </p>
+        ) : (
+          <ol className="border-l border-border ml-2 space-y-4">
+            {timeline.map((entry) => (
+              <li key={entry.id} className="pl-4 relative">
+                <span className="absolute -left-1.5 top-1.5 w-3 h-3 rounded-full bg-primary" />
+                <p className="font-semibold">{entry.summary}</p>
+                <p className="text-xs text-muted-foreground">
+                  {entry.recordedAt} by {entry.agent}
+                  {entry.mappingVersion &&
+                    ` · mapping as of ${entry.mappingVersion}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
     </div>
   );
 }
@@ -453,20 +479,3 @@ function DetailCard({ label, value }: { label: string; value?: string }) {
     </div>
   );
 }
-
-function InputField({
-  label,
-  value,
-  onChange,
-}: {
-  label: string;
-  value: string;
-  onChange: (v: string) => void;
-}) {
-  return (
-    <div>
-      <label className="text-sm mb-1 block">{label}</label>
-      <Input value={value} onChange={(e) => onChange(e.target.value)} />
-    </div>
-  );
-}
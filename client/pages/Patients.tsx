@@ -4,7 +4,12 @@ import { Plus, Eye, Trash2, Edit2, Calendar } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { supabase } from "@/lib/supabaseClient";
+import { apiFetch } from "@/lib/api";
+import type {
+  NewPatientRequest,
+  PatientListResponse,
+  PatientRow,
+} from "@shared/api";
 
 import {
   LineChart,
@@ -46,26 +51,6 @@ interface Patient {
   healthUpdates?: HealthUpdate[];
 }
 
-interface PatientRow {
-  id: string;
-  created_at: string;
-  user_id: string;
-  first_name: string;
-  last_name: string;
-  date_of_birth: string | null;
-  gender: "male" | "female" | "other" | null;
-
-  admit_date: string | null;
-  diagnosis: string | null;
-  email: string | null;
-  phone: string | null;
-  guardian_name: string | null;
-  guardian_phone: string | null;
-  address: string | null;
-
-  diagnosis_count: number;
-}
-
 function mapPatient(row: PatientRow): Patient {
   return {
     id: row.id,
@@ -118,17 +103,13 @@ export default function Patients() {
       setLoading(true);
       setError(null);
 
-      const { data, error } = await supabase
-        .from("patients")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) {
+      try {
+        const data = await apiFetch<PatientListResponse>("/api/patients");
+        setPatients(data.patients.map(mapPatient));
+      } catch (error) {
         console.error("Fetch error:", error);
         setError("Failed to load patients");
         setPatients([]);
-      } else if (data) {
-        setPatients((data as PatientRow[]).map(mapPatient));
       }
 
       setLoading(false);
@@ -148,51 +129,38 @@ export default function Patients() {
 
   if (!formData.firstName || !formData.lastName) return;
 
-  const {
-    data: { user },
-    error: userError,
-  } = await supabase.auth.getUser();
-
-  if (userError || !user) {
-    console.error("No logged-in user", userError);
-    alert("You must be logged in to create a patient.");
-    return;
-  }
-
-  const { data, error } = await supabase
-    .from("patients")
-    .insert({
-      user_id: user.id,
-      first_name: formData.firstName,
-      last_name: formData.lastName,
-      date_of_birth: formData.dateOfBirth || null,
-      gender: formData.gender,
-
-      admit_date: formData.admitDate || null,
-      diagnosis: formData.diagnosis || null,
-      email: formData.email || null,
-      phone: formData.phone || null,
-      guardian_name: formData.guardianName || null,
-      guardian_phone: formData.guardianPhone || null,
-      address: formData.address || null,
-    })
-    .select()
-    .single();
+  const body: NewPatientRequest = {
+    first_name: formData.firstName,
+    last_name: formData.lastName,
+    date_of_birth: formData.dateOfBirth || null,
+    gender: formData.gender,
+
+    admit_date: formData.admitDate || null,
+    diagnosis: formData.diagnosis || null,
+    email: formData.email || null,
+    phone: formData.phone || null,
+    guardian_name: formData.guardianName || null,
+    guardian_phone: formData.guardianPhone || null,
+    address: formData.address || null,
+  };
 
-  if (error) {
+  try {
+    const data = await apiFetch<PatientRow>("/api/patients", {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+    setPatients((prev) => [...prev, mapPatient(data)]);
+  } catch (error: any) {
     console.error("Insert error:", error);
 
-    // Duplicate: first name + last name + DOB
-    if (error.message.includes("unique_patient_name_dob")) {
-      alert(
-        "A patient with the same first name, last name and date of birth already exists."
-      );
+    if (error.status === 401) {
+      alert("You must be logged in to create a patient.");
       return;
     }
 
-    // Duplicate: email
-    if (error.message.includes("unique_patient_email")) {
-      alert("This email address is already used by another patient.");
+    // Duplicate name + DOB or email; the server explains which
+    if (error.status === 409) {
+      alert(error.message);
       return;
     }
 
@@ -200,11 +168,6 @@ export default function Patients() {
     return;
   }
 
-  if (data) {
-    const newPatient = mapPatient(data as PatientRow);
-    setPatients((prev) => [...prev, newPatient]);
-  }
-
     setFormData({
       firstName: "",
       lastName: "",
@@ -224,9 +187,9 @@ export default function Patients() {
   };
 
   const handleDeletePatient = async (id: string) => {
-    const { error } = await supabase.from("patients").delete().eq("id", id);
-
-    if (error) {
+    try {
+      await apiFetch(`/api/patients/${id}`, { method: "DELETE" });
+    } catch (error) {
       console.error("Delete error:", error);
       alert("Failed to delete patient");
       return;
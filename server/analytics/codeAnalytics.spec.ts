@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import type { PatientDiagnosisRow } from "@shared/api";
+import { computeCodeAnalytics, splitSymptoms } from "./codeAnalytics";
+
+let nextId = 0;
+const diagnosis = (
+  patient_id: string,
+  namaste_code: string,
+  created_at: string,
+  symptoms: string | null = null,
+): PatientDiagnosisRow => ({
+  id: `d${++nextId}`,
+  patient_id,
+  namaste_code,
+  icd11_code: "",
+  symptoms,
+  clinical_notes: null,
+  clinical_status: "active",
+  verification_status: "confirmed",
+  recorded_by: null,
+  created_at,
+  version_id: 1,
+  updated_at: created_at,
+});
+
+describe("code analytics", () => {
+  it("should split free-text symptoms on common separators", () => {
+    expect(
+      splitSymptoms(" Joint pain;Stiffness,\n  Morning   stiffness ,"),
+    ).toEqual(["Joint pain", "Stiffness", "Morning stiffness"]);
+    expect(splitSymptoms(null)).toEqual([]);
+  });
+
+  it("should count symptoms, patients and co-occurring codes", () => {
+    const rows = [
+      diagnosis("p1", "AYR-001", "2024-01-10T00:00:00Z", "Joint pain, Tremors"),
+      diagnosis(
+        "p1",
+        "AYR-001",
+        "2024-03-02T00:00:00Z",
+        "joint pain, joint pain",
+      ),
+      diagnosis("p2", "AYR-001", "2024-03-20T00:00:00Z", "Stiffness"),
+      diagnosis("p1", "SID-045", "2024-02-01T00:00:00Z", "Acidity"),
+      diagnosis("p2", "SID-045", "2024-02-01T00:00:00Z"),
+      diagnosis("p2", "UNA-012", "2024-02-01T00:00:00Z"),
+    ];
+
+    const analytics = computeCodeAnalytics("AYR-001", rows, {
+      names: new Map([["SID-045", "Pitta Roga"]]),
+    });
+
+    expect(analytics).toMatchObject({ diagnoses: 3, patients: 2 });
+    expect(analytics.symptoms).toEqual([
+      { symptom: "Joint pain", count: 2 },
+      { symptom: "Stiffness", count: 1 },
+      { symptom: "Tremors", count: 1 },
+    ]);
+    expect(analytics.co_occurring).toEqual([
+      { namaste_code: "SID-045", namaste_name: "Pitta Roga", patients: 2 },
+      { namaste_code: "UNA-012", namaste_name: null, patients: 1 },
+    ]);
+    expect(analytics.timeline).toEqual([
+      { month: "2024-01", count: 1 },
+      { month: "2024-02", count: 0 },
+      { month: "2024-03", count: 2 },
+    ]);
+  });
+
+  it("should return empty analytics for an unused code", () => {
+    expect(computeCodeAnalytics("AYR-999", [])).toEqual({
+      namaste_code: "AYR-999",
+      diagnoses: 0,
+      patients: 0,
+      symptoms: [],
+      co_occurring: [],
+      timeline: [],
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import type {
+  CodeAnalyticsResponse,
+  CoOccurringCode,
+  DiagnosisCountPoint,
+  PatientDiagnosisRow,
+  SymptomFrequency,
+} from "@shared/api";
+
+// Usage analytics for one NAMASTE code, computed from the diagnoses
+// recorded on patients. Pure: callers load the rows.
+
+export interface CodeAnalyticsOptions {
+  // Top-N cut-off for symptoms and co-occurring codes
+  limit?: number;
+  names?: Map<string, string | null>;
+}
+
+const DEFAULT_LIMIT = 10;
+
+// Symptoms are typed free-hand, so split on the usual separators and
+// count case-insensitively
+export function splitSymptoms(text: string | null) {
+  return (text ?? "")
+    .split(/[,;\n]/)
+    .map((symptom) => symptom.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+}
+
+function symptomFrequencies(rows: PatientDiagnosisRow[], limit: number) {
+  const counts = new Map<string, SymptomFrequency>();
+
+  for (const row of rows) {
+    // A symptom listed twice on one diagnosis still counts once
+    const seen = new Set<string>();
+    for (const symptom of splitSymptoms(row.symptoms)) {
+      const key = symptom.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      // The first spelling seen is the one shown
+      const entry = counts.get(key) ?? { symptom, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.symptom.localeCompare(b.symptom))
+    .slice(0, limit);
+}
+
+function coOccurringCodes(
+  code: string,
+  rows: PatientDiagnosisRow[],
+  options: CodeAnalyticsOptions,
+): CoOccurringCode[] {
+  const patients = new Set(
+    rows.filter((row) => row.namaste_code === code).map((r) => r.patient_id),
+  );
+
+  // Patients per other code, each patient counted once
+  const patientsByCode = new Map<string, Set<string>>();
+  for (const row of rows) {
+    if (row.namaste_code === code || !patients.has(row.patient_id)) continue;
+    const set = patientsByCode.get(row.namaste_code) ?? new Set<string>();
+    set.add(row.patient_id);
+    patientsByCode.set(row.namaste_code, set);
+  }
+
+  return Array.from(patientsByCode, ([namaste_code, set]) => ({
+    namaste_code,
+    namaste_name: options.names?.get(namaste_code) ?? null,
+    patients: set.size,
+  }))
+    .sort(
+      (a, b) =>
+        b.patients - a.patients || a.namaste_code.localeCompare(b.namaste_code),
+    )
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+const nextMonth = (month: string) => {
+  const [year, m] = month.split("-").map(Number);
+  return m === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(m + 1).padStart(2, "0")}`;
+};
+
+function monthlyTimeline(rows: PatientDiagnosisRow[]): DiagnosisCountPoint[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const month = row.created_at.slice(0, 7);
+    counts.set(month, (counts.get(month) ?? 0) + 1);
+  }
+
+  const months = Array.from(counts.keys()).sort();
+  if (!months.length) return [];
+
+  const timeline: DiagnosisCountPoint[] = [];
+  const last = months[months.length - 1];
+  for (let month = months[0]; month <= last; month = nextMonth(month)) {
+    timeline.push({ month, count: counts.get(month) ?? 0 });
+  }
+  return timeline;
+}
+
+// `rows` are the diagnoses of every patient who has `code`, so other
+// codes on the same patients can be counted as co-occurring
+export function computeCodeAnalytics(
+  code: string,
+  rows: PatientDiagnosisRow[],
+  options: CodeAnalyticsOptions = {},
+): CodeAnalyticsResponse {
+  const own = rows.filter((row) => row.namaste_code === code);
+
+  return {
+    namaste_code: code,
+    diagnoses: own.length,
+    patients: new Set(own.map((row) => row.patient_id)).size,
+    symptoms: symptomFrequencies(own, options.limit ?? DEFAULT_LIMIT),
+    co_occurring: coOccurringCodes(code, rows, options),
+    timeline: monthlyTimeline(own),
+  };
+}
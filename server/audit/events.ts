@@ -0,0 +1,142 @@
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditSource,
+  CodemapRow,
+  PatientDiagnosisRow,
+  PatientRow,
+} from "@shared/api";
+import { mappingVersion } from "../../shared/codemap";
+import { targetCodeFor } from "../fhir/conceptMap";
+import type { AuditRepository, NewAuditEvent } from "./repository";
+
+// Who made a write, and how it came in
+export interface AuditContext {
+  agent: string | null;
+  source: AuditSource;
+}
+
+const SUMMARIES: Record<AuditEntityType, Record<AuditAction, string>> = {
+  Patient: {
+    create: "Registered patient",
+    update: "Updated patient",
+    delete: "Deleted patient",
+  },
+  Condition: {
+    create: "Recorded diagnosis",
+    update: "Updated diagnosis",
+    delete: "Deleted diagnosis",
+  },
+  Mapping: {
+    create: "Added mapping",
+    update: "Updated mapping",
+    delete: "Deleted mapping",
+  },
+};
+
+// The codemap row a diagnosis' ICD-11 code was taken from, if any
+export const sourceMappingFor = (
+  codemap: CodemapRow[],
+  diagnosis: Pick<PatientDiagnosisRow, "namaste_code" | "icd11_code">,
+) =>
+  codemap.find(
+    (row) =>
+      row.namaste_code === diagnosis.namaste_code &&
+      row.icd11_code &&
+      (row.icd11_code === diagnosis.icd11_code ||
+        targetCodeFor(row) === diagnosis.icd11_code),
+  ) ?? null;
+
+// Patient writes record their events in the same transaction, so the
+// events are made beforehand: `patient` is the row as the write leaves
+// it, or for deletes the row as it was, the delete itself being the next
+// version
+export const patientAuditEvent = (
+  action: AuditAction,
+  patient: Pick<PatientRow, "id" | "version_id" | "first_name" | "last_name">,
+  { agent, source }: AuditContext,
+): NewAuditEvent => ({
+  action,
+  entity_type: "Patient",
+  entity_id: patient.id,
+  entity_version: String(patient.version_id + (action === "delete" ? 1 : 0)),
+  patient_id: patient.id,
+  agent,
+  source,
+  source_mapping_id: null,
+  source_mapping_version: null,
+  summary: `${SUMMARIES.Patient[action]} ${patient.first_name} ${patient.last_name}`,
+});
+
+// As for patientAuditEvent. `codemap` holds the rows for the diagnosis'
+// NAMASTE code, as conditionMappings returns them.
+export function diagnosisAuditEvent(
+  action: AuditAction,
+  diagnosis: Pick<
+    PatientDiagnosisRow,
+    "id" | "version_id" | "patient_id" | "namaste_code" | "icd11_code"
+  >,
+  { agent, source }: AuditContext,
+  codemap: CodemapRow[],
+): NewAuditEvent {
+  const mapping = sourceMappingFor(codemap, diagnosis);
+
+  return {
+    action,
+    entity_type: "Condition",
+    entity_id: diagnosis.id,
+    entity_version: String(
+      diagnosis.version_id + (action === "delete" ? 1 : 0),
+    ),
+    patient_id: diagnosis.patient_id,
+    agent,
+    source,
+    source_mapping_id: mapping?.id ?? null,
+    source_mapping_version: mapping && mappingVersion(mapping),
+    summary: `${SUMMARIES.Condition[action]} ${diagnosis.namaste_code} (ICD-11 ${diagnosis.icd11_code})`,
+  };
+}
+
+// Deleting a patient deletes their diagnoses with it; `diagnoses` are
+// the rows as they were, and `codemap` holds the rows for their codes
+export const patientDeletionAuditEvents = (
+  patient: PatientRow,
+  diagnoses: PatientDiagnosisRow[],
+  context: AuditContext,
+  codemap: CodemapRow[],
+): NewAuditEvent[] => [
+  ...diagnoses.map((row) =>
+    diagnosisAuditEvent("delete", row, context, codemap),
+  ),
+  patientAuditEvent("delete", patient, context),
+];
+
+export const mappingAuditEvent = (
+  action: AuditAction,
+  mapping: CodemapRow,
+  { agent, source }: AuditContext,
+): NewAuditEvent => ({
+  action,
+  entity_type: "Mapping",
+  entity_id: mapping.id,
+  entity_version: action === "delete" ? null : mappingVersion(mapping),
+  patient_id: null,
+  agent,
+  source,
+  source_mapping_id: null,
+  source_mapping_version: null,
+  summary: `${SUMMARIES.Mapping[action]} ${mapping.namaste_code} → ${
+    mapping.icd11_code ? targetCodeFor(mapping) : "unmatched"
+  }`,
+});
+
+// For mapping writes, which live in another store than their events.
+// The write has happened by then, but an event that cannot be recorded
+// still fails the request rather than leaving a change nobody can trace.
+export async function recordAuditEvents(
+  repo: AuditRepository,
+  events: NewAuditEvent[],
+) {
+  if (!events.length) return;
+  await repo.insertAuditEvents(events);
+}
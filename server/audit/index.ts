@@ -0,0 +1,30 @@
+import { getPatientDatabase } from "../patients";
+import { supabase } from "../utils/supabaseServerClient";
+import { recordAuditEvents } from "./events";
+import type { AuditRepository, NewAuditEvent } from "./repository";
+import { createSqliteAuditRepository } from "./sqliteRepository";
+import { createSupabaseAuditRepository } from "./supabaseRepository";
+
+export type { AuditRepository, NewAuditEvent } from "./repository";
+
+let repository: AuditRepository | null = null;
+
+// Audit events are kept with the patients they mostly describe: the same
+// PATIENT_STORE backend, and for SQLite the same database connection
+export function getAuditRepository(): AuditRepository {
+  if (repository) return repository;
+
+  const store =
+    process.env.PATIENT_STORE ??
+    (process.env.SUPABASE_URL ? "supabase" : "sqlite");
+
+  repository =
+    store === "supabase"
+      ? createSupabaseAuditRepository(supabase)
+      : createSqliteAuditRepository(getPatientDatabase());
+
+  return repository;
+}
+
+export const recordAudit = (events: NewAuditEvent[]) =>
+  recordAuditEvents(getAuditRepository(), events);
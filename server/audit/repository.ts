@@ -0,0 +1,32 @@
+import type { AuditAction, AuditEntityType, AuditEventRow } from "@shared/api";
+import type { DateRange } from "../patients/repository";
+
+// The store sets the id and when the event was recorded
+export type NewAuditEvent = Omit<AuditEventRow, "id" | "recorded_at">;
+
+// Every filter narrows the result
+export interface AuditSearch {
+  patientId?: string;
+  entity?: { type: AuditEntityType; id: string };
+  entityType?: AuditEntityType[];
+  // Exact email, or "auto-map"
+  agent?: string;
+  action?: AuditAction[];
+  recorded?: DateRange[];
+  offset?: number;
+  limit: number;
+}
+
+export interface AuditSearchPage {
+  // Newest first
+  rows: AuditEventRow[];
+  total: number;
+}
+
+// Audit events are append-only: there is no update or delete, and
+// events outlive what they describe
+export interface AuditRepository {
+  insertAuditEvents(events: NewAuditEvent[]): Promise<AuditEventRow[]>;
+  findAuditEvent(id: string): Promise<AuditEventRow | null>;
+  searchAuditEvents(search: AuditSearch): Promise<AuditSearchPage>;
+}
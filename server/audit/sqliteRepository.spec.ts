@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import type { NewAuditEvent } from "./repository";
+import { createSqliteAuditRepository } from "./sqliteRepository";
+
+const event = (overrides: Partial<NewAuditEvent> = {}): NewAuditEvent => ({
+  action: "create",
+  entity_type: "Condition",
+  entity_id: "d1",
+  entity_version: "1",
+  patient_id: "p1",
+  agent: "doctor@example.com",
+  source: "app",
+  source_mapping_id: "m1",
+  source_mapping_version: "2024-01-01T00:00:00.000Z",
+  summary: "Recorded diagnosis AYR-001 (ICD-11 BA25.1)",
+  ...overrides,
+});
+
+describe("sqlite audit repository", () => {
+  it("should list events newest first, the last of a batch first", async () => {
+    const repo = createSqliteAuditRepository(":memory:");
+    const [patient, diagnosis] = await repo.insertAuditEvents([
+      event({ entity_type: "Patient", entity_id: "p1", summary: "Registered" }),
+      event(),
+    ]);
+    const [deleted] = await repo.insertAuditEvents([
+      event({ action: "delete", entity_version: "2" }),
+    ]);
+
+    const { rows, total } = await repo.searchAuditEvents({
+      patientId: "p1",
+      limit: 10,
+    });
+    expect(total).toBe(3);
+    expect(rows.map((row) => row.id)).toEqual([
+      deleted.id,
+      diagnosis.id,
+      patient.id,
+    ]);
+    expect(await repo.findAuditEvent(diagnosis.id)).toEqual(diagnosis);
+    expect(await repo.findAuditEvent("missing")).toBeNull();
+  });
+
+  it("should narrow by entity, agent, action and date", async () => {
+    const repo = createSqliteAuditRepository(":memory:");
+    await repo.insertAuditEvents([
+      event(),
+      event({ action: "update", entity_version: "2", agent: "auto-map" }),
+      event({
+        entity_type: "Mapping",
+        entity_id: "m1",
+        patient_id: null,
+        source: "import",
+      }),
+    ]);
+    const count = async (search: object) =>
+      (await repo.searchAuditEvents({ limit: 10, ...search })).total;
+
+    expect(await count({ entity: { type: "Condition", id: "d1" } })).toBe(2);
+    expect(await count({ entityType: ["Mapping"] })).toBe(1);
+    expect(await count({ agent: "auto-map" })).toBe(1);
+    expect(await count({ action: ["create", "delete"] })).toBe(2);
+    expect(await count({ recorded: [{ before: "2000-01-01" }] })).toBe(0);
+    expect(
+      await count({ recorded: [{ before: "2000-01-01", exclude: true }] }),
+    ).toBe(3);
+    expect(await repo.searchAuditEvents({ limit: 1, offset: 2 })).toMatchObject(
+      { rows: [{ entity_type: "Condition" }], total: 3 },
+    );
+  });
+});
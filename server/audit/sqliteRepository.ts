@@ -0,0 +1,171 @@
+import { randomUUID } from "crypto";
+import type { DatabaseSync } from "node:sqlite";
+import type { AuditEventRow } from "@shared/api";
+import type { DateRange } from "../patients/repository";
+import { openSqliteDatabase, type SqliteSource } from "../utils/sqlite";
+import type { AuditRepository, AuditSearch, NewAuditEvent } from "./repository";
+
+// Same table and columns as Supabase
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS audit_events (
+    id TEXT PRIMARY KEY,
+    recorded_at TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    entity_version TEXT,
+    patient_id TEXT,
+    agent TEXT,
+    source TEXT NOT NULL,
+    source_mapping_id TEXT,
+    source_mapping_version TEXT,
+    summary TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS audit_events_patient
+    ON audit_events (patient_id);
+  CREATE INDEX IF NOT EXISTS audit_events_entity
+    ON audit_events (entity_type, entity_id);
+`;
+
+// Columns in insert order
+const FIELDS: Array<keyof AuditEventRow> = [
+  "id",
+  "recorded_at",
+  "action",
+  "entity_type",
+  "entity_id",
+  "entity_version",
+  "patient_id",
+  "agent",
+  "source",
+  "source_mapping_id",
+  "source_mapping_version",
+  "summary",
+];
+
+// node:sqlite returns null-prototype objects
+const plain = (row: unknown) =>
+  row ? ({ ...(row as object) } as AuditEventRow) : null;
+
+// recorded_at is a full timestamp; bounds compare by date
+function dateCondition(range: DateRange) {
+  const bounds: string[] = [];
+  if (range.from) bounds.push("recorded_at >= ?");
+  if (range.before) bounds.push("recorded_at < ?");
+  const inside = bounds.length ? bounds.join(" AND ") : "1";
+  return {
+    sql: range.exclude ? `NOT (${inside})` : `(${inside})`,
+    params: [range.from, range.before].filter(Boolean) as string[],
+  };
+}
+
+const inList = (column: string, values: string[]) =>
+  `${column} IN (${values.map(() => "?").join(", ")})`;
+
+function auditConditions(search: AuditSearch) {
+  const where: string[] = [];
+  const params: string[] = [];
+
+  if (search.patientId) {
+    where.push("patient_id = ?");
+    params.push(search.patientId);
+  }
+  if (search.entity) {
+    where.push("entity_type = ? AND entity_id = ?");
+    params.push(search.entity.type, search.entity.id);
+  }
+  if (search.entityType?.length) {
+    where.push(inList("entity_type", search.entityType));
+    params.push(...search.entityType);
+  }
+  if (search.agent) {
+    where.push("agent = ?");
+    params.push(search.agent);
+  }
+  if (search.action?.length) {
+    where.push(inList("action", search.action));
+    params.push(...search.action);
+  }
+  for (const range of search.recorded ?? []) {
+    const condition = dateCondition(range);
+    where.push(condition.sql);
+    params.push(...condition.params);
+  }
+
+  return {
+    sql: where.length ? `WHERE ${where.join(" AND ")}` : "",
+    params,
+  };
+}
+
+// Creates the audit_events table in `db` if needed, and returns what
+// inserts into it. Inserts join the transaction open on `db`, which is
+// how the patient store records events with the writes they describe.
+export function auditEventWriter(db: DatabaseSync) {
+  db.exec(SCHEMA);
+
+  const insert = db.prepare(
+    `INSERT INTO audit_events (${FIELDS.join(", ")})
+     VALUES (${FIELDS.map(() => "?").join(", ")})`,
+  );
+
+  return (events: NewAuditEvent[]) => {
+    const recorded_at = new Date().toISOString();
+    const rows = events.map(
+      (event): AuditEventRow => ({ id: randomUUID(), recorded_at, ...event }),
+    );
+    for (const row of rows) {
+      insert.run(...FIELDS.map((field) => row[field]));
+    }
+    return rows;
+  };
+}
+
+// Shares the patients' database (see getPatientDatabase); the table is
+// its own
+export function createSqliteAuditRepository(
+  source: SqliteSource,
+): AuditRepository {
+  const db = openSqliteDatabase(source);
+  const write = auditEventWriter(db);
+
+  return {
+    async insertAuditEvents(events: NewAuditEvent[]) {
+      db.exec("BEGIN");
+      try {
+        const rows = write(events);
+        db.exec("COMMIT");
+        return rows;
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+
+    async findAuditEvent(id) {
+      return plain(
+        db.prepare("SELECT * FROM audit_events WHERE id = ?").get(id),
+      );
+    },
+
+    // Newest first; events recorded together, the last given first
+    async searchAuditEvents(search) {
+      const { sql, params } = auditConditions(search);
+
+      const { total } = db
+        .prepare(`SELECT COUNT(*) AS total FROM audit_events ${sql}`)
+        .get(...params) as { total: number };
+
+      const rows = db
+        .prepare(
+          `SELECT * FROM audit_events ${sql}
+           ORDER BY recorded_at DESC, rowid DESC
+           LIMIT ${Number(search.limit)} OFFSET ${Number(search.offset ?? 0)}`,
+        )
+        .all(...params);
+
+      return { rows: rows.map((row) => plain(row)!), total: Number(total) };
+    },
+  };
+}
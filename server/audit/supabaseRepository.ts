@@ -0,0 +1,101 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AuditEventRow } from "@shared/api";
+import type { AuditRepository, AuditSearch } from "./repository";
+
+type FilterBuilder = ReturnType<ReturnType<SupabaseClient["from"]>["select"]>;
+
+function applyAuditSearch<T extends FilterBuilder>(
+  request: T,
+  search: AuditSearch,
+): T {
+  let filtered = request;
+
+  if (search.patientId) {
+    filtered = filtered.eq("patient_id", search.patientId) as T;
+  }
+  if (search.entity) {
+    filtered = filtered
+      .eq("entity_type", search.entity.type)
+      .eq("entity_id", search.entity.id) as T;
+  }
+  if (search.entityType?.length) {
+    filtered = filtered.in("entity_type", search.entityType) as T;
+  }
+  if (search.agent) filtered = filtered.eq("agent", search.agent) as T;
+  if (search.action?.length) {
+    filtered = filtered.in("action", search.action) as T;
+  }
+
+  for (const range of search.recorded ?? []) {
+    if (range.exclude) {
+      const outside = [
+        range.from && `recorded_at.lt.${range.from}`,
+        range.before && `recorded_at.gte.${range.before}`,
+      ].filter(Boolean);
+      filtered = (
+        outside.length
+          ? filtered.or(outside.join(","))
+          : filtered.is("recorded_at", null)
+      ) as T;
+      continue;
+    }
+    if (range.from) filtered = filtered.gte("recorded_at", range.from) as T;
+    if (range.before) filtered = filtered.lt("recorded_at", range.before) as T;
+  }
+
+  return filtered;
+}
+
+// Reads and writes the `audit_events` table: id, recorded_at, action,
+// entity_type, entity_id, entity_version, patient_id, agent, source,
+// source_mapping_id, source_mapping_version and summary, all text
+export function createSupabaseAuditRepository(
+  client: SupabaseClient,
+): AuditRepository {
+  return {
+    async insertAuditEvents(events) {
+      if (!events.length) return [];
+
+      const recorded_at = new Date().toISOString();
+      const { data, error } = await client
+        .from("audit_events")
+        .insert(events.map((event) => ({ ...event, recorded_at })))
+        .select();
+
+      if (error) throw new Error(error.message);
+      return (data || []) as AuditEventRow[];
+    },
+
+    async findAuditEvent(id) {
+      const { data, error } = await client
+        .from("audit_events")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return data as AuditEventRow | null;
+    },
+
+    async searchAuditEvents(search) {
+      let request = applyAuditSearch(
+        client
+          .from("audit_events")
+          .select("*", { count: "exact", head: search.limit === 0 }),
+        search,
+      )
+        .order("recorded_at", { ascending: false })
+        .order("id", { ascending: false });
+
+      const offset = search.offset ?? 0;
+      if (search.limit > 0) {
+        request = request.range(offset, offset + search.limit - 1);
+      }
+
+      const { data, count, error } = await request;
+      if (error) throw new Error(error.message);
+
+      return { rows: (data || []) as AuditEventRow[], total: count ?? 0 };
+    },
+  };
+}
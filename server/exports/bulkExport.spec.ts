@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import { existsSync, mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { parseBulkExportRequest } from "../fhir/bulkData";
+import { ICD11_SYSTEM } from "../fhir/systems";
+import { createSqlitePatientRepository } from "../patients/sqliteRepository";
+import { createFileTerminologyRepository } from "../terminology/fileRepository";
+import { runBulkExport } from "./bulkExport";
+import { BULK_EXPORT_TYPES, createBulkExportStore } from "./store";
+
+const tempDir = (prefix: string) => mkdtempSync(path.join(tmpdir(), prefix));
+
+const setup = async () => {
+  const patients = createSqlitePatientRepository(":memory:");
+  const store = createBulkExportStore(tempDir("export-"));
+  const sources = {
+    patients,
+    terminology: createFileTerminologyRepository(tempDir("terminology-")),
+  };
+
+  for (const first_name of ["Asha", "Ravi"]) {
+    const saved = await patients.insertPatient({
+      user_id: null,
+      first_name,
+      last_name: "Rao",
+      date_of_birth: "1980-01-15",
+      gender: "female",
+      admit_date: null,
+      diagnosis: null,
+      email: null,
+      phone: null,
+      guardian_name: null,
+      guardian_phone: null,
+      address: null,
+      identifiers: [],
+    });
+    if ("conflict" in saved) throw new Error(saved.conflict);
+    if (first_name === "Asha") {
+      await patients.insertDiagnosis({
+        patient_id: saved.id,
+        namaste_code: "AYR-001",
+        icd11_code: "BA25.1",
+        symptoms: null,
+        clinical_notes: null,
+        clinical_status: "active",
+        verification_status: "confirmed",
+        recorded_by: "doctor@example.com",
+      });
+    }
+  }
+
+  const run = async (
+    job: { since?: string; transaction_time?: string },
+    cancelled = false,
+  ) => {
+    const { id } = await store.insertJob({
+      status: "in-progress",
+      request: "http://localhost/fhir/$export",
+      types: BULK_EXPORT_TYPES,
+      since: job.since ?? null,
+      transaction_time: job.transaction_time ?? new Date().toISOString(),
+      progress: null,
+      output: [],
+      errors: [],
+      error: null,
+      created_by: "admin@example.com",
+    });
+    const result = await runBulkExport(id, store, sources, { cancelled });
+    return { id, result };
+  };
+
+  return { store, patients, run };
+};
+
+const readNdjson = (file: string) =>
+  readFileSync(file, "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+
+// The sources are a SQLite patient store
+describe("bulk export", () => {
+  it("should write one NDJSON file per resource type", async () => {
+    const { store, run } = await setup();
+    const { id, result } = await run({});
+
+    expect(result?.status).toBe("completed");
+    expect(result?.output).toEqual([
+      { type: "Patient", file: "Patient.ndjson", count: 2 },
+      { type: "Condition", file: "Condition.ndjson", count: 1 },
+    ]);
+
+    const patients = readNdjson(store.outputFile(id, "Patient"));
+    expect(patients.map((p) => p.name[0].given[0])).toEqual(["Asha", "Ravi"]);
+
+    const [condition] = readNdjson(store.outputFile(id, "Condition"));
+    expect(condition.resourceType).toBe("Condition");
+    expect(condition.code.coding).toContainEqual(
+      expect.objectContaining({ system: ICD11_SYSTEM, code: "BA25.1" }),
+    );
+  });
+
+  it("should report resources that fail validation instead of exporting them", async () => {
+    const { store, patients, run } = await setup();
+    const [patient] = await patients.listPatients();
+    await patients.insertDiagnosis({
+      patient_id: patient.id,
+      namaste_code: "AYR-999",
+      icd11_code: "BA25.1",
+      symptoms: null,
+      clinical_notes: null,
+      clinical_status: "active",
+      verification_status: "confirmed",
+      recorded_by: "doctor@example.com",
+    });
+
+    const { id, result } = await run({});
+    expect(result?.output).toContainEqual({
+      type: "Condition",
+      file: "Condition.ndjson",
+      count: 1,
+    });
+    expect(result?.errors).toEqual([
+      { type: "OperationOutcome", file: "OperationOutcome.ndjson", count: 1 },
+    ]);
+
+    const [outcome] = readNdjson(store.outputFile(id, "OperationOutcome"));
+    expect(outcome.resourceType).toBe("OperationOutcome");
+    expect(outcome.issue[0].diagnostics).toMatch(/^Condition\//);
+  });
+
+  it("should only export what was written within the window", async () => {
+    const { store, run } = await setup();
+
+    const late = await run({ since: "2999-01-01T00:00:00.000Z" });
+    expect(late.result?.output).toEqual([]);
+    expect(existsSync(store.outputFile(late.id, "Patient"))).toBe(false);
+
+    const early = await run({ transaction_time: "2000-01-01T00:00:00.000Z" });
+    expect(early.result?.output).toEqual([]);
+  });
+
+  it("should remove a cancelled job", async () => {
+    const { store, run } = await setup();
+    const { id, result } = await run({}, true);
+
+    expect(result).toBeNull();
+    expect(await store.findJob(id)).toBeNull();
+  });
+});
+
+describe("bulk export kick-off", () => {
+  it("should parse the kick-off parameters", () => {
+    expect(
+      parseBulkExportRequest({
+        _type: "Condition",
+        _since: "2024-03-01T10:00:00+05:30",
+      }),
+    ).toEqual({ types: ["Condition"], since: "2024-03-01T04:30:00.000Z" });
+    expect(parseBulkExportRequest({})).toEqual({
+      types: BULK_EXPORT_TYPES,
+      since: null,
+    });
+    expect(parseBulkExportRequest({ _type: "Patient,Observation" })).toEqual({
+      error: "Unsupported _type Observation",
+    });
+    expect(parseBulkExportRequest({ _since: "2024-03-01" })).toHaveProperty(
+      "error",
+    );
+    expect(parseBulkExportRequest({ _outputFormat: "text/csv" })).toEqual({
+      error: "Unsupported _outputFormat text/csv",
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { promises as fs } from "fs";
+import type { CodemapRow } from "@shared/api";
+import type { Condition, OperationOutcome, Patient } from "@shared/fhir";
+import { conditionMappings, toFhirCondition } from "../fhir/condition";
+import { toFhirPatient } from "../fhir/patient";
+import { hasErrors, validateResource } from "../fhir/validation";
+import type { InstantRange, PatientRepository } from "../patients/repository";
+import type { TerminologyRepository } from "../terminology/repository";
+import type {
+  BulkExportJob,
+  BulkExportOutput,
+  BulkExportStore,
+  BulkExportType,
+} from "./store";
+
+// FHIR Bulk Data export: writes every Patient and Condition as NDJSON,
+// one file per resource type, for population-level reporting.
+//
+// Jobs run inside the server process and read the store a page at a time,
+// so a large export does not hold up other requests. Only rows written at
+// or before the job's transaction time are exported, which keeps pages
+// stable while clinicians go on recording.
+//
+// Every resource is validated against its profile on the way out; those
+// with errors are left out and reported as OperationOutcomes in the
+// manifest's `error` list, as the Bulk Data spec asks.
+
+const PAGE_SIZE = 500;
+
+export interface BulkExportSources {
+  patients: PatientRepository;
+  terminology: TerminologyRepository;
+}
+
+export interface BulkExportControl {
+  cancelled: boolean;
+}
+
+interface ExportPage {
+  // Rows read, valid or not
+  size: number;
+  lines: string[];
+  outcomes: string[];
+}
+
+// The issues found in `resource`, each naming it
+function invalidOutcome(
+  resource: Patient | Condition,
+  issues: OperationOutcome["issue"],
+): OperationOutcome {
+  const reference = `${resource.resourceType}/${resource.id}`;
+  return {
+    resourceType: "OperationOutcome",
+    issue: issues.map((issue) => ({
+      ...issue,
+      diagnostics: `${reference}: ${issue.diagnostics ?? issue.code}`,
+    })),
+  };
+}
+
+// One page of resources of `type`, as NDJSON lines
+async function exportPage(
+  type: BulkExportType,
+  { patients, terminology }: BulkExportSources,
+  codemap: CodemapRow[],
+  lastUpdated: InstantRange,
+  offset: number,
+): Promise<ExportPage> {
+  const search = { lastUpdated, offset, limit: PAGE_SIZE };
+
+  let resources: Array<Patient | Condition>;
+  if (type === "Patient") {
+    const { rows } = await patients.searchPatients(search);
+    resources = rows.map(toFhirPatient);
+  } else {
+    const { rows } = await patients.searchDiagnoses(search);
+    const mappings = await conditionMappings(terminology, rows);
+    resources = rows.map((row) => toFhirCondition(row, mappings));
+  }
+
+  const page: ExportPage = { size: resources.length, lines: [], outcomes: [] };
+  for (const resource of resources) {
+    const issues = validateResource(resource, codemap);
+    if (hasErrors(issues)) {
+      page.outcomes.push(JSON.stringify(invalidOutcome(resource, issues)));
+    } else {
+      page.lines.push(JSON.stringify(resource));
+    }
+  }
+  return page;
+}
+
+// Appends NDJSON lines to `file`, returning how many
+async function appendLines(file: string, lines: string[]) {
+  if (lines.length) await fs.appendFile(file, lines.join("\n") + "\n");
+  return lines.length;
+}
+
+// Writes the job's file for `type`, and the outcomes for resources left
+// out to `outcomesFile`; null when cancelled part way
+async function exportType(
+  job: BulkExportJob,
+  type: BulkExportType,
+  store: BulkExportStore,
+  sources: BulkExportSources,
+  codemap: CodemapRow[],
+  control: BulkExportControl,
+): Promise<{ count: number; invalid: number } | null> {
+  const file = store.outputFile(job.id, type);
+  const outcomesFile = store.outputFile(job.id, "OperationOutcome");
+  const lastUpdated = {
+    since: job.since ?? undefined,
+    until: job.transaction_time,
+  };
+  await fs.writeFile(file, "");
+
+  let offset = 0;
+  let count = 0;
+  let invalid = 0;
+  for (;;) {
+    const page = await exportPage(type, sources, codemap, lastUpdated, offset);
+    offset += page.size;
+    count += await appendLines(file, page.lines);
+    invalid += await appendLines(outcomesFile, page.outcomes);
+    if (page.size < PAGE_SIZE) break;
+
+    await store.updateJob(job.id, {
+      progress: `Exporting ${type}: ${count} written`,
+    });
+    // Let queued requests, status polls included, through
+    await new Promise((resolve) => setImmediate(resolve));
+    if (control.cancelled) return null;
+  }
+
+  if (!count) await fs.rm(file, { force: true });
+  return { count, invalid };
+}
+
+// Writes each requested type in turn. A cancelled job is removed with its
+// files, as the client asked for it to be deleted.
+export async function runBulkExport(
+  jobId: string,
+  store: BulkExportStore,
+  sources: BulkExportSources,
+  control: BulkExportControl,
+): Promise<BulkExportJob | null> {
+  const job = await store.findJob(jobId);
+  if (!job) return null;
+
+  const output: BulkExportOutput[] = [];
+  const errors: BulkExportOutput[] = [];
+  try {
+    const codemap = await sources.terminology.list();
+    let invalid = 0;
+    for (const type of job.types) {
+      if (control.cancelled) break;
+      await store.updateJob(job.id, { progress: `Exporting ${type}` });
+
+      const written = await exportType(
+        job,
+        type,
+        store,
+        sources,
+        codemap,
+        control,
+      );
+      if (written?.count) {
+        output.push({ type, file: `${type}.ndjson`, count: written.count });
+      }
+      invalid += written?.invalid ?? 0;
+    }
+    if (invalid) {
+      errors.push({
+        type: "OperationOutcome",
+        file: "OperationOutcome.ndjson",
+        count: invalid,
+      });
+    }
+
+    if (control.cancelled) {
+      await store.removeJob(job.id);
+      return null;
+    }
+    return store.updateJob(job.id, {
+      status: "completed",
+      progress: null,
+      output,
+      errors,
+    });
+  } catch (error: any) {
+    console.error("Bulk export error:", error);
+    return store.updateJob(job.id, {
+      status: "failed",
+      progress: null,
+      error: error?.message ?? String(error),
+    });
+  }
+}
+
+// Jobs running in this process, keyed by id
+const activeExports = new Map<string, BulkExportControl>();
+
+export const isBulkExportActive = (id: string) => activeExports.has(id);
+
+// Starts the job in the background; progress is read back from the store
+export function startBulkExport(
+  jobId: string,
+  store: BulkExportStore,
+  sources: BulkExportSources,
+) {
+  const control: BulkExportControl = { cancelled: false };
+  activeExports.set(jobId, control);
+
+  runBulkExport(jobId, store, sources, control).finally(() =>
+    activeExports.delete(jobId),
+  );
+}
+
+// Returns false when the job is not running in this process
+export function requestBulkExportCancel(jobId: string) {
+  const control = activeExports.get(jobId);
+  if (!control) return false;
+
+  control.cancelled = true;
+  return true;
+}
@@ -0,0 +1,14 @@
+import path from "path";
+import { createBulkExportStore, type BulkExportStore } from "./store";
+
+export type { BulkExportJob, BulkExportStore } from "./store";
+
+let store: BulkExportStore | null = null;
+
+// BULK_EXPORT_DIR is where export jobs and their NDJSON files are kept
+export function getBulkExportStore(): BulkExportStore {
+  store ??= createBulkExportStore(
+    process.env.BULK_EXPORT_DIR ?? path.resolve("data", "exports"),
+  );
+  return store;
+}
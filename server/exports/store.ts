@@ -0,0 +1,124 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+export type BulkExportType = "Patient" | "Condition";
+
+export const BULK_EXPORT_TYPES: BulkExportType[] = ["Patient", "Condition"];
+
+// Resources that fail validation are left out of their type's file and
+// reported here instead
+export type BulkExportFileType = BulkExportType | "OperationOutcome";
+
+export type BulkExportStatus = "in-progress" | "completed" | "failed";
+
+export interface BulkExportOutput {
+  type: BulkExportFileType;
+  // File name within the job's directory
+  file: string;
+  count: number;
+}
+
+export interface BulkExportJob {
+  id: string;
+  status: BulkExportStatus;
+  // The kick-off URL, echoed back in the manifest
+  request: string;
+  types: BulkExportType[];
+  since: string | null;
+  // Nothing written after this instant is exported
+  transaction_time: string;
+  // What is being written while the job is in progress
+  progress: string | null;
+  // Types with no resources get no file
+  output: BulkExportOutput[];
+  // OperationOutcomes for the resources left out, if any
+  errors: BulkExportOutput[];
+  error: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BulkExportStore {
+  insertJob(
+    job: Omit<BulkExportJob, "id" | "created_at" | "updated_at">,
+  ): Promise<BulkExportJob>;
+  findJob(id: string): Promise<BulkExportJob | null>;
+  // Null when the job does not exist, so a removed job is never recreated
+  updateJob(
+    id: string,
+    patch: Partial<BulkExportJob>,
+  ): Promise<BulkExportJob | null>;
+  // Deletes the job with its files
+  removeJob(id: string): Promise<boolean>;
+  // Absolute path of the job's NDJSON file for `type`
+  outputFile(id: string, type: BulkExportFileType): string;
+}
+
+// Job ids end up in paths, so only ids this store could have made are read
+const JOB_ID = /^[0-9a-f-]{36}$/;
+
+// Each job is a directory in `dir` holding `job.json` and one
+// `<type>.ndjson` file per exported resource type
+export function createBulkExportStore(dir: string): BulkExportStore {
+  const root = path.resolve(dir);
+  const jobFile = (id: string) => path.join(root, id, "job.json");
+
+  // Write to a temp file first so a crash never leaves half a job file
+  const save = async (job: BulkExportJob) => {
+    const file = jobFile(job.id);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(job, null, 2));
+    await fs.rename(tmp, file);
+    return job;
+  };
+
+  const find = async (id: string) => {
+    if (!JOB_ID.test(id)) return null;
+    try {
+      return JSON.parse(
+        await fs.readFile(jobFile(id), "utf-8"),
+      ) as BulkExportJob;
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+      return null;
+    }
+  };
+
+  return {
+    async insertJob(job) {
+      const now = new Date().toISOString();
+      return save({
+        ...job,
+        id: randomUUID(),
+        created_at: now,
+        updated_at: now,
+      });
+    },
+
+    findJob: find,
+
+    async updateJob(id, patch) {
+      const job = await find(id);
+      if (!job) return null;
+      return save({
+        ...job,
+        ...patch,
+        id,
+        updated_at: new Date().toISOString(),
+      });
+    },
+
+    async removeJob(id) {
+      if (!(await find(id))) return false;
+      await fs.rm(path.join(root, id), { recursive: true, force: true });
+      return true;
+    },
+
+    outputFile(id, type) {
+      return path.join(root, id, `${type}.ndjson`);
+    },
+  };
+}
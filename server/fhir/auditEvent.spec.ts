@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import type { AuditEventRow } from "@shared/api";
+import {
+  parseAuditSearch,
+  toFhirAuditEvent,
+  toFhirProvenance,
+} from "./auditEvent";
+import { MAPPING_ID_SYSTEM } from "./systems";
+
+const row: AuditEventRow = {
+  id: "e1",
+  recorded_at: "2024-03-01T10:00:00.000Z",
+  action: "delete",
+  entity_type: "Condition",
+  entity_id: "d1",
+  entity_version: "3",
+  patient_id: "p1",
+  agent: "doctor@example.com",
+  source: "fhir",
+  source_mapping_id: "m1",
+  source_mapping_version: "2024-01-01T00:00:00.000Z",
+  summary: "Deleted diagnosis AYR-001 (ICD-11 BA25.1)",
+};
+
+describe("FHIR AuditEvent and Provenance", () => {
+  it("should point both at the version written and its mapping", () => {
+    const event = toFhirAuditEvent(row);
+    expect(event).toMatchObject({
+      id: "e1",
+      action: "D",
+      recorded: row.recorded_at,
+      agent: [{ who: { display: "doctor@example.com" }, requestor: true }],
+      source: { site: "fhir" },
+    });
+    expect(event.entity?.map((entity) => entity.what?.reference)).toEqual([
+      "Condition/d1/_history/3",
+      "Patient/p1",
+      "ConceptMap/namaste-to-icd11",
+    ]);
+    expect(event.entity?.[2]).toMatchObject({
+      what: { identifier: { system: MAPPING_ID_SYSTEM, value: "m1" } },
+      detail: [{ type: "version", valueString: row.source_mapping_version }],
+    });
+
+    const provenance = toFhirProvenance(row);
+    expect(provenance).toMatchObject({
+      id: "e1",
+      target: [{ reference: "Condition/d1/_history/3" }],
+      activity: { coding: [{ code: "DELETE" }] },
+      entity: [
+        {
+          role: "source",
+          what: { display: `Mapping m1 as of ${row.source_mapping_version}` },
+        },
+      ],
+    });
+
+    const mapping = toFhirProvenance({
+      ...row,
+      entity_type: "Mapping",
+      entity_id: "m2",
+      patient_id: null,
+      agent: "auto-map",
+      source_mapping_id: null,
+    });
+    expect(mapping.target[0].identifier?.value).toBe("m2");
+    expect(mapping.agent[0].type?.coding?.[0].code).toBe("assembler");
+    expect(mapping.entity).toBeUndefined();
+  });
+
+  it("should parse search parameters", () => {
+    expect(
+      parseAuditSearch("AuditEvent", {
+        patient: "Patient/p1",
+        entity: "Condition/d1",
+        action: "C,D",
+        date: "ge2024-01-01",
+        _count: "5",
+      }),
+    ).toEqual({
+      search: {
+        patientId: "p1",
+        entity: { type: "Condition", id: "d1" },
+        action: ["create", "delete"],
+        recorded: [{ from: "2024-01-01" }],
+        limit: 5,
+      },
+    });
+    expect(
+      parseAuditSearch("Provenance", { target: "ConceptMap/namaste-to-icd11" }),
+    ).toMatchObject({ search: { entityType: ["Mapping"] } });
+
+    // AuditEvent parameters are ignored for Provenance
+    expect(parseAuditSearch("Provenance", { action: "X" })).toMatchObject({
+      search: {},
+    });
+    expect(parseAuditSearch("AuditEvent", { action: "X" })).toHaveProperty(
+      "error",
+    );
+    expect(
+      parseAuditSearch("AuditEvent", { entity: "Group/g1" }),
+    ).toHaveProperty("error");
+    expect(
+      parseAuditSearch("Provenance", { "target:missing": "true" }),
+    ).toEqual({ error: "Unsupported search parameter target:missing" });
+  });
+});
@@ -0,0 +1,307 @@
+import type { AuditAction, AuditEntityType, AuditEventRow } from "@shared/api";
+import type {
+  AuditEvent,
+  CapabilityStatementSearchParam,
+  Provenance,
+  Reference,
+} from "@shared/fhir";
+import type { AuditSearch } from "../audit/repository";
+import { CONCEPT_MAP_ID } from "./conceptMap";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  parseCount,
+  parseDateRange,
+  queryValues,
+} from "./search";
+import { MAPPING_ID_SYSTEM } from "./systems";
+
+// Every audit event is served twice: as an AuditEvent (what happened,
+// and through which channel) and as a Provenance (where the version it
+// made came from). Both have the event's id.
+
+type Invalid = { error: string };
+
+const AUDIT_EVENT_TYPE =
+  "http://terminology.hl7.org/CodeSystem/audit-event-type";
+const RESTFUL_INTERACTION = "http://hl7.org/fhir/restful-interaction";
+const OBJECT_ROLE = "http://terminology.hl7.org/CodeSystem/object-role";
+const SECURITY_SOURCE_TYPE =
+  "http://terminology.hl7.org/CodeSystem/security-source-type";
+const DATA_OPERATION = "http://terminology.hl7.org/CodeSystem/v3-DataOperation";
+const PARTICIPANT_TYPE =
+  "http://terminology.hl7.org/CodeSystem/provenance-participant-type";
+
+const ACTION_CODES: Record<AuditAction, "C" | "U" | "D"> = {
+  create: "C",
+  update: "U",
+  delete: "D",
+};
+
+const PATIENT_ROLE = { system: OBJECT_ROLE, code: "1", display: "Patient" };
+const RESOURCE_ROLE = {
+  system: OBJECT_ROLE,
+  code: "4",
+  display: "Domain Resource",
+};
+
+// A codemap row, as an element of the ConceptMap it is published in
+const mappingReference = (id: string, version?: string | null): Reference => ({
+  reference: `ConceptMap/${CONCEPT_MAP_ID}`,
+  identifier: { system: MAPPING_ID_SYSTEM, value: id },
+  display: version ? `Mapping ${id} as of ${version}` : `Mapping ${id}`,
+});
+
+// The version a write made; for deletes, the version recording the
+// delete, which reads as 410 Gone
+function writtenReference(row: AuditEventRow): Reference {
+  if (row.entity_type === "Mapping") return mappingReference(row.entity_id);
+
+  const history = row.entity_version ? `/_history/${row.entity_version}` : "";
+  return { reference: `${row.entity_type}/${row.entity_id}${history}` };
+}
+
+const agentReference = (row: AuditEventRow): Reference => ({
+  display: row.agent ?? "unknown",
+});
+
+export function toFhirAuditEvent(row: AuditEventRow): AuditEvent {
+  const entity: NonNullable<AuditEvent["entity"]> = [
+    {
+      what: writtenReference(row),
+      role: row.entity_type === "Patient" ? PATIENT_ROLE : RESOURCE_ROLE,
+      description: row.summary,
+    },
+  ];
+  if (row.patient_id && row.entity_type !== "Patient") {
+    entity.push({
+      what: { reference: `Patient/${row.patient_id}` },
+      role: PATIENT_ROLE,
+    });
+  }
+  if (row.source_mapping_id) {
+    entity.push({
+      what: mappingReference(row.source_mapping_id),
+      role: RESOURCE_ROLE,
+      ...(row.source_mapping_version && {
+        detail: [{ type: "version", valueString: row.source_mapping_version }],
+      }),
+    });
+  }
+
+  return {
+    resourceType: "AuditEvent",
+    id: row.id,
+    type: {
+      system: AUDIT_EVENT_TYPE,
+      code: "rest",
+      display: "RESTful Operation",
+    },
+    subtype: [{ system: RESTFUL_INTERACTION, code: row.action }],
+    action: ACTION_CODES[row.action],
+    recorded: row.recorded_at,
+    outcome: "0",
+    agent: [{ who: agentReference(row), requestor: row.agent !== "auto-map" }],
+    source: {
+      site: row.source,
+      observer: { display: "CareSync" },
+      type: [
+        {
+          system: SECURITY_SOURCE_TYPE,
+          code: "4",
+          display: "Application Server",
+        },
+      ],
+    },
+    entity,
+  };
+}
+
+export function toFhirProvenance(row: AuditEventRow): Provenance {
+  const operation = row.action.toUpperCase();
+
+  return {
+    resourceType: "Provenance",
+    id: row.id,
+    target: [writtenReference(row)],
+    recorded: row.recorded_at,
+    activity: { coding: [{ system: DATA_OPERATION, code: operation }] },
+    agent: [
+      {
+        type: {
+          coding: [
+            {
+              system: PARTICIPANT_TYPE,
+              code: row.agent === "auto-map" ? "assembler" : "author",
+            },
+          ],
+        },
+        who: agentReference(row),
+      },
+    ],
+    ...(row.source_mapping_id && {
+      entity: [
+        {
+          role: "source" as const,
+          what: mappingReference(
+            row.source_mapping_id,
+            row.source_mapping_version,
+          ),
+        },
+      ],
+    }),
+  };
+}
+
+// ----------------------
+// Search parameters
+// ----------------------
+
+const PAGING_PARAMETERS: CapabilityStatementSearchParam[] = [
+  { name: "_count", type: "number" },
+  { name: "_offset", type: "number" },
+];
+
+const PATIENT_PARAMETER: CapabilityStatementSearchParam = {
+  name: "patient",
+  type: "reference",
+  documentation: "Patient/[id], or a bare id",
+};
+
+// Everything parseAuditSearch understands, as advertised by /metadata
+export const AUDIT_EVENT_SEARCH_PARAMETERS: CapabilityStatementSearchParam[] = [
+  PATIENT_PARAMETER,
+  {
+    name: "entity",
+    type: "reference",
+    documentation: `Patient/[id], Condition/[id], or ConceptMap/${CONCEPT_MAP_ID} for every mapping`,
+  },
+  {
+    name: "agent-name",
+    type: "string",
+    documentation: "The email of whoever made the write, or auto-map",
+  },
+  {
+    name: "action",
+    type: "token",
+    documentation: "C, U or D; comma separated codes match any",
+  },
+  { name: "date", type: "date", documentation: "[prefix]YYYY[-MM[-DD]]" },
+  ...PAGING_PARAMETERS,
+];
+
+export const PROVENANCE_SEARCH_PARAMETERS: CapabilityStatementSearchParam[] = [
+  PATIENT_PARAMETER,
+  {
+    name: "target",
+    type: "reference",
+    documentation: `Patient/[id], Condition/[id], or ConceptMap/${CONCEPT_MAP_ID} for every mapping`,
+  },
+  { name: "recorded", type: "date", documentation: "[prefix]YYYY[-MM[-DD]]" },
+  ...PAGING_PARAMETERS,
+];
+
+const PARAMETERS = {
+  AuditEvent: AUDIT_EVENT_SEARCH_PARAMETERS.map((param) => param.name),
+  Provenance: PROVENANCE_SEARCH_PARAMETERS.map((param) => param.name),
+};
+
+const PATIENT_REFERENCE = /^(?:.*\/)?Patient\/([^/]+)$/;
+const WRITTEN_REFERENCE = /^(?:.*\/)?(Patient|Condition|ConceptMap)\/([^/]+)$/;
+
+// Which resource's events a reference names; the ConceptMap stands for
+// every mapping
+function parseWritten(
+  value: string,
+): Pick<AuditSearch, "entity" | "entityType"> | null {
+  const [, type, id] = WRITTEN_REFERENCE.exec(value) ?? [];
+  if (type === "ConceptMap") {
+    return id === CONCEPT_MAP_ID ? { entityType: ["Mapping"] } : null;
+  }
+  return type ? { entity: { type: type as AuditEntityType, id } } : null;
+}
+
+// Turns AuditEvent or Provenance search parameters into a repository
+// search; unknown parameters are ignored
+export function parseAuditSearch(
+  resourceType: keyof typeof PARAMETERS,
+  query: Record<string, unknown>,
+): Invalid | { search: AuditSearch } {
+  const search: AuditSearch = { limit: DEFAULT_PAGE_SIZE };
+
+  for (const [key, raw] of Object.entries(query)) {
+    const [param, modifier] = key.split(":");
+    if (!PARAMETERS[resourceType].includes(param)) continue;
+    if (modifier) {
+      return { error: `Unsupported search parameter ${key}` };
+    }
+
+    const values = queryValues(raw);
+    const single = values.length === 1 ? values[0] : undefined;
+
+    switch (param) {
+      case "patient": {
+        const id = single?.includes("/")
+          ? PATIENT_REFERENCE.exec(single)?.[1]
+          : single;
+        if (!id) return { error: "patient takes a single Patient reference" };
+        search.patientId = id;
+        break;
+      }
+
+      case "entity":
+      case "target": {
+        const written = single ? parseWritten(single) : null;
+        if (!written) {
+          return {
+            error: `${param} takes a single Patient, Condition or ConceptMap reference`,
+          };
+        }
+        Object.assign(search, written);
+        break;
+      }
+
+      case "agent-name":
+        if (!single) return { error: "agent-name takes a single value" };
+        search.agent = single;
+        break;
+
+      case "action": {
+        const codes = values.flatMap((value) => value.split(","));
+        const actions = (Object.keys(ACTION_CODES) as AuditAction[]).filter(
+          (action) => codes.includes(ACTION_CODES[action]),
+        );
+        if (actions.length !== new Set(codes).size) {
+          return { error: "action takes the codes C, U and D" };
+        }
+        search.action = actions;
+        break;
+      }
+
+      case "date":
+      case "recorded":
+        for (const value of values) {
+          const range = parseDateRange(value);
+          if (!range) return { error: `Invalid ${param} ${value}` };
+          search.recorded = [...(search.recorded ?? []), range];
+        }
+        break;
+
+      case "_count": {
+        const count = parseCount(values[0], DEFAULT_PAGE_SIZE);
+        if (count === null) return { error: "_count must be a whole number" };
+        search.limit = Math.min(count, MAX_PAGE_SIZE);
+        break;
+      }
+
+      case "_offset": {
+        const offset = parseCount(values[0], 0);
+        if (offset === null) return { error: "_offset must be a whole number" };
+        search.offset = offset;
+        break;
+      }
+    }
+  }
+
+  return { search };
+}
@@ -0,0 +1,111 @@
+import {
+  BULK_EXPORT_TYPES,
+  type BulkExportJob,
+  type BulkExportOutput,
+  type BulkExportType,
+} from "../exports/store";
+import { queryValues } from "./search";
+
+// FHIR Bulk Data Access ($export): kick-off parameters and the manifest
+// returned once a job completes
+
+type Invalid = { error: string };
+
+export const NDJSON_FORMATS = [
+  "application/fhir+ndjson",
+  "application/ndjson",
+  "ndjson",
+];
+
+// Would narrow the export in ways we do not support; exporting everything
+// instead would hand out more than was asked for
+const UNSUPPORTED_PARAMETERS = [
+  "_typeFilter",
+  "_elements",
+  "patient",
+  "includeAssociatedData",
+];
+
+const INSTANT_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+export interface BulkExportRequest {
+  types: BulkExportType[];
+  // ISO instant, in UTC
+  since: string | null;
+}
+
+export interface BulkExportManifest {
+  transactionTime: string;
+  request: string;
+  requiresAccessToken: boolean;
+  output: Array<{ type: string; url: string; count: number }>;
+  error: Array<{ type: string; url: string }>;
+}
+
+export const bulkExportStatusUrl = (baseUrl: string, jobId: string) =>
+  `${baseUrl}/bulk-export/${jobId}`;
+
+// `_type` lists resource types, comma separated or repeated; other
+// unknown parameters are ignored, as for searches
+export function parseBulkExportRequest(
+  query: Record<string, unknown>,
+): Invalid | BulkExportRequest {
+  for (const param of UNSUPPORTED_PARAMETERS) {
+    if (query[param] !== undefined) {
+      return { error: `Unsupported $export parameter ${param}` };
+    }
+  }
+
+  const [format] = queryValues(query._outputFormat);
+  if (format && !NDJSON_FORMATS.includes(format)) {
+    return { error: `Unsupported _outputFormat ${format}` };
+  }
+
+  const requested = queryValues(query._type).flatMap((value) =>
+    value.split(",").map((type) => type.trim()),
+  );
+  const unknown = requested.find(
+    (type) => !BULK_EXPORT_TYPES.includes(type as BulkExportType),
+  );
+  if (unknown !== undefined) {
+    return { error: `Unsupported _type ${unknown}` };
+  }
+  const types = requested.length
+    ? BULK_EXPORT_TYPES.filter((type) => requested.includes(type))
+    : BULK_EXPORT_TYPES;
+
+  const [since] = queryValues(query._since);
+  if (since !== undefined) {
+    if (!INSTANT_PATTERN.test(since) || isNaN(Date.parse(since))) {
+      return { error: `Invalid _since ${since}; expected an instant` };
+    }
+    return { types, since: new Date(since).toISOString() };
+  }
+
+  return { types, since: null };
+}
+
+// Files are fetched with the same credentials as the kick-off request
+export function bulkExportManifest(
+  job: BulkExportJob,
+  baseUrl: string,
+): BulkExportManifest {
+  const statusUrl = bulkExportStatusUrl(baseUrl, job.id);
+  const url = (output: BulkExportOutput) => `${statusUrl}/${output.file}`;
+
+  return {
+    transactionTime: job.transaction_time,
+    request: job.request,
+    requiresAccessToken: true,
+    output: job.output.map((output) => ({
+      type: output.type,
+      url: url(output),
+      count: output.count,
+    })),
+    error: job.errors.map((output) => ({
+      type: output.type,
+      url: url(output),
+    })),
+  };
+}
@@ -0,0 +1,62 @@
+import type { Request } from "express";
+import type { Bundle, BundleLink } from "@shared/fhir";
+
+export function fhirBaseUrl(req: Request) {
+  return (
+    process.env.FHIR_BASE_URL ?? `${req.protocol}://${req.get("host")}/fhir`
+  );
+}
+
+export function searchsetBundle<
+  T extends { resourceType: string; id?: string },
+>(
+  req: Request,
+  resources: T[],
+  options: { total?: number; link?: BundleLink[] } = {},
+): Bundle<T> {
+  const base = fhirBaseUrl(req);
+
+  return {
+    resourceType: "Bundle",
+    type: "searchset",
+    timestamp: new Date().toISOString(),
+    total: options.total ?? resources.length,
+    link: options.link ?? [{ relation: "self", url: `${base}${req.url}` }],
+    entry: resources.map((resource) => ({
+      fullUrl: `${base}/${resource.resourceType}/${resource.id}`,
+      resource,
+      search: { mode: "match" },
+    })),
+  };
+}
+
+// self/first/previous/next links for an offset-paged search. The other
+// search parameters are carried over as sent.
+export function pageLinks(
+  req: Request,
+  page: { offset: number; count: number; total: number },
+): BundleLink[] {
+  const base = fhirBaseUrl(req);
+  const [path, search] = req.url.split("?");
+  const urlFor = (offset: number) => {
+    const params = new URLSearchParams(search);
+    params.set("_count", String(page.count));
+    params.set("_offset", String(offset));
+    return `${base}${path}?${params}`;
+  };
+
+  const link = [{ relation: "self", url: urlFor(page.offset) }];
+  if (!page.count) return link;
+
+  link.push({ relation: "first", url: urlFor(0) });
+  if (page.offset > 0) {
+    link.push({
+      relation: "previous",
+      url: urlFor(Math.max(0, page.offset - page.count)),
+    });
+  }
+  if (page.offset + page.count < page.total) {
+    link.push({ relation: "next", url: urlFor(page.offset + page.count) });
+  }
+  return link;
+}
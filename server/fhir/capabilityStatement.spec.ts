@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { Router } from "express";
+import {
+  buildCapabilityStatement,
+  registeredRoutes,
+} from "./capabilityStatement";
+import { PATIENT_SEARCH_PARAMETERS } from "./patient";
+import { PATIENT_PROFILE } from "./profiles";
+
+const noop = () => {};
+
+describe("FHIR CapabilityStatement", () => {
+  it("should describe the registered routes", () => {
+    const router = Router();
+    router.get("/metadata", noop);
+    router.get("/ValueSet/$expand", noop);
+    router.post("/ValueSet/$expand", noop);
+    router.get("/ValueSet/:id/$expand", noop);
+    router.get("/ValueSet/:id", noop);
+    router.post("/:resourceType/$validate", noop);
+    router.get("/$export", noop);
+    router.get("/Patient/$export", noop);
+    router.get("/bulk-export/:id", noop);
+    router.get("/Patient", noop);
+    router.get("/Patient/:id", noop);
+    router.post("/Patient", noop);
+    router.delete("/Patient/:id", noop);
+    router.get("/Patient/:id/_history", noop);
+    router.get("/Patient/:id/_history/:vid", noop);
+    router.post("/", noop);
+
+    const [rest] = buildCapabilityStatement(
+      registeredRoutes(router),
+      "http://localhost/fhir",
+    ).rest;
+
+    expect(rest.interaction).toEqual([
+      { code: "transaction" },
+      { code: "batch" },
+    ]);
+    expect(rest.operation).toEqual([
+      {
+        name: "export",
+        definition:
+          "http://hl7.org/fhir/uv/bulkdata/OperationDefinition/export",
+      },
+    ]);
+
+    const [valueSet, patient] = rest.resource;
+    expect(rest.resource).toHaveLength(2);
+    expect(valueSet).toEqual({
+      type: "ValueSet",
+      interaction: [{ code: "read" }],
+      operation: [
+        {
+          name: "expand",
+          definition: "http://hl7.org/fhir/OperationDefinition/ValueSet-expand",
+        },
+      ],
+    });
+    expect(patient.profile).toBe(PATIENT_PROFILE);
+    expect(patient.interaction.map((i) => i.code)).toEqual([
+      "search-type",
+      "read",
+      "create",
+      "delete",
+      "history-instance",
+      "vread",
+    ]);
+    expect(patient.versioning).toBe("versioned-update");
+    expect(patient.readHistory).toBe(true);
+    expect(patient.searchParam).toBe(PATIENT_SEARCH_PARAMETERS);
+    expect(patient.operation?.map((op) => op.definition)).toEqual([
+      "http://hl7.org/fhir/uv/bulkdata/OperationDefinition/patient-export",
+      "http://hl7.org/fhir/OperationDefinition/Resource-validate",
+    ]);
+  });
+});
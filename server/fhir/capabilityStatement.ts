@@ -0,0 +1,215 @@
+import type { Router } from "express";
+import type {
+  CapabilityStatement,
+  CapabilityStatementOperation,
+  CapabilityStatementResource,
+  CapabilityStatementSearchParam,
+} from "@shared/fhir";
+import {
+  AUDIT_EVENT_SEARCH_PARAMETERS,
+  PROVENANCE_SEARCH_PARAMETERS,
+} from "./auditEvent";
+import { CONDITION_SEARCH_PARAMETERS } from "./condition";
+import { FHIR_JSON, FHIR_XML } from "./format";
+import { PATIENT_SEARCH_PARAMETERS } from "./patient";
+import { profileFor } from "./profiles";
+
+// The CapabilityStatement is read off the routes the FHIR router has
+// registered, so it cannot promise anything the server does not do:
+//
+//   GET /Type            search-type     POST /Type        create
+//   GET /Type/:id        read            PUT /Type/:id     update
+//   DELETE /Type/:id     delete          POST /            transaction, batch
+//   GET /Type/:id/_history               history-instance
+//   GET /Type/:id/_history/:vid          vread, with versioned updates
+//   /Type/$op, /Type/:id/$op            operation on Type
+//   /:resourceType/$op                  operation on every type with a
+//                                       profile ($validate needs one)
+//   /$op                                system operation
+//
+// Paths that are not FHIR resources (bulk export files) are left out.
+
+export interface RegisteredRoute {
+  method: string;
+  path: string;
+}
+
+const HL7_OPERATIONS = "http://hl7.org/fhir/OperationDefinition";
+const BULK_DATA_OPERATIONS =
+  "http://hl7.org/fhir/uv/bulkdata/OperationDefinition";
+
+// Operations whose definition is not `${HL7_OPERATIONS}/[Type]-[name]`
+const OPERATION_DEFINITIONS: Record<string, string> = {
+  export: `${BULK_DATA_OPERATIONS}/export`,
+  "Patient/export": `${BULK_DATA_OPERATIONS}/patient-export`,
+};
+
+// Search parameters of each type with a search-type route
+const SEARCH_PARAMETERS: Record<string, CapabilityStatementSearchParam[]> = {
+  Patient: PATIENT_SEARCH_PARAMETERS,
+  Condition: CONDITION_SEARCH_PARAMETERS,
+  AuditEvent: AUDIT_EVENT_SEARCH_PARAMETERS,
+  Provenance: PROVENANCE_SEARCH_PARAMETERS,
+};
+
+const INTERACTIONS: Record<string, { type?: string; instance?: string }> = {
+  GET: { type: "search-type", instance: "read" },
+  POST: { type: "create" },
+  PUT: { instance: "update" },
+  PATCH: { instance: "patch" },
+  DELETE: { instance: "delete" },
+};
+
+const SECURITY_DESCRIPTION =
+  "Reads and writes of patient records, their history, AuditEvents and " +
+  "Provenance, and imports, require the Supabase access token of the " +
+  "signed-in user (Authorization: Bearer), which the server verifies. " +
+  "$export requires the admin role, read from the user's app_metadata. " +
+  "The terminology resources and operations are open.";
+
+// When the routes were last registered
+const STARTED_AT = new Date().toISOString();
+
+// Routes registered on the router, in registration order
+export function registeredRoutes(router: Router): RegisteredRoute[] {
+  return router.stack.flatMap((layer) => {
+    const route = layer.route as
+      | { path: string; methods?: Record<string, boolean> }
+      | undefined;
+    if (!route) return [];
+
+    return Object.keys(route.methods ?? {})
+      .filter((method) => method !== "_all")
+      .map((method) => ({ method: method.toUpperCase(), path: route.path }));
+  });
+}
+
+const isResourceType = (segment: string) => /^[A-Z][A-Za-z]*$/.test(segment);
+
+const operation = (
+  name: string,
+  type?: string,
+): CapabilityStatementOperation => ({
+  name,
+  definition:
+    OPERATION_DEFINITIONS[type ? `${type}/${name}` : name] ??
+    `${HL7_OPERATIONS}/${type ?? "Resource"}-${name}`,
+});
+
+// Routes such as GET and POST of one operation list it once
+const addOnce = <T>(list: T[], item: T) => {
+  const key = JSON.stringify(item);
+  if (!list.some((existing) => JSON.stringify(existing) === key)) {
+    list.push(item);
+  }
+};
+
+export function buildCapabilityStatement(
+  routes: RegisteredRoute[],
+  baseUrl: string,
+): CapabilityStatement {
+  const resources = new Map<string, CapabilityStatementResource>();
+  const systemInteractions: Array<{ code: string }> = [];
+  const systemOperations: CapabilityStatementOperation[] = [];
+  // Operations on /:resourceType, given at the end to every type with a
+  // profile to check against
+  const anyTypeOperations: CapabilityStatementOperation[] = [];
+
+  const resourceFor = (type: string) => {
+    let resource = resources.get(type);
+    if (!resource) {
+      const profile = profileFor({ resourceType: type })?.url;
+      resource = { type, ...(profile ? { profile } : {}), interaction: [] };
+      resources.set(type, resource);
+    }
+    return resource;
+  };
+
+  for (const { method, path } of routes) {
+    const segments = path.split("/").filter(Boolean);
+    const [first, second, third] = segments;
+
+    if (!first) {
+      if (method === "POST") {
+        addOnce(systemInteractions, { code: "transaction" });
+        addOnce(systemInteractions, { code: "batch" });
+      }
+      continue;
+    }
+    if (segments.length === 1 && first.startsWith("$")) {
+      addOnce(systemOperations, operation(first.slice(1)));
+      continue;
+    }
+
+    const name = [second, third].find((segment) => segment?.startsWith("$"));
+    if (first === ":resourceType") {
+      if (name) addOnce(anyTypeOperations, operation(name.slice(1)));
+      continue;
+    }
+    if (!isResourceType(first)) continue;
+
+    if (third === "_history" && method === "GET") {
+      const resource = resourceFor(first);
+      if (segments.length === 3) {
+        addOnce(resource.interaction, { code: "history-instance" });
+      } else if (segments.length === 4) {
+        addOnce(resource.interaction, { code: "vread" });
+        resource.versioning = "versioned-update";
+        resource.readHistory = true;
+      }
+      continue;
+    }
+    if (segments.length > 3) continue;
+
+    const resource = resourceFor(first);
+    if (name) {
+      resource.operation ??= [];
+      addOnce(resource.operation, operation(name.slice(1), first));
+      continue;
+    }
+
+    const code = second
+      ? INTERACTIONS[method]?.instance
+      : INTERACTIONS[method]?.type;
+    if (!code) continue;
+    addOnce(resource.interaction, { code });
+    if (code === "search-type" && SEARCH_PARAMETERS[first]) {
+      resource.searchParam = SEARCH_PARAMETERS[first];
+    }
+  }
+
+  for (const resource of resources.values()) {
+    if (!resource.profile) continue;
+    for (const op of anyTypeOperations) {
+      resource.operation ??= [];
+      addOnce(resource.operation, op);
+    }
+  }
+
+  return {
+    resourceType: "CapabilityStatement",
+    status: "active",
+    date: STARTED_AT,
+    publisher: "CareSync",
+    kind: "instance",
+    software: { name: "CareSync" },
+    implementation: {
+      description:
+        "CareSync FHIR API: NAMASTE terminology with ICD-11 mappings, and patient records",
+      url: baseUrl,
+    },
+    fhirVersion: "4.0.1",
+    format: [FHIR_JSON, "json", FHIR_XML, "xml"],
+    rest: [
+      {
+        mode: "server",
+        security: { cors: true, description: SECURITY_DESCRIPTION },
+        resource: Array.from(resources.values()),
+        ...(systemInteractions.length
+          ? { interaction: systemInteractions }
+          : {}),
+        ...(systemOperations.length ? { operation: systemOperations } : {}),
+      },
+    ],
+  };
+}
@@ -0,0 +1,140 @@
+import type { CodeCategory, CodemapRow } from "@shared/api";
+import type { CodeSystem, CodeSystemConcept, Parameters } from "@shared/fhir";
+import { NAMASTE_SYSTEMS } from "./systems";
+
+export const CODE_SYSTEM_IDS: Record<CodeCategory, string> = {
+  Ayurveda: "namaste-ayurveda",
+  Siddha: "namaste-siddha",
+  Unani: "namaste-unani",
+};
+
+export function categoryForCodeSystemId(id: string): CodeCategory | undefined {
+  return (Object.keys(CODE_SYSTEM_IDS) as CodeCategory[]).find(
+    (category) => CODE_SYSTEM_IDS[category] === id,
+  );
+}
+
+// One concept per NAMASTE code, even when the code maps to several
+// ICD-11 targets in the codemap.
+export function toConcepts(rows: CodemapRow[]): CodeSystemConcept[] {
+  const concepts = new Map<string, CodeSystemConcept>();
+
+  for (const row of rows) {
+    if (concepts.has(row.namaste_code)) continue;
+    concepts.set(row.namaste_code, {
+      code: row.namaste_code,
+      display: row.namaste_name ?? undefined,
+      definition: row.description ?? undefined,
+      ...(row.symptoms && {
+        property: [{ code: "symptoms", valueString: row.symptoms }],
+      }),
+    });
+  }
+
+  return Array.from(concepts.values()).sort((a, b) =>
+    a.code.localeCompare(b.code),
+  );
+}
+
+export function buildCodeSystem(
+  category: CodeCategory,
+  rows: CodemapRow[],
+): CodeSystem {
+  const concept = toConcepts(rows.filter((row) => row.category === category));
+
+  return {
+    resourceType: "CodeSystem",
+    id: CODE_SYSTEM_IDS[category],
+    url: NAMASTE_SYSTEMS[category],
+    name: `Namaste${category}`,
+    title: `NAMASTE ${category} Morbidity Codes`,
+    status: "active",
+    date: new Date().toISOString(),
+    publisher: "Ministry of Ayush, Government of India",
+    caseSensitive: true,
+    content: "complete",
+    count: concept.length,
+    property: [
+      {
+        code: "symptoms",
+        description: "Comma-separated presenting symptoms",
+        type: "string",
+      },
+    ],
+    concept,
+  };
+}
+
+export function lookup(
+  category: CodeCategory,
+  rows: CodemapRow[],
+  code: string,
+): Parameters | null {
+  const concept = toConcepts(rows).find((c) => c.code === code);
+  if (!concept) return null;
+
+  return {
+    resourceType: "Parameters",
+    parameter: [
+      { name: "name", valueString: `NAMASTE ${category}` },
+      ...(concept.display
+        ? [{ name: "display", valueString: concept.display }]
+        : []),
+      ...(concept.definition
+        ? [{ name: "definition", valueString: concept.definition }]
+        : []),
+      ...(concept.property ?? []).map((property) => ({
+        name: "property",
+        part: [
+          { name: "code", valueCode: property.code },
+          { name: "value", valueString: property.valueString },
+        ],
+      })),
+    ],
+  };
+}
+
+export function validateCode(
+  category: CodeCategory,
+  rows: CodemapRow[],
+  code: string,
+  display?: string,
+): Parameters {
+  const concept = toConcepts(rows).find((c) => c.code === code);
+
+  if (!concept) {
+    return {
+      resourceType: "Parameters",
+      parameter: [
+        { name: "result", valueBoolean: false },
+        {
+          name: "message",
+          valueString: `Code ${code} is not in ${NAMASTE_SYSTEMS[category]}`,
+        },
+      ],
+    };
+  }
+
+  const displayMatches =
+    !display ||
+    !concept.display ||
+    concept.display.toLowerCase() === display.toLowerCase();
+
+  return {
+    resourceType: "Parameters",
+    parameter: [
+      { name: "result", valueBoolean: displayMatches },
+      ...(concept.display
+        ? [{ name: "display", valueString: concept.display }]
+        : []),
+      ...(!displayMatches
+        ? [
+            {
+              name: "message",
+              valueString: `Display "${display}" does not match "${concept.display}"`,
+            },
+          ]
+        : []),
+    ],
+  };
+}
@@ -0,0 +1,41 @@
+import type { Composition, Condition, Patient } from "@shared/fhir";
+import { HEALTH_RECORD_PROFILE, HEALTH_RECORD_TYPE } from "./profiles";
+
+// The Composition a patient record document starts with: who it is about,
+// who exported it, and a section listing the record's Conditions
+export function patientRecordComposition(
+  id: string,
+  patient: Patient,
+  conditions: Condition[],
+  author: string,
+  date: string,
+): Composition {
+  const [official] = patient.name ?? [];
+  const name = [...(official?.given ?? []), official?.family]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    resourceType: "Composition",
+    id,
+    meta: { profile: [HEALTH_RECORD_PROFILE] },
+    status: "final",
+    type: { coding: [HEALTH_RECORD_TYPE], text: "Patient record" },
+    subject: { reference: `Patient/${patient.id}` },
+    date,
+    author: [{ display: author }],
+    title: name ? `Patient record: ${name}` : "Patient record",
+    ...(conditions.length
+      ? {
+          section: [
+            {
+              title: "Conditions",
+              entry: conditions.map((condition) => ({
+                reference: `Condition/${condition.id}`,
+              })),
+            },
+          ],
+        }
+      : {}),
+  };
+}
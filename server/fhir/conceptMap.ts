@@ -0,0 +1,179 @@
+import { createHash } from "crypto";
+import type { CodeCategory, CodemapRow } from "@shared/api";
+import type {
+  ConceptMap,
+  ConceptMapEquivalence,
+  ConceptMapGroup,
+  Meta,
+  Parameters,
+  ParametersParameter,
+} from "@shared/fhir";
+import { formatIcd11Expression, mappingVersion } from "../../shared/codemap";
+import {
+  CANONICAL_BASE,
+  CONFIDENCE_EXTENSION,
+  ICD11_SYSTEM,
+  NAMASTE_SYSTEMS,
+} from "./systems";
+
+export const CONCEPT_MAP_ID = "namaste-to-icd11";
+export const CONCEPT_MAP_URL = `${CANONICAL_BASE}/ConceptMap/${CONCEPT_MAP_ID}`;
+
+// Rows without a target code are unmatched whatever they record; rows
+// created before equivalence was captured are published as "relatedto"
+export const equivalenceFor = (row: CodemapRow): ConceptMapEquivalence =>
+  row.icd11_code && row.equivalence !== "unmatched"
+    ? (row.equivalence ?? "relatedto")
+    : "unmatched";
+
+// FHIR requires a comment on narrower and inexact targets; the row's
+// description is used when it has one
+const EQUIVALENCE_COMMENTS: Partial<Record<ConceptMapEquivalence, string>> = {
+  narrower: "The ICD-11 target covers only part of the NAMASTE concept",
+  inexact: "The NAMASTE concept and the ICD-11 target overlap only partly",
+};
+
+// The ICD-11 code sent in FHIR: the stem, or the postcoordinated cluster
+// when extension codes are recorded
+export const targetCodeFor = (row: CodemapRow) =>
+  formatIcd11Expression(row.icd11_code, row.icd11_extensions);
+
+// Every mapping write makes a new ConceptMap version: the versionId is
+// a digest of each row's version, and lastUpdated the newest of them
+function conceptMapMeta(rows: CodemapRow[]): Meta {
+  const versions = rows.map((row) => `${row.id}:${mappingVersion(row)}`);
+  const versionId = createHash("sha256")
+    .update(versions.sort().join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+  const lastUpdated = rows
+    .map(mappingVersion)
+    .reduce((newest, version) => (version > newest ? version : newest));
+
+  return { versionId, lastUpdated };
+}
+
+export function buildConceptMap(rows: CodemapRow[]): ConceptMap {
+  const groups = new Map<CodeCategory, ConceptMapGroup>();
+
+  for (const row of rows) {
+    if (!groups.has(row.category)) {
+      groups.set(row.category, {
+        source: NAMASTE_SYSTEMS[row.category],
+        target: ICD11_SYSTEM,
+        element: [],
+      });
+    }
+    const group = groups.get(row.category)!;
+
+    let element = group.element.find((e) => e.code === row.namaste_code);
+    if (!element) {
+      element = {
+        code: row.namaste_code,
+        display: row.namaste_name ?? undefined,
+        target: [],
+      };
+      group.element.push(element);
+    }
+
+    const equivalence = equivalenceFor(row);
+    element.target.push({
+      ...(equivalence !== "unmatched" && {
+        code: targetCodeFor(row),
+        display: row.icd11_name ?? undefined,
+      }),
+      equivalence,
+      ...(EQUIVALENCE_COMMENTS[equivalence] && {
+        comment: row.description ?? EQUIVALENCE_COMMENTS[equivalence],
+      }),
+      ...(row.confidence != null && {
+        extension: [
+          { url: CONFIDENCE_EXTENSION, valueDecimal: row.confidence },
+        ],
+      }),
+    });
+  }
+
+  return {
+    resourceType: "ConceptMap",
+    id: CONCEPT_MAP_ID,
+    ...(rows.length && { meta: conceptMapMeta(rows) }),
+    url: CONCEPT_MAP_URL,
+    name: "NamasteToIcd11",
+    title: "NAMASTE to ICD-11 MMS",
+    status: "active",
+    date: new Date().toISOString(),
+    group: Array.from(groups.values()),
+  };
+}
+
+export interface TranslateRequest {
+  system?: string;
+  code: string;
+  target?: string;
+}
+
+// Builds the $translate response for the codemap rows whose source code
+// matches the request; callers narrow `rows` to the requested system.
+export function translate(
+  rows: CodemapRow[],
+  request: TranslateRequest,
+): Parameters {
+  if (request.target && request.target !== ICD11_SYSTEM) {
+    return {
+      resourceType: "Parameters",
+      parameter: [
+        { name: "result", valueBoolean: false },
+        {
+          name: "message",
+          valueString: `No mappings available to target ${request.target}`,
+        },
+      ],
+    };
+  }
+
+  const sourceRows = rows.filter((row) => row.namaste_code === request.code);
+  const matched = sourceRows.filter(
+    (row) => equivalenceFor(row) !== "unmatched",
+  );
+
+  // Explicitly unmatched rows are reported as matches without a concept
+  const matches: ParametersParameter[] = sourceRows.map((row) => ({
+    name: "match",
+    part: [
+      { name: "equivalence", valueCode: equivalenceFor(row) },
+      ...(equivalenceFor(row) !== "unmatched"
+        ? [
+            {
+              name: "concept",
+              valueCoding: {
+                system: ICD11_SYSTEM,
+                code: targetCodeFor(row),
+                display: row.icd11_name ?? undefined,
+              },
+            },
+          ]
+        : []),
+      ...(row.confidence != null
+        ? [{ name: "confidence", valueDecimal: row.confidence }]
+        : []),
+      { name: "source", valueUri: CONCEPT_MAP_URL },
+    ],
+  }));
+
+  return {
+    resourceType: "Parameters",
+    parameter: [
+      { name: "result", valueBoolean: matched.length > 0 },
+      ...(matched.length === 0
+        ? [
+            {
+              name: "message",
+              valueString: `No ICD-11 mapping found for ${request.code}`,
+            },
+          ]
+        : []),
+      ...matches,
+    ],
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import type { PatientDiagnosisRow } from "@shared/api";
+import { seedCodemap } from "../terminology/seed";
+import {
+  fromFhirCondition,
+  parseConditionSearch,
+  toFhirCondition,
+} from "./condition";
+import { ICD11_SYSTEM, NAMASTE_SYSTEMS } from "./systems";
+
+const mapping = seedCodemap.find((row) => row.icd11_code)!;
+
+const row: PatientDiagnosisRow = {
+  id: "d1",
+  patient_id: "p1",
+  namaste_code: mapping.namaste_code,
+  icd11_code: mapping.icd11_code!,
+  symptoms: "Joint pain, Stiffness",
+  clinical_notes: "Worse in the morning",
+  clinical_status: "remission",
+  verification_status: "provisional",
+  recorded_by: "doctor@example.com",
+  created_at: "2024-03-01T10:00:00.000Z",
+  version_id: 1,
+  updated_at: "2024-03-01T10:00:00.000Z",
+};
+
+describe("FHIR Condition mapping", () => {
+  it("should carry both the NAMASTE and the ICD-11 coding", () => {
+    const condition = toFhirCondition(row, [mapping]);
+
+    expect(condition.id).toBe("d1");
+    expect(condition.code?.coding).toEqual([
+      {
+        system: NAMASTE_SYSTEMS[mapping.category],
+        code: mapping.namaste_code,
+        display: mapping.namaste_name,
+      },
+      {
+        system: ICD11_SYSTEM,
+        code: mapping.icd11_code,
+        display: mapping.icd11_name,
+      },
+    ]);
+    expect(condition.clinicalStatus?.coding?.[0].code).toBe("remission");
+    expect(condition.recorder).toEqual({ display: "doctor@example.com" });
+  });
+
+  it("should read back what it writes", () => {
+    expect(fromFhirCondition(toFhirCondition(row, [mapping]))).toEqual({
+      input: {
+        patientId: "p1",
+        namasteCode: mapping.namaste_code,
+        namasteSystem: NAMASTE_SYSTEMS[mapping.category],
+        icd11Code: mapping.icd11_code,
+        fields: {
+          clinical_status: "remission",
+          verification_status: "provisional",
+          symptoms: "Joint pain, Stiffness",
+          clinical_notes: "Worse in the morning",
+        },
+      },
+    });
+  });
+
+  it("should require a patient and a NAMASTE coding", () => {
+    const condition = toFhirCondition(row, [mapping]);
+
+    expect(
+      fromFhirCondition({ ...condition, subject: { reference: "Group/1" } }),
+    ).toHaveProperty("error");
+    expect(
+      fromFhirCondition({
+        ...condition,
+        code: { coding: [condition.code!.coding![1]] },
+      }),
+    ).toHaveProperty("error");
+    expect(
+      fromFhirCondition({
+        ...condition,
+        clinicalStatus: { coding: [{ code: "cured" }] },
+      }),
+    ).toHaveProperty("error");
+  });
+});
+
+describe("FHIR Condition search parameters", () => {
+  it("should read patient, code, dates and status", () => {
+    expect(
+      parseConditionSearch({
+        patient: "Patient/p1",
+        code: `${ICD11_SYSTEM}|${mapping.icd11_code}`,
+        "recorded-date": "ge2024-03",
+        "clinical-status": "active,recurrence",
+        _count: "5",
+      }),
+    ).toEqual({
+      search: {
+        patientId: "p1",
+        code: { value: mapping.icd11_code, columns: ["icd11_code"] },
+        recordedDate: [{ from: "2024-03-01" }],
+        clinicalStatus: ["active", "recurrence"],
+        limit: 5,
+      },
+    });
+
+    expect(parseConditionSearch({ code: "X1" })).toMatchObject({
+      search: { code: { columns: ["namaste_code", "icd11_code"] } },
+    });
+    expect(parseConditionSearch({ code: "urn:other|X1" })).toMatchObject({
+      search: { code: { columns: [] } },
+    });
+    expect(parseConditionSearch({ "code:text": "x" })).toHaveProperty("error");
+  });
+});
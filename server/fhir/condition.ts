@@ -0,0 +1,352 @@
+import type {
+  CodemapRow,
+  ConditionClinicalStatus,
+  ConditionVerificationStatus,
+  PatientDiagnosisRow,
+} from "@shared/api";
+import type {
+  CapabilityStatementSearchParam,
+  CodeableConcept,
+  Coding,
+  Condition,
+} from "@shared/fhir";
+import { splitSymptoms } from "../analytics/codeAnalytics";
+import type { DiagnosisSearch } from "../patients/repository";
+import type { TerminologyRepository } from "../terminology/repository";
+import { CONDITION_PROFILE } from "./profiles";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  parseCount,
+  parseDateRange,
+  parseToken,
+  queryValues,
+} from "./search";
+import { categoryForSystem, ICD11_SYSTEM, NAMASTE_SYSTEMS } from "./systems";
+
+export const CLINICAL_STATUS_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/condition-clinical";
+export const VERIFICATION_STATUS_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/condition-ver-status";
+const CATEGORY_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/condition-category";
+
+export const CLINICAL_STATUSES: ConditionClinicalStatus[] = [
+  "active",
+  "recurrence",
+  "relapse",
+  "inactive",
+  "remission",
+  "resolved",
+];
+
+export const VERIFICATION_STATUSES: ConditionVerificationStatus[] = [
+  "unconfirmed",
+  "provisional",
+  "differential",
+  "confirmed",
+  "refuted",
+  "entered-in-error",
+];
+
+type Invalid = { error: string };
+
+const status = (system: string, code: string): CodeableConcept => ({
+  coding: [{ system, code }],
+});
+
+// `mappings` are the codemap rows for the diagnosis's NAMASTE code, used
+// for the code system and displays. Both codings are always sent so
+// receivers that only know ICD-11 can still read the Condition.
+export function toFhirCondition(
+  row: PatientDiagnosisRow,
+  mappings: CodemapRow[] = [],
+): Condition {
+  const concept = mappings.find((m) => m.namaste_code === row.namaste_code);
+  const target = mappings.find(
+    (m) =>
+      m.namaste_code === row.namaste_code && m.icd11_code === row.icd11_code,
+  );
+  const symptoms = splitSymptoms(row.symptoms);
+
+  const namaste: Coding = {
+    ...(concept && { system: NAMASTE_SYSTEMS[concept.category] }),
+    code: row.namaste_code,
+    ...(concept?.namaste_name && { display: concept.namaste_name }),
+  };
+  const icd11: Coding = {
+    system: ICD11_SYSTEM,
+    code: row.icd11_code,
+    ...(target?.icd11_name && { display: target.icd11_name }),
+  };
+
+  return {
+    resourceType: "Condition",
+    id: row.id,
+    meta: {
+      versionId: String(row.version_id),
+      lastUpdated: row.updated_at,
+      profile: [CONDITION_PROFILE],
+    },
+    clinicalStatus: status(CLINICAL_STATUS_SYSTEM, row.clinical_status),
+    verificationStatus: status(
+      VERIFICATION_STATUS_SYSTEM,
+      row.verification_status,
+    ),
+    category: [status(CATEGORY_SYSTEM, "encounter-diagnosis")],
+    code: {
+      coding: [namaste, icd11],
+      ...(concept?.namaste_name && { text: concept.namaste_name }),
+    },
+    subject: { reference: `Patient/${row.patient_id}` },
+    recordedDate: row.created_at,
+    ...(row.recorded_by && { recorder: { display: row.recorded_by } }),
+    ...(symptoms.length && {
+      evidence: [{ code: symptoms.map((text) => ({ text })) }],
+    }),
+    ...(row.clinical_notes && { note: [{ text: row.clinical_notes }] }),
+  };
+}
+
+// What an incoming Condition asks for. The NAMASTE code still has to be
+// checked against the terminology, and a missing ICD-11 code filled in
+// from the codemap.
+export interface ConditionInput {
+  patientId: string;
+  namasteCode: string;
+  namasteSystem: string;
+  icd11Code: string | null;
+  fields: Pick<
+    PatientDiagnosisRow,
+    "clinical_status" | "verification_status" | "symptoms" | "clinical_notes"
+  >;
+}
+
+const PATIENT_REFERENCE = /^(?:.*\/)?Patient\/([^/]+)$/;
+
+const statusCode = (concept: CodeableConcept | undefined) =>
+  concept?.coding?.find((coding) => coding.code)?.code;
+
+export function fromFhirCondition(
+  resource: unknown,
+): Invalid | { input: ConditionInput } {
+  const condition = resource as Condition;
+  if (condition?.resourceType !== "Condition") {
+    return { error: "Expected a Condition resource" };
+  }
+
+  const patientId = PATIENT_REFERENCE.exec(
+    condition.subject?.reference ?? "",
+  )?.[1];
+  if (!patientId) {
+    return { error: "Condition.subject must reference a Patient" };
+  }
+
+  const codings = condition.code?.coding ?? [];
+  const namaste = codings.find(
+    (coding) =>
+      coding.code && coding.system && categoryForSystem(coding.system),
+  );
+  if (!namaste) {
+    return { error: "Condition.code must include a NAMASTE coding" };
+  }
+  const icd11 = codings.find(
+    (coding) => coding.system === ICD11_SYSTEM && coding.code,
+  );
+
+  const clinical = statusCode(condition.clinicalStatus) ?? "active";
+  if (!CLINICAL_STATUSES.includes(clinical as ConditionClinicalStatus)) {
+    return { error: `Unknown Condition.clinicalStatus ${clinical}` };
+  }
+  const verification = statusCode(condition.verificationStatus) ?? "confirmed";
+  if (
+    !VERIFICATION_STATUSES.includes(verification as ConditionVerificationStatus)
+  ) {
+    return { error: `Unknown Condition.verificationStatus ${verification}` };
+  }
+
+  const symptoms = (condition.evidence ?? [])
+    .flatMap((evidence) => evidence.code ?? [])
+    .map((concept) => concept.text ?? concept.coding?.[0]?.display)
+    .filter(Boolean);
+  const notes = (condition.note ?? [])
+    .map((note) => note.text?.trim())
+    .filter(Boolean);
+
+  return {
+    input: {
+      patientId,
+      namasteCode: namaste.code!,
+      namasteSystem: namaste.system!,
+      icd11Code: icd11?.code ?? null,
+      fields: {
+        clinical_status: clinical as ConditionClinicalStatus,
+        verification_status: verification as ConditionVerificationStatus,
+        symptoms: symptoms.join(", ") || null,
+        clinical_notes: notes.join("\n") || null,
+      },
+    },
+  };
+}
+
+// Codemap rows for the diagnoses' NAMASTE codes, for systems and displays
+export const conditionMappings = async (
+  terminology: TerminologyRepository,
+  rows: Array<Pick<PatientDiagnosisRow, "namaste_code">>,
+) => {
+  const codes = Array.from(new Set(rows.map((row) => row.namaste_code)));
+  return codes.length ? terminology.list({ namasteCodes: codes }) : [];
+};
+
+// Checks the NAMASTE code against the terminology, in its system when one
+// is named, and takes the ICD-11 code from the codemap when the client
+// sent none
+export async function resolveConditionCodes(
+  terminology: TerminologyRepository,
+  input: Pick<ConditionInput, "namasteCode" | "icd11Code"> &
+    Partial<Pick<ConditionInput, "namasteSystem">>,
+): Promise<Invalid | Pick<PatientDiagnosisRow, "namaste_code" | "icd11_code">> {
+  const { namasteSystem } = input;
+  const known = (
+    await terminology.list({ namasteCodes: [input.namasteCode] })
+  ).filter(
+    (row) =>
+      !namasteSystem || row.category === categoryForSystem(namasteSystem),
+  );
+
+  if (!known.length) {
+    return {
+      error: namasteSystem
+        ? `Unknown code ${input.namasteCode} in ${namasteSystem}`
+        : `Unknown NAMASTE code ${input.namasteCode}`,
+    };
+  }
+
+  const icd11 =
+    input.icd11Code ?? known.find((row) => row.icd11_code)?.icd11_code;
+  if (!icd11) {
+    return {
+      error: `${input.namasteCode} has no ICD-11 mapping; send an ICD-11 coding`,
+    };
+  }
+
+  return { namaste_code: input.namasteCode, icd11_code: icd11 };
+}
+
+// ----------------------
+// Search parameters
+// ----------------------
+
+// Everything parseConditionSearch understands, as advertised by /metadata
+export const CONDITION_SEARCH_PARAMETERS: CapabilityStatementSearchParam[] = [
+  {
+    name: "patient",
+    type: "reference",
+    documentation: "Patient/[id], or a bare id",
+  },
+  {
+    name: "subject",
+    type: "reference",
+    documentation: "Patient/[id], or a bare id",
+  },
+  {
+    name: "code",
+    type: "token",
+    documentation: "[system|]code; matches the NAMASTE or ICD-11 coding",
+  },
+  {
+    name: "recorded-date",
+    type: "date",
+    documentation: "[prefix]YYYY[-MM[-DD]]",
+  },
+  {
+    name: "clinical-status",
+    type: "token",
+    documentation: "Comma separated codes match any",
+  },
+  { name: "_count", type: "number" },
+  { name: "_offset", type: "number" },
+];
+
+const SEARCH_PARAMETERS = CONDITION_SEARCH_PARAMETERS.map(
+  (param) => param.name,
+);
+
+// Turns the Condition search parameters into a repository search.
+// Unknown parameters are ignored.
+export function parseConditionSearch(
+  query: Record<string, unknown>,
+): Invalid | { search: DiagnosisSearch } {
+  const search: DiagnosisSearch = { limit: DEFAULT_PAGE_SIZE };
+
+  for (const [key, raw] of Object.entries(query)) {
+    const [param, modifier] = key.split(":");
+    if (!SEARCH_PARAMETERS.includes(param)) continue;
+    if (modifier) {
+      return { error: `Unsupported search parameter ${key}` };
+    }
+
+    const values = queryValues(raw);
+
+    switch (param) {
+      case "patient":
+      case "subject": {
+        const reference = values[0] ?? "";
+        const id = reference.includes("/")
+          ? PATIENT_REFERENCE.exec(reference)?.[1]
+          : reference;
+        if (!id || values.length > 1) {
+          return { error: `${param} takes a single Patient reference` };
+        }
+        search.patientId = id;
+        break;
+      }
+
+      case "code": {
+        const token = parseToken(values[0] ?? "");
+        if (!token || values.length > 1) {
+          return { error: "code takes a single [system|]code" };
+        }
+        search.code = {
+          value: token.value,
+          columns: !token.system
+            ? ["namaste_code", "icd11_code"]
+            : token.system === ICD11_SYSTEM
+              ? ["icd11_code"]
+              : categoryForSystem(token.system)
+                ? ["namaste_code"]
+                : [],
+        };
+        break;
+      }
+
+      case "recorded-date":
+        for (const value of values) {
+          const range = parseDateRange(value);
+          if (!range) return { error: `Invalid recorded-date ${value}` };
+          search.recordedDate = [...(search.recordedDate ?? []), range];
+        }
+        break;
+
+      case "clinical-status":
+        search.clinicalStatus = values.flatMap((value) => value.split(","));
+        break;
+
+      case "_count": {
+        const count = parseCount(values[0], DEFAULT_PAGE_SIZE);
+        if (count === null) return { error: "_count must be a whole number" };
+        search.limit = Math.min(count, MAX_PAGE_SIZE);
+        break;
+      }
+
+      case "_offset": {
+        const offset = parseCount(values[0], 0);
+        if (offset === null) return { error: "_offset must be a whole number" };
+        search.offset = offset;
+        break;
+      }
+    }
+  }
+
+  return { search };
+}
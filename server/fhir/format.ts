@@ -0,0 +1,32 @@
+import type { Request } from "express";
+import { queryValues } from "./search";
+
+// Content negotiation for FHIR (https://hl7.org/fhir/R4/http.html#mime-type):
+// `_format` wins over Accept, and JSON is sent when neither asks for XML
+
+export type FhirFormat = "json" | "xml";
+
+export const FHIR_JSON = "application/fhir+json";
+export const FHIR_XML = "application/fhir+xml";
+
+export const JSON_TYPES = [FHIR_JSON, "application/json"];
+export const XML_TYPES = [FHIR_XML, "application/xml", "text/xml"];
+
+const FORMATS: Record<string, FhirFormat> = {
+  json: "json",
+  xml: "xml",
+  ...Object.fromEntries(JSON_TYPES.map((type) => [type, "json"])),
+  ...Object.fromEntries(XML_TYPES.map((type) => [type, "xml"])),
+};
+
+// Null when `_format` names a format we cannot send
+export function fhirFormat(req: Request): FhirFormat | null {
+  const [format] = queryValues(req.query?._format);
+  if (format !== undefined) {
+    // An unescaped `+` in the query string reads as a space
+    return FORMATS[format.split(";")[0].trim().replace(" ", "+")] ?? null;
+  }
+
+  const accepted = req.accepts([...JSON_TYPES, ...XML_TYPES]);
+  return accepted && XML_TYPES.includes(accepted) ? "xml" : "json";
+}
@@ -0,0 +1,40 @@
+import type { Response } from "express";
+import type { OperationOutcome, OperationOutcomeIssue } from "@shared/fhir";
+import { FHIR_JSON, FHIR_XML, fhirFormat } from "./format";
+import { toFhirXml } from "./xml";
+
+export function operationOutcome(
+  severity: OperationOutcomeIssue["severity"],
+  code: string,
+  diagnostics: string,
+): OperationOutcome {
+  return {
+    resourceType: "OperationOutcome",
+    issue: [{ severity, code, diagnostics }],
+  };
+}
+
+// In the format the request negotiated; see fhirFormat
+export function sendResource(res: Response, resource: unknown, status = 200) {
+  res.vary("Accept").status(status);
+
+  const { resourceType } = (resource ?? {}) as { resourceType?: unknown };
+  if (typeof resourceType === "string" && fhirFormat(res.req) === "xml") {
+    res.type(FHIR_XML).send(toFhirXml(resource as { resourceType: string }));
+    return;
+  }
+  res.type(FHIR_JSON).send(JSON.stringify(resource));
+}
+
+export function sendOutcome(
+  res: Response,
+  status: number,
+  code: string,
+  diagnostics: string,
+) {
+  sendResource(
+    res,
+    operationOutcome(status >= 500 ? "fatal" : "error", code, diagnostics),
+    status,
+  );
+}
@@ -0,0 +1,38 @@
+import type { Request } from "express";
+import type { Parameters, ParametersParameter } from "@shared/fhir";
+
+const primitiveValue = (param: ParametersParameter) =>
+  param.valueCode ??
+  param.valueUri ??
+  param.valueString ??
+  param.valueBoolean ??
+  param.valueDecimal;
+
+// FHIR operations take their inputs either as query parameters (GET) or
+// as a Parameters resource (POST). Flatten both into one string map;
+// a `coding` input is expanded into `system`/`code`/`version`.
+export function readOperationInput(req: Request): Record<string, string> {
+  const input: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(req.query)) {
+    if (typeof value === "string") input[key] = value;
+  }
+
+  const body = req.body as Parameters | undefined;
+  if (body?.resourceType === "Parameters") {
+    for (const param of body.parameter ?? []) {
+      if (param.valueCoding) {
+        const { system, code, version } = param.valueCoding;
+        if (system) input.system = system;
+        if (code) input.code = code;
+        if (version) input.version = version;
+        continue;
+      }
+
+      const value = primitiveValue(param);
+      if (value !== undefined) input[param.name] = String(value);
+    }
+  }
+
+  return input;
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import type { PatientRow } from "@shared/api";
+import { fromFhirPatient, parsePatientSearch, toFhirPatient } from "./patient";
+import { MAX_PAGE_SIZE } from "./search";
+
+const row: PatientRow = {
+  id: "p1",
+  user_id: null,
+  first_name: "Asha Kumari",
+  last_name: "Rao",
+  date_of_birth: "1980-01-15",
+  gender: "female",
+  admit_date: "2024-03-01",
+  diagnosis: "Fever",
+  email: "asha@example.com",
+  phone: "+91 98450 00000",
+  guardian_name: "Ravi Rao",
+  guardian_phone: "+91 98450 11111",
+  address: "12 MG Road, Bengaluru",
+  identifiers: [{ system: "https://healthid.ndhm.gov.in", value: "91-1234" }],
+  diagnosis_count: 0,
+  created_at: "2024-03-01T10:00:00.000Z",
+  version_id: 1,
+  updated_at: "2024-03-01T10:00:00.000Z",
+};
+
+const search = (query: Record<string, unknown>) => {
+  const parsed = parsePatientSearch(query);
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed.search;
+};
+
+describe("FHIR Patient mapping", () => {
+  it("should read back what it writes", () => {
+    const parsed = fromFhirPatient(toFhirPatient(row));
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    const { user_id, admit_date, diagnosis, diagnosis_count, ...fields } = row;
+    const { id, created_at, version_id, updated_at, ...expected } = fields;
+    expect(parsed.fields).toEqual(expected);
+  });
+
+  it("should flatten structured addresses and contact names", () => {
+    const parsed = fromFhirPatient({
+      resourceType: "Patient",
+      name: [{ use: "usual", family: "Rao", given: ["Asha"] }],
+      gender: "unknown",
+      address: [
+        { line: ["12 MG Road"], city: "Bengaluru", postalCode: "560001" },
+      ],
+      contact: [{ name: { given: ["Ravi"], family: "Rao" } }],
+    });
+
+    expect(parsed).toMatchObject({
+      fields: {
+        first_name: "Asha",
+        gender: null,
+        address: "12 MG Road, Bengaluru, 560001",
+        guardian_name: "Ravi Rao",
+      },
+    });
+  });
+
+  it("should reject resources it cannot store", () => {
+    expect(fromFhirPatient({ resourceType: "Observation" })).toHaveProperty(
+      "error",
+    );
+    expect(
+      fromFhirPatient({ resourceType: "Patient", name: [{ family: "Rao" }] }),
+    ).toHaveProperty("error");
+    expect(
+      fromFhirPatient({
+        resourceType: "Patient",
+        name: [{ family: "Rao", given: ["Asha"] }],
+        birthDate: "1980",
+      }),
+    ).toHaveProperty("error");
+  });
+});
+
+describe("FHIR Patient search parameters", () => {
+  it("should turn birthdate prefixes into date ranges", () => {
+    expect(
+      search({ birthdate: ["ge1980", "lt1990-06", "ne1985-02-28"] }).birthDate,
+    ).toEqual([
+      { from: "1980-01-01" },
+      { before: "1990-06-01" },
+      { from: "1985-02-28", before: "1985-03-01", exclude: true },
+    ]);
+    expect(search({ birthdate: "1980-12" }).birthDate).toEqual([
+      { from: "1980-12-01", before: "1981-01-01" },
+    ]);
+    expect(parsePatientSearch({ birthdate: "1980-13" })).toHaveProperty(
+      "error",
+    );
+    expect(parsePatientSearch({ birthdate: "ap1980" })).toHaveProperty("error");
+  });
+
+  it("should read names, tokens, sorting and paging", () => {
+    expect(
+      search({
+        name: "as",
+        "family:exact": "Rao",
+        gender: "male,female",
+        identifier: "https://healthid.ndhm.gov.in|91-1234",
+        telecom: "asha@example.com",
+        _sort: "-birthdate,name",
+        _count: "500",
+        _offset: "40",
+        _format: "json",
+      }),
+    ).toEqual({
+      name: [{ value: "as", match: "start" }],
+      family: [{ value: "Rao", match: "exact" }],
+      gender: ["male", "female"],
+      identifier: { system: "https://healthid.ndhm.gov.in", value: "91-1234" },
+      telecom: { value: "asha@example.com" },
+      sort: [
+        { column: "date_of_birth", descending: true },
+        { column: "last_name", descending: false },
+        { column: "first_name", descending: false },
+      ],
+      limit: MAX_PAGE_SIZE,
+      offset: 40,
+    });
+
+    expect(parsePatientSearch({ "name:phonetic": "x" })).toHaveProperty(
+      "error",
+    );
+    expect(parsePatientSearch({ _sort: "address" })).toHaveProperty("error");
+    expect(parsePatientSearch({ _count: "-1" })).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,317 @@
+import type { PatientGender, PatientRow } from "@shared/api";
+import type {
+  CapabilityStatementSearchParam,
+  ContactPoint,
+  HumanName,
+  Patient,
+} from "@shared/fhir";
+import type {
+  NewPatient,
+  PatientSearch,
+  PatientSortColumn,
+  TextFilter,
+} from "../patients/repository";
+import { PATIENT_PROFILE } from "./profiles";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  parseCount,
+  parseDateRange,
+  parseToken,
+  queryValues,
+} from "./search";
+
+// Guardians are exported as next-of-kin contacts
+const CONTACT_RELATIONSHIP_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/v2-0131";
+
+const GENDERS: PatientGender[] = ["male", "female", "other"];
+
+// What a FHIR Patient can set; admit date and the free-text diagnosis
+// have no Patient element and are left alone
+export type PatientResourceFields = Omit<
+  NewPatient,
+  "user_id" | "admit_date" | "diagnosis"
+>;
+
+type Invalid = { error: string };
+
+export function toFhirPatient(row: PatientRow): Patient {
+  const telecom: ContactPoint[] = [
+    ...(row.email ? [{ system: "email" as const, value: row.email }] : []),
+    ...(row.phone ? [{ system: "phone" as const, value: row.phone }] : []),
+  ];
+
+  return {
+    resourceType: "Patient",
+    id: row.id,
+    meta: {
+      versionId: String(row.version_id),
+      lastUpdated: row.updated_at,
+      profile: [PATIENT_PROFILE],
+    },
+    ...(row.identifiers?.length && {
+      identifier: row.identifiers.map(({ system, value }) => ({
+        ...(system && { system }),
+        value,
+      })),
+    }),
+    name: [
+      {
+        use: "official",
+        family: row.last_name,
+        given: row.first_name.split(/\s+/),
+      },
+    ],
+    ...(telecom.length && { telecom }),
+    gender: row.gender ?? "unknown",
+    ...(row.date_of_birth && { birthDate: row.date_of_birth }),
+    ...(row.address && { address: [{ text: row.address }] }),
+    ...((row.guardian_name || row.guardian_phone) && {
+      contact: [
+        {
+          relationship: [
+            {
+              coding: [
+                {
+                  system: CONTACT_RELATIONSHIP_SYSTEM,
+                  code: "N",
+                  display: "Next-of-Kin",
+                },
+              ],
+              text: "Guardian",
+            },
+          ],
+          ...(row.guardian_name && { name: { text: row.guardian_name } }),
+          ...(row.guardian_phone && {
+            telecom: [{ system: "phone" as const, value: row.guardian_phone }],
+          }),
+        },
+      ],
+    }),
+  };
+}
+
+const nameText = (name: HumanName | undefined) =>
+  name?.text?.trim() ||
+  [...(name?.given ?? []), name?.family].filter(Boolean).join(" ") ||
+  null;
+
+const telecomValue = (telecom: ContactPoint[] | undefined, system: string) =>
+  telecom?.find((point) => point.system === system && point.value)?.value ??
+  null;
+
+// Validates an incoming Patient and maps it onto the stored columns. Only
+// the first official (or first) name, email, phone, address and contact
+// are kept.
+export function fromFhirPatient(
+  resource: unknown,
+): Invalid | { fields: PatientResourceFields } {
+  const patient = resource as Patient;
+  if (patient?.resourceType !== "Patient") {
+    return { error: "Expected a Patient resource" };
+  }
+
+  const name =
+    patient.name?.find((candidate) => candidate.use === "official") ??
+    patient.name?.[0];
+  const family = name?.family?.trim();
+  const given = name?.given?.join(" ").trim();
+  if (!family || !given) {
+    return { error: "Patient.name must have a family and a given name" };
+  }
+
+  if (
+    patient.gender &&
+    patient.gender !== "unknown" &&
+    !GENDERS.includes(patient.gender)
+  ) {
+    return { error: `Unknown Patient.gender ${patient.gender}` };
+  }
+
+  if (patient.birthDate && !isCalendarDate(patient.birthDate)) {
+    return { error: "Patient.birthDate must be a full date (YYYY-MM-DD)" };
+  }
+
+  const address = patient.address?.[0];
+  const contact = patient.contact?.[0];
+
+  return {
+    fields: {
+      first_name: given,
+      last_name: family,
+      date_of_birth: patient.birthDate ?? null,
+      gender:
+        patient.gender && patient.gender !== "unknown" ? patient.gender : null,
+      email: telecomValue(patient.telecom, "email"),
+      phone: telecomValue(patient.telecom, "phone"),
+      address:
+        address?.text?.trim() ||
+        [
+          ...(address?.line ?? []),
+          address?.city,
+          address?.district,
+          address?.state,
+          address?.postalCode,
+          address?.country,
+        ]
+          .filter(Boolean)
+          .join(", ") ||
+        null,
+      guardian_name: nameText(contact?.name),
+      guardian_phone: telecomValue(contact?.telecom, "phone"),
+      identifiers: (patient.identifier ?? [])
+        .filter((identifier) => identifier.value)
+        .map(({ system, value }) => ({ system: system ?? null, value })),
+    },
+  };
+}
+
+// ----------------------
+// Search parameters
+// ----------------------
+
+const SORT_COLUMNS: Record<string, PatientSortColumn[]> = {
+  name: ["last_name", "first_name"],
+  family: ["last_name"],
+  given: ["first_name"],
+  birthdate: ["date_of_birth"],
+  gender: ["gender"],
+  _lastUpdated: ["created_at"],
+};
+
+// Everything parsePatientSearch understands, as advertised by /metadata
+export const PATIENT_SEARCH_PARAMETERS: CapabilityStatementSearchParam[] = [
+  {
+    name: "name",
+    type: "string",
+    documentation: "First or last name; supports :exact and :contains",
+  },
+  {
+    name: "family",
+    type: "string",
+    documentation: "Supports :exact and :contains",
+  },
+  {
+    name: "given",
+    type: "string",
+    documentation: "Supports :exact and :contains",
+  },
+  {
+    name: "birthdate",
+    type: "date",
+    documentation: "[prefix]YYYY[-MM[-DD]]",
+  },
+  { name: "gender", type: "token" },
+  {
+    name: "identifier",
+    type: "token",
+    documentation: "[system|]value",
+  },
+  {
+    name: "telecom",
+    type: "token",
+    documentation: "[email|phone|]value",
+  },
+  {
+    name: "_sort",
+    type: "special",
+    documentation: `Any of ${Object.keys(SORT_COLUMNS).join(", ")}; prefix - to sort descending`,
+  },
+  { name: "_count", type: "number" },
+  { name: "_offset", type: "number" },
+];
+
+const SEARCH_PARAMETERS = PATIENT_SEARCH_PARAMETERS.map((param) => param.name);
+
+function isCalendarDate(value: string) {
+  const date = new Date(`${value}T00:00:00Z`);
+  return (
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(date.getTime()) &&
+    date.toISOString().startsWith(value)
+  );
+}
+
+// Turns the Patient search parameters into a repository search. Unknown
+// parameters are ignored, as FHIR servers are lenient by default.
+export function parsePatientSearch(
+  query: Record<string, unknown>,
+): Invalid | { search: PatientSearch } {
+  const search: PatientSearch = { limit: DEFAULT_PAGE_SIZE };
+
+  for (const [key, raw] of Object.entries(query)) {
+    const [param, modifier] = key.split(":");
+    const values = queryValues(raw);
+
+    if (param === "name" || param === "family" || param === "given") {
+      if (modifier && modifier !== "exact" && modifier !== "contains") {
+        return { error: `Unsupported search parameter ${key}` };
+      }
+      const match = (modifier ?? "start") as TextFilter["match"];
+      search[param] = [
+        ...(search[param] ?? []),
+        ...values.map((value) => ({ value, match })),
+      ];
+      continue;
+    }
+
+    if (modifier && SEARCH_PARAMETERS.includes(param)) {
+      return { error: `Unsupported search parameter ${key}` };
+    }
+
+    switch (param) {
+      case "birthdate":
+        for (const value of values) {
+          const range = parseDateRange(value);
+          if (!range) {
+            return { error: `Invalid birthdate ${value}` };
+          }
+          search.birthDate = [...(search.birthDate ?? []), range];
+        }
+        break;
+
+      case "gender":
+        search.gender = values.flatMap((value) => value.split(","));
+        break;
+
+      case "identifier":
+      case "telecom": {
+        const token = parseToken(values[0] ?? "");
+        if (!token || values.length > 1) {
+          return { error: `${param} takes a single [system|]value` };
+        }
+        search[param] = token;
+        break;
+      }
+
+      case "_sort":
+        search.sort = [];
+        for (const field of values.join(",").split(",").filter(Boolean)) {
+          const descending = field.startsWith("-");
+          const columns = SORT_COLUMNS[descending ? field.slice(1) : field];
+          if (!columns) return { error: `Cannot sort by ${field}` };
+          search.sort.push(
+            ...columns.map((column) => ({ column, descending })),
+          );
+        }
+        break;
+
+      case "_count": {
+        const count = parseCount(values[0], DEFAULT_PAGE_SIZE);
+        if (count === null) return { error: "_count must be a whole number" };
+        search.limit = Math.min(count, MAX_PAGE_SIZE);
+        break;
+      }
+
+      case "_offset": {
+        const offset = parseCount(values[0], 0);
+        if (offset === null) return { error: "_offset must be a whole number" };
+        search.offset = offset;
+        break;
+      }
+    }
+  }
+
+  return { search };
+}
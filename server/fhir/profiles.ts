@@ -0,0 +1,218 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import type { ElementDefinition, StructureDefinition } from "@shared/fhir";
+import { CANONICAL_BASE, ICD11_SYSTEM, SNOMED_SYSTEM } from "./systems";
+import { valueSetUrl } from "./valueSet";
+
+// The ABDM implementation guide (published by NRCeS) profiles we build on
+const ABDM_BASE = "https://nrces.in/ndhm/fhir/r4/StructureDefinition";
+
+export const HL7_VALUE_SETS = {
+  gender: "http://hl7.org/fhir/ValueSet/administrative-gender",
+  clinicalStatus: "http://hl7.org/fhir/ValueSet/condition-clinical",
+  verificationStatus: "http://hl7.org/fhir/ValueSet/condition-ver-status",
+};
+
+// SNOMED CT "Record artifact", the type ABDM gives a general health record
+export const HEALTH_RECORD_TYPE = {
+  system: SNOMED_SYSTEM,
+  code: "419891008",
+  display: "Record artifact",
+};
+
+export const profileUrl = (id: string) =>
+  `${CANONICAL_BASE}/StructureDefinition/${id}`;
+
+const profile = (
+  id: string,
+  type: string,
+  base: string,
+  title: string,
+  element: ElementDefinition[],
+): StructureDefinition => ({
+  resourceType: "StructureDefinition",
+  id,
+  url: profileUrl(id),
+  name: id
+    .split("-")
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(""),
+  title,
+  status: "active",
+  kind: "resource",
+  abstract: false,
+  type,
+  baseDefinition: `${ABDM_BASE}/${base}`,
+  derivation: "constraint",
+  differential: {
+    element: element.map((el) => ({
+      id: el.sliceName ? `${el.path}:${el.sliceName}` : el.path,
+      ...el,
+    })),
+  },
+});
+
+// What our exports promise on top of the ABDM profiles. Bindings point at
+// our NAMASTE and ICD-11 value sets, so codes are checked against the
+// codemap rather than just their system.
+const BUILT_IN_PROFILES: StructureDefinition[] = [
+  profile("abdm-patient", "Patient", "Patient", "ABDM Patient (CareSync)", [
+    { path: "Patient.identifier.value", min: 1, max: "1" },
+    { path: "Patient.name", min: 1, max: "*" },
+    { path: "Patient.name.family", min: 1, max: "1" },
+    { path: "Patient.telecom.system", min: 1, max: "1" },
+    { path: "Patient.telecom.value", min: 1, max: "1" },
+    {
+      path: "Patient.gender",
+      min: 1,
+      max: "1",
+      binding: { strength: "required", valueSet: HL7_VALUE_SETS.gender },
+    },
+  ]),
+  profile(
+    "abdm-condition",
+    "Condition",
+    "Condition",
+    "ABDM Condition with NAMASTE and ICD-11 coding (CareSync)",
+    [
+      {
+        path: "Condition.clinicalStatus",
+        min: 1,
+        max: "1",
+        binding: {
+          strength: "required",
+          valueSet: HL7_VALUE_SETS.clinicalStatus,
+        },
+      },
+      {
+        path: "Condition.verificationStatus",
+        min: 1,
+        max: "1",
+        binding: {
+          strength: "required",
+          valueSet: HL7_VALUE_SETS.verificationStatus,
+        },
+      },
+      {
+        path: "Condition.code",
+        min: 1,
+        max: "1",
+        binding: { strength: "required", valueSet: valueSetUrl("namaste") },
+      },
+      // The ICD-11 coding may be a clinician's choice outside the codemap
+      {
+        path: "Condition.code.coding",
+        sliceName: "icd11",
+        min: 1,
+        max: "1",
+        patternCoding: { system: ICD11_SYSTEM },
+        binding: {
+          strength: "extensible",
+          valueSet: valueSetUrl("icd11-mapped"),
+        },
+      },
+      { path: "Condition.subject", min: 1, max: "1" },
+      { path: "Condition.subject.reference", min: 1, max: "1" },
+      { path: "Condition.recordedDate", min: 1, max: "1" },
+    ],
+  ),
+  profile(
+    "abdm-health-record",
+    "Composition",
+    "HealthDocumentRecord",
+    "ABDM health record Composition (CareSync)",
+    [
+      { path: "Composition.status", min: 1, max: "1" },
+      {
+        path: "Composition.type",
+        min: 1,
+        max: "1",
+        patternCodeableConcept: { coding: [HEALTH_RECORD_TYPE] },
+      },
+      { path: "Composition.subject", min: 1, max: "1" },
+      { path: "Composition.subject.reference", min: 1, max: "1" },
+      { path: "Composition.date", min: 1, max: "1" },
+      { path: "Composition.author", min: 1, max: "*" },
+      { path: "Composition.title", min: 1, max: "1" },
+    ],
+  ),
+  profile(
+    "abdm-document-bundle",
+    "Bundle",
+    "DocumentBundle",
+    "ABDM patient record document (CareSync)",
+    [
+      {
+        path: "Bundle",
+        constraint: [
+          {
+            key: "bdl-11",
+            severity: "error",
+            human: "A document must have a Composition as the first resource",
+            expression:
+              "type = 'document' implies entry.first().resource.is(Composition)",
+          },
+        ],
+      },
+      { path: "Bundle.identifier", min: 1, max: "1" },
+      { path: "Bundle.identifier.system", min: 1, max: "1" },
+      { path: "Bundle.identifier.value", min: 1, max: "1" },
+      { path: "Bundle.type", min: 1, max: "1", fixedCode: "document" },
+      { path: "Bundle.timestamp", min: 1, max: "1" },
+      { path: "Bundle.entry", min: 1, max: "*" },
+      { path: "Bundle.entry.fullUrl", min: 1, max: "1" },
+      { path: "Bundle.entry.resource", min: 1, max: "1" },
+    ],
+  ),
+];
+
+export const PATIENT_PROFILE = profileUrl("abdm-patient");
+export const CONDITION_PROFILE = profileUrl("abdm-condition");
+export const DOCUMENT_BUNDLE_PROFILE = profileUrl("abdm-document-bundle");
+export const HEALTH_RECORD_PROFILE = profileUrl("abdm-health-record");
+
+// Profiles used when a resource names none we know
+const DEFAULT_PROFILES: Record<string, string> = {
+  Patient: PATIENT_PROFILE,
+  Condition: CONDITION_PROFILE,
+  Bundle: DOCUMENT_BUNDLE_PROFILE,
+  Composition: HEALTH_RECORD_PROFILE,
+};
+
+let profiles: Map<string, StructureDefinition> | null = null;
+
+// Built-in profiles plus any StructureDefinition JSON files in
+// FHIR_PROFILE_DIR; a file with the same url replaces the built-in one
+export function getProfiles(): Map<string, StructureDefinition> {
+  if (profiles) return profiles;
+
+  const loaded = [...BUILT_IN_PROFILES];
+  const dir = process.env.FHIR_PROFILE_DIR;
+  if (dir) {
+    for (const file of readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+      const resource = JSON.parse(readFileSync(path.join(dir, file), "utf8"));
+      if (resource?.resourceType === "StructureDefinition") {
+        loaded.push(resource);
+      }
+    }
+  }
+
+  profiles = new Map(loaded.map((definition) => [definition.url, definition]));
+  return profiles;
+}
+
+// The profile to check a resource against: the one asked for, else the
+// first of its declared meta.profile we know, else our default for its type
+export function profileFor(
+  resource: { resourceType?: string; meta?: { profile?: string[] } },
+  requested?: string,
+): StructureDefinition | undefined {
+  const known = getProfiles();
+  if (requested) return known.get(requested);
+
+  const declared = resource.meta?.profile?.find((url) => known.has(url));
+  const url =
+    declared ??
+    (resource.resourceType && DEFAULT_PROFILES[resource.resourceType]);
+  return url ? known.get(url) : undefined;
+}
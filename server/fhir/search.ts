@@ -0,0 +1,78 @@
+import type { DateRange, TokenFilter } from "../patients/repository";
+
+// Parsing shared by the FHIR resource searches
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const DATE_PATTERN =
+  /^(eq|ne|lt|gt|le|ge|sa|eb)?(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/;
+
+// Every query parameter is a string, or a list when repeated
+export const queryValues = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value]).filter(
+    (item): item is string => typeof item === "string",
+  );
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// `[prefix]YYYY[-MM[-DD]]`: a partial date covers its whole year or month
+export function parseDateRange(value: string): DateRange | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [, prefix = "eq", year, month, day] = match;
+  const start = new Date(
+    Date.UTC(
+      Number(year),
+      month ? Number(month) - 1 : 0,
+      day ? Number(day) : 1,
+    ),
+  );
+  const startText = isoDate(start);
+  if (!startText.startsWith([year, month, day].filter(Boolean).join("-"))) {
+    return null;
+  }
+
+  const end = new Date(start);
+  if (day) end.setUTCDate(end.getUTCDate() + 1);
+  else if (month) end.setUTCMonth(end.getUTCMonth() + 1);
+  else end.setUTCFullYear(end.getUTCFullYear() + 1);
+  const endText = isoDate(end);
+
+  switch (prefix) {
+    case "eq":
+      return { from: startText, before: endText };
+    case "ne":
+      return { from: startText, before: endText, exclude: true };
+    case "lt":
+    case "eb":
+      return { before: startText };
+    case "le":
+      return { before: endText };
+    case "gt":
+    case "sa":
+      return { from: endText };
+    default:
+      return { from: startText };
+  }
+}
+
+// `system|value`, or a bare value
+export function parseToken(value: string): TokenFilter | null {
+  const bar = value.indexOf("|");
+  const token =
+    bar < 0
+      ? { value }
+      : {
+          system: value.slice(0, bar) || undefined,
+          value: value.slice(bar + 1),
+        };
+  return token.value ? token : null;
+}
+
+// `_count` and `_offset`: null when not a whole number
+export function parseCount(value: string | undefined, fallback: number) {
+  if (value === undefined) return fallback;
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
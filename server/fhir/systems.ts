@@ -0,0 +1,26 @@
+import type { CodeCategory } from "@shared/api";
+
+// Canonical URLs are identifiers, not endpoints: keep them stable even if
+// the server itself moves.
+export const CANONICAL_BASE = "https://caresync.in/fhir";
+
+export const ICD11_SYSTEM = "http://id.who.int/icd/release/11/mms";
+
+export const SNOMED_SYSTEM = "http://snomed.info/sct";
+
+export const NAMASTE_SYSTEMS: Record<CodeCategory, string> = {
+  Ayurveda: `${CANONICAL_BASE}/CodeSystem/namaste-ayurveda`,
+  Siddha: `${CANONICAL_BASE}/CodeSystem/namaste-siddha`,
+  Unani: `${CANONICAL_BASE}/CodeSystem/namaste-unani`,
+};
+
+export const CONFIDENCE_EXTENSION = `${CANONICAL_BASE}/StructureDefinition/mapping-confidence`;
+
+// Identifies one codemap row (a ConceptMap element target) by its id
+export const MAPPING_ID_SYSTEM = `${CANONICAL_BASE}/NamingSystem/mapping-id`;
+
+export function categoryForSystem(system: string): CodeCategory | undefined {
+  return (Object.keys(NAMASTE_SYSTEMS) as CodeCategory[]).find(
+    (category) => NAMASTE_SYSTEMS[category] === system,
+  );
+}
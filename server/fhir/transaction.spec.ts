@@ -0,0 +1,211 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { Bundle, BundleEntry } from "@shared/fhir";
+import { createSqliteAuditRepository } from "../audit/sqliteRepository";
+import { createSqlitePatientRepository } from "../patients/sqliteRepository";
+import { createFileTerminologyRepository } from "../terminology/fileRepository";
+import { NAMASTE_SYSTEMS } from "./systems";
+import { processBundle } from "./transaction";
+
+// Audit events are written with the patients, so both share a file
+const setup = () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "bundle-"));
+  const patients = createSqlitePatientRepository(path.join(dir, "patients.db"));
+  const audit = createSqliteAuditRepository(path.join(dir, "patients.db"));
+  const context = {
+    patients,
+    terminology: createFileTerminologyRepository(dir),
+    user: { id: null, email: "doctor@example.com", role: "user" as const },
+    baseUrl: "http://localhost/fhir",
+  };
+  return {
+    patients,
+    audit,
+    process: (bundle: unknown) => processBundle(bundle, context),
+  };
+};
+
+const bundle = (type: Bundle["type"], entry: BundleEntry[]): Bundle => ({
+  resourceType: "Bundle",
+  type,
+  entry,
+});
+
+const patientEntry = (
+  fullUrl: string,
+  family = "Rao",
+  ifNoneExist?: string,
+): BundleEntry => ({
+  fullUrl,
+  resource: {
+    resourceType: "Patient",
+    name: [{ family, given: ["Asha"] }],
+    birthDate: "1980-01-15",
+    identifier: [{ system: "https://healthid.ndhm.gov.in", value: family }],
+  },
+  request: { method: "POST", url: "Patient", ifNoneExist },
+});
+
+const conditionEntry = (subject: string, code = "AYR-001"): BundleEntry => ({
+  resource: {
+    resourceType: "Condition",
+    subject: { reference: subject },
+    code: { coding: [{ system: NAMASTE_SYSTEMS.Ayurveda, code }] },
+  },
+  request: { method: "POST", url: "Condition" },
+});
+
+describe("FHIR transaction bundles", () => {
+  it("should create a patient and resolve references to it", async () => {
+    const { patients, audit, process } = setup();
+
+    const result = await process(
+      bundle("transaction", [
+        conditionEntry("urn:uuid:p1"),
+        patientEntry("urn:uuid:p1"),
+      ]),
+    );
+    if ("error" in result) throw new Error(result.error);
+
+    const [condition, patient] = result.bundle.entry!;
+    expect(result.bundle.type).toBe("transaction-response");
+    expect(patient.response).toMatchObject({ status: "201 Created" });
+    expect(condition.response).toMatchObject({ status: "201 Created" });
+    expect(condition.resource).toMatchObject({
+      subject: { reference: patient.response!.location },
+      recorder: { display: "doctor@example.com" },
+    });
+    expect(await patients.listDiagnoses()).toHaveLength(1);
+
+    const { rows } = await audit.searchAuditEvents({ limit: 10 });
+    expect(rows.map((row) => [row.entity_type, row.action])).toEqual([
+      ["Condition", "create"],
+      ["Patient", "create"],
+    ]);
+    expect(rows[0]).toMatchObject({
+      agent: "doctor@example.com",
+      source: "fhir",
+      patient_id: rows[1].entity_id,
+    });
+  });
+
+  it("should reuse the patient an ifNoneExist matches", async () => {
+    const { patients, process } = setup();
+    const ifNoneExist = "identifier=https://healthid.ndhm.gov.in|Rao";
+    await process(bundle("transaction", [patientEntry("urn:uuid:a")]));
+
+    const result = await process(
+      bundle("transaction", [
+        patientEntry("urn:uuid:p1", "Rao", ifNoneExist),
+        conditionEntry("urn:uuid:p1"),
+      ]),
+    );
+
+    expect(result).toMatchObject({
+      bundle: { entry: [{ response: { status: "200 OK" } }, {}] },
+    });
+    expect((await patients.listPatients()).length).toBe(1);
+    expect(
+      await process(
+        bundle("transaction", [patientEntry("urn:uuid:p1", "Rao", "_count=5")]),
+      ),
+    ).toMatchObject({ status: 400 });
+  });
+
+  it("should write nothing when any entry fails", async () => {
+    const { patients, audit, process } = setup();
+
+    expect(
+      await process(
+        bundle("transaction", [
+          patientEntry("urn:uuid:p1"),
+          conditionEntry("urn:uuid:p1", "AYR-999"),
+        ]),
+      ),
+    ).toMatchObject({ status: 422, code: "code-invalid" });
+
+    // The second patient only clashes once the first has been written
+    expect(
+      await process(
+        bundle("transaction", [
+          patientEntry("urn:uuid:p1"),
+          conditionEntry("urn:uuid:p1"),
+          patientEntry("urn:uuid:p2"),
+        ]),
+      ),
+    ).toMatchObject({
+      status: 409,
+      error: expect.stringMatching(/entry\[2\]/),
+    });
+
+    expect(await patients.listPatients()).toEqual([]);
+    expect(await patients.listDiagnoses()).toEqual([]);
+    expect(await audit.searchAuditEvents({ limit: 10 })).toMatchObject({
+      total: 0,
+    });
+  });
+
+  it("should refuse updates whose ifMatch names an older version", async () => {
+    const { process } = setup();
+    const created = await process(
+      bundle("transaction", [patientEntry("urn:uuid:p1")]),
+    );
+    if ("error" in created) throw new Error(created.error);
+    const [{ resource, response }] = created.bundle.entry!;
+    const url = response!.location!;
+
+    const update = (ifMatch: string) =>
+      process(
+        bundle("transaction", [
+          { resource, request: { method: "PUT", url, ifMatch } },
+        ]),
+      );
+
+    expect(await update('W/"1"')).toMatchObject({
+      bundle: { entry: [{ response: { status: "200 OK", etag: 'W/"2"' } }] },
+    });
+    expect(await update('W/"1"')).toMatchObject({
+      status: 412,
+      code: "conflict",
+    });
+  });
+});
+
+describe("FHIR batch bundles", () => {
+  it("should report each entry on its own", async () => {
+    const { patients, process } = setup();
+
+    const result = await process(
+      bundle("batch", [
+        patientEntry("urn:uuid:p1"),
+        conditionEntry("urn:uuid:p1"),
+        { request: { method: "DELETE", url: "Patient/1" } },
+      ]),
+    );
+
+    expect(result).toMatchObject({
+      bundle: {
+        type: "batch-response",
+        entry: [
+          { response: { status: "201 Created" } },
+          { response: { status: "422 Unprocessable Entity" } },
+          { response: { status: "405 Method Not Allowed" } },
+        ],
+      },
+    });
+    expect(await patients.listPatients()).toHaveLength(1);
+  });
+
+  it("should only accept transaction and batch bundles", async () => {
+    const { process } = setup();
+
+    expect(await process(bundle("collection", []))).toMatchObject({
+      status: 400,
+    });
+    expect(await process({ resourceType: "Patient" })).toMatchObject({
+      status: 400,
+    });
+  });
+});
@@ -0,0 +1,590 @@
+import { randomUUID } from "crypto";
+import { STATUS_CODES } from "http";
+import type { PatientDiagnosisRow, PatientRow } from "@shared/api";
+import type { Bundle, BundleEntry, Condition, Patient } from "@shared/fhir";
+import {
+  diagnosisAuditEvent,
+  patientAuditEvent,
+  type AuditContext,
+} from "../audit/events";
+import type { NewAuditEvent } from "../audit/repository";
+import {
+  PATIENT_CONFLICT_MESSAGES,
+  type NewPatient,
+  type NewPatientDiagnosis,
+  type PatientConflict,
+  type PatientRepository,
+  type PatientWrite,
+} from "../patients/repository";
+import type { TerminologyRepository } from "../terminology/repository";
+import type { RequestUser } from "../utils/requestUser";
+import {
+  conditionMappings,
+  fromFhirCondition,
+  resolveConditionCodes,
+  toFhirCondition,
+} from "./condition";
+import { operationOutcome } from "./operationOutcome";
+import {
+  fromFhirPatient,
+  parsePatientSearch,
+  toFhirPatient,
+  type PatientResourceFields,
+} from "./patient";
+import { ifMatchVersion, staleMessage, versionEtag } from "./versioning";
+
+export interface BundleContext {
+  patients: PatientRepository;
+  terminology: TerminologyRepository;
+  user: RequestUser;
+  baseUrl: string;
+}
+
+// Why an entry, or the whole bundle, was refused: the HTTP status and the
+// OperationOutcome issue type
+export interface BundleFailure {
+  error: string;
+  status: number;
+  code: string;
+}
+
+type Resource = Patient | Condition;
+
+// An entry that passed validation, with everything it needs looked up.
+// `patient` is an entry index when the subject is a Patient created
+// earlier in the same transaction.
+type Plan =
+  | { action: "create-patient"; fields: NewPatient; match?: PatientRow }
+  | {
+      action: "update-patient";
+      previous: PatientRow;
+      fields: PatientResourceFields;
+    }
+  | {
+      action: "create-condition";
+      patient: string | number;
+      diagnosis: Omit<NewPatientDiagnosis, "patient_id">;
+    }
+  | {
+      action: "update-condition";
+      previous: PatientDiagnosisRow;
+      patch: Partial<NewPatientDiagnosis>;
+    };
+
+interface Applied {
+  status: number;
+  resource: Resource;
+}
+
+const URL_PATTERN = /^(Patient|Condition)(?:\/([^/?]+))?$/;
+
+const fail = (status: number, code: string, error: string): BundleFailure => ({
+  error,
+  status,
+  code,
+});
+
+const statusLine = (status: number) => `${status} ${STATUS_CODES[status]}`;
+
+// Creates run before updates, and Patients before the Conditions that may
+// reference them
+const APPLY_ORDER: Record<Plan["action"], number> = {
+  "create-patient": 0,
+  "create-condition": 1,
+  "update-patient": 2,
+  "update-condition": 3,
+};
+
+// A conditional create needs at least one real criterion; an empty
+// search would match every patient
+function parseIfNoneExist(value: string) {
+  const params = new URLSearchParams(value.slice(value.indexOf("?") + 1));
+  const query: Record<string, string[]> = {};
+  params.forEach((param, key) => {
+    query[key] = [...(query[key] ?? []), param];
+  });
+
+  const parsed = parsePatientSearch(query);
+  if ("error" in parsed) return parsed;
+
+  const { limit, offset, sort, ...criteria } = parsed.search;
+  if (!Object.keys(criteria).length) {
+    return { error: `ifNoneExist ${value} has no Patient search criteria` };
+  }
+  return { search: { ...criteria, limit: 2 } };
+}
+
+async function planEntry(
+  entry: BundleEntry,
+  context: BundleContext,
+  // urn:uuid fullUrls of the Patients a transaction creates, by entry index
+  pending: Map<string, number>,
+): Promise<BundleFailure | Plan> {
+  const { patients, terminology, user } = context;
+  const method = entry.request?.method;
+  const base = `${context.baseUrl}/`;
+  const requested = entry.request?.url ?? "";
+  const url = requested.startsWith(base)
+    ? requested.slice(base.length)
+    : requested;
+  const [, type, id] = URL_PATTERN.exec(url) ?? [];
+
+  if (method !== "POST" && method !== "PUT") {
+    return fail(
+      405,
+      "not-supported",
+      "Only POST and PUT entries are supported",
+    );
+  }
+  if (!type || (method === "POST" ? id : !id)) {
+    return fail(400, "invalid", `Cannot ${method} ${url || "an empty url"}`);
+  }
+
+  const resource = entry.resource as Resource | undefined;
+  if (resource?.resourceType !== type) {
+    return fail(400, "invalid", `Expected a ${type} resource`);
+  }
+  if (id && resource.id && resource.id !== id) {
+    return fail(
+      400,
+      "invalid",
+      `Resource id ${resource.id} does not match ${type}/${id}`,
+    );
+  }
+  if (entry.request?.ifNoneExist && (type !== "Patient" || id)) {
+    return fail(
+      400,
+      "not-supported",
+      "ifNoneExist is only supported when creating a Patient",
+    );
+  }
+  if (entry.request?.ifMatch && !id) {
+    return fail(400, "not-supported", "ifMatch is only supported on updates");
+  }
+
+  // An update is applied to the version read here, or refused
+  const expected = ifMatchVersion(entry.request?.ifMatch);
+  const staleness = (previous: PatientRow | PatientDiagnosisRow) =>
+    expected !== undefined && expected !== previous.version_id
+      ? fail(
+          412,
+          "conflict",
+          staleMessage(`${type}/${id}`, expected, previous.version_id),
+        )
+      : null;
+
+  if (resource.resourceType === "Patient") {
+    const parsed = fromFhirPatient(resource);
+    if ("error" in parsed) return fail(400, "invalid", parsed.error);
+
+    if (id) {
+      const previous = await patients.findPatientById(id);
+      if (!previous) return fail(404, "not-found", `Patient/${id} not found`);
+      return (
+        staleness(previous) ?? {
+          action: "update-patient",
+          previous,
+          fields: parsed.fields,
+        }
+      );
+    }
+
+    const fields: NewPatient = {
+      ...parsed.fields,
+      user_id: user.id || null,
+      admit_date: null,
+      diagnosis: null,
+    };
+    if (!entry.request?.ifNoneExist) {
+      return { action: "create-patient", fields };
+    }
+
+    const condition = parseIfNoneExist(entry.request.ifNoneExist);
+    if ("error" in condition) return fail(400, "invalid", condition.error);
+
+    const { rows } = await patients.searchPatients(condition.search);
+    if (rows.length > 1) {
+      return fail(
+        412,
+        "multiple-matches",
+        `ifNoneExist ${entry.request.ifNoneExist} matches more than one Patient`,
+      );
+    }
+    return { action: "create-patient", fields, match: rows[0] };
+  }
+
+  // urn:uuid subjects are read as a placeholder Patient reference, and
+  // resolved once the entry creating that Patient has been applied
+  const reference = resource.subject?.reference ?? "";
+  const subjectEntry = pending.get(reference);
+  if (reference.startsWith("urn:") && subjectEntry === undefined) {
+    return fail(422, "processing", `Unresolved reference ${reference}`);
+  }
+
+  const parsed = fromFhirCondition(
+    subjectEntry === undefined
+      ? resource
+      : { ...resource, subject: { reference: `Patient/${reference}` } },
+  );
+  if ("error" in parsed) return fail(400, "invalid", parsed.error);
+  const { input } = parsed;
+
+  if (id) {
+    const previous = await patients.findDiagnosisById(id);
+    if (!previous) return fail(404, "not-found", `Condition/${id} not found`);
+    const stale = staleness(previous);
+    if (stale) return stale;
+    if (subjectEntry !== undefined || previous.patient_id !== input.patientId) {
+      return fail(
+        400,
+        "invalid",
+        "A Condition cannot be moved to another patient",
+      );
+    }
+
+    const codes = await resolveConditionCodes(terminology, input);
+    if ("error" in codes) return fail(422, "code-invalid", codes.error);
+    return {
+      action: "update-condition",
+      previous,
+      patch: { ...input.fields, ...codes },
+    };
+  }
+
+  if (
+    subjectEntry === undefined &&
+    !(await patients.findPatientById(input.patientId))
+  ) {
+    return fail(422, "processing", `Patient/${input.patientId} not found`);
+  }
+
+  const codes = await resolveConditionCodes(terminology, input);
+  if ("error" in codes) return fail(422, "code-invalid", codes.error);
+  return {
+    action: "create-condition",
+    patient: subjectEntry ?? input.patientId,
+    diagnosis: { ...input.fields, ...codes, recorded_by: user.email },
+  };
+}
+
+// Another write got in between validating an entry and applying it
+const changedSincePlanned = (reference: string) =>
+  fail(412, "conflict", `${reference} was changed or deleted meanwhile`);
+
+// The write a planned entry makes, if any, with the audit event for it:
+// both go in the same transaction, so the event is made from the row as
+// the write will leave it. `created` collects the ids of the Patients
+// the transaction creates or reuses, by entry index, for the Conditions
+// that refer to them. Updates only apply to the version the plan read.
+async function plannedWrite(
+  plan: Plan,
+  index: number,
+  created: Map<number, string>,
+  context: BundleContext,
+): Promise<{ write: PatientWrite; event: NewAuditEvent } | null> {
+  const who: AuditContext = { agent: context.user.email, source: "fhir" };
+  const diagnosisEvent = async (
+    action: "create" | "update",
+    diagnosis: Parameters<typeof diagnosisAuditEvent>[1],
+  ) =>
+    diagnosisAuditEvent(
+      action,
+      diagnosis,
+      who,
+      await conditionMappings(context.terminology, [diagnosis]),
+    );
+
+  switch (plan.action) {
+    case "create-patient": {
+      const id = plan.match?.id ?? randomUUID();
+      created.set(index, id);
+      if (plan.match) return null;
+      return {
+        write: { action: "insert-patient", id, patient: plan.fields },
+        event: patientAuditEvent(
+          "create",
+          { ...plan.fields, id, version_id: 1 },
+          who,
+        ),
+      };
+    }
+
+    case "update-patient": {
+      const { previous, fields } = plan;
+      return {
+        write: {
+          action: "update-patient",
+          id: previous.id,
+          patch: fields,
+          expectedVersion: previous.version_id,
+        },
+        event: patientAuditEvent(
+          "update",
+          { ...previous, ...fields, version_id: previous.version_id + 1 },
+          who,
+        ),
+      };
+    }
+
+    case "create-condition": {
+      const id = randomUUID();
+      const diagnosis = {
+        ...plan.diagnosis,
+        patient_id:
+          typeof plan.patient === "number"
+            ? created.get(plan.patient)!
+            : plan.patient,
+      };
+      return {
+        write: { action: "insert-diagnosis", id, diagnosis },
+        event: await diagnosisEvent("create", {
+          ...diagnosis,
+          id,
+          version_id: 1,
+        }),
+      };
+    }
+
+    case "update-condition": {
+      const { previous, patch } = plan;
+      return {
+        write: {
+          action: "update-diagnosis",
+          id: previous.id,
+          patch,
+          expectedVersion: previous.version_id,
+        },
+        event: await diagnosisEvent("update", {
+          ...previous,
+          ...patch,
+          version_id: previous.version_id + 1,
+        }),
+      };
+    }
+  }
+}
+
+const writeFailure = (
+  write: PatientWrite,
+  conflict?: PatientConflict["conflict"],
+): BundleFailure =>
+  conflict
+    ? fail(409, "duplicate", PATIENT_CONFLICT_MESSAGES[conflict])
+    : changedSincePlanned(
+        `${write.action.endsWith("-patient") ? "Patient" : "Condition"}/${write.id}`,
+      );
+
+// The response for a planned entry, given the row its write left
+async function appliedFor(
+  plan: Plan,
+  row: PatientRow | PatientDiagnosisRow | null,
+  context: BundleContext,
+): Promise<Applied> {
+  switch (plan.action) {
+    case "create-patient":
+      return plan.match
+        ? { status: 200, resource: toFhirPatient(plan.match) }
+        : { status: 201, resource: toFhirPatient(row as PatientRow) };
+
+    case "update-patient":
+      return { status: 200, resource: toFhirPatient(row as PatientRow) };
+
+    case "create-condition":
+    case "update-condition": {
+      const diagnosis = row as PatientDiagnosisRow;
+      return {
+        status: plan.action === "create-condition" ? 201 : 200,
+        resource: toFhirCondition(
+          diagnosis,
+          await conditionMappings(context.terminology, [diagnosis]),
+        ),
+      };
+    }
+  }
+}
+
+const responseEntry = (
+  { status, resource }: Applied,
+  baseUrl: string,
+): BundleEntry<Resource> => ({
+  fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+  resource,
+  response: {
+    status: statusLine(status),
+    location: `${resource.resourceType}/${resource.id}`,
+    ...(resource.meta?.versionId && {
+      etag: versionEtag(resource.meta.versionId),
+    }),
+    lastModified: resource.meta?.lastUpdated,
+  },
+});
+
+const failedEntry = ({ error, status, code }: BundleFailure): BundleEntry => ({
+  response: {
+    status: statusLine(status),
+    outcome: operationOutcome("error", code, error),
+  },
+});
+
+const atEntry = (index: number, failure: BundleFailure): BundleFailure => ({
+  ...failure,
+  error: `Bundle.entry[${index}]: ${failure.error}`,
+});
+
+// Every entry is validated, then all the writes are made in one
+// transaction, with their audit events. A write can still fail there (a
+// duplicate patient, a row changed meanwhile), and then none of them is
+// kept.
+async function processTransaction(
+  entries: BundleEntry[],
+  context: BundleContext,
+): Promise<BundleFailure | { bundle: Bundle }> {
+  const pending = new Map<string, number>();
+  entries.forEach((entry, index) => {
+    if (
+      entry.fullUrl?.startsWith("urn:uuid:") &&
+      entry.request?.method === "POST" &&
+      (entry.resource as Resource | undefined)?.resourceType === "Patient"
+    ) {
+      pending.set(entry.fullUrl, index);
+    }
+  });
+
+  const plans: Plan[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const plan = await planEntry(entry, context, pending);
+    if ("error" in plan) return atEntry(index, plan);
+    plans.push(plan);
+  }
+
+  const order = plans
+    .map((_, index) => index)
+    .sort(
+      (a, b) => APPLY_ORDER[plans[a].action] - APPLY_ORDER[plans[b].action],
+    );
+  const created = new Map<number, string>();
+  // With the entry each write was planned for
+  const planned: Array<{ index: number; write: PatientWrite }> = [];
+  // In the order the writes are made
+  const events: NewAuditEvent[] = [];
+  for (const index of order) {
+    const next = await plannedWrite(plans[index], index, created, context);
+    if (next) {
+      planned.push({ index, write: next.write });
+      events.push(next.event);
+    }
+  }
+
+  const result = await context.patients.applyWrites(
+    planned.map(({ write }) => write),
+    events,
+  );
+  if ("failed" in result) {
+    const { index, write } = planned[result.failed];
+    return atEntry(index, writeFailure(write, result.conflict));
+  }
+
+  const rows = new Map(
+    planned.map(({ index }, position) => [index, result.rows[position]]),
+  );
+  const applied: Applied[] = [];
+  for (const index of order) {
+    applied[index] = await appliedFor(
+      plans[index],
+      rows.get(index) ?? null,
+      context,
+    );
+  }
+
+  return {
+    bundle: {
+      resourceType: "Bundle",
+      type: "transaction-response",
+      timestamp: new Date().toISOString(),
+      entry: applied.map((result) => responseEntry(result, context.baseUrl)),
+    },
+  };
+}
+
+async function processBatchEntry(
+  entry: BundleEntry,
+  index: number,
+  context: BundleContext,
+): Promise<BundleEntry> {
+  const plan = await planEntry(entry, context, new Map());
+  if ("error" in plan) return failedEntry(plan);
+
+  const next = await plannedWrite(plan, index, new Map(), context);
+  let row: PatientRow | PatientDiagnosisRow | null = null;
+  if (next) {
+    const result = await context.patients.applyWrites(
+      [next.write],
+      [next.event],
+    );
+    if ("failed" in result) {
+      return failedEntry(writeFailure(next.write, result.conflict));
+    }
+    [row] = result.rows;
+  }
+
+  return responseEntry(await appliedFor(plan, row, context), context.baseUrl);
+}
+
+// Entries succeed or fail on their own, in order; references between
+// entries are not resolved
+async function processBatch(
+  entries: BundleEntry[],
+  context: BundleContext,
+): Promise<{ bundle: Bundle }> {
+  const responses: BundleEntry[] = [];
+
+  for (const [index, entry] of entries.entries()) {
+    try {
+      responses.push(await processBatchEntry(entry, index, context));
+    } catch (error) {
+      console.error("Batch entry error:", error);
+      responses.push(
+        failedEntry(fail(500, "exception", "Internal server error")),
+      );
+    }
+  }
+
+  return {
+    bundle: {
+      resourceType: "Bundle",
+      type: "batch-response",
+      timestamp: new Date().toISOString(),
+      entry: responses,
+    },
+  };
+}
+
+// Handles a `transaction` or `batch` Bundle of Patient and Condition
+// POST/PUT entries. A failed transaction reports its first failing entry
+// and writes nothing; a batch reports each entry's outcome.
+export async function processBundle(
+  resource: unknown,
+  context: BundleContext,
+): Promise<BundleFailure | { bundle: Bundle }> {
+  const bundle = resource as Bundle;
+  if (bundle?.resourceType !== "Bundle") {
+    return fail(400, "invalid", "Expected a Bundle resource");
+  }
+  if (bundle.type !== "transaction" && bundle.type !== "batch") {
+    return fail(
+      400,
+      "invalid",
+      `Bundle.type must be transaction or batch, not ${bundle.type}`,
+    );
+  }
+
+  const entries = bundle.entry ?? [];
+  const fullUrls = entries.map((entry) => entry.fullUrl).filter(Boolean);
+  if (new Set(fullUrls).size !== fullUrls.length) {
+    return fail(400, "invalid", "Bundle entries must have distinct fullUrls");
+  }
+
+  return bundle.type === "transaction"
+    ? processTransaction(entries, context)
+    : processBatch(entries, context);
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import type { PatientDiagnosisRow, PatientRow } from "@shared/api";
+import type { Bundle } from "@shared/fhir";
+import { seedCodemap } from "../terminology/seed";
+import { patientRecordComposition } from "./composition";
+import { toFhirCondition } from "./condition";
+import { toFhirPatient } from "./patient";
+import { DOCUMENT_BUNDLE_PROFILE } from "./profiles";
+import { ICD11_SYSTEM } from "./systems";
+import { hasErrors, validateResource, validationOutcome } from "./validation";
+
+const mapping = seedCodemap.find((row) => row.icd11_code)!;
+
+const patient = toFhirPatient({
+  id: "p1",
+  user_id: null,
+  first_name: "Asha",
+  last_name: "Rao",
+  date_of_birth: null,
+  gender: null,
+  admit_date: null,
+  diagnosis: null,
+  email: "asha@example.com",
+  phone: null,
+  guardian_name: null,
+  guardian_phone: null,
+  address: null,
+  identifiers: [],
+  diagnosis_count: 0,
+  created_at: "2024-03-01T10:00:00.000Z",
+  version_id: 1,
+  updated_at: "2024-03-01T10:00:00.000Z",
+} satisfies PatientRow);
+
+const condition = toFhirCondition(
+  {
+    id: "d1",
+    patient_id: "p1",
+    namaste_code: mapping.namaste_code,
+    icd11_code: mapping.icd11_code!,
+    symptoms: null,
+    clinical_notes: null,
+    clinical_status: "active",
+    verification_status: "confirmed",
+    recorded_by: null,
+    created_at: "2024-03-01T10:00:00.000Z",
+    version_id: 1,
+    updated_at: "2024-03-01T10:00:00.000Z",
+  } satisfies PatientDiagnosisRow,
+  seedCodemap,
+);
+
+const issuesFor = (resource: unknown, profile?: string) =>
+  validateResource(resource, seedCodemap, profile).map((issue) => [
+    issue.severity,
+    issue.code,
+    issue.expression?.[0],
+  ]);
+
+describe("FHIR profile validation", () => {
+  it("should accept what the exports produce", () => {
+    expect(validateResource(patient, seedCodemap)).toEqual([]);
+    expect(validateResource(condition, seedCodemap)).toEqual([]);
+    expect(validationOutcome([]).issue).toEqual([
+      expect.objectContaining({ severity: "information" }),
+    ]);
+  });
+
+  it("should check cardinality and required bindings", () => {
+    expect(
+      issuesFor({
+        ...patient,
+        name: undefined,
+        gender: "woman",
+        telecom: [{ value: "asha@example.com" }],
+      }),
+    ).toEqual([
+      ["error", "required", "Patient"],
+      ["error", "required", "Patient.telecom[0]"],
+      ["error", "code-invalid", "Patient.gender"],
+    ]);
+  });
+
+  it("should check both codings of a Condition", () => {
+    const [namaste, icd11] = condition.code!.coding!;
+
+    expect(
+      issuesFor({
+        ...condition,
+        code: { coding: [{ ...namaste, code: "AYR-999" }] },
+      }),
+    ).toEqual([
+      ["error", "code-invalid", "Condition.code"],
+      ["error", "required", "Condition.code"],
+    ]);
+
+    // ICD-11 codes outside the codemap are only flagged
+    const issues = validateResource(
+      {
+        ...condition,
+        code: { coding: [namaste, { ...icd11, code: "XX00" }] },
+      },
+      seedCodemap,
+    );
+    expect(hasErrors(issues)).toBe(false);
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: "warning",
+        expression: ["Condition.code.coding[1]"],
+      }),
+    ]);
+    expect(
+      issuesFor({
+        ...condition,
+        code: {
+          coding: [namaste, icd11, { system: ICD11_SYSTEM, code: "XX00" }],
+        },
+      }),
+    ).toContainEqual(["error", "structure", "Condition.code"]);
+  });
+
+  it("should check fixed values and every bundle entry", () => {
+    const bundle: Bundle = {
+      resourceType: "Bundle",
+      identifier: { system: "urn:ietf:rfc:3986", value: "urn:uuid:1" },
+      type: "collection",
+      timestamp: "2024-03-01T10:00:00.000Z",
+      entry: [
+        { fullUrl: "Patient/p1", resource: patient },
+        { resource: { ...condition, clinicalStatus: undefined } },
+      ],
+    };
+
+    expect(issuesFor(bundle)).toEqual([
+      ["error", "value", "Bundle.type"],
+      ["error", "required", "Bundle.entry[1]"],
+      ["error", "required", "Bundle.entry[1].resource"],
+    ]);
+  });
+
+  it("should require a document to start with its Composition", () => {
+    const composition = patientRecordComposition(
+      "c1",
+      patient,
+      [condition],
+      "doctor@example.com",
+      "2024-03-01T10:00:00.000Z",
+    );
+    const document = (entries: unknown[]): Bundle => ({
+      resourceType: "Bundle",
+      identifier: { system: "urn:ietf:rfc:3986", value: "urn:uuid:1" },
+      type: "document",
+      timestamp: "2024-03-01T10:00:00.000Z",
+      entry: entries.map((resource, index) => ({
+        fullUrl: `urn:uuid:${index}`,
+        resource,
+      })),
+    });
+
+    expect(
+      validateResource(
+        document([composition, patient, condition]),
+        seedCodemap,
+      ),
+    ).toEqual([]);
+    expect(issuesFor(document([patient, condition, composition]))).toEqual([
+      ["error", "invariant", "Bundle"],
+    ]);
+    expect(
+      issuesFor(document([{ ...composition, type: { text: "Note" } }])),
+    ).toEqual([["error", "value", "Bundle.entry[0].resource.type"]]);
+  });
+
+  it("should only use the profile asked for", () => {
+    expect(issuesFor(patient, "https://example.org/unknown")).toEqual([
+      ["error", "not-found", "Patient"],
+    ]);
+    expect(issuesFor(patient, DOCUMENT_BUNDLE_PROFILE)).toEqual([
+      ["error", "invalid", "Patient"],
+    ]);
+  });
+});
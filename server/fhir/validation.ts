@@ -0,0 +1,374 @@
+import type { CodemapRow } from "@shared/api";
+import type {
+  CodeableConcept,
+  Coding,
+  ElementDefinition,
+  OperationOutcome,
+  OperationOutcomeIssue,
+  StructureDefinition,
+} from "@shared/fhir";
+import {
+  CLINICAL_STATUS_SYSTEM,
+  CLINICAL_STATUSES,
+  VERIFICATION_STATUS_SYSTEM,
+  VERIFICATION_STATUSES,
+} from "./condition";
+import { HL7_VALUE_SETS, profileFor } from "./profiles";
+import { VALUE_SET_IDS, valueSetConcepts, valueSetUrl } from "./valueSet";
+
+const GENDER_SYSTEM = "http://hl7.org/fhir/administrative-gender";
+
+// A value inside the resource being checked, with its FHIRPath location
+interface Node {
+  value: unknown;
+  location: string;
+}
+
+// `system|code` members of every value set a binding can name
+type ValueSetMembers = Map<string, Set<string>>;
+
+function valueSetMembers(rows: CodemapRow[]): ValueSetMembers {
+  const members = (system: string, codes: readonly string[]) =>
+    new Set(codes.map((code) => `${system}|${code}`));
+
+  return new Map([
+    [
+      HL7_VALUE_SETS.gender,
+      members(GENDER_SYSTEM, ["male", "female", "other", "unknown"]),
+    ],
+    [
+      HL7_VALUE_SETS.clinicalStatus,
+      members(CLINICAL_STATUS_SYSTEM, CLINICAL_STATUSES),
+    ],
+    [
+      HL7_VALUE_SETS.verificationStatus,
+      members(VERIFICATION_STATUS_SYSTEM, VERIFICATION_STATUSES),
+    ],
+    ...VALUE_SET_IDS.map(
+      (id) =>
+        [
+          valueSetUrl(id),
+          new Set(
+            valueSetConcepts(id, rows).map(
+              (concept) => `${concept.system}|${concept.code}`,
+            ),
+          ),
+        ] as const,
+    ),
+  ]);
+}
+
+const children = (node: Node, name: string): Node[] => {
+  const value = (node.value as Record<string, unknown> | null)?.[name];
+  if (value === undefined || value === null) return [];
+
+  return Array.isArray(value)
+    ? value.map((item, index) => ({
+        value: item,
+        location: `${node.location}.${name}[${index}]`,
+      }))
+    : [{ value, location: `${node.location}.${name}` }];
+};
+
+// Every key of the pattern is present with a matching value; for arrays,
+// every pattern item matches some item of the value
+function matchesPattern(value: unknown, pattern: unknown): boolean {
+  if (Array.isArray(pattern)) {
+    return (
+      Array.isArray(value) &&
+      pattern.every((item) => value.some((v) => matchesPattern(v, item)))
+    );
+  }
+  if (pattern && typeof pattern === "object") {
+    return (
+      !!value &&
+      typeof value === "object" &&
+      Object.entries(pattern).every(([key, item]) =>
+        matchesPattern((value as Record<string, unknown>)[key], item),
+      )
+    );
+  }
+  return value === pattern;
+}
+
+// A code, Coding or CodeableConcept is in the value set when it, or any
+// of its codings, is a member. A bare code matches in any system.
+function inValueSet(value: unknown, members: Set<string>): boolean {
+  if (typeof value === "string") {
+    return Array.from(members).some((member) => member.endsWith(`|${value}`));
+  }
+
+  const concept = value as CodeableConcept & Coding;
+  if (concept?.coding) {
+    return concept.coding.some((coding) => inValueSet(coding, members));
+  }
+  return members.has(`${concept?.system}|${concept?.code}`);
+}
+
+const describe = (value: unknown) => {
+  if (typeof value === "string") return value;
+  const concept = value as CodeableConcept & Coding;
+  const codings = concept?.coding ?? [concept];
+  return codings.map((c) => `${c.system ?? ""}|${c.code ?? ""}`).join(", ");
+};
+
+const issue = (
+  severity: OperationOutcomeIssue["severity"],
+  code: string,
+  diagnostics: string,
+  location: string,
+): OperationOutcomeIssue => ({
+  severity,
+  code,
+  diagnostics,
+  expression: [location],
+});
+
+// The invariants we know how to check, by key. Their FHIRPath is not
+// evaluated; each is written out here instead.
+const INVARIANTS: Record<string, (value: any) => boolean> = {
+  "bdl-11": (bundle) =>
+    bundle?.type !== "document" ||
+    bundle.entry?.[0]?.resource?.resourceType === "Composition",
+};
+
+function checkConstraints(
+  node: Node,
+  element: ElementDefinition,
+): OperationOutcomeIssue[] {
+  return (element.constraint ?? []).flatMap((constraint) => {
+    const invariant = INVARIANTS[constraint.key];
+    if (!invariant) {
+      return [
+        issue(
+          "warning",
+          "not-supported",
+          `${element.path}: invariant ${constraint.key} is unknown, so it was not checked`,
+          node.location,
+        ),
+      ];
+    }
+    return invariant(node.value)
+      ? []
+      : [
+          issue(
+            constraint.severity,
+            "invariant",
+            `${element.path}: ${constraint.key}: ${constraint.human}`,
+            node.location,
+          ),
+        ];
+  });
+}
+
+function checkElement(
+  root: Node,
+  element: ElementDefinition,
+  members: ValueSetMembers,
+): OperationOutcomeIssue[] {
+  const [, ...segments] = element.path.split(".");
+  const name = segments.pop();
+  // The resource itself only carries invariants
+  if (!name) return checkConstraints(root, element);
+
+  const label = element.sliceName
+    ? `${element.path}:${element.sliceName}`
+    : element.path;
+  const pattern = element.patternCoding ?? element.patternCodeableConcept;
+  const fixed = element.fixedCode ?? element.fixedUri ?? element.fixedString;
+  const max =
+    element.max === undefined || element.max === "*"
+      ? Infinity
+      : Number(element.max);
+  const binding = element.binding;
+  const issues: OperationOutcomeIssue[] = [];
+
+  const parents = segments.reduce(
+    (nodes, segment) => nodes.flatMap((node) => children(node, segment)),
+    [root],
+  );
+
+  for (const parent of parents) {
+    let items = children(parent, name);
+    if (element.sliceName && pattern) {
+      items = items.filter((item) => matchesPattern(item.value, pattern));
+    }
+
+    if (items.length < (element.min ?? 0)) {
+      issues.push(
+        issue(
+          "error",
+          "required",
+          `${label}: minimum required = ${element.min}, but only found ${items.length}`,
+          parent.location,
+        ),
+      );
+    }
+    if (items.length > max) {
+      issues.push(
+        issue(
+          "error",
+          "structure",
+          `${label}: maximum allowed = ${element.max}, but found ${items.length}`,
+          parent.location,
+        ),
+      );
+    }
+
+    for (const item of items) {
+      issues.push(...checkConstraints(item, element));
+      if (fixed !== undefined && item.value !== fixed) {
+        issues.push(
+          issue(
+            "error",
+            "value",
+            `${label}: value must be ${fixed}, not ${describe(item.value)}`,
+            item.location,
+          ),
+        );
+      }
+      if (
+        !element.sliceName &&
+        pattern &&
+        !matchesPattern(item.value, pattern)
+      ) {
+        issues.push(
+          issue(
+            "error",
+            "value",
+            `${label}: value does not match the pattern ${JSON.stringify(pattern)}`,
+            item.location,
+          ),
+        );
+      }
+
+      if (
+        !binding?.valueSet ||
+        (binding.strength !== "required" && binding.strength !== "extensible")
+      ) {
+        continue;
+      }
+      const valueSet = members.get(binding.valueSet);
+      if (!valueSet) {
+        issues.push(
+          issue(
+            "warning",
+            "not-supported",
+            `${label}: ValueSet ${binding.valueSet} is unknown, so the binding was not checked`,
+            item.location,
+          ),
+        );
+      } else if (!inValueSet(item.value, valueSet)) {
+        issues.push(
+          issue(
+            binding.strength === "required" ? "error" : "warning",
+            "code-invalid",
+            `${label}: ${describe(item.value)} is not in ${binding.valueSet}`,
+            item.location,
+          ),
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkResource(
+  resource: unknown,
+  members: ValueSetMembers,
+  location: string | undefined,
+  requested?: string,
+): OperationOutcomeIssue[] {
+  const typed = resource as {
+    resourceType?: string;
+    meta?: { profile?: string[] };
+    entry?: Array<{ resource?: unknown }>;
+  };
+  if (!typed?.resourceType) {
+    return [issue("error", "structure", "Not a FHIR resource", location ?? "")];
+  }
+
+  const at = location ?? typed.resourceType;
+  const definition: StructureDefinition | undefined = profileFor(
+    typed,
+    requested,
+  );
+  if (!definition) {
+    return [
+      requested
+        ? issue("error", "not-found", `Unknown profile ${requested}`, at)
+        : issue(
+            "warning",
+            "not-supported",
+            `No profile for ${typed.resourceType}; it was not checked`,
+            at,
+          ),
+    ];
+  }
+  if (definition.type !== typed.resourceType) {
+    return [
+      issue(
+        "error",
+        "invalid",
+        `Profile ${definition.url} is for ${definition.type}, not ${typed.resourceType}`,
+        at,
+      ),
+    ];
+  }
+
+  const root = { value: resource, location: at };
+  const issues = definition.differential.element.flatMap((element) =>
+    checkElement(root, element, members),
+  );
+
+  // Entries are checked against their own profiles
+  if (typed.resourceType === "Bundle") {
+    (typed.entry ?? []).forEach((entry, index) => {
+      if (entry?.resource) {
+        issues.push(
+          ...checkResource(
+            entry.resource,
+            members,
+            `${at}.entry[${index}].resource`,
+          ),
+        );
+      }
+    });
+  }
+
+  return issues;
+}
+
+// Checks a resource against its profile (see profileFor): cardinality,
+// fixed and pattern values, and required or extensible bindings. `rows`
+// is the codemap, which the NAMASTE and ICD-11 value sets are read from.
+export function validateResource(
+  resource: unknown,
+  rows: CodemapRow[],
+  profile?: string,
+): OperationOutcomeIssue[] {
+  return checkResource(resource, valueSetMembers(rows), undefined, profile);
+}
+
+export const hasErrors = (issues: OperationOutcomeIssue[]) =>
+  issues.some(
+    (issue) => issue.severity === "error" || issue.severity === "fatal",
+  );
+
+export function validationOutcome(
+  issues: OperationOutcomeIssue[],
+): OperationOutcome {
+  return {
+    resourceType: "OperationOutcome",
+    issue: issues.length
+      ? issues
+      : [
+          {
+            severity: "information",
+            code: "informational",
+            diagnostics: "No issues detected",
+          },
+        ],
+  };
+}
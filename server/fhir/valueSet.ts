@@ -0,0 +1,136 @@
+import type { CodeCategory, CodemapRow } from "@shared/api";
+import type {
+  ParametersParameter,
+  ValueSet,
+  ValueSetContains,
+} from "@shared/fhir";
+import { search } from "../terminology/search";
+import { CANONICAL_BASE, ICD11_SYSTEM, NAMASTE_SYSTEMS } from "./systems";
+
+interface ValueSetDefinition {
+  name: string;
+  title: string;
+  include: (categories: CodeCategory[]) => string[];
+  toConcepts: (rows: CodemapRow[]) => ValueSetContains[];
+}
+
+const dedupe = (concepts: ValueSetContains[]) =>
+  Array.from(
+    new Map(concepts.map((c) => [`${c.system}|${c.code}`, c])).values(),
+  );
+
+const VALUE_SETS: Record<string, ValueSetDefinition> = {
+  namaste: {
+    name: "NamasteDiagnoses",
+    title: "NAMASTE diagnoses (Ayurveda, Siddha, Unani)",
+    include: (categories) =>
+      categories.map((category) => NAMASTE_SYSTEMS[category]),
+    toConcepts: (rows) =>
+      dedupe(
+        rows.map((row) => ({
+          system: NAMASTE_SYSTEMS[row.category],
+          code: row.namaste_code,
+          display: row.namaste_name ?? undefined,
+        })),
+      ),
+  },
+  "icd11-mapped": {
+    name: "Icd11MappedDiagnoses",
+    title: "ICD-11 MMS codes targeted by the NAMASTE codemap",
+    include: () => [ICD11_SYSTEM],
+    // Stem codes only; unmatched rows have no target to list
+    toConcepts: (rows) =>
+      dedupe(
+        rows
+          .filter((row) => row.icd11_code)
+          .map((row) => ({
+            system: ICD11_SYSTEM,
+            code: row.icd11_code,
+            display: row.icd11_name ?? undefined,
+          })),
+      ),
+  },
+};
+
+export const VALUE_SET_IDS = Object.keys(VALUE_SETS);
+
+export const ALL_CATEGORIES: CodeCategory[] = ["Ayurveda", "Siddha", "Unani"];
+
+export const valueSetUrl = (id: string) => `${CANONICAL_BASE}/ValueSet/${id}`;
+
+export function valueSetIdForUrl(url: string) {
+  return Object.keys(VALUE_SETS).find((id) => valueSetUrl(id) === url);
+}
+
+export const isKnownValueSet = (id: string) => id in VALUE_SETS;
+
+// Every concept in a value set, across all categories
+export const valueSetConcepts = (id: string, rows: CodemapRow[]) =>
+  VALUE_SETS[id].toConcepts(rows);
+
+export function buildValueSet(id: string): ValueSet {
+  const definition = VALUE_SETS[id];
+
+  return {
+    resourceType: "ValueSet",
+    id,
+    url: valueSetUrl(id),
+    name: definition.name,
+    title: definition.title,
+    status: "active",
+    compose: {
+      include: definition.include(ALL_CATEGORIES).map((system) => ({ system })),
+    },
+  };
+}
+
+export interface ExpandRequest {
+  filter?: string;
+  offset: number;
+  count: number;
+  categories: CodeCategory[];
+  displayLanguage?: string;
+}
+
+export function expandValueSet(
+  id: string,
+  rows: CodemapRow[],
+  request: ExpandRequest,
+): ValueSet {
+  const definition = VALUE_SETS[id];
+
+  const concepts = definition.toConcepts(
+    rows.filter((row) => request.categories.includes(row.category)),
+  );
+
+  // With a filter, order by relevance so fuzzy and transliterated input
+  // still surfaces the intended code first
+  const matches = request.filter?.trim()
+    ? search(concepts, request.filter, (concept) => [
+        { name: "code", text: concept.code, weight: 1 },
+        { name: "display", text: concept.display, weight: 1 },
+      ]).map((hit) => hit.item)
+    : concepts.sort((a, b) => a.code.localeCompare(b.code));
+
+  const parameter: ParametersParameter[] = [
+    { name: "offset", valueString: String(request.offset) },
+    { name: "count", valueString: String(request.count) },
+    ...(request.filter
+      ? [{ name: "filter", valueString: request.filter }]
+      : []),
+    ...(request.displayLanguage
+      ? [{ name: "displayLanguage", valueCode: request.displayLanguage }]
+      : []),
+  ];
+
+  return {
+    ...buildValueSet(id),
+    expansion: {
+      timestamp: new Date().toISOString(),
+      total: matches.length,
+      offset: request.offset,
+      parameter,
+      contains: matches.slice(request.offset, request.offset + request.count),
+    },
+  };
+}
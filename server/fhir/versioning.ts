@@ -0,0 +1,79 @@
+import type { Response } from "express";
+import type { Bundle, BundleEntry, Meta } from "@shared/fhir";
+import type { ResourceVersion } from "../patients/repository";
+import { sendResource } from "./operationOutcome";
+
+// Version-aware reads and updates: ETags name meta.versionId, If-Match
+// headers are checked against it, and _history lists every version.
+
+// Weak, as the JSON sent for a version need not be the same byte for byte
+export const versionEtag = (versionId: number | string) => `W/"${versionId}"`;
+
+// The version an If-Match header names: W/"3", "3" or 3. Undefined when
+// there is no header, or it is *; null when it names no version.
+export function ifMatchVersion(
+  header: string | undefined,
+): number | null | undefined {
+  const value = header?.trim();
+  if (!value || value === "*") return undefined;
+
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(value);
+  return match ? Number(match[1]) : null;
+}
+
+export const staleMessage = (
+  reference: string,
+  expected: number | null,
+  current: number,
+) =>
+  expected === null
+    ? `If-Match must name a version of ${reference}, such as ${versionEtag(current)}`
+    : `${reference} has changed since version ${expected}; it is now at version ${current}`;
+
+// Sends a resource with the ETag and Last-Modified of its meta
+export function sendVersioned(
+  res: Response,
+  resource: { meta?: Meta },
+  status = 200,
+) {
+  const { versionId, lastUpdated } = resource.meta ?? {};
+  if (versionId) res.set("ETag", versionEtag(versionId));
+  if (lastUpdated) {
+    res.set("Last-Modified", new Date(lastUpdated).toUTCString());
+  }
+  sendResource(res, resource, status);
+}
+
+// The first version was a create and a version without a row a delete;
+// everything in between was an update
+export function historyBundle<T>(
+  baseUrl: string,
+  type: string,
+  versions: ResourceVersion[],
+  toResource: (row: NonNullable<ResourceVersion["row"]>) => T,
+): Bundle<T> {
+  const entry = versions.map(
+    ({ resource_id: id, version_id, row, recorded_at }): BundleEntry<T> => {
+      const method = !row ? "DELETE" : version_id === 1 ? "POST" : "PUT";
+      return {
+        fullUrl: `${baseUrl}/${type}/${id}`,
+        ...(row && { resource: toResource(row) }),
+        request: { method, url: method === "POST" ? type : `${type}/${id}` },
+        response: {
+          status:
+            method === "DELETE" ? "204" : method === "POST" ? "201" : "200",
+          etag: versionEtag(version_id),
+          lastModified: recorded_at,
+        },
+      };
+    },
+  );
+
+  return {
+    resourceType: "Bundle",
+    type: "history",
+    timestamp: new Date().toISOString(),
+    total: entry.length,
+    entry,
+  };
+}
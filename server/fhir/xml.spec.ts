@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import type {
+  Bundle,
+  Condition,
+  ConceptMap,
+  OperationOutcome,
+  Patient,
+} from "@shared/fhir";
+import { CONFIDENCE_EXTENSION, ICD11_SYSTEM, NAMASTE_SYSTEMS } from "./systems";
+import { parseFhirXml, toFhirXml } from "./xml";
+
+const patient: Patient = {
+  resourceType: "Patient",
+  id: "p1",
+  meta: { versionId: "2", profile: ["https://example.com/abdm-patient"] },
+  identifier: [{ system: "https://healthid.ndhm.gov.in", value: "A & B" }],
+  active: true,
+  name: [{ use: "official", family: "Rao", given: ["Asha", "K"] }],
+  telecom: [{ system: "phone", value: "555" }],
+  gender: "female",
+  birthDate: "1980-01-15",
+  address: [{ line: ['12 "Main" Road'], city: "Pune" }],
+};
+
+const condition: Condition = {
+  resourceType: "Condition",
+  id: "c1",
+  clinicalStatus: { coding: [{ code: "active" }] },
+  code: {
+    coding: [{ system: NAMASTE_SYSTEMS.Ayurveda, code: "AYR-001" }],
+    text: "Amavata",
+  },
+  subject: { reference: "Patient/p1" },
+  evidence: [{ code: [{ text: "joint pain" }] }],
+  note: [{ text: "Worse in the morning.\nRecheck in <2> weeks" }],
+};
+
+const outcome: OperationOutcome = {
+  resourceType: "OperationOutcome",
+  issue: [{ severity: "error", code: "invalid", expression: ["Patient.name"] }],
+};
+
+const roundTrip = (resource: { resourceType: string }) => {
+  const parsed = parseFhirXml(toFhirXml(resource));
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed.resource;
+};
+
+describe("FHIR XML", () => {
+  it("should write primitives as values and repeats as elements", () => {
+    const xml = toFhirXml(patient);
+
+    expect(xml).toMatch(
+      /^<\?xml[^>]*\?><Patient xmlns="http:\/\/hl7.org\/fhir"><id value="p1"\/>/,
+    );
+    expect(xml).toContain('<given value="Asha"/><given value="K"/>');
+    expect(xml).toContain('<value value="A &amp; B"/>');
+    expect(xml).toContain('<active value="true"/>');
+  });
+
+  it("should round-trip the resources we produce", () => {
+    const bundle: Bundle = {
+      resourceType: "Bundle",
+      identifier: { system: "urn:ietf:rfc:3986", value: "urn:uuid:1" },
+      type: "transaction-response",
+      total: 2,
+      link: [{ relation: "self", url: "http://localhost/fhir" }],
+      entry: [
+        {
+          fullUrl: "http://localhost/fhir/Patient/p1",
+          resource: patient,
+          response: { status: "201 Created", etag: 'W/"1"' },
+        },
+        { resource: condition, search: { mode: "match", score: 0.5 } },
+        { response: { status: "412 Precondition Failed", outcome } },
+      ],
+    };
+    const conceptMap: ConceptMap = {
+      resourceType: "ConceptMap",
+      id: "namaste-to-icd11",
+      url: "https://example.com/ConceptMap/namaste-to-icd11",
+      name: "NamasteToIcd11",
+      status: "active",
+      group: [
+        {
+          source: NAMASTE_SYSTEMS.Ayurveda,
+          target: ICD11_SYSTEM,
+          element: [
+            {
+              code: "AYR-001",
+              target: [
+                {
+                  code: "BA25.1",
+                  equivalence: "equivalent",
+                  extension: [
+                    { url: CONFIDENCE_EXTENSION, valueDecimal: 0.92 },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    for (const resource of [patient, condition, outcome, bundle, conceptMap]) {
+      expect(roundTrip(resource)).toEqual(resource);
+    }
+    expect(toFhirXml(conceptMap)).toContain(
+      `<extension url="${CONFIDENCE_EXTENSION}"><valueDecimal value="0.92"/>`,
+    );
+  });
+
+  it("should keep narrative markup and skip comments", () => {
+    const parsed = parseFhirXml(`<?xml version="1.0"?>
+      <!-- from a legacy system -->
+      <Patient xmlns="http://hl7.org/fhir">
+        <id value="p1"/>
+        <text>
+          <status value="generated"/>
+          <div xmlns="http://www.w3.org/1999/xhtml"><div>Asha</div><br/></div>
+        </text>
+        <name><family value="Rao"/></name>
+      </Patient>`);
+
+    expect(parsed).toEqual({
+      resource: {
+        resourceType: "Patient",
+        id: "p1",
+        text: {
+          status: "generated",
+          div: '<div xmlns="http://www.w3.org/1999/xhtml"><div>Asha</div><br/></div>',
+        },
+        name: [{ family: "Rao" }],
+      },
+    });
+  });
+
+  it("should refuse what is not FHIR XML", () => {
+    const errors = [
+      "not xml",
+      '<!DOCTYPE x [<!ENTITY e SYSTEM "file:///etc/passwd">]><Patient/>',
+      "<Patient><id value='p1'/></Patient>",
+      '<Patient xmlns="http://hl7.org/fhir"><id value="p1"></Patient>',
+      '<Patient xmlns="http://hl7.org/fhir"><gender value="female"/><gender value="male"/></Patient>',
+      '<Patient xmlns="http://hl7.org/fhir"><active value="yes"/></Patient>',
+    ].map((xml) => parseFhirXml(xml));
+
+    for (const result of errors) {
+      expect(result).toEqual({
+        error: expect.stringMatching(/^Invalid FHIR XML: /),
+      });
+    }
+  });
+});
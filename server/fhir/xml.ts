@@ -0,0 +1,407 @@
+// FHIR XML (https://hl7.org/fhir/R4/xml.html) for the resources we
+// produce, so they survive a trip through XML and back to the same JSON:
+//
+//   primitives    <family value="Rao"/>
+//   repeats       one element per item, in order
+//   resources     <Patient xmlns="http://hl7.org/fhir">, wrapped in their
+//                 element (<resource>, <outcome>) when nested
+//   id, url       attributes on elements other than resources, as for
+//                 ElementDefinition.id and extension.url
+//   div           narrative XHTML, kept as markup
+//
+// Elements keep their JSON order, which our builders keep in FHIR's.
+// XML does not say which elements repeat or which values are numbers;
+// both are looked up below for the resources we handle.
+
+export const FHIR_NAMESPACE = "http://hl7.org/fhir";
+
+type Json = Record<string, unknown>;
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  // The markup of a narrative div
+  xhtml?: string;
+}
+
+// Elements that repeat wherever they appear in our resources
+const REPEATING = new Set([
+  "address",
+  "agent",
+  "category",
+  "coding",
+  "concept",
+  "contact",
+  "contains",
+  "designation",
+  "detail",
+  "element",
+  "entity",
+  "entry",
+  "evidence",
+  "expression",
+  "extension",
+  "format",
+  "given",
+  "group",
+  "identifier",
+  "include",
+  "interaction",
+  "issue",
+  "line",
+  "link",
+  "modifierExtension",
+  "note",
+  "operation",
+  "parameter",
+  "part",
+  "profile",
+  "property",
+  "relationship",
+  "rest",
+  "searchParam",
+  "subtype",
+  "target",
+  "telecom",
+]);
+
+// Names that repeat in only some places, or everywhere but some
+const REPEATING_PATHS = new Set([
+  "Patient.name",
+  "Condition.evidence.code",
+  "OperationOutcome.issue.location",
+  "CapabilityStatement.rest.resource",
+  "AuditEvent.source.type",
+]);
+const SINGLE_PATHS = new Set([
+  "Bundle.identifier",
+  "ConceptMap.group.target",
+  "ValueSet.expansion.identifier",
+  "CapabilityStatement.rest.resource.profile",
+  "AuditEvent.entity.what.identifier",
+  "Provenance.target.identifier",
+  "Provenance.entity.what.identifier",
+]);
+
+const NUMBERS = new Set([
+  "count",
+  "min",
+  "offset",
+  "score",
+  "total",
+  "valueDecimal",
+  "valueInteger",
+  "valuePositiveInt",
+  "valueUnsignedInt",
+]);
+const BOOLEANS = new Set([
+  "abstract",
+  "active",
+  "caseSensitive",
+  "cors",
+  "deceasedBoolean",
+  "experimental",
+  "inactive",
+  "readHistory",
+  "requestor",
+  "requiresAccessToken",
+  "valueBoolean",
+]);
+
+const repeats = (path: string, name: string) =>
+  REPEATING_PATHS.has(path) || (REPEATING.has(name) && !SINGLE_PATHS.has(path));
+
+const isResource = (value: unknown): value is Json =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Json).resourceType === "string";
+
+// ----------------------
+// Serializing
+// ----------------------
+
+const ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "\n": "&#10;",
+  "\r": "&#13;",
+  "\t": "&#9;",
+};
+
+// Line breaks are escaped too, or parsers fold them into spaces
+const escapeAttribute = (value: unknown) =>
+  String(value).replace(/[&<>"\n\r\t]/g, (char) => ESCAPES[char]);
+
+function writeElement(name: string, value: unknown, out: string[]) {
+  if (value === undefined || value === null) return;
+
+  if (Array.isArray(value)) {
+    for (const item of value) writeElement(name, item, out);
+    return;
+  }
+  if (name === "div" && typeof value === "string") {
+    out.push(value);
+    return;
+  }
+  if (typeof value !== "object") {
+    out.push(`<${name} value="${escapeAttribute(value)}"/>`);
+    return;
+  }
+  if (isResource(value)) {
+    out.push(`<${name}>`);
+    writeResource(value, out);
+    out.push(`</${name}>`);
+    return;
+  }
+
+  // Only extensions carry url as an attribute
+  const extension = name === "extension" || name === "modifierExtension";
+  const { id, url } = value as Json;
+  const attributes =
+    (id !== undefined ? ` id="${escapeAttribute(id)}"` : "") +
+    (extension && url !== undefined ? ` url="${escapeAttribute(url)}"` : "");
+
+  out.push(`<${name}${attributes}>`);
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "id" || (extension && key === "url")) continue;
+    writeElement(key, child, out);
+  }
+  out.push(`</${name}>`);
+}
+
+function writeResource(resource: Json, out: string[]) {
+  const { resourceType, ...elements } = resource;
+  out.push(`<${resourceType} xmlns="${FHIR_NAMESPACE}">`);
+  for (const [key, value] of Object.entries(elements)) {
+    writeElement(key, value, out);
+  }
+  out.push(`</${resourceType}>`);
+}
+
+export function toFhirXml(resource: { resourceType: string }): string {
+  const out = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  writeResource(resource as unknown as Json, out);
+  return out.join("");
+}
+
+// ----------------------
+// Parsing
+// ----------------------
+
+const NAME = /[A-Za-z_][\w.:-]*/y;
+const ATTRIBUTE = /\s+([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+// Literal line breaks in attributes read as spaces, as XML has it
+const decodeAttribute = (raw: string) =>
+  raw
+    .replace(/[\t\n\r]/g, " ")
+    .replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, ref: string) => {
+      if (ref.startsWith("#x")) {
+        return String.fromCodePoint(parseInt(ref.slice(2), 16));
+      }
+      if (ref.startsWith("#")) {
+        return String.fromCodePoint(Number(ref.slice(1)));
+      }
+      if (ENTITIES[ref]) return ENTITIES[ref];
+      throw new Error(`Unknown entity ${entity}`);
+    });
+
+// A small, non-validating reader: elements, attributes, comments and the
+// XML declaration. DTDs are refused, so no entity can be smuggled in.
+function readXml(text: string): XmlElement {
+  let pos = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  const fail = (message: string): never => {
+    const line = text.slice(0, pos).split("\n").length;
+    throw new Error(`${message} (line ${line})`);
+  };
+
+  const skipPast = (terminator: string) => {
+    const end = text.indexOf(terminator, pos);
+    if (end < 0) fail(`Unterminated ${text.slice(pos, pos + 4)}`);
+    pos = end + terminator.length;
+  };
+
+  // Everything up to the matching </div>, div elements nested inside
+  // included
+  const readXhtml = (start: number) => {
+    let depth = 1;
+    const tags = /<(\/?)div(?=[\s/>])(?:"[^"]*"|'[^']*'|[^'">])*?(\/?)>/g;
+    tags.lastIndex = pos;
+    for (let match; (match = tags.exec(text)); ) {
+      if (match[1]) depth--;
+      else if (!match[2]) depth++;
+      if (!depth) {
+        pos = tags.lastIndex;
+        return text.slice(start, pos);
+      }
+    }
+    return fail("Unterminated div");
+  };
+
+  while (pos < text.length) {
+    const next = text.indexOf("<", pos);
+    const between = text.slice(pos, next < 0 ? undefined : next);
+    if (between.trim()) fail("Unexpected text");
+    if (next < 0) break;
+    pos = next;
+
+    if (text.startsWith("<?", pos)) {
+      skipPast("?>");
+      continue;
+    }
+    if (text.startsWith("<!--", pos)) {
+      skipPast("-->");
+      continue;
+    }
+    if (text.startsWith("<!", pos)) fail("DTDs and CDATA are not supported");
+
+    const start = pos;
+    const closing = text[pos + 1] === "/";
+    pos += closing ? 2 : 1;
+    NAME.lastIndex = pos;
+    const name = NAME.exec(text)?.[0] ?? fail("Expected an element name");
+    pos += name.length;
+
+    if (closing) {
+      const open = stack.pop();
+      if (open?.name !== name) fail(`Unexpected </${name}>`);
+      const end = /\s*>/y;
+      end.lastIndex = pos;
+      if (!end.exec(text)) fail(`Malformed </${name}>`);
+      pos = end.lastIndex;
+      continue;
+    }
+
+    const element: XmlElement = { name, attributes: {}, children: [] };
+    ATTRIBUTE.lastIndex = pos;
+    for (let match; (match = ATTRIBUTE.exec(text)); ) {
+      element.attributes[match[1]] = decodeAttribute(match[2] ?? match[3]);
+      pos = ATTRIBUTE.lastIndex;
+    }
+    const end = /\s*(\/?)>/y;
+    end.lastIndex = pos;
+    const selfClosing = end.exec(text)?.[1] ?? fail(`Malformed <${name}>`);
+    pos = end.lastIndex;
+
+    if (stack.length) stack[stack.length - 1].children.push(element);
+    else if (root) fail("More than one root element");
+    else root = element;
+
+    if (name === "div" && !selfClosing) {
+      element.xhtml = readXhtml(start);
+    } else if (name === "div") {
+      element.xhtml = text.slice(start, pos);
+    } else if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length) fail(`Unclosed <${stack[stack.length - 1].name}>`);
+  return root ?? fail("No root element");
+}
+
+function toPrimitive(name: string, value: string) {
+  if (BOOLEANS.has(name)) {
+    if (value !== "true" && value !== "false") {
+      throw new Error(`${name} must be true or false, not ${value}`);
+    }
+    return value === "true";
+  }
+  if (NUMBERS.has(name)) {
+    const number = Number(value);
+    if (value.trim() === "" || isNaN(number)) {
+      throw new Error(`${name} must be a number, not ${value}`);
+    }
+    return number;
+  }
+  return value;
+}
+
+// A wrapper such as Bundle.entry.resource holds exactly one resource,
+// whose name is capitalized where element names never are
+const wrappedResource = (element: XmlElement) =>
+  element.children.length === 1 &&
+  !Object.keys(element.attributes).length &&
+  /^[A-Z]/.test(element.children[0].name)
+    ? element.children[0]
+    : undefined;
+
+function readElement(element: XmlElement, path: string): unknown {
+  if (element.xhtml !== undefined) return element.xhtml;
+
+  const resource = wrappedResource(element);
+  if (resource) return readResource(resource);
+
+  const { value, id, url, ...others } = element.attributes;
+  const unknown = Object.keys(others).find((name) => name !== "xmlns");
+  if (unknown) throw new Error(`Unexpected attribute ${unknown} on ${path}`);
+
+  if (value !== undefined) {
+    if (element.children.length) {
+      throw new Error(`Extensions on primitive ${path} are not supported`);
+    }
+    return toPrimitive(element.name, value);
+  }
+
+  const json: Json = {};
+  if (id !== undefined) json.id = id;
+  if (url !== undefined) json.url = url;
+  readChildren(element, path, json);
+  return json;
+}
+
+function readChildren(element: XmlElement, path: string, json: Json) {
+  for (const child of element.children) {
+    const childPath = `${path}.${child.name}`;
+    const value = readElement(child, childPath);
+
+    if (repeats(childPath, child.name)) {
+      ((json[child.name] ??= []) as unknown[]).push(value);
+    } else if (child.name in json) {
+      throw new Error(`${childPath} does not repeat`);
+    } else {
+      json[child.name] = value;
+    }
+  }
+}
+
+function readResource(element: XmlElement): Json {
+  const { xmlns, ...attributes } = element.attributes;
+  if (xmlns !== FHIR_NAMESPACE) {
+    throw new Error(
+      `<${element.name}> is not in the ${FHIR_NAMESPACE} namespace`,
+    );
+  }
+  if (Object.keys(attributes).length) {
+    throw new Error(`Unexpected attributes on <${element.name}>`);
+  }
+
+  const json: Json = { resourceType: element.name };
+  readChildren(element, element.name, json);
+  return json;
+}
+
+// Reads a resource from FHIR XML into the JSON it stands for
+export function parseFhirXml(
+  text: string,
+): { error: string } | { resource: Json } {
+  try {
+    return { resource: readResource(readXml(text)) };
+  } catch (error) {
+    return { error: `Invalid FHIR XML: ${(error as Error).message}` };
+  }
+}
@@ -6,15 +6,53 @@ import geminiRoute from "./routes/gemini";
 // ROUTES
 import { handleDemo } from "./routes/demo.js";
 import { handleSearchCodes, handleGetCodeByNameste } from "./routes/codes.js";
+import {
+  handleImportCodes,
+  handleExportCodes,
+  handleListImportProfiles,
+} from "./routes/codeLists.js";
+import {
+  handleListReleases,
+  handleCreateRelease,
+  handleGetRelease,
+  handleDiffReleases,
+} from "./routes/releases.js";
+import { handleSuggestMappings } from "./routes/suggestions.js";
+import {
+  handleStartAutoMap,
+  handleListAutoMapJobs,
+  handleGetAutoMapJob,
+  handleCancelAutoMap,
+  handleResumeAutoMap,
+} from "./routes/autoMap.js";
+import { handleCodeAnalytics } from "./routes/analytics.js";
+import {
+  handleListMappings,
+  handleGetMapping,
+  handleCreateMapping,
+  handleUpdateMapping,
+  handleDeleteMapping,
+  handleBulkMappings,
+  handleMappingTransition,
+  handleMappingHistory,
+  handleMappingVersion,
+  handleMappingVersions,
+} from "./routes/mappings.js";
 import {
   handleCreatePatient,
   handleGetPatient,
   handleListPatients,
+  handleDeletePatient,
+  handleListDiagnoses,
   handleAddDiagnosis,
+  handleDeleteDiagnosis,
   handleExportPatientFHIR,
+  handleListPatientAudit,
 } from "./routes/patients.js";
 import authRouter from "./routes/auth";
 import chatRoute from "./routes/chat";
+import fhirRouter from "./routes/fhir";
+import { authenticateRequest } from "./utils/requestUser";
 
 export function createServer() {
   const app = express();
@@ -22,6 +60,7 @@ export function createServer() {
   app.use(cors());
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
+  app.use(authenticateRequest());
 
   // API health check
   app.get("/api/ping", (_req, res) => {
@@ -32,8 +71,71 @@ export function createServer() {
   // EXISTING ROUTES
   app.get("/api/demo", handleDemo);
   app.get("/api/codes/search", handleSearchCodes);
+  app.get("/api/codes/export", handleExportCodes);
+
+  // CODE LIST IMPORT (CSV, XLSX, FHIR ConceptMap)
+  app.get("/api/codes/import/profiles", handleListImportProfiles);
+  app.post(
+    "/api/codes/import",
+    express.raw({
+      type: [
+        "text/csv",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "application/fhir+json",
+        "application/octet-stream",
+      ],
+      limit: "10mb",
+    }),
+    handleImportCodes,
+  );
+
+  // TERMINOLOGY RELEASES
+  app.get("/api/codes/releases", handleListReleases);
+  app.post(
+    "/api/codes/releases",
+    express.raw({
+      type: [
+        "text/csv",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "application/octet-stream",
+      ],
+      limit: "20mb",
+    }),
+    handleCreateRelease,
+  );
+  app.get("/api/codes/releases/diff", handleDiffReleases);
+  app.get("/api/codes/releases/:id", handleGetRelease);
+
+  // MAPPING SUGGESTIONS (offline lexical model, optional LLM re-ranking)
+  app.post("/api/codes/suggestions", handleSuggestMappings);
+
+  // BATCH AUTO-MAP JOBS (poll for progress; cancellable and resumable)
+  app.get("/api/codes/automap", handleListAutoMapJobs);
+  app.post("/api/codes/automap", handleStartAutoMap);
+  app.get("/api/codes/automap/:id", handleGetAutoMapJob);
+  app.post("/api/codes/automap/:id/cancel", handleCancelAutoMap);
+  app.post("/api/codes/automap/:id/resume", handleResumeAutoMap);
+
+  // Registered after the fixed /api/codes/* paths it would otherwise shadow
   app.get("/api/codes/:code", handleGetCodeByNameste);
 
+  // CODEMAP CRUD
+  app.get("/api/mappings", handleListMappings);
+  app.post("/api/mappings", handleCreateMapping);
+  app.post("/api/mappings/bulk", handleBulkMappings);
+  app.get("/api/mappings/:id", handleGetMapping);
+  app.patch("/api/mappings/:id", handleUpdateMapping);
+  app.delete("/api/mappings/:id", handleDeleteMapping);
+
+  // MAPPING REVIEW WORKFLOW
+  app.post("/api/mappings/:id/transitions", handleMappingTransition);
+  app.get("/api/mappings/:id/history", handleMappingHistory);
+  app.get("/api/mappings/:id/_history", handleMappingVersions);
+  app.get("/api/mappings/:id/_history/:vid", handleMappingVersion);
+
+  // ANALYTICS
+  app.get("/api/analytics/codes/:code", handleCodeAnalytics);
+
   app.use("/api/auth", authRouter);
   app.use("/api/chat", chatRoute);
 app.use("/api/gemini", geminiRoute);
@@ -42,8 +144,18 @@ app.use("/api/gemini", geminiRoute);
   app.post("/api/patients", handleCreatePatient);
   app.get("/api/patients", handleListPatients);
   app.get("/api/patients/:patientId", handleGetPatient);
+  app.delete("/api/patients/:patientId", handleDeletePatient);
+  app.get("/api/patients/:patientId/diagnoses", handleListDiagnoses);
   app.post("/api/patients/:patientId/diagnoses", handleAddDiagnosis);
+  app.delete(
+    "/api/patients/:patientId/diagnoses/:diagnosisId",
+    handleDeleteDiagnosis,
+  );
   app.get("/api/patients/:patientId/fhir", handleExportPatientFHIR);
+  app.get("/api/patients/:patientId/audit", handleListPatientAudit);
+
+  // FHIR R4 TERMINOLOGY & RESOURCE API
+  app.use("/fhir", fhirRouter);
   
 
   // OPENAI CHATBOT ROUTE
@@ -15,7 +15,11 @@ app.use(express.static(distPath));
 // Handle React Router - serve index.html for all non-API routes
 app.get("*", (req, res) => {
   // Don't serve index.html for API routes
-  if (req.path.startsWith("/api/") || req.path.startsWith("/health")) {
+  if (
+    req.path.startsWith("/api/") ||
+    req.path.startsWith("/fhir/") ||
+    req.path.startsWith("/health")
+  ) {
     return res.status(404).json({ error: "API endpoint not found" });
   }
 
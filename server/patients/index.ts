@@ -0,0 +1,40 @@
+import path from "path";
+import type { DatabaseSync } from "node:sqlite";
+import { openSqliteDatabase } from "../utils/sqlite";
+import { supabase } from "../utils/supabaseServerClient";
+import { createSqlitePatientRepository } from "./sqliteRepository";
+import { createSupabasePatientRepository } from "./supabaseRepository";
+import type { PatientRepository } from "./repository";
+
+export type { PatientRepository } from "./repository";
+export { PATIENT_CONFLICT_MESSAGES } from "./repository";
+
+let repository: PatientRepository | null = null;
+let database: DatabaseSync | null = null;
+
+// The SQLite store's one connection. The audit store writes through it
+// too, so its events join the patient writes' transactions and, with
+// ":memory:", land in the same database.
+export function getPatientDatabase(): DatabaseSync {
+  return (database ??= openSqliteDatabase(
+    process.env.PATIENT_DB_PATH ?? path.resolve("data", "patients.db"),
+  ));
+}
+
+// PATIENT_STORE=sqlite|supabase picks the backend explicitly; otherwise
+// Supabase is used whenever it is configured. PATIENT_DB_PATH points the
+// SQLite store at a file, or ":memory:".
+export function getPatientRepository(): PatientRepository {
+  if (repository) return repository;
+
+  const store =
+    process.env.PATIENT_STORE ??
+    (process.env.SUPABASE_URL ? "supabase" : "sqlite");
+
+  repository =
+    store === "supabase"
+      ? createSupabasePatientRepository(supabase)
+      : createSqlitePatientRepository(getPatientDatabase());
+
+  return repository;
+}
@@ -0,0 +1,221 @@
+import type { PatientDiagnosisRow, PatientRow } from "@shared/api";
+import type { NewAuditEvent } from "../audit/repository";
+
+// The store sets the id, timestamps and version
+type StoreManaged = "id" | "created_at" | "version_id" | "updated_at";
+
+export type NewPatient = Omit<PatientRow, StoreManaged | "diagnosis_count">;
+
+export type NewPatientDiagnosis = Omit<PatientDiagnosisRow, StoreManaged>;
+
+export interface PatientQuery {
+  // Case-insensitive substring of the first or last name
+  q?: string;
+  limit?: number;
+}
+
+// How a string search parameter matches, following FHIR: prefix by
+// default, or the :exact and :contains modifiers. Always case-insensitive
+// except :exact.
+export interface TextFilter {
+  value: string;
+  match: "start" | "exact" | "contains";
+}
+
+// A date in [from, before), or outside it when `exclude` is set. Bounds
+// are YYYY-MM-DD; timestamps compare by their date.
+export interface DateRange {
+  from?: string;
+  before?: string;
+  exclude?: boolean;
+}
+
+// Rows last written at or after `since` and at or before `until`, both
+// ISO instants; matched against updated_at, which is meta.lastUpdated
+export interface InstantRange {
+  since?: string;
+  until?: string;
+}
+
+// `system|value`, or a bare value matching any system
+export interface TokenFilter {
+  system?: string;
+  value: string;
+}
+
+export type PatientSortColumn =
+  | "last_name"
+  | "first_name"
+  | "date_of_birth"
+  | "gender"
+  | "created_at";
+
+// Every filter narrows the result; lists within a filter are ANDed,
+// except `gender`, where any listed value matches
+export interface PatientSearch {
+  // First or last name
+  name?: TextFilter[];
+  family?: TextFilter[];
+  given?: TextFilter[];
+  birthDate?: DateRange[];
+  gender?: string[];
+  identifier?: TokenFilter;
+  // `email` or `phone` as system
+  telecom?: TokenFilter;
+  lastUpdated?: InstantRange;
+  // Ties fall back to registration order, then id, so pages are stable
+  sort?: Array<{ column: PatientSortColumn; descending: boolean }>;
+  offset?: number;
+  limit: number;
+}
+
+export interface PatientSearchPage {
+  rows: PatientRow[];
+  // Matches before offset and limit
+  total: number;
+}
+
+export interface DiagnosisQuery {
+  patientIds?: string[];
+  namasteCode?: string;
+}
+
+export type DiagnosisCodeColumn = "namaste_code" | "icd11_code";
+
+// Lists within a filter match any value
+export interface DiagnosisSearch {
+  patientId?: string;
+  // Matched against either code column listed
+  code?: { value: string; columns: DiagnosisCodeColumn[] };
+  recordedDate?: DateRange[];
+  clinicalStatus?: string[];
+  lastUpdated?: InstantRange;
+  offset?: number;
+  limit: number;
+}
+
+export interface DiagnosisSearchPage {
+  // Oldest first
+  rows: PatientDiagnosisRow[];
+  total: number;
+}
+
+// A patient that would clash with an existing one: same name and date of
+// birth, or same email
+export interface PatientConflict {
+  conflict: "name_dob" | "email";
+}
+
+// Shown to whoever tried to register the duplicate
+export const PATIENT_CONFLICT_MESSAGES: Record<
+  PatientConflict["conflict"],
+  string
+> = {
+  name_dob:
+    "A patient with the same first name, last name and date of birth already exists.",
+  email: "This email address is already used by another patient.",
+};
+
+export type VersionedResourceType = "Patient" | "Condition";
+
+// A patient or diagnosis as one write left it. Deleting is a write too:
+// its version has no row.
+export interface ResourceVersion {
+  resource_type: VersionedResourceType;
+  resource_id: string;
+  version_id: number;
+  row: PatientRow | PatientDiagnosisRow | null;
+  recorded_at: string;
+}
+
+// One write of a batch. New rows get their id from the caller, so later
+// writes in the same batch can refer to them. Updates and deletes given
+// an `expectedVersion` only apply to the row at that version.
+export type PatientWrite =
+  | { action: "insert-patient"; id: string; patient: NewPatient }
+  | {
+      action: "update-patient";
+      id: string;
+      patch: Partial<NewPatient>;
+      expectedVersion?: number;
+    }
+  | { action: "delete-patient"; id: string; expectedVersion?: number }
+  | { action: "insert-diagnosis"; id: string; diagnosis: NewPatientDiagnosis }
+  | {
+      action: "update-diagnosis";
+      id: string;
+      patch: Partial<Omit<NewPatientDiagnosis, "patient_id">>;
+      expectedVersion?: number;
+    }
+  | { action: "delete-diagnosis"; id: string; expectedVersion?: number };
+
+// Either every write was made, giving the rows as written (null for
+// deletes), or none was: `failed` is the index of the first write that
+// could not be made, because its row was missing, stale or clashed with
+// another patient
+export type PatientWriteResult =
+  | { rows: Array<PatientRow | PatientDiagnosisRow | null> }
+  | ({ failed: number } & Partial<PatientConflict>);
+
+// What a batch of one write made: its row, a conflict, or null when the
+// row was missing or stale
+export function singleWrite<T extends PatientRow | PatientDiagnosisRow>(
+  result: PatientWriteResult,
+): T | PatientConflict | null {
+  if ("rows" in result) return result.rows[0] as T;
+  return result.conflict ? { conflict: result.conflict } : null;
+}
+
+// Storage-agnostic access to patients and their coded diagnoses. SQLite
+// (local runs, tests) and Supabase (deployment) implement this, and
+// diagnoses are deleted together with their patient.
+//
+// Every write bumps the row's version_id and keeps a ResourceVersion,
+// in the same transaction. Writers given an `expectedVersion` only go
+// ahead while the row is still at that version; like a missing row, a
+// stale one gives null or false, and callers tell the two apart by
+// reading the row again.
+export interface PatientRepository {
+  listPatients(query?: PatientQuery): Promise<PatientRow[]>;
+  findPatientById(id: string): Promise<PatientRow | null>;
+  searchPatients(search: PatientSearch): Promise<PatientSearchPage>;
+  insertPatient(patient: NewPatient): Promise<PatientRow | PatientConflict>;
+  updatePatient(
+    id: string,
+    patch: Partial<NewPatient>,
+    expectedVersion?: number,
+  ): Promise<PatientRow | PatientConflict | null>;
+  deletePatient(id: string, expectedVersion?: number): Promise<boolean>;
+
+  // Oldest first
+  listDiagnoses(query?: DiagnosisQuery): Promise<PatientDiagnosisRow[]>;
+  findDiagnosisById(id: string): Promise<PatientDiagnosisRow | null>;
+  searchDiagnoses(search: DiagnosisSearch): Promise<DiagnosisSearchPage>;
+  insertDiagnosis(diagnosis: NewPatientDiagnosis): Promise<PatientDiagnosisRow>;
+  updateDiagnosis(
+    id: string,
+    patch: Partial<Omit<NewPatientDiagnosis, "patient_id">>,
+    expectedVersion?: number,
+  ): Promise<PatientDiagnosisRow | null>;
+  deleteDiagnosis(id: string, expectedVersion?: number): Promise<boolean>;
+
+  // Makes all of the writes, in order, in one transaction, or none. The
+  // audit events describing them are recorded in the same transaction,
+  // so they are computed beforehand, from the rows as the writes will
+  // leave them.
+  applyWrites(
+    writes: PatientWrite[],
+    events?: NewAuditEvent[],
+  ): Promise<PatientWriteResult>;
+
+  // Newest first, deletions included; empty for unknown ids
+  listVersions(
+    type: VersionedResourceType,
+    id: string,
+  ): Promise<ResourceVersion[]>;
+  findVersion(
+    type: VersionedResourceType,
+    id: string,
+    versionId: number,
+  ): Promise<ResourceVersion | null>;
+}
@@ -0,0 +1,354 @@
+import { describe, it, expect } from "vitest";
+import type { NewAuditEvent } from "../audit/repository";
+import { createSqliteAuditRepository } from "../audit/sqliteRepository";
+import { openSqliteDatabase } from "../utils/sqlite";
+import type { NewPatient } from "./repository";
+import { createSqlitePatientRepository } from "./sqliteRepository";
+
+const patient = (overrides: Partial<NewPatient> = {}): NewPatient => ({
+  user_id: "u1",
+  first_name: "Asha",
+  last_name: "Rao",
+  date_of_birth: "1980-01-15",
+  gender: "female",
+  admit_date: null,
+  diagnosis: null,
+  email: null,
+  phone: null,
+  guardian_name: null,
+  guardian_phone: null,
+  address: null,
+  identifiers: [],
+  ...overrides,
+});
+
+const diagnosis = (patientId: string, code: string) => ({
+  patient_id: patientId,
+  namaste_code: code,
+  icd11_code: "BA25.1",
+  symptoms: "joint pain",
+  clinical_notes: null,
+  clinical_status: "active" as const,
+  verification_status: "confirmed" as const,
+  recorded_by: "doctor@example.com",
+});
+
+const insert = async (
+  repo: ReturnType<typeof createSqlitePatientRepository>,
+  overrides: Partial<NewPatient> = {},
+) => {
+  const saved = await repo.insertPatient(patient(overrides));
+  if ("conflict" in saved) throw new Error(saved.conflict);
+  return saved;
+};
+
+describe("sqlite patient repository", () => {
+  it("should store patients and count their diagnoses", async () => {
+    const repo = createSqlitePatientRepository(":memory:");
+    const asha = await insert(repo);
+    await insert(repo, { first_name: "Ravi", email: "ravi@example.com" });
+    await repo.insertDiagnosis(diagnosis(asha.id, "AYR-001"));
+
+    expect(asha.diagnosis_count).toBe(0);
+    expect((await repo.findPatientById(asha.id))?.diagnosis_count).toBe(1);
+    expect(
+      (await repo.listPatients({ q: "rav" })).map((p) => p.first_name),
+    ).toEqual(["Ravi"]);
+    expect(await repo.listPatients({ limit: 1 })).toHaveLength(1);
+    expect(await repo.findPatientById("missing")).toBeNull();
+  });
+
+  it("should report duplicate name and date of birth, or email", async () => {
+    const repo = createSqlitePatientRepository(":memory:");
+    await insert(repo, { email: "asha@example.com" });
+
+    expect(await repo.insertPatient(patient())).toEqual({
+      conflict: "name_dob",
+    });
+    expect(
+      await repo.insertPatient(
+        patient({ first_name: "Other", email: "asha@example.com" }),
+      ),
+    ).toEqual({ conflict: "email" });
+  });
+
+  it("should filter diagnoses and delete them with their patient", async () => {
+    const repo = createSqlitePatientRepository(":memory:");
+    const asha = await insert(repo);
+    const ravi = await insert(repo, { first_name: "Ravi" });
+    const ashas = [
+      await repo.insertDiagnosis(diagnosis(asha.id, "AYR-001")),
+      await repo.insertDiagnosis(diagnosis(asha.id, "AYR-002")),
+    ];
+    await repo.insertDiagnosis(diagnosis(ravi.id, "AYR-001"));
+
+    expect(await repo.listDiagnoses({ namasteCode: "AYR-001" })).toHaveLength(
+      2,
+    );
+    // Oldest first; diagnoses recorded in the same millisecond by id
+    const order = (d: { created_at: string; id: string }) =>
+      `${d.created_at} ${d.id}`;
+    expect(
+      (await repo.listDiagnoses({ patientIds: [asha.id] })).map(
+        (d) => d.namaste_code,
+      ),
+    ).toEqual(
+      ashas
+        .sort((a, b) => (order(a) < order(b) ? -1 : 1))
+        .map((d) => d.namaste_code),
+    );
+    expect(await repo.listDiagnoses({ patientIds: [] })).toEqual([]);
+
+    expect(await repo.deletePatient(asha.id)).toBe(true);
+    expect(await repo.deletePatient(asha.id)).toBe(false);
+    expect(await repo.listDiagnoses()).toHaveLength(1);
+  });
+
+  it("should search, sort and page patients", async () => {
+    const repo = createSqlitePatientRepository(":memory:");
+    await insert(repo, {
+      identifiers: [{ system: "urn:mrn", value: "A1" }],
+      phone: "555",
+    });
+    await insert(repo, { first_name: "Ravi", date_of_birth: "1990-05-01" });
+    await insert(repo, {
+      first_name: "Meera",
+      last_name: "Iyer",
+      date_of_birth: null,
+      gender: "other",
+    });
+
+    // Any order; sorting is checked below
+    const names = async (search: Parameters<typeof repo.searchPatients>[0]) =>
+      (await repo.searchPatients(search)).rows.map((p) => p.first_name).sort();
+
+    expect(
+      await names({ name: [{ value: "RA", match: "start" }], limit: 10 }),
+    ).toEqual(["Asha", "Ravi"]);
+    expect(
+      await names({ family: [{ value: "ye", match: "contains" }], limit: 10 }),
+    ).toEqual(["Meera"]);
+    expect(
+      await names({ birthDate: [{ from: "1985-01-01" }], limit: 10 }),
+    ).toEqual(["Ravi"]);
+    expect(
+      await names({
+        birthDate: [
+          { from: "1990-05-01", before: "1990-05-02", exclude: true },
+        ],
+        limit: 10,
+      }),
+    ).toEqual(["Asha"]);
+    expect(
+      await names({
+        identifier: { system: "urn:mrn", value: "A1" },
+        limit: 10,
+      }),
+    ).toEqual(["Asha"]);
+    expect(
+      await names({
+        identifier: { system: "urn:other", value: "A1" },
+        limit: 10,
+      }),
+    ).toEqual([]);
+    expect(
+      await names({ telecom: { system: "phone", value: "555" }, limit: 10 }),
+    ).toEqual(["Asha"]);
+
+    // Missing birth dates sort last
+    const sorted = { column: "date_of_birth" as const, descending: true };
+    const { rows } = await repo.searchPatients({ sort: [sorted], limit: 10 });
+    expect(rows.map((p) => p.first_name)).toEqual(["Ravi", "Asha", "Meera"]);
+    expect(
+      await repo.searchPatients({ sort: [sorted], offset: 1, limit: 1 }),
+    ).toMatchObject({ total: 3, rows: [{ first_name: "Asha" }] });
+  });
+
+  it("should update patients and report clashes", async () => {
+    const repo = createSqlitePatientRepository(":memory:");
+    const asha = await insert(repo, { email: "asha@example.com" });
+    const ravi = await insert(repo, { first_name: "Ravi" });
+
+    expect(
+      await repo.updatePatient(asha.id, {
+        phone: "555",
+        identifiers: [{ system: null, value: "A1" }],
+      }),
+    ).toMatchObject({
+      phone: "555",
+      email: "asha@example.com",
+      identifiers: [{ system: null, value: "A1" }],
+    });
+    expect(
+      await repo.updatePatient(ravi.id, { email: "asha@example.com" }),
+    ).toEqual({ conflict: "email" });
+    expect(await repo.updatePatient("missing", { phone: "1" })).toBeNull();
+  });
+
+  it("should search and update diagnoses", async () => {
+    const repo = createSqlitePatientRepository(":memory:");
+    const asha = await insert(repo);
+    const ravi = await insert(repo, { first_name: "Ravi" });
+    const first = await repo.insertDiagnosis(diagnosis(asha.id, "AYR-001"));
+    const second = await repo.insertDiagnosis({
+      ...diagnosis(ravi.id, "SID-045"),
+      icd11_code: "DA63",
+      clinical_status: "resolved",
+    });
+
+    const codes = async (search: Parameters<typeof repo.searchDiagnoses>[0]) =>
+      (await repo.searchDiagnoses(search)).rows.map((d) => d.namaste_code);
+
+    expect(await codes({ patientId: ravi.id, limit: 10 })).toEqual(["SID-045"]);
+    expect(
+      await codes({
+        code: { value: "DA63", columns: ["namaste_code", "icd11_code"] },
+        limit: 10,
+      }),
+    ).toEqual(["SID-045"]);
+    expect(
+      await codes({ code: { value: "DA63", columns: [] }, limit: 10 }),
+    ).toEqual([]);
+    expect(
+      await codes({ clinicalStatus: ["active", "relapse"], limit: 10 }),
+    ).toEqual(["AYR-001"]);
+    // Diagnoses recorded in the same millisecond are ordered by id
+    const [earliest] = [first, second].sort((a, b) =>
+      a.created_at === b.created_at
+        ? a.id < b.id
+          ? -1
+          : 1
+        : a.created_at < b.created_at
+          ? -1
+          : 1,
+    );
+    expect(
+      await repo.searchDiagnoses({
+        recordedDate: [{ from: first.created_at.slice(0, 10) }],
+        limit: 1,
+      }),
+    ).toMatchObject({ total: 2, rows: [{ id: earliest.id }] });
+
+    expect(
+      await repo.updateDiagnosis(first.id, { clinical_status: "inactive" }),
+    ).toMatchObject({ clinical_status: "inactive", namaste_code: "AYR-001" });
+    expect(await repo.findDiagnosisById(first.id)).toMatchObject({
+      clinical_status: "inactive",
+      recorded_by: "doctor@example.com",
+    });
+    expect(
+      await repo.updateDiagnosis("missing", { symptoms: null }),
+    ).toBeNull();
+  });
+
+  it("should record every version and refuse stale writes", async () => {
+    const repo = createSqlitePatientRepository(":memory:");
+    const asha = await insert(repo);
+    const first = await repo.insertDiagnosis(diagnosis(asha.id, "AYR-001"));
+    expect(asha.version_id).toBe(1);
+
+    const updated = await repo.updatePatient(asha.id, { phone: "555" }, 1);
+    expect(updated).toMatchObject({ version_id: 2, phone: "555" });
+    expect(await repo.updatePatient(asha.id, { phone: "666" }, 1)).toBeNull();
+    expect(await repo.deletePatient(asha.id, 1)).toBe(false);
+
+    const versions = await repo.listVersions("Patient", asha.id);
+    expect(versions.map((v) => v.version_id)).toEqual([2, 1]);
+    expect(versions[1].row).toMatchObject({ phone: null });
+    expect(await repo.findVersion("Patient", asha.id, 2)).toMatchObject({
+      row: { phone: "555" },
+    });
+
+    // Deleting the patient leaves tombstones for it and its diagnoses
+    expect(await repo.deletePatient(asha.id, 2)).toBe(true);
+    expect(await repo.findVersion("Patient", asha.id, 3)).toMatchObject({
+      row: null,
+    });
+    const [tombstone] = await repo.listVersions("Condition", first.id);
+    expect(tombstone).toMatchObject({ version_id: 2, row: null });
+    expect(await repo.findVersion("Condition", first.id, 9)).toBeNull();
+  });
+
+  it("should make a batch of writes together or not at all", async () => {
+    const repo = createSqlitePatientRepository(":memory:");
+    const ravi = await insert(repo, { first_name: "Ravi" });
+    const writes = [
+      { action: "insert-patient" as const, id: "p1", patient: patient() },
+      {
+        action: "insert-diagnosis" as const,
+        id: "d1",
+        diagnosis: diagnosis("p1", "AYR-001"),
+      },
+      {
+        action: "update-patient" as const,
+        id: ravi.id,
+        patch: { phone: "555" },
+        expectedVersion: 1,
+      },
+    ];
+
+    // Ravi clashes with the new patient, or is stale
+    expect(
+      await repo.applyWrites([
+        ...writes,
+        {
+          action: "update-patient",
+          id: ravi.id,
+          patch: { first_name: "Asha" },
+        },
+      ]),
+    ).toEqual({ failed: 3, conflict: "name_dob" });
+    expect(
+      await repo.applyWrites([...writes.slice(0, 2), writes[2], writes[2]]),
+    ).toEqual({ failed: 3 });
+
+    expect(await repo.findPatientById("p1")).toBeNull();
+    expect(await repo.listDiagnoses()).toEqual([]);
+    expect(await repo.findPatientById(ravi.id)).toMatchObject({
+      version_id: 1,
+      phone: null,
+    });
+    expect(await repo.listVersions("Patient", "p1")).toEqual([]);
+    expect(await repo.listVersions("Condition", "d1")).toEqual([]);
+    expect(await repo.listVersions("Patient", ravi.id)).toHaveLength(1);
+
+    const result = await repo.applyWrites(writes);
+    expect(result).toMatchObject({
+      rows: [
+        { id: "p1", version_id: 1 },
+        { id: "d1", patient_id: "p1" },
+        { id: ravi.id, version_id: 2, phone: "555" },
+      ],
+    });
+  });
+
+  it("should record audit events only with the writes they describe", async () => {
+    // Sharing the connection, the stores share even an in-memory database
+    const db = openSqliteDatabase(":memory:");
+    const repo = createSqlitePatientRepository(db);
+    const audit = createSqliteAuditRepository(db);
+    const event = (id: string): NewAuditEvent => ({
+      action: "create",
+      entity_type: "Patient",
+      entity_id: id,
+      entity_version: "1",
+      patient_id: id,
+      agent: "doctor@example.com",
+      source: "app",
+      source_mapping_id: null,
+      source_mapping_version: null,
+      summary: "Registered patient Asha Rao",
+    });
+    const create = (id: string) =>
+      repo.applyWrites(
+        [{ action: "insert-patient", id, patient: patient() }],
+        [event(id)],
+      );
+
+    expect(await create("p1")).toMatchObject({ rows: [{ id: "p1" }] });
+    expect(await create("p2")).toEqual({ failed: 0, conflict: "name_dob" });
+
+    const { rows } = await audit.searchAuditEvents({ limit: 10 });
+    expect(rows.map((row) => row.entity_id)).toEqual(["p1"]);
+  });
+});
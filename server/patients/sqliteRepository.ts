@@ -0,0 +1,764 @@
+import { randomUUID } from "crypto";
+import type { PatientDiagnosisRow, PatientRow } from "@shared/api";
+import {
+  singleWrite,
+  type DateRange,
+  type DiagnosisSearch,
+  type InstantRange,
+  type NewPatient,
+  type NewPatientDiagnosis,
+  type PatientConflict,
+  type PatientRepository,
+  type PatientSearch,
+  type PatientWrite,
+  type PatientWriteResult,
+  type ResourceVersion,
+  type TextFilter,
+  type VersionedResourceType,
+} from "./repository";
+import { auditEventWriter } from "../audit/sqliteRepository";
+import type { NewAuditEvent } from "../audit/repository";
+import { openSqliteDatabase, type SqliteSource } from "../utils/sqlite";
+
+// Same tables, columns and unique constraints as Supabase, so both
+// stores hand out identical records
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS patients (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    first_name TEXT NOT NULL,
+    last_name TEXT NOT NULL,
+    date_of_birth TEXT,
+    gender TEXT CHECK (gender IN ('male', 'female', 'other')),
+    admit_date TEXT,
+    diagnosis TEXT,
+    email TEXT,
+    phone TEXT,
+    guardian_name TEXT,
+    guardian_phone TEXT,
+    address TEXT,
+    identifiers TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL,
+    version_id INTEGER NOT NULL DEFAULT 1,
+    updated_at TEXT NOT NULL,
+    CONSTRAINT unique_patient_name_dob
+      UNIQUE (first_name, last_name, date_of_birth),
+    CONSTRAINT unique_patient_email UNIQUE (email)
+  );
+
+  CREATE TABLE IF NOT EXISTS patient_diagnoses (
+    id TEXT PRIMARY KEY,
+    patient_id TEXT NOT NULL REFERENCES patients (id) ON DELETE CASCADE,
+    namaste_code TEXT NOT NULL,
+    icd11_code TEXT NOT NULL,
+    symptoms TEXT,
+    clinical_notes TEXT,
+    clinical_status TEXT NOT NULL DEFAULT 'active',
+    verification_status TEXT NOT NULL DEFAULT 'confirmed',
+    recorded_by TEXT,
+    created_at TEXT NOT NULL,
+    version_id INTEGER NOT NULL DEFAULT 1,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Every version of every patient and diagnosis; \`data\` is the row as
+  -- JSON, or NULL once deleted
+  CREATE TABLE IF NOT EXISTS resource_versions (
+    resource_type TEXT NOT NULL,
+    resource_id TEXT NOT NULL,
+    version_id INTEGER NOT NULL,
+    data TEXT,
+    recorded_at TEXT NOT NULL,
+    PRIMARY KEY (resource_type, resource_id, version_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS patient_diagnoses_patient
+    ON patient_diagnoses (patient_id);
+  CREATE INDEX IF NOT EXISTS patient_diagnoses_code
+    ON patient_diagnoses (namaste_code);
+`;
+
+// Columns added after the first release, for databases created before.
+// updated_at is filled in from created_at once added.
+const ADDED_COLUMNS: Record<string, Record<string, string>> = {
+  patients: {
+    identifiers: "TEXT NOT NULL DEFAULT '[]'",
+    version_id: "INTEGER NOT NULL DEFAULT 1",
+    updated_at: "TEXT",
+  },
+  patient_diagnoses: {
+    clinical_status: "TEXT NOT NULL DEFAULT 'active'",
+    verification_status: "TEXT NOT NULL DEFAULT 'confirmed'",
+    recorded_by: "TEXT",
+    version_id: "INTEGER NOT NULL DEFAULT 1",
+    updated_at: "TEXT",
+  },
+};
+
+const VERSIONED_TABLES: Record<VersionedResourceType, string> = {
+  Patient: "patients",
+  Condition: "patient_diagnoses",
+};
+
+// Writable patient columns, in insert order
+const PATIENT_FIELDS: Array<keyof NewPatient> = [
+  "user_id",
+  "first_name",
+  "last_name",
+  "date_of_birth",
+  "gender",
+  "admit_date",
+  "diagnosis",
+  "email",
+  "phone",
+  "guardian_name",
+  "guardian_phone",
+  "address",
+  "identifiers",
+];
+
+// Writable diagnosis columns, in insert order
+const DIAGNOSIS_FIELDS: Array<keyof NewPatientDiagnosis> = [
+  "patient_id",
+  "namaste_code",
+  "icd11_code",
+  "symptoms",
+  "clinical_notes",
+  "clinical_status",
+  "verification_status",
+  "recorded_by",
+];
+
+const SORT_EXPRESSIONS = {
+  last_name: "last_name COLLATE NOCASE",
+  first_name: "first_name COLLATE NOCASE",
+  date_of_birth: "date_of_birth",
+  gender: "gender",
+  created_at: "created_at",
+};
+
+const PATIENT_COLUMNS = `
+  patients.*,
+  (SELECT COUNT(*) FROM patient_diagnoses d WHERE d.patient_id = patients.id)
+    AS diagnosis_count
+`;
+
+// node:sqlite returns null-prototype objects
+const plain = <T>(row: unknown) => (row ? ({ ...(row as object) } as T) : null);
+
+// Identifiers are stored as JSON text
+const toPatient = (row: unknown) => {
+  const patient = plain<PatientRow & { identifiers: unknown }>(row);
+  if (!patient) return null;
+  return {
+    ...patient,
+    identifiers: JSON.parse(String(patient.identifiers ?? "[]")),
+  } as PatientRow;
+};
+
+// The listed fields that are set, ready to bind
+const pick = <T extends object>(values: Partial<T>, fields: Array<keyof T>) =>
+  Object.fromEntries(
+    fields
+      .filter((field) => values[field] !== undefined)
+      .map((field) => [field, values[field]]),
+  ) as Record<string, string | null>;
+
+const toColumns = (patient: Partial<NewPatient>) => ({
+  ...pick(patient, PATIENT_FIELDS),
+  ...(patient.identifiers && {
+    identifiers: JSON.stringify(patient.identifiers),
+  }),
+});
+
+function conflictFor(error: any): PatientConflict | null {
+  const message = String(error?.message);
+  if (message.includes("patients.email")) return { conflict: "email" };
+  if (message.includes("UNIQUE constraint failed: patients.")) {
+    return { conflict: "name_dob" };
+  }
+  return null;
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+function textCondition(columns: string[], filter: TextFilter) {
+  if (filter.match === "exact") {
+    return {
+      sql: `(${columns.map((column) => `${column} = ?`).join(" OR ")})`,
+      params: columns.map(() => filter.value),
+    };
+  }
+
+  const pattern =
+    (filter.match === "contains" ? "%" : "") + escapeLike(filter.value) + "%";
+  return {
+    sql: `(${columns.map((column) => `${column} LIKE ? ESCAPE '\\'`).join(" OR ")})`,
+    params: columns.map(() => pattern),
+  };
+}
+
+function dateCondition(column: string, range: DateRange) {
+  const bounds: string[] = [];
+  if (range.from) bounds.push(`${column} >= ?`);
+  if (range.before) bounds.push(`${column} < ?`);
+  const inside = bounds.length ? bounds.join(" AND ") : "1";
+  return {
+    sql: `(${column} IS NOT NULL AND ${range.exclude ? `NOT (${inside})` : inside})`,
+    params: [range.from, range.before].filter(Boolean),
+  };
+}
+
+function instantCondition(column: string, range: InstantRange) {
+  const bounds: string[] = [];
+  if (range.since) bounds.push(`${column} >= ?`);
+  if (range.until) bounds.push(`${column} <= ?`);
+  return {
+    sql: bounds.length ? `(${bounds.join(" AND ")})` : "1",
+    params: [range.since, range.until].filter(Boolean) as string[],
+  };
+}
+
+const whereClause = (where: string[]) =>
+  where.length ? `WHERE ${where.join(" AND ")}` : "";
+
+// WHERE clause and parameters for a FHIR condition search
+function diagnosisConditions(search: DiagnosisSearch) {
+  const where: string[] = [];
+  const params: string[] = [];
+
+  if (search.patientId) {
+    where.push("patient_id = ?");
+    params.push(search.patientId);
+  }
+  if (search.code) {
+    const { value, columns } = search.code;
+    where.push(
+      columns.length
+        ? `(${columns.map((column) => `${column} = ?`).join(" OR ")})`
+        : "0",
+    );
+    params.push(...columns.map(() => value));
+  }
+  for (const range of search.recordedDate ?? []) {
+    const condition = dateCondition("created_at", range);
+    where.push(condition.sql);
+    params.push(...condition.params);
+  }
+  if (search.clinicalStatus?.length) {
+    where.push(
+      `clinical_status IN (${search.clinicalStatus.map(() => "?").join(", ")})`,
+    );
+    params.push(...search.clinicalStatus);
+  }
+  if (search.lastUpdated) {
+    const condition = instantCondition("updated_at", search.lastUpdated);
+    where.push(condition.sql);
+    params.push(...condition.params);
+  }
+
+  return { sql: whereClause(where), params };
+}
+
+// WHERE clause and parameters for a FHIR patient search
+function searchConditions(search: PatientSearch) {
+  const where: string[] = [];
+  const params: string[] = [];
+  const add = (condition: { sql: string; params: string[] }) => {
+    where.push(condition.sql);
+    params.push(...condition.params);
+  };
+
+  for (const filter of search.name ?? []) {
+    add(textCondition(["first_name", "last_name"], filter));
+  }
+  for (const filter of search.family ?? []) {
+    add(textCondition(["last_name"], filter));
+  }
+  for (const filter of search.given ?? []) {
+    add(textCondition(["first_name"], filter));
+  }
+
+  for (const range of search.birthDate ?? []) {
+    add(dateCondition("date_of_birth", range));
+  }
+
+  if (search.gender?.length) {
+    add({
+      sql: `gender IN (${search.gender.map(() => "?").join(", ")})`,
+      params: search.gender,
+    });
+  }
+
+  if (search.identifier) {
+    const { system, value } = search.identifier;
+    add({
+      sql: `EXISTS (
+        SELECT 1 FROM json_each(patients.identifiers) i
+        WHERE json_extract(i.value, '$.value') = ?
+        ${system ? "AND json_extract(i.value, '$.system') = ?" : ""}
+      )`,
+      params: system ? [value, system] : [value],
+    });
+  }
+
+  if (search.telecom) {
+    const { system, value } = search.telecom;
+    const columns =
+      system === "email" ? ["email"] : system === "phone" ? ["phone"] : [];
+    if (!columns.length && system) {
+      // Only email and phone are stored
+      add({ sql: "0", params: [] });
+    } else {
+      const checked = columns.length ? columns : ["email", "phone"];
+      add({
+        sql: `(${checked.map((column) => `${column} = ?`).join(" OR ")})`,
+        params: checked.map(() => value),
+      });
+    }
+  }
+
+  if (search.lastUpdated) {
+    add(instantCondition("updated_at", search.lastUpdated));
+  }
+
+  return { sql: whereClause(where), params };
+}
+
+// Runs on Node's built-in SQLite (see SqliteSource)
+export function createSqlitePatientRepository(
+  source: SqliteSource,
+): PatientRepository {
+  const db = openSqliteDatabase(source);
+  db.exec("PRAGMA foreign_keys = ON");
+  db.exec(SCHEMA);
+
+  for (const [table, columns] of Object.entries(ADDED_COLUMNS)) {
+    const existing = new Set(
+      db
+        .prepare(`PRAGMA table_info(${table})`)
+        .all()
+        .map((column) => String(column.name)),
+    );
+    for (const [name, definition] of Object.entries(columns)) {
+      if (!existing.has(name)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+      }
+    }
+    db.exec(
+      `UPDATE ${table} SET updated_at = created_at WHERE updated_at IS NULL`,
+    );
+  }
+
+  const findDiagnosis = (id: string) =>
+    plain<PatientDiagnosisRow>(
+      db.prepare("SELECT * FROM patient_diagnoses WHERE id = ?").get(id),
+    );
+
+  const findPatient = (id: string) =>
+    toPatient(
+      db
+        .prepare(`SELECT ${PATIENT_COLUMNS} FROM patients WHERE id = ?`)
+        .get(id),
+    );
+
+  const recordVersion = (
+    type: VersionedResourceType,
+    id: string,
+    versionId: number,
+    row: PatientRow | PatientDiagnosisRow | null,
+  ) => {
+    db.prepare(
+      `INSERT INTO resource_versions
+         (resource_type, resource_id, version_id, data, recorded_at)
+       VALUES (?, ?, ?, ?, ?)`,
+    ).run(
+      type,
+      id,
+      versionId,
+      row && JSON.stringify(row),
+      row?.updated_at ?? new Date().toISOString(),
+    );
+  };
+
+  // A write and the versions it records land together or not at all.
+  // `commit` can still refuse a result the write returned.
+  const inTransaction = <T>(
+    write: () => T,
+    commit: (result: T) => boolean = () => true,
+  ): T => {
+    db.exec("BEGIN");
+    try {
+      const result = write();
+      db.exec(commit(result) ? "COMMIT" : "ROLLBACK");
+      return result;
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  };
+
+  // Rows written before versions were kept get their current one
+  inTransaction(() => {
+    for (const [type, table] of Object.entries(VERSIONED_TABLES)) {
+      const unrecorded = db
+        .prepare(
+          `SELECT id FROM ${table} WHERE NOT EXISTS (
+             SELECT 1 FROM resource_versions v
+             WHERE v.resource_type = ? AND v.resource_id = ${table}.id)`,
+        )
+        .all(type);
+      for (const { id } of unrecorded) {
+        const row =
+          type === "Patient"
+            ? findPatient(String(id))!
+            : findDiagnosis(String(id))!;
+        recordVersion(
+          type as VersionedResourceType,
+          row.id,
+          row.version_id,
+          row,
+        );
+      }
+    }
+  });
+
+  const toVersion = (row: unknown): ResourceVersion => {
+    const version = plain<Record<string, string | number | null>>(row)!;
+    return {
+      resource_type: version.resource_type as VersionedResourceType,
+      resource_id: String(version.resource_id),
+      version_id: Number(version.version_id),
+      row: version.data ? JSON.parse(String(version.data)) : null,
+      recorded_at: String(version.recorded_at),
+    };
+  };
+
+  const isCurrent = (
+    row: PatientRow | PatientDiagnosisRow | null,
+    expectedVersion?: number,
+  ) =>
+    !!row &&
+    (expectedVersion === undefined || row.version_id === expectedVersion);
+
+  const insertRow = (table: string, columns: Record<string, unknown>) => {
+    const names = Object.keys(columns);
+    db.prepare(
+      `INSERT INTO ${table} (${names.join(", ")})
+       VALUES (${names.map((name) => `$${name}`).join(", ")})`,
+    ).run(columns as Record<string, string | number | null>);
+  };
+
+  // Sets the columns and bumps the version
+  const updateRow = (
+    table: string,
+    id: string,
+    columns: Record<string, string | null>,
+  ) => {
+    const names = Object.keys(columns);
+    db.prepare(
+      `UPDATE ${table}
+       SET ${names.map((name) => `${name} = $${name}`).join(", ")},
+         version_id = version_id + 1, updated_at = $updated_at
+       WHERE id = $id`,
+    ).run({ ...columns, updated_at: new Date().toISOString(), id });
+  };
+
+  // Makes one write of a batch, inside its transaction. Null when the row
+  // is missing or stale; unique constraints throw.
+  const write = (
+    change: PatientWrite,
+  ): { row: PatientRow | PatientDiagnosisRow | null } | null => {
+    const now = new Date().toISOString();
+
+    switch (change.action) {
+      case "insert-patient": {
+        insertRow("patients", {
+          ...toColumns({ identifiers: [], ...change.patient }),
+          id: change.id,
+          created_at: now,
+          updated_at: now,
+        });
+        const saved = findPatient(change.id)!;
+        recordVersion("Patient", saved.id, saved.version_id, saved);
+        return { row: saved };
+      }
+
+      case "update-patient": {
+        const current = findPatient(change.id);
+        if (!isCurrent(current, change.expectedVersion)) return null;
+
+        const columns = toColumns(change.patch);
+        if (!Object.keys(columns).length) return { row: current };
+
+        updateRow("patients", change.id, columns);
+        const saved = findPatient(change.id)!;
+        recordVersion("Patient", saved.id, saved.version_id, saved);
+        return { row: saved };
+      }
+
+      // The patient's diagnoses get a deleted version as well
+      case "delete-patient": {
+        const current = findPatient(change.id);
+        if (!isCurrent(current, change.expectedVersion)) return null;
+
+        const diagnoses = db
+          .prepare(
+            "SELECT id, version_id FROM patient_diagnoses WHERE patient_id = ?",
+          )
+          .all(change.id);
+        for (const diagnosis of diagnoses) {
+          recordVersion(
+            "Condition",
+            String(diagnosis.id),
+            Number(diagnosis.version_id) + 1,
+            null,
+          );
+        }
+        recordVersion("Patient", change.id, current!.version_id + 1, null);
+        db.prepare("DELETE FROM patients WHERE id = ?").run(change.id);
+        return { row: null };
+      }
+
+      case "insert-diagnosis": {
+        insertRow("patient_diagnoses", {
+          ...pick(change.diagnosis, DIAGNOSIS_FIELDS),
+          id: change.id,
+          created_at: now,
+          updated_at: now,
+        });
+        const saved = findDiagnosis(change.id)!;
+        recordVersion("Condition", saved.id, saved.version_id, saved);
+        return { row: saved };
+      }
+
+      case "update-diagnosis": {
+        const current = findDiagnosis(change.id);
+        if (!isCurrent(current, change.expectedVersion)) return null;
+
+        const columns = pick(
+          change.patch,
+          DIAGNOSIS_FIELDS.filter((field) => field !== "patient_id"),
+        );
+        if (!Object.keys(columns).length) return { row: current };
+
+        updateRow("patient_diagnoses", change.id, columns);
+        const saved = findDiagnosis(change.id)!;
+        recordVersion("Condition", saved.id, saved.version_id, saved);
+        return { row: saved };
+      }
+
+      case "delete-diagnosis": {
+        const current = findDiagnosis(change.id);
+        if (!isCurrent(current, change.expectedVersion)) return null;
+
+        recordVersion("Condition", change.id, current!.version_id + 1, null);
+        db.prepare("DELETE FROM patient_diagnoses WHERE id = ?").run(change.id);
+        return { row: null };
+      }
+    }
+  };
+
+  const recordAuditEvents = auditEventWriter(db);
+
+  const applyWrites = (
+    writes: PatientWrite[],
+    events: NewAuditEvent[] = [],
+  ): PatientWriteResult => {
+    let at = 0;
+    try {
+      return inTransaction(
+        (): PatientWriteResult => {
+          const rows: Array<PatientRow | PatientDiagnosisRow | null> = [];
+          for (const [index, change] of writes.entries()) {
+            at = index;
+            const written = write(change);
+            if (!written) return { failed: index };
+            rows.push(written.row);
+          }
+          recordAuditEvents(events);
+          return { rows };
+        },
+        (result) => "rows" in result,
+      );
+    } catch (error) {
+      const conflict = conflictFor(error);
+      if (conflict) return { failed: at, ...conflict };
+      throw error;
+    }
+  };
+
+  return {
+    async listPatients(query = {}) {
+      const where: string[] = [];
+      const params: string[] = [];
+
+      if (query.q) {
+        where.push("(first_name LIKE ? OR last_name LIKE ?)");
+        params.push(`%${query.q}%`, `%${query.q}%`);
+      }
+
+      const rows = db
+        .prepare(
+          `SELECT ${PATIENT_COLUMNS} FROM patients
+           ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+           ORDER BY created_at DESC, id DESC
+           ${query.limit ? `LIMIT ${Number(query.limit)}` : ""}`,
+        )
+        .all(...params);
+
+      return rows.map((row) => toPatient(row)!);
+    },
+
+    async searchPatients(search) {
+      const { sql, params } = searchConditions(search);
+
+      const { total } = db
+        .prepare(`SELECT COUNT(*) AS total FROM patients ${sql}`)
+        .get(...params) as { total: number };
+
+      // Missing values sort last either way
+      const order = [
+        ...(search.sort ?? []).map(({ column, descending }) => {
+          const expression = SORT_EXPRESSIONS[column];
+          return `${column} IS NULL, ${expression} ${descending ? "DESC" : "ASC"}`;
+        }),
+        "created_at ASC",
+        "id ASC",
+      ];
+
+      const rows = db
+        .prepare(
+          `SELECT ${PATIENT_COLUMNS} FROM patients ${sql}
+           ORDER BY ${order.join(", ")}
+           LIMIT ${Number(search.limit)} OFFSET ${Number(search.offset ?? 0)}`,
+        )
+        .all(...params);
+
+      return { rows: rows.map((row) => toPatient(row)!), total: Number(total) };
+    },
+
+    async findPatientById(id) {
+      return findPatient(id);
+    },
+
+    async insertPatient(patient) {
+      return singleWrite<PatientRow>(
+        applyWrites([{ action: "insert-patient", id: randomUUID(), patient }]),
+      )!;
+    },
+
+    async updatePatient(id, patch, expectedVersion) {
+      return singleWrite<PatientRow>(
+        applyWrites([{ action: "update-patient", id, patch, expectedVersion }]),
+      );
+    },
+
+    async deletePatient(id, expectedVersion) {
+      return (
+        "rows" in
+        applyWrites([{ action: "delete-patient", id, expectedVersion }])
+      );
+    },
+
+    async listDiagnoses(query = {}) {
+      const where: string[] = [];
+      const params: string[] = [];
+
+      if (query.patientIds) {
+        if (!query.patientIds.length) return [];
+        where.push(
+          `patient_id IN (${query.patientIds.map(() => "?").join(", ")})`,
+        );
+        params.push(...query.patientIds);
+      }
+      if (query.namasteCode) {
+        where.push("namaste_code = ?");
+        params.push(query.namasteCode);
+      }
+
+      return db
+        .prepare(
+          `SELECT * FROM patient_diagnoses
+           ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+           ORDER BY created_at ASC, id ASC`,
+        )
+        .all(...params)
+        .map((row) => plain<PatientDiagnosisRow>(row)!);
+    },
+
+    async findDiagnosisById(id) {
+      return findDiagnosis(id);
+    },
+
+    async searchDiagnoses(search) {
+      const { sql, params } = diagnosisConditions(search);
+
+      const { total } = db
+        .prepare(`SELECT COUNT(*) AS total FROM patient_diagnoses ${sql}`)
+        .get(...params) as { total: number };
+
+      const rows = db
+        .prepare(
+          `SELECT * FROM patient_diagnoses ${sql}
+           ORDER BY created_at ASC, id ASC
+           LIMIT ${Number(search.limit)} OFFSET ${Number(search.offset ?? 0)}`,
+        )
+        .all(...params);
+
+      return {
+        rows: rows.map((row) => plain<PatientDiagnosisRow>(row)!),
+        total: Number(total),
+      };
+    },
+
+    // A new diagnosis can neither clash nor be stale
+    async insertDiagnosis(diagnosis) {
+      return singleWrite<PatientDiagnosisRow>(
+        applyWrites([
+          { action: "insert-diagnosis", id: randomUUID(), diagnosis },
+        ]),
+      ) as PatientDiagnosisRow;
+    },
+
+    async updateDiagnosis(id, patch, expectedVersion) {
+      return singleWrite<PatientDiagnosisRow>(
+        applyWrites([
+          { action: "update-diagnosis", id, patch, expectedVersion },
+        ]),
+      ) as PatientDiagnosisRow | null;
+    },
+
+    async deleteDiagnosis(id, expectedVersion) {
+      return (
+        "rows" in
+        applyWrites([{ action: "delete-diagnosis", id, expectedVersion }])
+      );
+    },
+
+    async applyWrites(writes, events) {
+      return applyWrites(writes, events);
+    },
+
+    async listVersions(type, id) {
+      return db
+        .prepare(
+          `SELECT * FROM resource_versions
+           WHERE resource_type = ? AND resource_id = ?
+           ORDER BY version_id DESC`,
+        )
+        .all(type, id)
+        .map(toVersion);
+    },
+
+    async findVersion(type, id, versionId) {
+      const row = db
+        .prepare(
+          `SELECT * FROM resource_versions
+           WHERE resource_type = ? AND resource_id = ? AND version_id = ?`,
+        )
+        .get(type, id, versionId);
+      return row ? toVersion(row) : null;
+    },
+  };
+}
@@ -0,0 +1,404 @@
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PatientDiagnosisRow, PatientRow } from "@shared/api";
+import {
+  singleWrite,
+  type DateRange,
+  type DiagnosisSearch,
+  type InstantRange,
+  type PatientRepository,
+  type PatientSearch,
+  type PatientWrite,
+  type PatientWriteResult,
+  type ResourceVersion,
+  type TextFilter,
+} from "./repository";
+import type { NewAuditEvent } from "../audit/repository";
+
+// Characters with meaning inside a PostgREST `or=(...)` filter
+const sanitizeFilterValue = (value: string) => value.replace(/[,()*%]/g, " ");
+
+// One PostgREST `or` filter matching any of `columns`
+function textFilter(columns: string[], filter: TextFilter) {
+  const value = sanitizeFilterValue(filter.value);
+  const condition =
+    filter.match === "exact"
+      ? `eq.${value}`
+      : `ilike.${filter.match === "contains" ? "*" : ""}${value}*`;
+  return columns.map((column) => `${column}.${condition}`).join(",");
+}
+
+type FilterBuilder = ReturnType<ReturnType<SupabaseClient["from"]>["select"]>;
+
+function applyDateRange<T extends FilterBuilder>(
+  request: T,
+  column: string,
+  range: DateRange,
+): T {
+  const filtered = request.not(column, "is", null) as T;
+
+  if (range.exclude) {
+    const outside = [
+      range.from && `${column}.lt.${range.from}`,
+      range.before && `${column}.gte.${range.before}`,
+    ].filter(Boolean);
+    return (
+      outside.length
+        ? filtered.or(outside.join(","))
+        : filtered.is(column, null)
+    ) as T;
+  }
+
+  let bounded = filtered;
+  if (range.from) bounded = bounded.gte(column, range.from) as T;
+  if (range.before) bounded = bounded.lt(column, range.before) as T;
+  return bounded;
+}
+
+function applyInstantRange<T extends FilterBuilder>(
+  request: T,
+  column: string,
+  range: InstantRange,
+): T {
+  let bounded = request;
+  if (range.since) bounded = bounded.gte(column, range.since) as T;
+  if (range.until) bounded = bounded.lte(column, range.until) as T;
+  return bounded;
+}
+
+// Applies a FHIR condition search to a PostgREST query
+function applyDiagnosisSearch<T extends FilterBuilder>(
+  request: T,
+  search: DiagnosisSearch,
+): T {
+  let filtered = request;
+
+  if (search.patientId) {
+    filtered = filtered.eq("patient_id", search.patientId) as T;
+  }
+  if (search.code) {
+    const { value, columns } = search.code;
+    const term = sanitizeFilterValue(value);
+    filtered = (
+      columns.length
+        ? filtered.or(columns.map((column) => `${column}.eq.${term}`).join(","))
+        : filtered.is("id", null)
+    ) as T;
+  }
+  for (const range of search.recordedDate ?? []) {
+    filtered = applyDateRange(filtered, "created_at", range);
+  }
+  if (search.clinicalStatus?.length) {
+    filtered = filtered.in("clinical_status", search.clinicalStatus) as T;
+  }
+  if (search.lastUpdated) {
+    filtered = applyInstantRange(filtered, "updated_at", search.lastUpdated);
+  }
+
+  return filtered;
+}
+
+// Applies a FHIR patient search to a PostgREST query
+function applySearch<T extends FilterBuilder>(
+  request: T,
+  search: PatientSearch,
+): T {
+  let filtered = request;
+
+  for (const filter of search.name ?? []) {
+    filtered = filtered.or(
+      textFilter(["first_name", "last_name"], filter),
+    ) as T;
+  }
+  for (const filter of search.family ?? []) {
+    filtered = filtered.or(textFilter(["last_name"], filter)) as T;
+  }
+  for (const filter of search.given ?? []) {
+    filtered = filtered.or(textFilter(["first_name"], filter)) as T;
+  }
+
+  for (const range of search.birthDate ?? []) {
+    filtered = applyDateRange(filtered, "date_of_birth", range);
+  }
+
+  if (search.gender?.length) {
+    filtered = filtered.in("gender", search.gender) as T;
+  }
+
+  if (search.identifier) {
+    const { system, value } = search.identifier;
+    filtered = filtered.contains(
+      "identifiers",
+      JSON.stringify([system ? { system, value } : { value }]),
+    ) as T;
+  }
+
+  if (search.telecom) {
+    const { system, value } = search.telecom;
+    if (system === "email" || system === "phone") {
+      filtered = filtered.eq(system, value) as T;
+    } else if (system) {
+      // Only email and phone are stored
+      filtered = filtered.is("id", null) as T;
+    } else {
+      const term = sanitizeFilterValue(value);
+      filtered = filtered.or(`email.eq.${term},phone.eq.${term}`) as T;
+    }
+  }
+
+  if (search.lastUpdated) {
+    filtered = applyInstantRange(filtered, "updated_at", search.lastUpdated);
+  }
+
+  return filtered;
+}
+
+type VersionedRow = PatientRow | PatientDiagnosisRow;
+
+// The columns a write sets
+function valuesOf(change: PatientWrite) {
+  switch (change.action) {
+    case "insert-patient":
+      return change.patient;
+    case "insert-diagnosis":
+      return change.diagnosis;
+    case "update-patient":
+    case "update-diagnosis":
+      return change.patch;
+    default:
+      return {};
+  }
+}
+
+// Reads and writes the `patients` and `patient_diagnoses` tables the
+// patient pages used to query directly. Both carry `version_id` and
+// `updated_at`, and every version is kept in `resource_versions`
+// (resource_type, resource_id, version_id, data jsonb, recorded_at).
+//
+// PostgREST runs each request on its own, so every write goes through
+// the apply_audited_patient_writes function (see supabase/migrations),
+// which makes a batch and records its versions and audit events in one
+// transaction.
+export function createSupabasePatientRepository(
+  client: SupabaseClient,
+): PatientRepository {
+  const findRow = async <T extends VersionedRow>(table: string, id: string) => {
+    const { data, error } = await client
+      .from(table)
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return (data as T) ?? null;
+  };
+
+  const applyWrites = async (
+    writes: PatientWrite[],
+    events: NewAuditEvent[] = [],
+  ): Promise<PatientWriteResult> => {
+    const { data, error } = await client.rpc("apply_audited_patient_writes", {
+      writes: writes.map((change) => ({
+        action: change.action,
+        id: change.id,
+        expected_version:
+          "expectedVersion" in change ? change.expectedVersion : undefined,
+        values: valuesOf(change),
+      })),
+      events,
+    });
+
+    if (error) throw new Error(error.message);
+    return data as PatientWriteResult;
+  };
+
+  const toVersion = (row: Record<string, any>): ResourceVersion => ({
+    resource_type: row.resource_type,
+    resource_id: row.resource_id,
+    version_id: row.version_id,
+    row: row.data ?? null,
+    recorded_at: row.recorded_at,
+  });
+
+  return {
+    async listPatients(query = {}) {
+      let request = client
+        .from("patients")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false });
+
+      if (query.q) {
+        const term = sanitizeFilterValue(query.q);
+        request = request.or(
+          `first_name.ilike.%${term}%,last_name.ilike.%${term}%`,
+        );
+      }
+      if (query.limit) request = request.limit(query.limit);
+
+      const { data, error } = await request;
+      if (error) throw new Error(error.message);
+
+      return (data || []) as PatientRow[];
+    },
+
+    async searchPatients(search) {
+      let request = applySearch(
+        client
+          .from("patients")
+          .select("*", { count: "exact", head: search.limit === 0 }),
+        search,
+      );
+
+      for (const { column, descending } of search.sort ?? []) {
+        request = request.order(column, {
+          ascending: !descending,
+          nullsFirst: false,
+        });
+      }
+      request = request
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true });
+
+      const offset = search.offset ?? 0;
+      if (search.limit > 0) {
+        request = request.range(offset, offset + search.limit - 1);
+      }
+
+      const { data, count, error } = await request;
+      if (error) throw new Error(error.message);
+
+      return { rows: (data || []) as PatientRow[], total: count ?? 0 };
+    },
+
+    async findPatientById(id) {
+      return findRow<PatientRow>("patients", id);
+    },
+
+    async insertPatient(patient) {
+      return singleWrite<PatientRow>(
+        await applyWrites([
+          { action: "insert-patient", id: randomUUID(), patient },
+        ]),
+      )!;
+    },
+
+    async updatePatient(id, patch, expectedVersion) {
+      return singleWrite<PatientRow>(
+        await applyWrites([
+          { action: "update-patient", id, patch, expectedVersion },
+        ]),
+      );
+    },
+
+    async deletePatient(id, expectedVersion) {
+      return (
+        "rows" in
+        (await applyWrites([{ action: "delete-patient", id, expectedVersion }]))
+      );
+    },
+
+    async listDiagnoses(query = {}) {
+      if (query.patientIds && !query.patientIds.length) return [];
+
+      let request = client
+        .from("patient_diagnoses")
+        .select("*")
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true });
+
+      if (query.patientIds) {
+        request = request.in("patient_id", query.patientIds);
+      }
+      if (query.namasteCode) {
+        request = request.eq("namaste_code", query.namasteCode);
+      }
+
+      const { data, error } = await request;
+      if (error) throw new Error(error.message);
+
+      return (data || []) as PatientDiagnosisRow[];
+    },
+
+    async findDiagnosisById(id) {
+      return findRow<PatientDiagnosisRow>("patient_diagnoses", id);
+    },
+
+    async searchDiagnoses(search) {
+      let request = applyDiagnosisSearch(
+        client
+          .from("patient_diagnoses")
+          .select("*", { count: "exact", head: search.limit === 0 }),
+        search,
+      )
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true });
+
+      const offset = search.offset ?? 0;
+      if (search.limit > 0) {
+        request = request.range(offset, offset + search.limit - 1);
+      }
+
+      const { data, count, error } = await request;
+      if (error) throw new Error(error.message);
+
+      return {
+        rows: (data || []) as PatientDiagnosisRow[],
+        total: count ?? 0,
+      };
+    },
+
+    // A new diagnosis can neither clash nor be stale
+    async insertDiagnosis(diagnosis) {
+      return singleWrite<PatientDiagnosisRow>(
+        await applyWrites([
+          { action: "insert-diagnosis", id: randomUUID(), diagnosis },
+        ]),
+      ) as PatientDiagnosisRow;
+    },
+
+    async updateDiagnosis(id, patch, expectedVersion) {
+      return singleWrite<PatientDiagnosisRow>(
+        await applyWrites([
+          { action: "update-diagnosis", id, patch, expectedVersion },
+        ]),
+      ) as PatientDiagnosisRow | null;
+    },
+
+    async deleteDiagnosis(id, expectedVersion) {
+      return (
+        "rows" in
+        (await applyWrites([
+          { action: "delete-diagnosis", id, expectedVersion },
+        ]))
+      );
+    },
+
+    applyWrites,
+
+    async listVersions(type, id) {
+      const { data, error } = await client
+        .from("resource_versions")
+        .select("*")
+        .eq("resource_type", type)
+        .eq("resource_id", id)
+        .order("version_id", { ascending: false });
+
+      if (error) throw new Error(error.message);
+      return (data || []).map(toVersion);
+    },
+
+    async findVersion(type, id, versionId) {
+      const { data, error } = await client
+        .from("resource_versions")
+        .select("*")
+        .eq("resource_type", type)
+        .eq("resource_id", id)
+        .eq("version_id", versionId)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return data ? toVersion(data) : null;
+    },
+  };
+}
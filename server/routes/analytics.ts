@@ -0,0 +1,49 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { computeCodeAnalytics } from "../analytics/codeAnalytics";
+import { getPatientRepository } from "../patients";
+import { getTerminologyRepository } from "../terminology";
+
+const analyticsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// Symptom frequencies, co-occurring codes and diagnoses per month for one
+// NAMASTE code, from the diagnoses recorded on patients
+export const handleCodeAnalytics: RequestHandler = async (req, res) => {
+  const parsed = analyticsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid query parameters" });
+    return;
+  }
+
+  try {
+    const code = req.params.code;
+    const repo = getPatientRepository();
+
+    // Every diagnosis of the patients who were ever diagnosed with `code`
+    const own = await repo.listDiagnoses({ namasteCode: code });
+    const rows = own.length
+      ? await repo.listDiagnoses({
+          patientIds: Array.from(new Set(own.map((row) => row.patient_id))),
+        })
+      : [];
+
+    const otherCodes = Array.from(
+      new Set(rows.map((row) => row.namaste_code)),
+    ).filter((other) => other !== code);
+    const mapped = otherCodes.length
+      ? await getTerminologyRepository().list({ namasteCodes: otherCodes })
+      : [];
+    const names = new Map(
+      mapped.map((row) => [row.namaste_code, row.namaste_name]),
+    );
+
+    res.json(
+      computeCodeAnalytics(code, rows, { limit: parsed.data.limit, names }),
+    );
+  } catch (error) {
+    console.error("Code analytics error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
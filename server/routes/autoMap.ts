@@ -0,0 +1,178 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import type { AutoMapJob } from "@shared/api";
+import { getAuditRepository } from "../audit";
+import { getTerminologyRepository } from "../terminology";
+import {
+  hasActiveAutoMapJob,
+  isAutoMapJobActive,
+  planAutoMap,
+  requestAutoMapCancel,
+  startAutoMapJob,
+  summarizeAutoMapJob,
+} from "../terminology/autoMap";
+import { getSuggestionProvider } from "../terminology/suggestions";
+import { getRequestUser } from "../utils/requestUser";
+
+const startJobSchema = z.object({
+  category: z.enum(["Ayurveda", "Siddha", "Unani"]).optional(),
+  min_confidence: z.coerce.number().min(0).max(1).default(0.3),
+  max_per_code: z.coerce.number().int().min(1).max(10).default(3),
+});
+
+const summarize = (job: AutoMapJob) =>
+  summarizeAutoMapJob(job, isAutoMapJobActive(job.id));
+
+// Plans the work list and starts matching in the background; clients
+// poll GET /api/codes/automap/:id for progress
+export const handleStartAutoMap: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to run auto-mapping" });
+    return;
+  }
+
+  const parsed = startJobSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid auto-map options" });
+    return;
+  }
+
+  if (hasActiveAutoMapJob()) {
+    res.status(409).json({ error: "An auto-map job is already running" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const [codemap, releases] = await Promise.all([
+      repo.list(),
+      repo.listReleases(),
+    ]);
+
+    const job = await repo.insertAutoMapJob({
+      status: "running",
+      category: parsed.data.category ?? null,
+      min_confidence: parsed.data.min_confidence,
+      max_per_code: parsed.data.max_per_code,
+      codes: planAutoMap(codemap, releases, parsed.data.category),
+      processed: 0,
+      proposed: 0,
+      no_match: 0,
+      error: null,
+      created_by: user.email,
+    });
+
+    startAutoMapJob(
+      job.id,
+      repo,
+      getSuggestionProvider(),
+      getAuditRepository(),
+    );
+    res.status(202).json(summarize(job));
+  } catch (error) {
+    console.error("Start auto-map error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleListAutoMapJobs: RequestHandler = async (_req, res) => {
+  try {
+    const jobs = await getTerminologyRepository().listAutoMapJobs();
+    res.json({ jobs: jobs.map(summarize), total: jobs.length });
+  } catch (error) {
+    console.error("List auto-map jobs error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleGetAutoMapJob: RequestHandler = async (req, res) => {
+  try {
+    const job = await getTerminologyRepository().findAutoMapJobById(
+      req.params.id,
+    );
+
+    if (!job) {
+      res.status(404).json({ error: "Auto-map job not found" });
+      return;
+    }
+
+    res.json(summarize(job));
+  } catch (error) {
+    console.error("Get auto-map job error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// The running batch finishes and its proposals are kept
+export const handleCancelAutoMap: RequestHandler = async (req, res) => {
+  if (!getRequestUser(req)) {
+    res.status(401).json({ error: "Sign in to cancel auto-mapping" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const job = await repo.findAutoMapJobById(req.params.id);
+
+    if (!job) {
+      res.status(404).json({ error: "Auto-map job not found" });
+      return;
+    }
+    if (job.status !== "running") {
+      res.status(409).json({ error: `The job is already ${job.status}` });
+      return;
+    }
+
+    requestAutoMapCancel(job.id);
+    const updated = await repo.updateAutoMapJob(job.id, {
+      status: "cancelled",
+    });
+    res.json(summarize(updated!));
+  } catch (error) {
+    console.error("Cancel auto-map error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Carries on from the saved progress of a cancelled, failed or
+// interrupted job
+export const handleResumeAutoMap: RequestHandler = async (req, res) => {
+  if (!getRequestUser(req)) {
+    res.status(401).json({ error: "Sign in to resume auto-mapping" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const job = await repo.findAutoMapJobById(req.params.id);
+
+    if (!job) {
+      res.status(404).json({ error: "Auto-map job not found" });
+      return;
+    }
+    if (job.status === "completed") {
+      res.status(409).json({ error: "The job has already completed" });
+      return;
+    }
+    if (hasActiveAutoMapJob()) {
+      res.status(409).json({ error: "An auto-map job is already running" });
+      return;
+    }
+
+    const updated = await repo.updateAutoMapJob(job.id, {
+      status: "running",
+      error: null,
+    });
+    startAutoMapJob(
+      job.id,
+      repo,
+      getSuggestionProvider(),
+      getAuditRepository(),
+    );
+    res.status(202).json(summarize(updated!));
+  } catch (error) {
+    console.error("Resume auto-map error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,211 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import type {
+  CodeCategory,
+  CodemapFileFormat,
+  CodemapImportResponse,
+  ColumnMapping,
+} from "@shared/api";
+import { recordAudit } from "../audit";
+import { mappingAuditEvent } from "../audit/events";
+import { getTerminologyRepository } from "../terminology";
+import {
+  CONTENT_TYPES,
+  FILE_EXTENSIONS,
+  formatForContentType,
+  readCodeList,
+  writeCodeList,
+} from "../terminology/codeListFiles";
+import {
+  IMPORT_FIELD_ALIASES,
+  isImportable,
+  previewImport,
+  resolveColumns,
+} from "../terminology/importer";
+import { getRequestUser } from "../utils/requestUser";
+
+const formatSchema = z.enum(["csv", "xlsx", "conceptmap"]);
+
+const columnsSchema = z.object(
+  Object.fromEntries(
+    Object.keys(IMPORT_FIELD_ALIASES).map((field) => [
+      field,
+      z.string().optional(),
+    ]),
+  ),
+);
+
+const importQuerySchema = z.object({
+  // Defaults to the format implied by the Content-Type
+  format: formatSchema.optional(),
+  // Who supplied the file; their column mapping is remembered on commit
+  source: z.string().trim().min(1).optional(),
+  // JSON-encoded ColumnMapping overriding the saved or detected one
+  columns: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      try {
+        return columnsSchema.parse(JSON.parse(value)) as ColumnMapping;
+      } catch {
+        ctx.addIssue({ code: "custom", message: "Invalid column mapping" });
+        return z.NEVER;
+      }
+    }),
+  // Preview only unless the caller explicitly commits
+  dryRun: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+  // Comma-separated row numbers the user chose not to import
+  skip: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map(Number)
+        .filter((line) => Number.isInteger(line) && line > 0),
+    ),
+});
+
+export const handleImportCodes: RequestHandler = async (req, res) => {
+  const parsed = importQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid import options" });
+    return;
+  }
+
+  const { source, columns, dryRun, skip } = parsed.data;
+  // Previews are open; only writing the rows needs someone to credit
+  const user = getRequestUser(req);
+  if (!dryRun && !user) {
+    res.status(401).json({ error: "Sign in to import codes" });
+    return;
+  }
+  const format: CodemapFileFormat | undefined =
+    parsed.data.format ?? formatForContentType(req.headers["content-type"]);
+
+  if (!format) {
+    res.status(415).json({
+      error: "Send the code list as CSV, XLSX or a FHIR ConceptMap",
+    });
+    return;
+  }
+  if (!req.body || (Buffer.isBuffer(req.body) && req.body.length === 0)) {
+    res.status(400).json({ error: "The uploaded file is empty" });
+    return;
+  }
+
+  try {
+    const table = await readCodeList(format, req.body);
+    if ("error" in table) {
+      res.status(400).json({ error: table.error });
+      return;
+    }
+
+    const repo = getTerminologyRepository();
+    const profile = source ? await repo.getImportProfile(source) : null;
+    const resolved = resolveColumns(table.headers, columns ?? profile?.columns);
+    const rows = previewImport(table, resolved, await repo.list());
+
+    const skipped = new Set(skip);
+    const toInsert = rows.filter(
+      (row) => isImportable(row) && !skipped.has(row.line),
+    );
+
+    let inserted = 0;
+    if (!dryRun && user) {
+      const createdBy = user.email;
+      const saved = await repo.insertMany(
+        toInsert.map((row) => ({
+          ...row.mapping,
+          category: row.mapping.category as CodeCategory,
+          created_by: createdBy,
+        })),
+      );
+      inserted = saved.length;
+      await recordAudit(
+        saved.map((row) =>
+          mappingAuditEvent("create", row, {
+            agent: createdBy,
+            source: "import",
+          }),
+        ),
+      );
+
+      // ConceptMaps always use the codemap field names, so there is
+      // nothing worth remembering for them
+      if (source && format !== "conceptmap") {
+        await repo.saveImportProfile(source, resolved);
+      }
+    }
+
+    const invalid = rows.filter((row) =>
+      row.issues.some((issue) => issue.severity === "error"),
+    ).length;
+
+    const response: CodemapImportResponse = {
+      dryRun,
+      format,
+      source: source ?? null,
+      headers: table.headers,
+      columns: resolved,
+      rows,
+      summary: {
+        total: rows.length,
+        valid: rows.length - invalid,
+        invalid,
+        warnings: rows.filter((row) =>
+          row.issues.some((issue) => issue.severity === "warning"),
+        ).length,
+        inserted,
+        skipped: rows.length - (dryRun ? toInsert.length : inserted),
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error("Code import error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleListImportProfiles: RequestHandler = async (_req, res) => {
+  try {
+    const profiles = await getTerminologyRepository().listImportProfiles();
+    res.json({ profiles, total: profiles.length });
+  } catch (error) {
+    console.error("Import profiles error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const exportQuerySchema = z.object({
+  format: formatSchema.default("csv"),
+  category: z.enum(["Ayurveda", "Siddha", "Unani"]).optional(),
+});
+
+export const handleExportCodes: RequestHandler = async (req, res) => {
+  const parsed = exportQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid export options" });
+    return;
+  }
+
+  try {
+    const { format, category } = parsed.data;
+    const rows = await getTerminologyRepository().list({ category });
+    const body = await writeCodeList(format, rows);
+
+    // attachment() guesses a type from the extension, so set ours after
+    res
+      .attachment(`codemap_export.${FILE_EXTENSIONS[format]}`)
+      .type(CONTENT_TYPES[format])
+      .send(body);
+  } catch (error) {
+    console.error("Code export error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
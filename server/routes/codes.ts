@@ -1,115 +1,133 @@
 import { RequestHandler } from "express";
 import { z } from "zod";
-
-interface CodeSearchResult {
-  namasteCode: string;
-  namasteDescription: string;
-  icd11Code: string;
-  icd11Description: string;
-  confidence: number;
-  category: "Ayurveda" | "Siddha" | "Unani";
-}
-
-interface CodeSearchResponse {
-  results: CodeSearchResult[];
-  total: number;
-}
-
-// Mock codes database
-const mockCodes: CodeSearchResult[] = [
-  {
-    namasteCode: "AYR-001",
-    namasteDescription: "Vata Vyadhi (Wind Disorder)",
-    icd11Code: "BA25.1",
-    icd11Description: "Disorders of the nervous system and sense organs",
-    confidence: 0.94,
-    category: "Ayurveda",
-  },
-  {
-    namasteCode: "SID-045",
-    namasteDescription: "Pitta Roga (Pitta Disease)",
-    icd11Code: "DA90",
-    icd11Description: "Diabetes mellitus",
-    confidence: 0.87,
-    category: "Siddha",
-  },
-  {
-    namasteCode: "UNA-012",
-    namasteDescription: "Humoral Imbalance",
-    icd11Code: "QD82",
-    icd11Description: "Symptoms and signs",
-    confidence: 0.76,
-    category: "Unani",
-  },
-  {
-    namasteCode: "AYR-023",
-    namasteDescription: "Kapha Vyadhi (Phlegm Disorder)",
-    icd11Code: "DB20",
-    icd11Description: "Asthma",
-    confidence: 0.92,
-    category: "Ayurveda",
-  },
-  {
-    namasteCode: "SID-089",
-    namasteDescription: "Iyya Pitta (Bodily Humours)",
-    icd11Code: "EA03",
-    icd11Description: "Hypertension",
-    confidence: 0.65,
-    category: "Siddha",
-  },
-];
+import type {
+  CodemapRow,
+  CodeSearchResponse,
+  CodeSearchResult,
+  CodeSearchTarget,
+} from "@shared/api";
+import { formatIcd11Expression } from "../../shared/codemap";
+import { getTerminologyRepository } from "../terminology";
+import { searchCodemap } from "../terminology/search";
 
 const searchQuerySchema = z.object({
   q: z.string().optional(),
   category: z.enum(["Ayurveda", "Siddha", "Unani"]).optional(),
-  limit: z.coerce.number().default(10),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
 });
 
-export const handleSearchCodes: RequestHandler = (req, res) => {
+const toCodeSearchTarget = (row: CodemapRow): CodeSearchTarget => ({
+  icd11Code: row.icd11_code,
+  icd11Description: row.icd11_name ?? "",
+  icd11Extensions: row.icd11_extensions ?? [],
+  icd11Expression: formatIcd11Expression(row.icd11_code, row.icd11_extensions),
+  equivalence: row.equivalence ?? null,
+  confidence: row.confidence ?? 0,
+});
+
+// `row` supplies the top-level fields; `siblings` are all rows mapped from
+// the same NAMASTE code, `row` included
+export const toCodeSearchResult = (
+  row: CodemapRow,
+  siblings: CodemapRow[] = [row],
+): CodeSearchResult => ({
+  namasteCode: row.namaste_code,
+  namasteDescription: row.namaste_name ?? "",
+  icd11Code: row.icd11_code,
+  icd11Description: row.icd11_name ?? "",
+  confidence: row.confidence ?? 0,
+  category: row.category,
+  icd11Extensions: row.icd11_extensions ?? [],
+  icd11Expression: formatIcd11Expression(row.icd11_code, row.icd11_extensions),
+  equivalence: row.equivalence ?? null,
+  targets: siblings.map(toCodeSearchTarget),
+});
+
+const groupByNamasteCode = (rows: CodemapRow[]) => {
+  const groups = new Map<string, CodemapRow[]>();
+  for (const row of rows) {
+    groups.set(row.namaste_code, [
+      ...(groups.get(row.namaste_code) ?? []),
+      row,
+    ]);
+  }
+  return groups;
+};
+
+// One result per NAMASTE code, led by its first row in `ordered`
+const toGroupedResults = (ordered: CodemapRow[], all: CodemapRow[]) => {
+  const groups = groupByNamasteCode(all);
+  const seen = new Set<string>();
+
+  return ordered.flatMap((row) => {
+    if (seen.has(row.namaste_code)) return [];
+    seen.add(row.namaste_code);
+    return [
+      { row, result: toCodeSearchResult(row, groups.get(row.namaste_code)) },
+    ];
+  });
+};
+
+export const handleSearchCodes: RequestHandler = async (req, res) => {
+  const parsed = searchQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid search query" });
+    return;
+  }
+
   try {
-    const query = searchQuerySchema.parse(req.query);
+    const { q, category, limit } = parsed.data;
+    let response: CodeSearchResponse;
 
-    let results = mockCodes;
+    // The whole category is loaded so every result carries all of its
+    // ICD-11 targets, not just the rows that made the cut
+    const rows = await getTerminologyRepository().list({ category });
 
-    if (query.q) {
-      const searchTerm = query.q.toLowerCase();
-      results = results.filter(
-        (code) =>
-          code.namasteCode.toLowerCase().includes(searchTerm) ||
-          code.namasteDescription.toLowerCase().includes(searchTerm) ||
-          code.icd11Code.toLowerCase().includes(searchTerm) ||
-          code.icd11Description.toLowerCase().includes(searchTerm)
+    if (q?.trim()) {
+      // Ranked in memory so typos and other scripts still find their codes
+      const hits = searchCodemap(rows, q);
+      const ranked = new Map(hits.map((hit) => [hit.item, hit]));
+      const grouped = toGroupedResults(
+        hits.map((hit) => hit.item),
+        rows,
       );
-    }
 
-    if (query.category) {
-      results = results.filter((code) => code.category === query.category);
+      response = {
+        results: grouped.slice(0, limit).map(({ row, result }) => ({
+          ...result,
+          score: ranked.get(row)!.score,
+          highlights: ranked.get(row)!.highlights,
+        })),
+        total: grouped.length,
+      };
+    } else {
+      const grouped = toGroupedResults(rows, rows);
+      response = {
+        results: grouped.slice(0, limit).map(({ result }) => result),
+        total: grouped.length,
+      };
     }
 
-    results = results.slice(0, query.limit);
-
-    const response: CodeSearchResponse = {
-      results,
-      total: results.length,
-    };
-
     res.json(response);
   } catch (error) {
-    res.status(400).json({ error: "Invalid search query" });
+    console.error("Code search error:", error);
+    res.status(500).json({ error: "Internal server error" });
   }
 };
 
-export const handleGetCodeByNameste: RequestHandler = (req, res) => {
+export const handleGetCodeByNameste: RequestHandler = async (req, res) => {
   try {
     const { code } = req.params;
-    const result = mockCodes.find((c) => c.namasteCode === code);
+    const rows = (await getTerminologyRepository().list({ q: code })).filter(
+      (row) => row.namaste_code === code,
+    );
 
-    if (!result) {
+    if (rows.length === 0) {
       res.status(404).json({ error: "Code not found" });
       return;
     }
 
-    res.json(result);
+    res.json(toCodeSearchResult(rows[0], rows));
   } catch (error) {
     res.status(500).json({ error: "Internal server error" });
   }
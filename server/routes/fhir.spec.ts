@@ -0,0 +1,865 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  it,
+  expect,
+  vi,
+} from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { Bundle, BundleEntry, Parameters } from "@shared/fhir";
+import { FHIR_JSON, FHIR_XML } from "../fhir/format";
+import { ICD11_SYSTEM, NAMASTE_SYSTEMS } from "../fhir/systems";
+import { valueSetUrl } from "../fhir/valueSet";
+import type { PatientRepository } from "../patients/repository";
+import { createSqlitePatientRepository } from "../patients/sqliteRepository";
+import { createFileTerminologyRepository } from "../terminology/fileRepository";
+import type { TerminologyRepository } from "../terminology/repository";
+import { seedCodemap } from "../terminology/seed";
+import { authenticateRequest, type RequestUser } from "../utils/requestUser";
+import fhirRouter from "./fhir";
+
+const state = vi.hoisted(() => ({
+  repo: null as TerminologyRepository | null,
+  patients: null as PatientRepository | null,
+}));
+
+// The terminology operations only read the codemap
+vi.mock("../terminology", () => ({
+  getTerminologyRepository: () => state.repo,
+}));
+vi.mock("../audit", () => ({ getAuditRepository: () => null }));
+vi.mock("../patients", () => ({
+  getPatientRepository: () => state.patients,
+  PATIENT_CONFLICT_MESSAGES: {},
+}));
+
+// Bearer tokens are the users' names
+const USERS: Record<string, RequestUser> = {
+  doctor: { id: "u1", email: "doctor@caresync.com", role: "user" },
+};
+
+const app = express()
+  .use(authenticateRequest(async (token) => USERS[token] ?? null))
+  .use("/fhir", fhirRouter);
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(() => {
+  state.repo = createFileTerminologyRepository(
+    mkdtempSync(path.join(tmpdir(), "fhir-")),
+  );
+  state.patients = null;
+});
+
+// Patient records live in a fresh SQLite file for each test
+const usePatientStore = () =>
+  beforeEach(() => {
+    state.patients = createSqlitePatientRepository(
+      path.join(mkdtempSync(path.join(tmpdir(), "fhir-")), "patients.db"),
+    );
+  });
+
+// GETs an operation with `params` as its query, or POSTs them as a
+// Parameters resource
+async function operation(
+  route: string,
+  params: Record<string, string>,
+  method = "GET",
+) {
+  const res =
+    method === "GET"
+      ? await fetch(`${base}/fhir/${route}?${new URLSearchParams(params)}`)
+      : await fetch(`${base}/fhir/${route}`, {
+          method,
+          headers: { "Content-Type": "application/fhir+json" },
+          body: JSON.stringify({
+            resourceType: "Parameters",
+            parameter: Object.entries(params).map(([name, value]) => ({
+              name,
+              valueString: value,
+            })),
+          } satisfies Parameters),
+        });
+  return { status: res.status, body: await res.json() };
+}
+
+const parameter = (body: Parameters, name: string) =>
+  body.parameter.find((param) => param.name === name);
+
+// Calls the FHIR API as `user`, or anonymously when it is null
+async function call(
+  user: string | null,
+  route: string,
+  body?: unknown,
+  method = body === undefined ? "GET" : "POST",
+  headers: Record<string, string> = {},
+) {
+  const res = await fetch(`${base}/fhir/${route}`, {
+    method,
+    headers: {
+      ...(user && { Authorization: `Bearer ${user}` }),
+      ...(body !== undefined && { "Content-Type": "application/fhir+json" }),
+      ...headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await res.text();
+  return {
+    status: res.status,
+    headers: res.headers,
+    body: text ? JSON.parse(text) : null,
+  };
+}
+
+const asha = {
+  resourceType: "Patient",
+  name: [{ use: "official", family: "Rao", given: ["Asha"] }],
+  gender: "female",
+  birthDate: "1980-01-15",
+};
+
+const diagnosis = (patientId: string, code = "AYR-001") => ({
+  resourceType: "Condition",
+  subject: { reference: `Patient/${patientId}` },
+  code: { coding: [{ system: NAMASTE_SYSTEMS.Ayurveda, code }] },
+});
+
+// Registers Asha and returns her id
+async function registerPatient() {
+  const { status, body } = await call("doctor", "Patient", asha);
+  expect(status).toBe(201);
+  return body.id as string;
+}
+
+const searchIds = (body: Bundle<{ id: string }>) =>
+  (body.entry ?? []).map((entry) => entry.resource!.id);
+
+describe("ConceptMap $translate", () => {
+  it("should translate a NAMASTE code to its ICD-11 target", async () => {
+    for (const method of ["GET", "POST"]) {
+      const { status, body } = await operation(
+        "ConceptMap/$translate",
+        { system: NAMASTE_SYSTEMS.Ayurveda, code: "AYR-001" },
+        method,
+      );
+
+      expect(status).toBe(200);
+      expect(parameter(body, "result")).toEqual({
+        name: "result",
+        valueBoolean: true,
+      });
+      expect(parameter(body, "match")?.part).toContainEqual({
+        name: "concept",
+        valueCoding: expect.objectContaining({
+          system: ICD11_SYSTEM,
+          code: "BA25.1",
+        }),
+      });
+    }
+  });
+
+  it("should report codes without a mapping as no match", async () => {
+    const { status, body } = await operation("ConceptMap/$translate", {
+      system: NAMASTE_SYSTEMS.Ayurveda,
+      code: "AYR-999",
+    });
+
+    expect(status).toBe(200);
+    expect(parameter(body, "result")?.valueBoolean).toBe(false);
+    expect(parameter(body, "match")).toBeUndefined();
+  });
+
+  it("should reject a missing code and an unknown system", async () => {
+    expect(
+      await operation("ConceptMap/$translate", {
+        system: NAMASTE_SYSTEMS.Ayurveda,
+      }),
+    ).toMatchObject({
+      status: 400,
+      body: { resourceType: "OperationOutcome", issue: [{ code: "required" }] },
+    });
+    expect(
+      await operation("ConceptMap/$translate", {
+        system: "http://example.org/unknown",
+        code: "AYR-001",
+      }),
+    ).toMatchObject({ status: 404, body: { issue: [{ code: "not-found" }] } });
+  });
+});
+
+describe("CodeSystem $lookup", () => {
+  it("should look up a NAMASTE code", async () => {
+    const { status, body } = await operation("CodeSystem/$lookup", {
+      system: NAMASTE_SYSTEMS.Ayurveda,
+      code: "AYR-001",
+    });
+
+    expect(status).toBe(200);
+    expect(parameter(body, "display")?.valueString).toBe(
+      "Vata Vyadhi (Wind Disorder)",
+    );
+  });
+
+  it("should not find codes outside the system", async () => {
+    // AYR-001 is an Ayurveda code
+    expect(
+      await operation("CodeSystem/$lookup", {
+        system: NAMASTE_SYSTEMS.Siddha,
+        code: "AYR-001",
+      }),
+    ).toMatchObject({ status: 404, body: { issue: [{ code: "not-found" }] } });
+    expect(
+      await operation("CodeSystem/$lookup", {
+        system: "http://example.org/unknown",
+        code: "AYR-001",
+      }),
+    ).toMatchObject({ status: 404 });
+  });
+
+  it("should require a system and a code", async () => {
+    expect(
+      await operation("CodeSystem/$lookup", { code: "AYR-001" }),
+    ).toMatchObject({ status: 400, body: { issue: [{ code: "required" }] } });
+  });
+});
+
+describe("CodeSystem $validate-code", () => {
+  it("should check the code and its display", async () => {
+    const validate = async (params: Record<string, string>) => {
+      const { status, body } = await operation("CodeSystem/$validate-code", {
+        url: NAMASTE_SYSTEMS.Ayurveda,
+        ...params,
+      });
+      expect(status).toBe(200);
+      return parameter(body, "result")?.valueBoolean;
+    };
+
+    expect(await validate({ code: "AYR-001" })).toBe(true);
+    expect(
+      await validate({
+        code: "AYR-001",
+        display: "Vata Vyadhi (Wind Disorder)",
+      }),
+    ).toBe(true);
+    expect(await validate({ code: "AYR-001", display: "Jwara" })).toBe(false);
+    expect(await validate({ code: "AYR-999" })).toBe(false);
+  });
+
+  it("should reject a missing code and an unknown system", async () => {
+    expect(
+      await operation("CodeSystem/$validate-code", {
+        url: NAMASTE_SYSTEMS.Ayurveda,
+      }),
+    ).toMatchObject({ status: 400, body: { issue: [{ code: "required" }] } });
+    expect(
+      await operation(
+        "CodeSystem/$validate-code",
+        { system: "http://example.org/unknown", code: "AYR-001" },
+        "POST",
+      ),
+    ).toMatchObject({ status: 404, body: { issue: [{ code: "not-found" }] } });
+  });
+});
+
+describe("ValueSet $expand", () => {
+  const codes = (body: { expansion: { contains: Array<{ code: string }> } }) =>
+    body.expansion.contains.map((concept) => concept.code);
+
+  it("should expand a value set a page at a time", async () => {
+    const ayurveda = seedCodemap
+      .filter((row) => row.category === "Ayurveda")
+      .map((row) => row.namaste_code)
+      .sort();
+
+    const { status, body } = await operation("ValueSet/namaste/$expand", {
+      category: "Ayurveda",
+      offset: "1",
+      count: "2",
+    });
+    expect(status).toBe(200);
+    expect(body.expansion).toMatchObject({
+      total: ayurveda.length,
+      offset: 1,
+    });
+    expect(codes(body)).toEqual(ayurveda.slice(1, 3));
+  });
+
+  it("should find the value set by its url and filter it", async () => {
+    const { status, body } = await operation(
+      "ValueSet/$expand",
+      { url: valueSetUrl("namaste"), filter: "vata vyadhi" },
+      "POST",
+    );
+
+    expect(status).toBe(200);
+    expect(codes(body)[0]).toBe("AYR-001");
+  });
+
+  it("should not find unknown value sets", async () => {
+    expect(await operation("ValueSet/unknown/$expand", {})).toMatchObject({
+      status: 404,
+      body: { issue: [{ code: "not-found" }] },
+    });
+    expect(
+      await operation("ValueSet/$expand", {
+        url: valueSetUrl("unknown"),
+      }),
+    ).toMatchObject({ status: 404 });
+    expect(await operation("ValueSet/$expand", {})).toMatchObject({
+      status: 404,
+    });
+  });
+
+  it("should reject invalid paging and categories", async () => {
+    for (const params of [
+      { count: "many" },
+      { count: "5000" },
+      { offset: "-1" },
+      { category: "Homeopathy" },
+    ]) {
+      expect(await operation("ValueSet/namaste/$expand", params)).toMatchObject(
+        { status: 400, body: { issue: [{ code: "invalid" }] } },
+      );
+    }
+  });
+});
+
+describe("Patient", () => {
+  usePatientStore();
+
+  it("should create a patient and read it back", async () => {
+    const created = await call("doctor", "Patient", asha);
+
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({
+      ...asha,
+      meta: { versionId: "1" },
+    });
+    expect(created.headers.get("location")).toBe(
+      `${base}/fhir/Patient/${created.body.id}/_history/1`,
+    );
+    expect(created.headers.get("etag")).toBe('W/"1"');
+
+    const read = await call("doctor", `Patient/${created.body.id}`);
+    expect(read.status).toBe(200);
+    expect(read.body).toEqual(created.body);
+  });
+
+  it("should search patients by name and birth date", async () => {
+    const id = await registerPatient();
+    await call("doctor", "Patient", {
+      ...asha,
+      name: [{ family: "Kumar", given: ["Ravi"] }],
+      gender: "male",
+    });
+
+    const search = async (query: string) => {
+      const { status, body } = await call("doctor", `Patient?${query}`);
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ resourceType: "Bundle", type: "searchset" });
+      return body;
+    };
+
+    expect(await search("family=Rao")).toMatchObject({ total: 1 });
+    expect(searchIds(await search("family=Rao"))).toEqual([id]);
+    expect(await search("birthdate=1980-01-15")).toMatchObject({ total: 2 });
+    expect(await search("name=nobody")).toMatchObject({ total: 0 });
+  });
+
+  it("should reject a patient without a name", async () => {
+    expect(
+      await call("doctor", "Patient", { ...asha, name: [] }),
+    ).toMatchObject({ status: 400, body: { issue: [{ code: "invalid" }] } });
+  });
+
+  it("should not find unknown patients", async () => {
+    expect(await call("doctor", "Patient/missing")).toMatchObject({
+      status: 404,
+      body: {
+        resourceType: "OperationOutcome",
+        issue: [{ code: "not-found" }],
+      },
+    });
+  });
+
+  it("should keep patients from anonymous callers", async () => {
+    const id = await registerPatient();
+
+    for (const [route, body] of [
+      ["Patient"],
+      [`Patient/${id}`],
+      ["Patient", asha],
+    ] as const) {
+      expect(await call(null, route, body)).toMatchObject({
+        status: 401,
+        body: { issue: [{ code: "login" }] },
+      });
+    }
+  });
+});
+
+describe("Condition", () => {
+  usePatientStore();
+
+  it("should record a diagnosis with its ICD-11 mapping and read it back", async () => {
+    const patientId = await registerPatient();
+    const created = await call("doctor", "Condition", diagnosis(patientId));
+
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({
+      subject: { reference: `Patient/${patientId}` },
+      meta: { versionId: "1" },
+    });
+    expect(created.body.code.coding).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          system: NAMASTE_SYSTEMS.Ayurveda,
+          code: "AYR-001",
+        }),
+        expect.objectContaining({ system: ICD11_SYSTEM, code: "BA25.1" }),
+      ]),
+    );
+    expect(created.headers.get("location")).toBe(
+      `${base}/fhir/Condition/${created.body.id}/_history/1`,
+    );
+
+    const read = await call("doctor", `Condition/${created.body.id}`);
+    expect(read.status).toBe(200);
+    expect(read.body).toEqual(created.body);
+  });
+
+  it("should search diagnoses by patient and code", async () => {
+    const patientId = await registerPatient();
+    const { body: condition } = await call(
+      "doctor",
+      "Condition",
+      diagnosis(patientId),
+    );
+
+    for (const query of [
+      `patient=Patient/${patientId}`,
+      `subject=${patientId}`,
+      "code=AYR-001",
+      `code=${ICD11_SYSTEM}|BA25.1`,
+    ]) {
+      const { status, body } = await call("doctor", `Condition?${query}`);
+      expect(status).toBe(200);
+      expect(searchIds(body)).toEqual([condition.id]);
+    }
+    expect((await call("doctor", "Condition?code=SID-045")).body).toMatchObject(
+      { total: 0 },
+    );
+  });
+
+  it("should reject unknown codes and patients", async () => {
+    const patientId = await registerPatient();
+
+    expect(
+      await call("doctor", "Condition", diagnosis(patientId, "AYR-999")),
+    ).toMatchObject({
+      status: 422,
+      body: { issue: [{ code: "code-invalid" }] },
+    });
+    expect(
+      await call("doctor", "Condition", diagnosis("missing")),
+    ).toMatchObject({ status: 422, body: { issue: [{ code: "processing" }] } });
+    expect(
+      await call("doctor", "Condition", { resourceType: "Condition" }),
+    ).toMatchObject({ status: 400 });
+  });
+
+  it("should not find unknown diagnoses", async () => {
+    expect(await call("doctor", "Condition/missing")).toMatchObject({
+      status: 404,
+      body: { issue: [{ code: "not-found" }] },
+    });
+  });
+
+  it("should keep diagnoses from anonymous callers", async () => {
+    const patientId = await registerPatient();
+    const { body: condition } = await call(
+      "doctor",
+      "Condition",
+      diagnosis(patientId),
+    );
+
+    for (const [route, body] of [
+      ["Condition"],
+      [`Condition/${condition.id}`],
+      ["Condition", diagnosis(patientId)],
+    ] as const) {
+      expect(await call(null, route, body)).toMatchObject({
+        status: 401,
+        body: { issue: [{ code: "login" }] },
+      });
+    }
+  });
+});
+
+describe("Resource history", () => {
+  usePatientStore();
+
+  const update = (route: string, body: unknown, version?: string) =>
+    call("doctor", route, body, "PUT", version ? { "If-Match": version } : {});
+
+  it("should only update the version If-Match names", async () => {
+    const id = await registerPatient();
+
+    const updated = await update(
+      `Patient/${id}`,
+      { ...asha, id, gender: "other" },
+      'W/"1"',
+    );
+    expect(updated.status).toBe(200);
+    expect(updated.body.meta.versionId).toBe("2");
+    expect(updated.headers.get("etag")).toBe('W/"2"');
+
+    for (const version of ['W/"1"', "latest"]) {
+      expect(
+        await update(`Patient/${id}`, { ...asha, id }, version),
+      ).toMatchObject({ status: 412, body: { issue: [{ code: "conflict" }] } });
+    }
+    expect(
+      await call("doctor", `Patient/${id}`, undefined, "DELETE", {
+        "If-Match": 'W/"1"',
+      }),
+    ).toMatchObject({ status: 412 });
+
+    // The stale writes changed nothing
+    expect((await call("doctor", `Patient/${id}`)).body).toMatchObject({
+      gender: "other",
+      meta: { versionId: "2" },
+    });
+  });
+
+  it("should refuse a stale update to a diagnosis", async () => {
+    const patientId = await registerPatient();
+    const { body: condition } = await call(
+      "doctor",
+      "Condition",
+      diagnosis(patientId),
+    );
+    const route = `Condition/${condition.id}`;
+
+    expect(
+      (await update(route, diagnosis(patientId, "AYR-023"), 'W/"1"')).status,
+    ).toBe(200);
+    expect(await update(route, diagnosis(patientId), 'W/"1"')).toMatchObject({
+      status: 412,
+      body: { issue: [{ code: "conflict" }] },
+    });
+  });
+
+  it("should list every version and read old ones", async () => {
+    const id = await registerPatient();
+    await update(`Patient/${id}`, { ...asha, id, gender: "other" });
+
+    const history = await call("doctor", `Patient/${id}/_history`);
+    expect(history.status).toBe(200);
+    expect(history.body).toMatchObject({
+      resourceType: "Bundle",
+      type: "history",
+      total: 2,
+    });
+    expect(
+      history.body.entry.map((entry: BundleEntry) => [
+        entry.request?.method,
+        entry.response?.etag,
+      ]),
+    ).toEqual([
+      ["PUT", 'W/"2"'],
+      ["POST", 'W/"1"'],
+    ]);
+
+    const first = await call("doctor", `Patient/${id}/_history/1`);
+    expect(first.status).toBe(200);
+    expect(first.body).toMatchObject({
+      gender: "female",
+      meta: { versionId: "1" },
+    });
+    expect(first.headers.get("etag")).toBe('W/"1"');
+
+    for (const route of [
+      `Patient/${id}/_history/3`,
+      `Patient/${id}/_history/first`,
+      "Patient/missing/_history",
+    ]) {
+      expect(await call("doctor", route)).toMatchObject({
+        status: 404,
+        body: { issue: [{ code: "not-found" }] },
+      });
+    }
+  });
+
+  it("should answer 410 Gone for what was deleted", async () => {
+    const id = await registerPatient();
+    const { body: condition } = await call(
+      "doctor",
+      "Condition",
+      diagnosis(id),
+    );
+
+    for (const route of [`Condition/${condition.id}`, `Patient/${id}`]) {
+      expect((await call("doctor", route, undefined, "DELETE")).status).toBe(
+        204,
+      );
+      expect(await call("doctor", route)).toMatchObject({
+        status: 410,
+        body: { issue: [{ code: "deleted" }] },
+      });
+      expect(await call("doctor", `${route}/_history/2`)).toMatchObject({
+        status: 410,
+      });
+      // Its earlier versions can still be read
+      expect((await call("doctor", `${route}/_history/1`)).status).toBe(200);
+    }
+
+    const history = await call("doctor", `Patient/${id}/_history`);
+    expect(history.body.entry[0]).toMatchObject({
+      request: { method: "DELETE" },
+      response: { status: "204" },
+    });
+    expect(history.body.entry[0].resource).toBeUndefined();
+  });
+});
+
+describe("Content negotiation", () => {
+  usePatientStore();
+
+  const ashaXml =
+    '<Patient xmlns="http://hl7.org/fhir">' +
+    '<name><use value="official"/><family value="Rao"/><given value="Asha"/></name>' +
+    '<gender value="female"/><birthDate value="1980-01-15"/>' +
+    "</Patient>";
+
+  // Fetches as the doctor, leaving the body as text
+  const fetchText = async (route: string, init: RequestInit = {}) => {
+    const res = await fetch(`${base}/fhir/${route}`, {
+      ...init,
+      headers: { Authorization: "Bearer doctor", ...init.headers },
+    });
+    return {
+      status: res.status,
+      type: res.headers.get("content-type"),
+      body: await res.text(),
+    };
+  };
+
+  it("should refuse a _format it cannot send", async () => {
+    for (const format of ["turtle", "text/html"]) {
+      const { status, type, body } = await fetchText(
+        `Patient?_format=${encodeURIComponent(format)}`,
+      );
+      expect(status).toBe(406);
+      // Its OperationOutcome falls back to JSON
+      expect(type).toMatch(/^application\/fhir\+json/);
+      expect(JSON.parse(body)).toMatchObject({
+        issue: [{ code: "not-supported" }],
+      });
+    }
+  });
+
+  it("should send XML when _format or Accept asks for it", async () => {
+    const id = await registerPatient();
+
+    for (const [route, accept] of [
+      [`Patient/${id}?_format=xml`, FHIR_JSON],
+      // An unescaped + reads as a space
+      [`Patient/${id}?_format=application/fhir+xml`, FHIR_JSON],
+      [`Patient/${id}`, FHIR_XML],
+    ]) {
+      const { status, type, body } = await fetchText(route, {
+        headers: { Accept: accept },
+      });
+      expect(status).toBe(200);
+      expect(type).toMatch(/^application\/fhir\+xml/);
+      expect(body).toContain('<Patient xmlns="http://hl7.org/fhir">');
+      expect(body).toContain(`<id value="${id}"/>`);
+      expect(body).toContain('<family value="Rao"/>');
+    }
+
+    // _format wins over Accept
+    const json = await fetchText(`Patient/${id}?_format=json`, {
+      headers: { Accept: FHIR_XML },
+    });
+    expect(json.type).toMatch(/^application\/fhir\+json/);
+    expect(JSON.parse(json.body).id).toBe(id);
+  });
+
+  it("should read XML request bodies", async () => {
+    const created = await fetchText("Patient", {
+      method: "POST",
+      headers: { "Content-Type": FHIR_XML },
+      body: ashaXml,
+    });
+
+    expect(created.status).toBe(201);
+    expect(JSON.parse(created.body)).toMatchObject(asha);
+
+    expect(
+      await fetchText("Patient", {
+        method: "POST",
+        headers: { "Content-Type": "application/xml", Accept: FHIR_XML },
+        body: "<Patient><name>",
+      }),
+    ).toMatchObject({
+      status: 400,
+      type: expect.stringMatching(/^application\/fhir\+xml/),
+      body: expect.stringContaining('<code value="structure"/>'),
+    });
+  });
+});
+
+describe("Transaction and batch bundles", () => {
+  usePatientStore();
+
+  const ravi = {
+    ...asha,
+    name: [{ family: "Kumar", given: ["Ravi"] }],
+    gender: "male",
+  };
+
+  const bundle = (type: Bundle["type"], entry: BundleEntry[]): Bundle => ({
+    resourceType: "Bundle",
+    type,
+    entry,
+  });
+
+  const post = (resource: object, fullUrl?: string): BundleEntry => ({
+    fullUrl,
+    resource,
+    request: {
+      method: "POST",
+      url: (resource as { resourceType: string }).resourceType,
+    },
+  });
+
+  // A diagnosis of the patient another entry creates
+  const diagnosisOf = (fullUrl: string, code?: string) => ({
+    ...diagnosis("", code),
+    subject: { reference: fullUrl },
+  });
+
+  const total = async (route: string) =>
+    (await call("doctor", route)).body.total;
+
+  it("should apply a transaction and resolve references within it", async () => {
+    const { status, body } = await call(
+      "doctor",
+      "",
+      bundle("transaction", [
+        post(diagnosisOf("urn:uuid:p1")),
+        post(ravi, "urn:uuid:p1"),
+      ]),
+    );
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      resourceType: "Bundle",
+      type: "transaction-response",
+      entry: [
+        { response: { status: "201 Created" } },
+        { response: { status: "201 Created" } },
+      ],
+    });
+    const patientId = body.entry[1].resource.id;
+    expect(body.entry[0].resource.subject).toEqual({
+      reference: `Patient/${patientId}`,
+    });
+    expect(await total(`Condition?patient=${patientId}`)).toBe(1);
+  });
+
+  it("should write nothing when any transaction entry fails", async () => {
+    expect(
+      await call(
+        "doctor",
+        "",
+        bundle("transaction", [
+          post(ravi, "urn:uuid:p1"),
+          post(diagnosisOf("urn:uuid:p1", "AYR-999")),
+        ]),
+      ),
+    ).toMatchObject({
+      status: 422,
+      body: {
+        resourceType: "OperationOutcome",
+        issue: [{ code: "code-invalid" }],
+      },
+    });
+
+    // Asha is only a duplicate once the first entry has been written
+    expect(
+      await call(
+        "doctor",
+        "",
+        bundle("transaction", [
+          post(asha, "urn:uuid:p1"),
+          post(diagnosisOf("urn:uuid:p1")),
+          post(asha, "urn:uuid:p2"),
+        ]),
+      ),
+    ).toMatchObject({ status: 409, body: { issue: [{ code: "duplicate" }] } });
+
+    expect(await total("Patient")).toBe(0);
+    expect(await total("Condition")).toBe(0);
+  });
+
+  it("should report each batch entry on its own", async () => {
+    const patientId = await registerPatient();
+
+    const { status, body } = await call(
+      "doctor",
+      "",
+      bundle("batch", [
+        post(ravi),
+        post(diagnosis(patientId)),
+        post(diagnosis(patientId, "AYR-999")),
+        { request: { method: "DELETE", url: `Patient/${patientId}` } },
+      ]),
+    );
+
+    expect(status).toBe(200);
+    expect(body.type).toBe("batch-response");
+    expect(
+      body.entry.map((entry: BundleEntry) => entry.response?.status),
+    ).toEqual([
+      "201 Created",
+      "201 Created",
+      "422 Unprocessable Entity",
+      "405 Method Not Allowed",
+    ]);
+    expect(body.entry[2].response.outcome).toMatchObject({
+      resourceType: "OperationOutcome",
+      issue: [{ code: "code-invalid" }],
+    });
+    expect(await total("Patient")).toBe(2);
+    expect(await total("Condition")).toBe(1);
+  });
+
+  it("should refuse anonymous callers and other bundle types", async () => {
+    expect(await call(null, "", bundle("batch", [post(ravi)]))).toMatchObject({
+      status: 401,
+      body: { issue: [{ code: "login" }] },
+    });
+    expect(
+      await call("doctor", "", bundle("collection", [post(ravi)])),
+    ).toMatchObject({ status: 400, body: { issue: [{ code: "invalid" }] } });
+    expect(await total("Patient")).toBe(0);
+  });
+});
@@ -0,0 +1,1320 @@
+import { randomUUID } from "crypto";
+import express, { Router } from "express";
+import { z } from "zod";
+import type {
+  AuditEventRow,
+  PatientDiagnosisRow,
+  PatientRow,
+} from "@shared/api";
+import type {
+  AuditEvent,
+  Condition,
+  Parameters,
+  Patient,
+  Provenance,
+} from "@shared/fhir";
+import { getTerminologyRepository } from "../terminology";
+import { buildConceptMap, CONCEPT_MAP_ID, translate } from "../fhir/conceptMap";
+import {
+  buildCodeSystem,
+  categoryForCodeSystemId,
+  lookup,
+  validateCode,
+} from "../fhir/codeSystem";
+import { fhirBaseUrl, pageLinks, searchsetBundle } from "../fhir/bundle";
+import {
+  ALL_CATEGORIES,
+  buildValueSet,
+  expandValueSet,
+  isKnownValueSet,
+  valueSetIdForUrl,
+} from "../fhir/valueSet";
+import { readOperationInput } from "../fhir/parameters";
+import {
+  operationOutcome,
+  sendOutcome,
+  sendResource,
+} from "../fhir/operationOutcome";
+import { categoryForSystem } from "../fhir/systems";
+import {
+  conditionMappings,
+  fromFhirCondition,
+  parseConditionSearch,
+  resolveConditionCodes,
+  toFhirCondition,
+} from "../fhir/condition";
+import {
+  fromFhirPatient,
+  parsePatientSearch,
+  toFhirPatient,
+} from "../fhir/patient";
+import { processBundle } from "../fhir/transaction";
+import {
+  buildCapabilityStatement,
+  registeredRoutes,
+} from "../fhir/capabilityStatement";
+import {
+  bulkExportManifest,
+  bulkExportStatusUrl,
+  parseBulkExportRequest,
+} from "../fhir/bulkData";
+import { getProfiles } from "../fhir/profiles";
+import {
+  historyBundle,
+  ifMatchVersion,
+  sendVersioned,
+  staleMessage,
+} from "../fhir/versioning";
+import { validateResource, validationOutcome } from "../fhir/validation";
+import { FHIR_JSON, fhirFormat, XML_TYPES } from "../fhir/format";
+import { parseFhirXml } from "../fhir/xml";
+import {
+  parseAuditSearch,
+  toFhirAuditEvent,
+  toFhirProvenance,
+} from "../fhir/auditEvent";
+import { getPatientRepository, PATIENT_CONFLICT_MESSAGES } from "../patients";
+import {
+  singleWrite,
+  type NewPatient,
+  type VersionedResourceType,
+} from "../patients/repository";
+import { getBulkExportStore } from "../exports";
+import {
+  isBulkExportActive,
+  requestBulkExportCancel,
+  startBulkExport,
+} from "../exports/bulkExport";
+import { getRequestUser } from "../utils/requestUser";
+import { getAuditRepository } from "../audit";
+import {
+  diagnosisAuditEvent,
+  patientAuditEvent,
+  patientDeletionAuditEvents,
+} from "../audit/events";
+
+const router = Router();
+
+router.use(express.json({ type: FHIR_JSON }));
+router.use(express.text({ type: XML_TYPES }));
+
+// Handlers only ever see JSON: XML bodies are read into the JSON they
+// stand for. Responses follow fhirFormat.
+router.use((req, res, next) => {
+  if (!fhirFormat(req)) {
+    return sendOutcome(
+      res,
+      406,
+      "not-supported",
+      `Unsupported _format ${req.query._format}`,
+    );
+  }
+  if (typeof req.body !== "string") return next();
+
+  const parsed = parseFhirXml(req.body);
+  if ("error" in parsed) {
+    return sendOutcome(res, 400, "structure", parsed.error);
+  }
+  req.body = parsed.resource;
+  next();
+});
+
+// ----------------------
+// METADATA (CapabilityStatement, read off the routes below)
+// ----------------------
+router.get("/metadata", (req, res) => {
+  sendResource(
+    res,
+    buildCapabilityStatement(registeredRoutes(router), fhirBaseUrl(req)),
+  );
+});
+
+// ----------------------
+// CONCEPTMAP
+// ----------------------
+const handleTranslate: express.RequestHandler = async (req, res) => {
+  try {
+    const input = readOperationInput(req);
+
+    if (!input.code) {
+      return sendOutcome(res, 400, "required", "Parameter 'code' is required");
+    }
+
+    const category = input.system ? categoryForSystem(input.system) : undefined;
+    if (input.system && !category) {
+      return sendOutcome(
+        res,
+        404,
+        "not-found",
+        `Unknown source system ${input.system}`,
+      );
+    }
+
+    const rows = await getTerminologyRepository().list({
+      q: input.code,
+      category,
+    });
+
+    sendResource(
+      res,
+      translate(rows, {
+        system: input.system,
+        code: input.code,
+        target: input.target,
+      }),
+    );
+  } catch (error) {
+    console.error("ConceptMap $translate error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+};
+
+router.get("/ConceptMap/$translate", handleTranslate);
+router.post("/ConceptMap/$translate", handleTranslate);
+
+router.get("/ConceptMap/:id", async (req, res) => {
+  if (req.params.id !== CONCEPT_MAP_ID) {
+    return sendOutcome(
+      res,
+      404,
+      "not-found",
+      `ConceptMap/${req.params.id} not found`,
+    );
+  }
+
+  try {
+    const rows = await getTerminologyRepository().list();
+    sendVersioned(res, buildConceptMap(rows));
+  } catch (error) {
+    console.error("ConceptMap read error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+// ----------------------
+// CODESYSTEM (NAMASTE Ayurveda / Siddha / Unani)
+// ----------------------
+const handleLookup: express.RequestHandler = async (req, res) => {
+  try {
+    const input = readOperationInput(req);
+
+    if (!input.system || !input.code) {
+      return sendOutcome(
+        res,
+        400,
+        "required",
+        "Parameters 'system' and 'code' are required",
+      );
+    }
+
+    const category = categoryForSystem(input.system);
+    if (!category) {
+      return sendOutcome(
+        res,
+        404,
+        "not-found",
+        `Unknown code system ${input.system}`,
+      );
+    }
+
+    const rows = await getTerminologyRepository().list({
+      q: input.code,
+      category,
+    });
+    const result = lookup(category, rows, input.code);
+
+    if (!result) {
+      return sendOutcome(
+        res,
+        404,
+        "not-found",
+        `Code ${input.code} not found in ${input.system}`,
+      );
+    }
+
+    sendResource(res, result);
+  } catch (error) {
+    console.error("CodeSystem $lookup error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+};
+
+const handleValidateCode: express.RequestHandler = async (req, res) => {
+  try {
+    const input = readOperationInput(req);
+    const system = input.url ?? input.system;
+
+    if (!system || !input.code) {
+      return sendOutcome(
+        res,
+        400,
+        "required",
+        "Parameters 'url' (or 'system') and 'code' are required",
+      );
+    }
+
+    const category = categoryForSystem(system);
+    if (!category) {
+      return sendOutcome(
+        res,
+        404,
+        "not-found",
+        `Unknown code system ${system}`,
+      );
+    }
+
+    const rows = await getTerminologyRepository().list({
+      q: input.code,
+      category,
+    });
+
+    sendResource(res, validateCode(category, rows, input.code, input.display));
+  } catch (error) {
+    console.error("CodeSystem $validate-code error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+};
+
+router.get("/CodeSystem/$lookup", handleLookup);
+router.post("/CodeSystem/$lookup", handleLookup);
+router.get("/CodeSystem/$validate-code", handleValidateCode);
+router.post("/CodeSystem/$validate-code", handleValidateCode);
+
+router.get("/CodeSystem", async (req, res) => {
+  try {
+    const rows = await getTerminologyRepository().list();
+    const codeSystems = (["Ayurveda", "Siddha", "Unani"] as const).map(
+      (category) => buildCodeSystem(category, rows),
+    );
+
+    sendResource(res, searchsetBundle(req, codeSystems));
+  } catch (error) {
+    console.error("CodeSystem search error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+router.get("/CodeSystem/:id", async (req, res) => {
+  const category = categoryForCodeSystemId(req.params.id);
+  if (!category) {
+    return sendOutcome(
+      res,
+      404,
+      "not-found",
+      `CodeSystem/${req.params.id} not found`,
+    );
+  }
+
+  try {
+    const rows = await getTerminologyRepository().list({ category });
+    sendResource(res, buildCodeSystem(category, rows));
+  } catch (error) {
+    console.error("CodeSystem read error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+// ----------------------
+// VALUESET $expand (diagnosis autocomplete)
+// ----------------------
+const expandSchema = z.object({
+  filter: z.string().optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  count: z.coerce.number().int().min(0).max(1000).default(20),
+  category: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",") : ALL_CATEGORIES))
+    .pipe(z.array(z.enum(["Ayurveda", "Siddha", "Unani"]))),
+  displayLanguage: z.string().optional(),
+});
+
+const handleExpand: express.RequestHandler = async (req, res) => {
+  try {
+    const input = readOperationInput(req);
+    const id = req.params.id ?? (input.url && valueSetIdForUrl(input.url));
+
+    if (!id || !isKnownValueSet(id)) {
+      return sendOutcome(
+        res,
+        404,
+        "not-found",
+        `Unknown value set ${req.params.id ?? input.url ?? ""}`.trim(),
+      );
+    }
+
+    const parsed = expandSchema.safeParse(input);
+    if (!parsed.success) {
+      return sendOutcome(res, 400, "invalid", parsed.error.issues[0].message);
+    }
+
+    const { filter, offset, count, category, displayLanguage } = parsed.data;
+    const rows = await getTerminologyRepository().list();
+
+    sendResource(
+      res,
+      expandValueSet(id, rows, {
+        filter,
+        offset,
+        count,
+        categories: category,
+        displayLanguage,
+      }),
+    );
+  } catch (error) {
+    console.error("ValueSet $expand error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+};
+
+router.get("/ValueSet/$expand", handleExpand);
+router.post("/ValueSet/$expand", handleExpand);
+router.get("/ValueSet/:id/$expand", handleExpand);
+router.post("/ValueSet/:id/$expand", handleExpand);
+
+router.get("/ValueSet/:id", (req, res) => {
+  if (!isKnownValueSet(req.params.id)) {
+    return sendOutcome(
+      res,
+      404,
+      "not-found",
+      `ValueSet/${req.params.id} not found`,
+    );
+  }
+
+  sendResource(res, buildValueSet(req.params.id));
+});
+
+// ----------------------
+// STRUCTUREDEFINITION / $validate (ABDM profiles)
+// ----------------------
+router.get("/StructureDefinition", (req, res) => {
+  sendResource(res, searchsetBundle(req, Array.from(getProfiles().values())));
+});
+
+router.get("/StructureDefinition/:id", (req, res) => {
+  const definition = Array.from(getProfiles().values()).find(
+    (candidate) => candidate.id === req.params.id,
+  );
+  if (!definition) {
+    return sendOutcome(
+      res,
+      404,
+      "not-found",
+      `StructureDefinition/${req.params.id} not found`,
+    );
+  }
+
+  sendResource(res, definition);
+});
+
+// Stored resources, as they would be exported
+async function readStored(type: string, id: string) {
+  const repo = getPatientRepository();
+
+  if (type === "Patient") {
+    const row = await repo.findPatientById(id);
+    return row && toFhirPatient(row);
+  }
+  if (type === "Condition") {
+    const row = await repo.findDiagnosisById(id);
+    return row && toFhirCondition(row, await mappingsFor([row]));
+  }
+  return null;
+}
+
+// Validates the posted resource (bare, or as the `resource` parameter), or
+// the stored one for [type]/[id]/$validate. The outcome lists every issue;
+// the request itself only fails when there is nothing to validate.
+const handleValidate: express.RequestHandler = async (req, res) => {
+  const { resourceType, id } = req.params;
+  // Validating a stored record reads it
+  if (id && !requireReader(req, res)) return;
+
+  try {
+    const input = readOperationInput(req);
+    const body = req.body as Parameters | { resourceType?: string } | undefined;
+
+    const resource = id
+      ? await readStored(resourceType, id)
+      : body?.resourceType === "Parameters"
+        ? (body as Parameters).parameter.find(
+            (param) => param.name === "resource",
+          )?.resource
+        : body;
+
+    if (!resource) {
+      return id
+        ? sendOutcome(res, 404, "not-found", `${resourceType}/${id} not found`)
+        : sendOutcome(res, 400, "required", "No resource to validate");
+    }
+    if ((resource as { resourceType?: string }).resourceType !== resourceType) {
+      return sendOutcome(
+        res,
+        400,
+        "invalid",
+        `Expected a ${resourceType} resource`,
+      );
+    }
+
+    const rows = await getTerminologyRepository().list();
+    sendResource(
+      res,
+      validationOutcome(validateResource(resource, rows, input.profile)),
+    );
+  } catch (error) {
+    console.error("$validate error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+};
+
+router.post("/:resourceType/$validate", handleValidate);
+router.get("/:resourceType/:id/$validate", handleValidate);
+
+// ----------------------
+// BULK DATA $export (NDJSON for population-level reporting)
+// ----------------------
+
+// Every record leaves the system, so only admins may export
+function requireExporter(req: express.Request, res: express.Response) {
+  const user = getRequestUser(req);
+  if (!user) {
+    sendOutcome(res, 401, "login", "Sign in to export records");
+    return null;
+  }
+  if (user.role !== "admin") {
+    sendOutcome(res, 403, "forbidden", "Only admins can export records");
+    return null;
+  }
+  return user;
+}
+
+const handleExport: express.RequestHandler = async (req, res) => {
+  const user = requireExporter(req, res);
+  if (!user) return;
+
+  if (req.get("prefer")?.trim() !== "respond-async") {
+    return sendOutcome(
+      res,
+      400,
+      "invalid",
+      "$export runs asynchronously; send Prefer: respond-async",
+    );
+  }
+
+  const parsed = parseBulkExportRequest(req.query);
+  if ("error" in parsed) {
+    return sendOutcome(res, 400, "not-supported", parsed.error);
+  }
+
+  try {
+    const store = getBulkExportStore();
+    const job = await store.insertJob({
+      status: "in-progress",
+      request: `${fhirBaseUrl(req)}${req.url}`,
+      types: parsed.types,
+      since: parsed.since,
+      transaction_time: new Date().toISOString(),
+      progress: "Queued",
+      output: [],
+      errors: [],
+      error: null,
+      created_by: user.email,
+    });
+
+    startBulkExport(job.id, store, {
+      patients: getPatientRepository(),
+      terminology: getTerminologyRepository(),
+    });
+
+    res.set("Content-Location", bulkExportStatusUrl(fhirBaseUrl(req), job.id));
+    sendResource(
+      res,
+      operationOutcome("information", "informational", "Export started"),
+      202,
+    );
+  } catch (error) {
+    console.error("$export error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+};
+
+router.get("/$export", handleExport);
+router.get("/Patient/$export", handleExport);
+
+router.get("/bulk-export/:id", async (req, res) => {
+  if (!requireExporter(req, res)) return;
+
+  try {
+    const job = await getBulkExportStore().findJob(req.params.id);
+    if (!job) {
+      return sendOutcome(res, 404, "not-found", "Export job not found");
+    }
+
+    if (job.status === "in-progress" && isBulkExportActive(job.id)) {
+      res.set("X-Progress", job.progress ?? "In progress");
+      res.set("Retry-After", "5");
+      return res.status(202).end();
+    }
+    // A job left in progress by a restart will never finish
+    if (job.status !== "completed") {
+      return sendOutcome(
+        res,
+        500,
+        "exception",
+        job.error ?? "The export was interrupted; start a new one",
+      );
+    }
+
+    res.json(bulkExportManifest(job, fhirBaseUrl(req)));
+  } catch (error) {
+    console.error("$export status error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+// Cancels a running job, or deletes the files of a finished one
+router.delete("/bulk-export/:id", async (req, res) => {
+  if (!requireExporter(req, res)) return;
+
+  try {
+    const { id } = req.params;
+    if (
+      !requestBulkExportCancel(id) &&
+      !(await getBulkExportStore().removeJob(id))
+    ) {
+      return sendOutcome(res, 404, "not-found", "Export job not found");
+    }
+
+    res.status(202).end();
+  } catch (error) {
+    console.error("$export delete error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+router.get("/bulk-export/:id/:file", async (req, res) => {
+  if (!requireExporter(req, res)) return;
+
+  try {
+    const store = getBulkExportStore();
+    const job = await store.findJob(req.params.id);
+    const output = [...(job?.output ?? []), ...(job?.errors ?? [])].find(
+      (item) => item.file === req.params.file,
+    );
+    if (!job || job.status !== "completed" || !output) {
+      return sendOutcome(res, 404, "not-found", "Export file not found");
+    }
+
+    res.type("application/fhir+ndjson");
+    res.sendFile(store.outputFile(job.id, output.type));
+  } catch (error) {
+    console.error("$export file error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+// ----------------------
+// PATIENT
+// ----------------------
+
+// Patient records, and everything written about them, are only for
+// signed-in users
+function requireReader(req: express.Request, res: express.Response) {
+  const user = getRequestUser(req);
+  if (!user) {
+    sendOutcome(res, 401, "login", "Sign in to read patient records");
+  }
+  return user;
+}
+
+// A read of something deleted is 410 Gone, as its history tells
+async function sendMissing(
+  res: express.Response,
+  type: VersionedResourceType,
+  id: string,
+) {
+  const [latest] = await getPatientRepository().listVersions(type, id);
+  if (latest && !latest.row) {
+    return sendOutcome(res, 410, "deleted", `${type}/${id} was deleted`);
+  }
+  sendOutcome(res, 404, "not-found", `${type}/${id} not found`);
+}
+
+// Why a write made nothing: the row is gone, or it is no longer at the
+// version If-Match named
+async function sendNotWritten(
+  res: express.Response,
+  type: VersionedResourceType,
+  id: string,
+  expected: number | null | undefined,
+) {
+  const repo = getPatientRepository();
+  const current =
+    expected === undefined
+      ? null
+      : type === "Patient"
+        ? await repo.findPatientById(id)
+        : await repo.findDiagnosisById(id);
+
+  if (!current) {
+    return sendOutcome(res, 404, "not-found", `${type}/${id} not found`);
+  }
+  sendOutcome(
+    res,
+    412,
+    "conflict",
+    staleMessage(`${type}/${id}`, expected!, current.version_id),
+  );
+}
+router.get("/Patient", async (req, res) => {
+  if (!requireReader(req, res)) return;
+
+  const parsed = parsePatientSearch(req.query);
+  if ("error" in parsed) {
+    return sendOutcome(res, 400, "invalid", parsed.error);
+  }
+
+  try {
+    const { search } = parsed;
+    const { rows, total } = await getPatientRepository().searchPatients(search);
+
+    sendResource(
+      res,
+      searchsetBundle(req, rows.map(toFhirPatient), {
+        total,
+        link: pageLinks(req, {
+          offset: search.offset ?? 0,
+          count: search.limit,
+          total,
+        }),
+      }),
+    );
+  } catch (error) {
+    console.error("Patient search error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+router.get("/Patient/:id", async (req, res) => {
+  if (!requireReader(req, res)) return;
+
+  try {
+    const row = await getPatientRepository().findPatientById(req.params.id);
+    if (!row) return sendMissing(res, "Patient", req.params.id);
+
+    sendVersioned(res, toFhirPatient(row));
+  } catch (error) {
+    console.error("Patient read error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+router.post("/Patient", async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    return sendOutcome(res, 401, "login", "Sign in to register patients");
+  }
+
+  const parsed = fromFhirPatient(req.body);
+  if ("error" in parsed) {
+    return sendOutcome(res, 400, "invalid", parsed.error);
+  }
+
+  try {
+    const id = randomUUID();
+    const patient: NewPatient = {
+      ...parsed.fields,
+      user_id: user.id || null,
+      admit_date: null,
+      diagnosis: null,
+    };
+    const saved = singleWrite<PatientRow>(
+      await getPatientRepository().applyWrites(
+        [{ action: "insert-patient", id, patient }],
+        [
+          patientAuditEvent(
+            "create",
+            { ...patient, id, version_id: 1 },
+            { agent: user.email, source: "fhir" },
+          ),
+        ],
+      ),
+    )!;
+
+    if ("conflict" in saved) {
+      return sendOutcome(
+        res,
+        409,
+        "duplicate",
+        PATIENT_CONFLICT_MESSAGES[saved.conflict],
+      );
+    }
+
+    res.location(
+      `${fhirBaseUrl(req)}/Patient/${saved.id}/_history/${saved.version_id}`,
+    );
+    sendVersioned(res, toFhirPatient(saved), 201);
+  } catch (error) {
+    console.error("Patient create error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+// Replaces everything a Patient can carry; admit date and the free-text
+// diagnosis are kept. With If-Match, only the version it names is.
+router.put("/Patient/:id", async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    return sendOutcome(res, 401, "login", "Sign in to update patients");
+  }
+
+  const parsed = fromFhirPatient(req.body);
+  if ("error" in parsed) {
+    return sendOutcome(res, 400, "invalid", parsed.error);
+  }
+  if (req.body.id && req.body.id !== req.params.id) {
+    return sendOutcome(
+      res,
+      400,
+      "invalid",
+      `Resource id ${req.body.id} does not match Patient/${req.params.id}`,
+    );
+  }
+
+  const expected = ifMatchVersion(req.get("if-match"));
+
+  try {
+    const repo = getPatientRepository();
+    const existing = await repo.findPatientById(req.params.id);
+    // Without If-Match, the version read here
+    const version = expected ?? existing?.version_id;
+
+    const saved =
+      !existing || expected === null
+        ? null
+        : singleWrite<PatientRow>(
+            await repo.applyWrites(
+              [
+                {
+                  action: "update-patient",
+                  id: existing.id,
+                  patch: parsed.fields,
+                  expectedVersion: version,
+                },
+              ],
+              [
+                patientAuditEvent(
+                  "update",
+                  { ...existing, ...parsed.fields, version_id: version! + 1 },
+                  { agent: user.email, source: "fhir" },
+                ),
+              ],
+            ),
+          );
+
+    if (!saved) {
+      return sendNotWritten(res, "Patient", req.params.id, expected);
+    }
+    if ("conflict" in saved) {
+      return sendOutcome(
+        res,
+        409,
+        "duplicate",
+        PATIENT_CONFLICT_MESSAGES[saved.conflict],
+      );
+    }
+
+    sendVersioned(res, toFhirPatient(saved));
+  } catch (error) {
+    console.error("Patient update error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+// Deletes the patient's diagnoses too
+router.delete("/Patient/:id", async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    return sendOutcome(res, 401, "login", "Sign in to delete patients");
+  }
+
+  const expected = ifMatchVersion(req.get("if-match"));
+
+  try {
+    const repo = getPatientRepository();
+    const existing = await repo.findPatientById(req.params.id);
+    const diagnoses = existing
+      ? await repo.listDiagnoses({ patientIds: [existing.id] })
+      : [];
+
+    // Deletes the version read above, so the events describe what went
+    if (
+      !existing ||
+      expected === null ||
+      (expected !== undefined && expected !== existing.version_id) ||
+      !(
+        "rows" in
+        (await repo.applyWrites(
+          [
+            {
+              action: "delete-patient",
+              id: existing.id,
+              expectedVersion: existing.version_id,
+            },
+          ],
+          patientDeletionAuditEvents(
+            existing,
+            diagnoses,
+            { agent: user.email, source: "fhir" },
+            await mappingsFor(diagnoses),
+          ),
+        ))
+      )
+    ) {
+      return sendNotWritten(res, "Patient", req.params.id, expected);
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Patient delete error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+// ----------------------
+// CONDITION (diagnoses, coded in NAMASTE and ICD-11)
+// ----------------------
+const mappingsFor = (rows: Array<Pick<PatientDiagnosisRow, "namaste_code">>) =>
+  conditionMappings(getTerminologyRepository(), rows);
+
+router.get("/Condition", async (req, res) => {
+  if (!requireReader(req, res)) return;
+
+  const parsed = parseConditionSearch(req.query);
+  if ("error" in parsed) {
+    return sendOutcome(res, 400, "invalid", parsed.error);
+  }
+
+  try {
+    const { search } = parsed;
+    const { rows, total } =
+      await getPatientRepository().searchDiagnoses(search);
+    const mappings = await mappingsFor(rows);
+
+    sendResource(
+      res,
+      searchsetBundle(
+        req,
+        rows.map((row) => toFhirCondition(row, mappings)),
+        {
+          total,
+          link: pageLinks(req, {
+            offset: search.offset ?? 0,
+            count: search.limit,
+            total,
+          }),
+        },
+      ),
+    );
+  } catch (error) {
+    console.error("Condition search error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+router.get("/Condition/:id", async (req, res) => {
+  if (!requireReader(req, res)) return;
+
+  try {
+    const row = await getPatientRepository().findDiagnosisById(req.params.id);
+    if (!row) return sendMissing(res, "Condition", req.params.id);
+
+    sendVersioned(res, toFhirCondition(row, await mappingsFor([row])));
+  } catch (error) {
+    console.error("Condition read error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+router.post("/Condition", async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    return sendOutcome(res, 401, "login", "Sign in to record diagnoses");
+  }
+
+  const parsed = fromFhirCondition(req.body);
+  if ("error" in parsed) {
+    return sendOutcome(res, 400, "invalid", parsed.error);
+  }
+
+  try {
+    const repo = getPatientRepository();
+    const { input } = parsed;
+
+    if (!(await repo.findPatientById(input.patientId))) {
+      return sendOutcome(
+        res,
+        422,
+        "processing",
+        `Patient/${input.patientId} not found`,
+      );
+    }
+
+    const codes = await resolveConditionCodes(
+      getTerminologyRepository(),
+      input,
+    );
+    if ("error" in codes) {
+      return sendOutcome(res, 422, "code-invalid", codes.error);
+    }
+
+    const id = randomUUID();
+    const diagnosis = {
+      ...input.fields,
+      ...codes,
+      patient_id: input.patientId,
+      recorded_by: user.email,
+    };
+    const mappings = await mappingsFor([diagnosis]);
+    const result = await repo.applyWrites(
+      [{ action: "insert-diagnosis", id, diagnosis }],
+      [
+        diagnosisAuditEvent(
+          "create",
+          { ...diagnosis, id, version_id: 1 },
+          { agent: user.email, source: "fhir" },
+          mappings,
+        ),
+      ],
+    );
+    const saved = singleWrite<PatientDiagnosisRow>(
+      result,
+    ) as PatientDiagnosisRow;
+
+    res.location(
+      `${fhirBaseUrl(req)}/Condition/${saved.id}/_history/${saved.version_id}`,
+    );
+    sendVersioned(res, toFhirCondition(saved, mappings), 201);
+  } catch (error) {
+    console.error("Condition create error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+// The subject and recorder stay as first recorded. The update applies to
+// the version read here, or the one If-Match names.
+router.put("/Condition/:id", async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    return sendOutcome(res, 401, "login", "Sign in to update diagnoses");
+  }
+
+  const parsed = fromFhirCondition(req.body);
+  if ("error" in parsed) {
+    return sendOutcome(res, 400, "invalid", parsed.error);
+  }
+  if (req.body.id && req.body.id !== req.params.id) {
+    return sendOutcome(
+      res,
+      400,
+      "invalid",
+      `Resource id ${req.body.id} does not match Condition/${req.params.id}`,
+    );
+  }
+
+  const expected = ifMatchVersion(req.get("if-match"));
+
+  try {
+    const repo = getPatientRepository();
+    const { input } = parsed;
+    const existing = await repo.findDiagnosisById(req.params.id);
+
+    if (!existing) {
+      return sendOutcome(
+        res,
+        404,
+        "not-found",
+        `Condition/${req.params.id} not found`,
+      );
+    }
+    if (expected !== undefined && expected !== existing.version_id) {
+      return sendNotWritten(res, "Condition", existing.id, expected);
+    }
+    if (existing.patient_id !== input.patientId) {
+      return sendOutcome(
+        res,
+        400,
+        "invalid",
+        "A Condition cannot be moved to another patient",
+      );
+    }
+
+    const codes = await resolveConditionCodes(
+      getTerminologyRepository(),
+      input,
+    );
+    if ("error" in codes) {
+      return sendOutcome(res, 422, "code-invalid", codes.error);
+    }
+
+    const patch = { ...input.fields, ...codes };
+    const mappings = await mappingsFor([codes]);
+    const saved = singleWrite<PatientDiagnosisRow>(
+      await repo.applyWrites(
+        [
+          {
+            action: "update-diagnosis",
+            id: existing.id,
+            patch,
+            expectedVersion: existing.version_id,
+          },
+        ],
+        [
+          diagnosisAuditEvent(
+            "update",
+            { ...existing, ...patch, version_id: existing.version_id + 1 },
+            { agent: user.email, source: "fhir" },
+            mappings,
+          ),
+        ],
+      ),
+    ) as PatientDiagnosisRow | null;
+    if (!saved) {
+      return sendNotWritten(res, "Condition", existing.id, existing.version_id);
+    }
+
+    sendVersioned(res, toFhirCondition(saved, mappings));
+  } catch (error) {
+    console.error("Condition update error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+router.delete("/Condition/:id", async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    return sendOutcome(res, 401, "login", "Sign in to delete diagnoses");
+  }
+
+  const expected = ifMatchVersion(req.get("if-match"));
+
+  try {
+    const repo = getPatientRepository();
+    const existing = await repo.findDiagnosisById(req.params.id);
+
+    // As for Patient
+    if (
+      !existing ||
+      expected === null ||
+      (expected !== undefined && expected !== existing.version_id) ||
+      !(
+        "rows" in
+        (await repo.applyWrites(
+          [
+            {
+              action: "delete-diagnosis",
+              id: existing.id,
+              expectedVersion: existing.version_id,
+            },
+          ],
+          [
+            diagnosisAuditEvent(
+              "delete",
+              existing,
+              { agent: user.email, source: "fhir" },
+              await mappingsFor([existing]),
+            ),
+          ],
+        ))
+      )
+    ) {
+      return sendNotWritten(res, "Condition", req.params.id, expected);
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Condition delete error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+// ----------------------
+// _HISTORY (every version of a Patient or Condition)
+// ----------------------
+
+// Turns stored rows of `type` back into resources
+async function resourcesFor(
+  type: VersionedResourceType,
+  rows: Array<PatientRow | PatientDiagnosisRow>,
+): Promise<(row: PatientRow | PatientDiagnosisRow) => Patient | Condition> {
+  if (type === "Patient") {
+    return (row: PatientRow | PatientDiagnosisRow) =>
+      toFhirPatient(row as PatientRow);
+  }
+  const mappings = await mappingsFor(rows as PatientDiagnosisRow[]);
+  return (row: PatientRow | PatientDiagnosisRow) =>
+    toFhirCondition(row as PatientDiagnosisRow, mappings);
+}
+
+for (const type of ["Patient", "Condition"] as const) {
+  router.get(`/${type}/:id/_history`, async (req, res) => {
+    if (!requireReader(req, res)) return;
+
+    try {
+      const versions = await getPatientRepository().listVersions(
+        type,
+        req.params.id,
+      );
+      if (!versions.length) {
+        return sendOutcome(
+          res,
+          404,
+          "not-found",
+          `${type}/${req.params.id} not found`,
+        );
+      }
+
+      const toResource = await resourcesFor(
+        type,
+        versions.flatMap((version) => (version.row ? [version.row] : [])),
+      );
+      sendResource(
+        res,
+        historyBundle(fhirBaseUrl(req), type, versions, toResource),
+      );
+    } catch (error) {
+      console.error(`${type} history error:`, error);
+      sendOutcome(res, 500, "exception", "Internal server error");
+    }
+  });
+
+  router.get(`/${type}/:id/_history/:vid`, async (req, res) => {
+    if (!requireReader(req, res)) return;
+    const { id, vid } = req.params;
+
+    try {
+      const version = /^\d+$/.test(vid)
+        ? await getPatientRepository().findVersion(type, id, Number(vid))
+        : null;
+      if (!version) {
+        return sendOutcome(
+          res,
+          404,
+          "not-found",
+          `${type}/${id}/_history/${vid} not found`,
+        );
+      }
+      if (!version.row) {
+        return sendOutcome(
+          res,
+          410,
+          "deleted",
+          `${type}/${id} was deleted in version ${vid}`,
+        );
+      }
+
+      const toResource = await resourcesFor(type, [version.row]);
+      sendVersioned(res, toResource(version.row));
+    } catch (error) {
+      console.error(`${type} vread error:`, error);
+      sendOutcome(res, 500, "exception", "Internal server error");
+    }
+  });
+}
+
+// ----------------------
+// AUDITEVENT / PROVENANCE (one of each for every clinical write)
+// ----------------------
+const AUDIT_RESOURCES: Record<
+  "AuditEvent" | "Provenance",
+  (row: AuditEventRow) => AuditEvent | Provenance
+> = {
+  AuditEvent: toFhirAuditEvent,
+  Provenance: toFhirProvenance,
+};
+
+for (const [type, toResource] of Object.entries(AUDIT_RESOURCES)) {
+  const resourceType = type as keyof typeof AUDIT_RESOURCES;
+
+  router.get(`/${type}`, async (req, res) => {
+    if (!requireReader(req, res)) return;
+
+    const parsed = parseAuditSearch(resourceType, req.query);
+    if ("error" in parsed) {
+      return sendOutcome(res, 400, "invalid", parsed.error);
+    }
+
+    try {
+      const { search } = parsed;
+      const { rows, total } =
+        await getAuditRepository().searchAuditEvents(search);
+
+      sendResource(
+        res,
+        searchsetBundle(req, rows.map(toResource), {
+          total,
+          link: pageLinks(req, {
+            offset: search.offset ?? 0,
+            count: search.limit,
+            total,
+          }),
+        }),
+      );
+    } catch (error) {
+      console.error(`${type} search error:`, error);
+      sendOutcome(res, 500, "exception", "Internal server error");
+    }
+  });
+
+  router.get(`/${type}/:id`, async (req, res) => {
+    if (!requireReader(req, res)) return;
+
+    try {
+      const row = await getAuditRepository().findAuditEvent(req.params.id);
+      if (!row) {
+        return sendOutcome(
+          res,
+          404,
+          "not-found",
+          `${type}/${req.params.id} not found`,
+        );
+      }
+
+      sendResource(res, toResource(row));
+    } catch (error) {
+      console.error(`${type} read error:`, error);
+      sendOutcome(res, 500, "exception", "Internal server error");
+    }
+  });
+}
+
+// ----------------------
+// TRANSACTION / BATCH (whole records pushed by partner clinics)
+// ----------------------
+router.post("/", async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    return sendOutcome(res, 401, "login", "Sign in to import records");
+  }
+
+  try {
+    const result = await processBundle(req.body, {
+      patients: getPatientRepository(),
+      terminology: getTerminologyRepository(),
+      user,
+      baseUrl: fhirBaseUrl(req),
+    });
+
+    if ("error" in result) {
+      return sendOutcome(res, result.status, result.code, result.error);
+    }
+
+    sendResource(res, result.bundle);
+  } catch (error) {
+    console.error("Bundle error:", error);
+    sendOutcome(res, 500, "exception", "Internal server error");
+  }
+});
+
+export default router;
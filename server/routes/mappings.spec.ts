@@ -0,0 +1,320 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  it,
+  expect,
+  vi,
+} from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { CodemapRow } from "@shared/api";
+import { mappingVersion } from "../../shared/codemap";
+import type { NewAuditEvent } from "../audit/repository";
+import { createFileTerminologyRepository } from "../terminology/fileRepository";
+import type { TerminologyRepository } from "../terminology/repository";
+import { authenticateRequest, type RequestUser } from "../utils/requestUser";
+import {
+  handleBulkMappings,
+  handleCreateMapping,
+  handleMappingHistory,
+  handleMappingTransition,
+  handleMappingVersion,
+  handleMappingVersions,
+  handleUpdateMapping,
+} from "./mappings";
+
+const state = vi.hoisted(() => ({
+  repo: null as TerminologyRepository | null,
+  audit: [] as NewAuditEvent[],
+}));
+
+vi.mock("../terminology", () => ({
+  getTerminologyRepository: () => state.repo,
+}));
+vi.mock("../audit", () => ({
+  recordAudit: async (events: NewAuditEvent[]) => {
+    state.audit.push(...events);
+  },
+}));
+
+// Bearer tokens are the users' names
+const USERS: Record<string, RequestUser> = {
+  author: { id: "u1", email: "author@caresync.com", role: "user" },
+  reviewer: { id: "u2", email: "reviewer@caresync.com", role: "user" },
+  lead: { id: "u3", email: "lead@caresync.com", role: "admin" },
+};
+
+const app = express()
+  .use(express.json())
+  .use(authenticateRequest(async (token) => USERS[token] ?? null))
+  .post("/api/mappings", handleCreateMapping)
+  .post("/api/mappings/bulk", handleBulkMappings)
+  .patch("/api/mappings/:id", handleUpdateMapping)
+  .post("/api/mappings/:id/transitions", handleMappingTransition)
+  .get("/api/mappings/:id/history", handleMappingHistory)
+  .get("/api/mappings/:id/_history", handleMappingVersions)
+  .get("/api/mappings/:id/_history/:vid", handleMappingVersion);
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(() => {
+  state.repo = createFileTerminologyRepository(
+    mkdtempSync(path.join(tmpdir(), "mappings-")),
+  );
+  state.audit = [];
+});
+
+async function call(
+  user: string,
+  route: string,
+  body?: unknown,
+  method = body === undefined ? "GET" : "POST",
+) {
+  const res = await fetch(`${base}${route}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${user}`,
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+const transition = (user: string, id: string, body: object) =>
+  call(user, `/api/mappings/${id}/transitions`, body);
+
+// A draft by the author, proposed and assigned to the reviewer
+async function underReview() {
+  const created = await call("author", "/api/mappings", {
+    namaste_code: "AYR-900",
+    namaste_name: "Jwara",
+    icd11_code: "MG26",
+    equivalence: "equivalent",
+    category: "Ayurveda",
+  });
+  const { id } = created.body as CodemapRow;
+
+  await transition("author", id, { action: "propose" });
+  await transition("lead", id, {
+    action: "assign",
+    reviewer: "reviewer@caresync.com",
+  });
+  return id;
+}
+
+describe("mapping routes", () => {
+  it("should take a mapping through review to approval", async () => {
+    const id = await underReview();
+
+    expect(await transition("lead", id, { action: "approve" })).toMatchObject({
+      status: 403,
+    });
+    expect(
+      await transition("reviewer", id, { action: "reject" }),
+    ).toMatchObject({ status: 400 });
+
+    const approved = await transition("reviewer", id, { action: "approve" });
+    expect(approved).toMatchObject({
+      status: 200,
+      body: {
+        mapping: { status: "approved", reviewer: "reviewer@caresync.com" },
+        entry: { action: "approve", actor: "reviewer@caresync.com" },
+      },
+    });
+
+    const { body } = await call("author", `/api/mappings/${id}/history`);
+    expect(
+      body.history.map((entry: { action: string }) => entry.action),
+    ).toEqual(["propose", "assign", "approve"]);
+  });
+
+  it("should send a rejected mapping back to its author", async () => {
+    const id = await underReview();
+
+    expect(
+      await transition("reviewer", id, {
+        action: "reject",
+        justification: "Target is too broad",
+      }),
+    ).toMatchObject({ status: 200, body: { mapping: { status: "rejected" } } });
+    expect(await transition("author", id, { action: "rework" })).toMatchObject({
+      status: 200,
+      body: { mapping: { status: "draft", reviewer: null } },
+    });
+  });
+
+  it("should never let the proposer review their own mapping", async () => {
+    const created = await call("author", "/api/mappings", {
+      namaste_code: "AYR-900",
+      icd11_code: "MG26",
+      category: "Ayurveda",
+    });
+    const { id } = created.body as CodemapRow;
+    await transition("author", id, { action: "propose" });
+
+    expect(
+      await transition("lead", id, {
+        action: "assign",
+        reviewer: "Author@caresync.com",
+      }),
+    ).toMatchObject({ status: 403 });
+  });
+
+  it("should review an approved mapping again after an edit", async () => {
+    const id = await underReview();
+    await transition("reviewer", id, { action: "approve" });
+
+    // Only admins may edit approved mappings
+    const edited = await call(
+      "lead",
+      `/api/mappings/${id}`,
+      { symptoms: "Fever with chills", updated_at: "*" },
+      "PATCH",
+    );
+    expect(edited).toMatchObject({
+      status: 200,
+      body: {
+        status: "proposed",
+        proposed_by: "lead@caresync.com",
+        edited_by: "lead@caresync.com",
+        reviewer: null,
+      },
+    });
+
+    // Whoever edited it never reviews it
+    expect(
+      await transition("lead", id, {
+        action: "assign",
+        reviewer: "lead@caresync.com",
+      }),
+    ).toMatchObject({ status: 403 });
+    await transition("lead", id, {
+      action: "assign",
+      reviewer: "reviewer@caresync.com",
+    });
+    expect(
+      await transition("reviewer", id, { action: "approve" }),
+    ).toMatchObject({ status: 200, body: { mapping: { status: "approved" } } });
+
+    const { body } = await call("author", `/api/mappings/${id}/history`);
+    expect(
+      body.history.map((entry: { action: string }) => entry.action),
+    ).toEqual(["propose", "assign", "approve", "propose", "assign", "approve"]);
+  });
+
+  it("should keep a version of the mapping for every write", async () => {
+    const id = await underReview();
+
+    const { body } = await call("author", `/api/mappings/${id}/_history`);
+    expect(
+      body.versions.map(
+        (version: { version_id: number; row: CodemapRow }) =>
+          `${version.version_id} ${version.row.status}`,
+      ),
+    ).toEqual(["3 under_review", "2 proposed", "1 draft"]);
+
+    const first = await fetch(`${base}/api/mappings/${id}/_history/1`);
+    expect(first.status).toBe(200);
+    expect(await first.json()).toMatchObject({ id, status: "draft" });
+    expect(first.headers.get("etag")).toBeTruthy();
+
+    expect(
+      await call("author", `/api/mappings/${id}/_history/9`),
+    ).toMatchObject({ status: 404 });
+    expect(
+      await call("author", "/api/mappings/missing/_history"),
+    ).toMatchObject({ status: 404 });
+  });
+
+  it("should not write or record a transition that lost a race", async () => {
+    const id = await underReview();
+    const repo = state.repo!;
+    // Someone else edits the row right after the handler reads it
+    state.repo = {
+      ...repo,
+      async findById(rowId) {
+        const row = await repo.findById(rowId);
+        await repo.update(rowId, { symptoms: "Edited meanwhile" });
+        return row;
+      },
+    };
+    state.audit = [];
+
+    const res = await transition("reviewer", id, { action: "approve" });
+    expect(res).toMatchObject({
+      status: 412,
+      body: { current: { status: "under_review" } },
+    });
+    expect((await repo.findById(id))?.status).toBe("under_review");
+    expect(await repo.listHistory(id)).toHaveLength(2);
+    expect(state.audit).toEqual([]);
+  });
+
+  it("should fail the whole batch on one rejected item", async () => {
+    const repo = state.repo!;
+    const approved = (await repo.findById("seed-ayr-001"))!;
+
+    const res = await call("author", "/api/mappings/bulk", {
+      create: [
+        { namaste_code: "AYR-900", icd11_code: "MG26", category: "Ayurveda" },
+      ],
+      update: [
+        {
+          id: approved.id,
+          updated_at: mappingVersion(approved),
+          symptoms: "Edited",
+        },
+      ],
+    });
+    expect(res).toMatchObject({ status: 403, body: { item: { update: 0 } } });
+    expect(await repo.findByNamasteCode("AYR-900")).toBeNull();
+  });
+
+  it("should report items changed by someone else during the batch", async () => {
+    const repo = state.repo!;
+    const rows = await Promise.all(
+      ["seed-ayr-001", "seed-sid-045"].map(
+        async (id) => (await repo.findById(id))!,
+      ),
+    );
+    // The first write changes the second row too, as another user would
+    state.repo = {
+      ...repo,
+      async update(id, patch, expectedVersion) {
+        await repo.update("seed-sid-045", { symptoms: "Edited meanwhile" });
+        return repo.update(id, patch, expectedVersion);
+      },
+    };
+
+    const res = await call("lead", "/api/mappings/bulk", {
+      update: [
+        { id: rows[0].id, updated_at: mappingVersion(rows[0]), symptoms: "A" },
+      ],
+      delete: [{ id: rows[1].id, updated_at: mappingVersion(rows[1]) }],
+    });
+    expect(res).toMatchObject({
+      status: 200,
+      body: { deleted: [], stale: ["seed-sid-045"] },
+    });
+    expect(res.body.updated.map((row: CodemapRow) => row.id)).toEqual([
+      "seed-ayr-001",
+    ]);
+    expect(await repo.findById("seed-sid-045")).not.toBeNull();
+  });
+});
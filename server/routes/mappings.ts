@@ -0,0 +1,619 @@
+import { Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import type {
+  CodemapBulkResponse,
+  CodemapFields,
+  CodemapListResponse,
+  CodemapRow,
+  CodemapSortField,
+  MappingEquivalence,
+} from "@shared/api";
+import {
+  CODEMAP_SORT_FIELDS,
+  MAPPING_EQUIVALENCES,
+  mappingVersion,
+} from "../../shared/codemap";
+import { MAPPING_STATUSES, type MappingStatus } from "../../shared/workflow";
+import { recordAudit } from "../audit";
+import { mappingAuditEvent } from "../audit/events";
+import { getTerminologyRepository } from "../terminology";
+import {
+  planMappingCreate,
+  planMappingDelete,
+  planMappingUpdate,
+  type MappingRejection,
+  type MappingUpdatePlan,
+} from "../terminology/mappingRules";
+import {
+  sortValue,
+  type CodemapCursor,
+  type NewCodemapRow,
+  type TerminologyRepository,
+} from "../terminology/repository";
+import { planTransition } from "../terminology/workflow";
+import { getRequestUser, type RequestUser } from "../utils/requestUser";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const listSchema = z
+  .object({
+    q: z.string().trim().optional(),
+    category: z.enum(["Ayurveda", "Siddha", "Unani"]).optional(),
+    // Comma-separated, e.g. "draft,rejected"
+    status: z
+      .string()
+      .transform((value) => value.split(",").filter(Boolean))
+      .pipe(
+        z.array(
+          z.enum(MAPPING_STATUSES as [MappingStatus, ...MappingStatus[]]),
+        ),
+      )
+      .optional(),
+    min_confidence: z.coerce.number().min(0).max(1).optional(),
+    max_confidence: z.coerce.number().min(0).max(1).optional(),
+    created_by: z.string().trim().optional(),
+    // Whole UTC days, both ends included
+    created_from: z.string().date().optional(),
+    created_to: z.string().date().optional(),
+    sort: z
+      .enum(CODEMAP_SORT_FIELDS as [CodemapSortField, ...CodemapSortField[]])
+      .default("created_at"),
+    order: z.enum(["asc", "desc"]).default("desc"),
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+  })
+  .refine(
+    (query) =>
+      query.min_confidence === undefined ||
+      query.max_confidence === undefined ||
+      query.min_confidence <= query.max_confidence,
+  );
+
+// Cursors are opaque to clients: the keyset position plus the sort it
+// belongs to, so a cursor is never applied to a different ordering
+const encodeCursor = (
+  row: CodemapRow,
+  sort: CodemapSortField,
+  order: "asc" | "desc",
+) =>
+  Buffer.from(
+    JSON.stringify([sort, order, sortValue(row, sort), row.id]),
+  ).toString("base64url");
+
+function decodeCursor(
+  cursor: string,
+  sort: CodemapSortField,
+  order: "asc" | "desc",
+): CodemapCursor | null {
+  try {
+    const [cursorSort, cursorOrder, value, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf-8"),
+    );
+    if (cursorSort !== sort || cursorOrder !== order) return null;
+    if (typeof id !== "string") return null;
+    if (value !== null && !["string", "number"].includes(typeof value)) {
+      return null;
+    }
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+// Blank optional text is stored as null
+const optionalText = z
+  .string()
+  .trim()
+  .nullable()
+  .optional()
+  .transform((value) => value || null);
+
+// Unknown keys, status and review fields included, are dropped: those
+// only change through POST /api/mappings/:id/transitions. Without
+// strictNullChecks zod infers every key as optional, hence the casts to
+// CodemapFields below.
+const fieldsSchema = z.object({
+  namaste_code: z.string().trim().min(1),
+  namaste_name: optionalText,
+  icd11_code: z.string().trim().toUpperCase().default(""),
+  icd11_name: optionalText,
+  icd11_extensions: z
+    .array(z.string().trim().toUpperCase())
+    .nullable()
+    .default([]),
+  equivalence: z
+    .enum(MAPPING_EQUIVALENCES as [MappingEquivalence, ...MappingEquivalence[]])
+    .nullable()
+    .default(null),
+  category: z.enum(["Ayurveda", "Siddha", "Unani"]),
+  symptoms: optionalText,
+  description: optionalText,
+  confidence: z.number().min(0).max(1).nullable().default(null),
+});
+
+const patchSchema = fieldsSchema
+  .partial()
+  .extend({ updated_at: z.string().optional() });
+
+const versionRefSchema = z.object({ id: z.string(), updated_at: z.string() });
+
+const bulkSchema = z.object({
+  create: z.array(fieldsSchema).max(500).default([]),
+  update: z
+    .array(fieldsSchema.partial().merge(versionRefSchema))
+    .max(500)
+    .default([]),
+  delete: z.array(versionRefSchema).max(500).default([]),
+});
+
+// If-Match wins over a body `updated_at`; weak validators and quotes are
+// ignored since versions are plain timestamps
+function expectedVersion(req: Request, bodyVersion?: string) {
+  const header = req.get("if-match")?.trim();
+  if (header) return header.replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+  return bodyVersion;
+}
+
+const STALE: MappingRejection = {
+  status: 412,
+  error: "The mapping was changed by someone else; reload and try again",
+};
+
+// A 412 also returns the row as it is now, so the client can show it
+const sendRejection = (
+  res: Response,
+  rejection: MappingRejection,
+  current: CodemapRow | null,
+) => {
+  res
+    .status(rejection.status)
+    .json(
+      rejection.status === 412
+        ? { error: rejection.error, current }
+        : { error: rejection.error },
+    );
+};
+
+const sendMapping = (res: Response, row: CodemapRow, status = 200) => {
+  res.set("ETag", `"${mappingVersion(row)}"`);
+  res.status(status).json(row);
+};
+
+export const handleListMappings: RequestHandler = async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid query parameters" });
+    return;
+  }
+
+  const { sort, order, cursor, limit, ...filters } = parsed.data;
+  const after = cursor ? decodeCursor(cursor, sort, order) : undefined;
+  if (after === null) {
+    res.status(400).json({ error: "Invalid cursor for this sort order" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const page = await repo.listPage({
+      q: filters.q,
+      category: filters.category,
+      statuses: filters.status,
+      minConfidence: filters.min_confidence,
+      maxConfidence: filters.max_confidence,
+      createdBy: filters.created_by,
+      createdFrom: filters.created_from
+        ? new Date(filters.created_from).toISOString()
+        : undefined,
+      createdBefore: filters.created_to
+        ? new Date(Date.parse(filters.created_to) + DAY_MS).toISOString()
+        : undefined,
+      sort,
+      order,
+      after,
+      limit,
+    });
+
+    // One-to-many mappings can straddle pages, so count every target
+    const namasteCodes = Array.from(
+      new Set(page.rows.map((row) => row.namaste_code)),
+    );
+    const targets = namasteCodes.length
+      ? await repo.list({ namasteCodes })
+      : [];
+    const targetCounts: Record<string, number> = {};
+    for (const row of targets) {
+      targetCounts[row.namaste_code] =
+        (targetCounts[row.namaste_code] ?? 0) + 1;
+    }
+
+    const last = page.rows[page.rows.length - 1];
+    const response: CodemapListResponse = {
+      mappings: page.rows,
+      total: page.total,
+      next_cursor:
+        page.hasMore && last ? encodeCursor(last, sort, order) : null,
+      target_counts: targetCounts,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("List mappings error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleGetMapping: RequestHandler = async (req, res) => {
+  try {
+    const row = await getTerminologyRepository().findById(req.params.id);
+
+    if (!row) {
+      res.status(404).json({ error: "Mapping not found" });
+      return;
+    }
+
+    sendMapping(res, row);
+  } catch (error) {
+    console.error("Get mapping error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleCreateMapping: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to create mappings" });
+    return;
+  }
+
+  const parsed = fieldsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid mapping" });
+    return;
+  }
+
+  const plan = planMappingCreate(parsed.data as CodemapFields, user);
+  if ("error" in plan) {
+    res.status(plan.status).json({ error: plan.error });
+    return;
+  }
+
+  try {
+    const [row] = await getTerminologyRepository().insertMany([plan.row]);
+    await recordAudit([
+      mappingAuditEvent("create", row, { agent: user.email, source: "app" }),
+    ]);
+    sendMapping(res, row, 201);
+  } catch (error) {
+    console.error("Create mapping error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleUpdateMapping: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to edit mappings" });
+    return;
+  }
+
+  const parsed = patchSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid mapping" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const row = await repo.findById(req.params.id);
+
+    if (!row) {
+      res.status(404).json({ error: "Mapping not found" });
+      return;
+    }
+
+    const { updated_at, ...fields } = parsed.data;
+    const plan = planMappingUpdate(
+      row,
+      fields,
+      user,
+      expectedVersion(req, updated_at),
+    );
+
+    if ("error" in plan) {
+      sendRejection(res, plan, row);
+      return;
+    }
+
+    // Guarded again in the store, in case of a write since findById
+    const updated = await repo.update(row.id, plan.patch, mappingVersion(row));
+    if (!updated) {
+      sendRejection(res, STALE, await repo.findById(row.id));
+      return;
+    }
+
+    if (plan.entry) await repo.appendHistory(plan.entry);
+    await recordAudit([
+      mappingAuditEvent("update", updated, {
+        agent: user.email,
+        source: "app",
+      }),
+    ]);
+    sendMapping(res, updated);
+  } catch (error) {
+    console.error("Update mapping error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleDeleteMapping: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to delete mappings" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const row = await repo.findById(req.params.id);
+
+    if (!row) {
+      res.status(404).json({ error: "Mapping not found" });
+      return;
+    }
+
+    const rejection = planMappingDelete(row, user, expectedVersion(req));
+    if (rejection) {
+      sendRejection(res, rejection, row);
+      return;
+    }
+
+    if (!(await repo.remove(row.id, mappingVersion(row)))) {
+      sendRejection(res, STALE, await repo.findById(row.id));
+      return;
+    }
+
+    await recordAudit([
+      mappingAuditEvent("delete", row, { agent: user.email, source: "app" }),
+    ]);
+    res.status(204).end();
+  } catch (error) {
+    console.error("Delete mapping error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+type BulkPlan = {
+  create: NewCodemapRow[];
+  update: (MappingUpdatePlan & { id: string; version: string })[];
+  delete: { row: CodemapRow; version: string }[];
+};
+
+// Checks every item of a bulk request; the first rejection carries the
+// position of the offending item, e.g. `{ update: 2 }`
+async function planBulk(
+  repo: TerminologyRepository,
+  user: RequestUser,
+  request: z.infer<typeof bulkSchema>,
+): Promise<
+  (MappingRejection & { item: Record<string, number> }) | { plan: BulkPlan }
+> {
+  const plan: BulkPlan = { create: [], update: [], delete: [] };
+  const missing = { status: 404, error: "Mapping not found" };
+
+  for (const [index, fields] of request.create.entries()) {
+    const created = planMappingCreate(fields as CodemapFields, user);
+    if ("error" in created) return { ...created, item: { create: index } };
+    plan.create.push(created.row);
+  }
+
+  for (const [
+    index,
+    { id, updated_at, ...fields },
+  ] of request.update.entries()) {
+    const row = await repo.findById(id);
+    if (!row) return { ...missing, item: { update: index } };
+
+    const updated = planMappingUpdate(row, fields, user, updated_at);
+    if ("error" in updated) return { ...updated, item: { update: index } };
+    plan.update.push({ ...updated, id, version: mappingVersion(row) });
+  }
+
+  for (const [index, { id, updated_at }] of request.delete.entries()) {
+    const row = await repo.findById(id);
+    if (!row) return { ...missing, item: { delete: index } };
+
+    const rejection = planMappingDelete(row, user, updated_at);
+    if (rejection) return { ...rejection, item: { delete: index } };
+    plan.delete.push({ row, version: mappingVersion(row) });
+  }
+
+  return { plan };
+}
+
+// Every item is checked before anything is written, and one rejection
+// fails the whole batch. A row someone else changes between the check and
+// its write is left alone and listed in `stale`.
+export const handleBulkMappings: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to edit mappings" });
+    return;
+  }
+
+  const parsed = bulkSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid bulk request" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const planned = await planBulk(repo, user, parsed.data);
+
+    if ("error" in planned) {
+      res
+        .status(planned.status)
+        .json({ error: planned.error, item: planned.item });
+      return;
+    }
+
+    const { plan } = planned;
+    const result: CodemapBulkResponse = {
+      created: await repo.insertMany(plan.create),
+      updated: [],
+      deleted: [],
+      stale: [],
+    };
+    for (const { id, patch, entry, version } of plan.update) {
+      const updated = await repo.update(id, patch, version);
+      if (!updated) {
+        result.stale.push(id);
+        continue;
+      }
+
+      if (entry) await repo.appendHistory(entry);
+      result.updated.push(updated);
+    }
+    const deleted: CodemapRow[] = [];
+    for (const { row, version } of plan.delete) {
+      if (await repo.remove(row.id, version)) deleted.push(row);
+      else result.stale.push(row.id);
+    }
+    result.deleted = deleted.map((row) => row.id);
+
+    const context = { agent: user.email, source: "app" as const };
+    await recordAudit([
+      ...result.created.map((row) => mappingAuditEvent("create", row, context)),
+      ...result.updated.map((row) => mappingAuditEvent("update", row, context)),
+      ...deleted.map((row) => mappingAuditEvent("delete", row, context)),
+    ]);
+    res.json(result);
+  } catch (error) {
+    console.error("Bulk mappings error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const transitionSchema = z.object({
+  action: z.enum([
+    "propose",
+    "withdraw",
+    "assign",
+    "approve",
+    "reject",
+    "rework",
+    "deprecate",
+  ]),
+  reviewer: z.string().optional(),
+  justification: z.string().optional(),
+});
+
+export const handleMappingTransition: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to change a mapping's status" });
+    return;
+  }
+
+  const parsed = transitionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid transition" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const row = await repo.findById(req.params.id);
+
+    if (!row) {
+      res.status(404).json({ error: "Mapping not found" });
+      return;
+    }
+
+    const plan = planTransition(row, {
+      action: parsed.data.action,
+      actor: user.email,
+      reviewer: parsed.data.reviewer,
+      justification: parsed.data.justification,
+    });
+
+    if ("error" in plan) {
+      res.status(plan.status).json({ error: plan.error });
+      return;
+    }
+
+    // The plan was made for the row as read; a transition that lost a
+    // race is neither written nor recorded in the history
+    const mapping = await repo.update(row.id, plan.patch, mappingVersion(row));
+    if (!mapping) {
+      sendRejection(res, STALE, await repo.findById(row.id));
+      return;
+    }
+
+    const entry = await repo.appendHistory(plan.entry);
+    await recordAudit([
+      mappingAuditEvent("update", mapping, {
+        agent: user.email,
+        source: "app",
+      }),
+    ]);
+    res.json({ mapping, entry });
+  } catch (error) {
+    console.error("Mapping transition error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleMappingHistory: RequestHandler = async (req, res) => {
+  try {
+    const history = await getTerminologyRepository().listHistory(req.params.id);
+    res.json({ history, total: history.length });
+  } catch (error) {
+    console.error("Mapping history error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Every version the mapping's writes left, newest first
+export const handleMappingVersions: RequestHandler = async (req, res) => {
+  try {
+    const versions = await getTerminologyRepository().listVersions(
+      req.params.id,
+    );
+    if (!versions.length) {
+      res.status(404).json({ error: "Mapping not found" });
+      return;
+    }
+
+    res.json({ versions, total: versions.length });
+  } catch (error) {
+    console.error("Mapping versions error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// The mapping as one version left it; 410 for the version that deleted it
+export const handleMappingVersion: RequestHandler = async (req, res) => {
+  const { id, vid } = req.params;
+
+  try {
+    const version = /^\d+$/.test(vid)
+      ? await getTerminologyRepository().findVersion(id, Number(vid))
+      : null;
+    if (!version) {
+      res.status(404).json({ error: "Mapping version not found" });
+      return;
+    }
+    if (!version.row) {
+      res
+        .status(410)
+        .json({ error: `The mapping was deleted in version ${vid}` });
+      return;
+    }
+
+    sendMapping(res, version.row);
+  } catch (error) {
+    console.error("Mapping version error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -1,122 +1,148 @@
+import { randomUUID } from "crypto";
 import { RequestHandler } from "express";
 import { z } from "zod";
+import type {
+  AuditEventListResponse,
+  NewPatientRequest,
+  PatientDiagnosisRow,
+  PatientListResponse,
+  PatientRow,
+} from "@shared/api";
+import type { Bundle } from "@shared/fhir";
+import { getPatientRepository, PATIENT_CONFLICT_MESSAGES } from "../patients";
+import {
+  singleWrite,
+  type NewPatient,
+  type NewPatientDiagnosis,
+} from "../patients/repository";
+import { getAuditRepository } from "../audit";
+import {
+  diagnosisAuditEvent,
+  patientAuditEvent,
+  patientDeletionAuditEvents,
+} from "../audit/events";
+import { fhirBaseUrl } from "../fhir/bundle";
+import { patientRecordComposition } from "../fhir/composition";
+import {
+  conditionMappings,
+  resolveConditionCodes,
+  toFhirCondition,
+} from "../fhir/condition";
+import { toFhirPatient } from "../fhir/patient";
+import { sendResource } from "../fhir/operationOutcome";
+import { DOCUMENT_BUNDLE_PROFILE } from "../fhir/profiles";
+import { ifMatchVersion } from "../fhir/versioning";
+import {
+  hasErrors,
+  validateResource,
+  validationOutcome,
+} from "../fhir/validation";
+import { getTerminologyRepository } from "../terminology";
+import { getRequestUser } from "../utils/requestUser";
 
-interface FHIRPatient {
-  resourceType: "Patient";
-  id: string;
-  name: Array<{
-    use: string;
-    given: string[];
-    family: string;
-  }>;
-  birthDate?: string;
-  gender?: string;
-  contact?: Array<{
-    system: string;
-    value: string;
-  }>;
-}
-
-interface Diagnosis {
-  code: string;
-  icd11Code: string;
-  description: string;
-  recordedDate: string;
-}
-
-interface PatientRecord {
-  id: string;
-  patient: FHIRPatient;
-  diagnoses: Diagnosis[];
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Mock patients database
-const mockPatients: Map<string, PatientRecord> = new Map([
-  [
-    "P001",
-    {
-      id: "P001",
-      patient: {
-        resourceType: "Patient",
-        id: "P001",
-        name: [
-          {
-            use: "official",
-            given: ["John"],
-            family: "Doe",
-          },
-        ],
-        birthDate: "1980-01-15",
-        gender: "male",
-      },
-      diagnoses: [
-        {
-          code: "AYR-001",
-          icd11Code: "BA25.1",
-          description: "Vata Vyadhi (Wind Disorder)",
-          recordedDate: "2024-01-10",
-        },
-      ],
-      createdAt: "2024-01-01",
-      updatedAt: "2024-01-10",
-    },
-  ],
-]);
+// Blank optional text is stored as null
+const optionalText = z
+  .string()
+  .trim()
+  .nullable()
+  .optional()
+  .transform((value) => value || null);
+
+const optionalDate = z
+  .union([z.string().date(), z.literal(""), z.null()])
+  .optional()
+  .transform((value) => value || null);
+
+const listPatientsSchema = z.object({
+  q: z.string().trim().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
 
 const createPatientSchema = z.object({
-  firstName: z.string(),
-  lastName: z.string(),
-  birthDate: z.string().optional(),
-  gender: z.enum(["male", "female", "other"]).optional(),
+  first_name: z.string().trim().min(1),
+  last_name: z.string().trim().min(1),
+  date_of_birth: optionalDate,
+  gender: z
+    .enum(["male", "female", "other"])
+    .nullable()
+    .optional()
+    .transform((value) => value ?? null),
+  admit_date: optionalDate,
+  diagnosis: optionalText,
+  email: z
+    .union([z.string().trim().email(), z.literal(""), z.null()])
+    .optional()
+    .transform((value) => value || null),
+  phone: optionalText,
+  guardian_name: optionalText,
+  guardian_phone: optionalText,
+  address: optionalText,
 });
 
 const addDiagnosisSchema = z.object({
-  code: z.string(),
-  icd11Code: z.string(),
-  description: z.string(),
+  namaste_code: z.string().trim().min(1),
+  icd11_code: z.string().trim().min(1).optional(),
+  symptoms: optionalText,
+  clinical_notes: optionalText,
 });
 
-export const handleCreatePatient: RequestHandler = (req, res) => {
-  try {
-    const data = createPatientSchema.parse(req.body);
-
-    const id = `P${Date.now()}`;
-    const patient: FHIRPatient = {
-      resourceType: "Patient",
-      id,
-      name: [
-        {
-          use: "official",
-          given: [data.firstName],
-          family: data.lastName,
-        },
-      ],
-      birthDate: data.birthDate,
-      gender: data.gender,
-    };
+export const handleCreatePatient: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to register patients" });
+    return;
+  }
+
+  const parsed = createPatientSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid patient data" });
+    return;
+  }
 
-    const record: PatientRecord = {
-      id,
-      patient,
-      diagnoses: [],
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+  try {
+    const id = randomUUID();
+    const patient: NewPatient = {
+      ...(parsed.data as NewPatientRequest),
+      user_id: user.id || null,
+      identifiers: [],
     };
+    const saved = singleWrite<PatientRow>(
+      await getPatientRepository().applyWrites(
+        [{ action: "insert-patient", id, patient }],
+        [
+          patientAuditEvent(
+            "create",
+            { ...patient, id, version_id: 1 },
+            { agent: user.email, source: "app" },
+          ),
+        ],
+      ),
+    )!;
 
-    mockPatients.set(id, record);
+    if ("conflict" in saved) {
+      res
+        .status(409)
+        .json({ error: PATIENT_CONFLICT_MESSAGES[saved.conflict] });
+      return;
+    }
 
-    res.status(201).json(record);
+    res.status(201).json(saved);
   } catch (error) {
-    res.status(400).json({ error: "Invalid patient data" });
+    console.error("Create patient error:", error);
+    res.status(500).json({ error: "Internal server error" });
   }
 };
 
-export const handleGetPatient: RequestHandler = (req, res) => {
+export const handleGetPatient: RequestHandler = async (req, res) => {
+  if (!getRequestUser(req)) {
+    res.status(401).json({ error: "Sign in to view patients" });
+    return;
+  }
+
   try {
-    const { patientId } = req.params;
-    const patient = mockPatients.get(patientId);
+    const patient = await getPatientRepository().findPatientById(
+      req.params.patientId,
+    );
 
     if (!patient) {
       res.status(404).json({ error: "Patient not found" });
@@ -125,89 +151,345 @@ export const handleGetPatient: RequestHandler = (req, res) => {
 
     res.json(patient);
   } catch (error) {
+    console.error("Get patient error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
 
-export const handleListPatients: RequestHandler = (_req, res) => {
+export const handleListPatients: RequestHandler = async (req, res) => {
+  if (!getRequestUser(req)) {
+    res.status(401).json({ error: "Sign in to view patients" });
+    return;
+  }
+
+  const parsed = listPatientsSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid query parameters" });
+    return;
+  }
+
   try {
-    const patients = Array.from(mockPatients.values());
-    res.json({ patients, total: patients.length });
+    const patients = await getPatientRepository().listPatients(parsed.data);
+    const response: PatientListResponse = {
+      patients,
+      total: patients.length,
+    };
+    res.json(response);
   } catch (error) {
+    console.error("List patients error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
 
-export const handleAddDiagnosis: RequestHandler = (req, res) => {
+const STALE_RECORD =
+  "The record was changed by someone else; reload and try again";
+
+// If-Match names the version_id the client last saw. Without it, the
+// write applies to whatever version is current.
+const isStale = (
+  header: string | undefined,
+  current: { version_id: number },
+) => {
+  const expected = ifMatchVersion(header);
+  return expected !== undefined && expected !== current.version_id;
+};
+
+// Diagnoses go with the patient
+export const handleDeletePatient: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to delete patients" });
+    return;
+  }
+
   try {
-    const { patientId } = req.params;
-    const data = addDiagnosisSchema.parse(req.body);
+    const repo = getPatientRepository();
+    const patient = await repo.findPatientById(req.params.patientId);
 
-    const patient = mockPatients.get(patientId);
     if (!patient) {
       res.status(404).json({ error: "Patient not found" });
       return;
     }
 
-    const diagnosis: Diagnosis = {
-      ...data,
-      recordedDate: new Date().toISOString().split("T")[0],
-    };
+    const diagnoses = await repo.listDiagnoses({ patientIds: [patient.id] });
+
+    // A 412 also returns the row as it is now, as for mappings
+    if (
+      isStale(req.get("if-match"), patient) ||
+      !(
+        "rows" in
+        (await repo.applyWrites(
+          [
+            {
+              action: "delete-patient",
+              id: patient.id,
+              expectedVersion: patient.version_id,
+            },
+          ],
+          patientDeletionAuditEvents(
+            patient,
+            diagnoses,
+            { agent: user.email, source: "app" },
+            await conditionMappings(getTerminologyRepository(), diagnoses),
+          ),
+        ))
+      )
+    ) {
+      res.status(412).json({
+        error: STALE_RECORD,
+        current: await repo.findPatientById(patient.id),
+      });
+      return;
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Delete patient error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleListDiagnoses: RequestHandler = async (req, res) => {
+  if (!getRequestUser(req)) {
+    res.status(401).json({ error: "Sign in to view diagnoses" });
+    return;
+  }
 
-    patient.diagnoses.push(diagnosis);
-    patient.updatedAt = new Date().toISOString();
+  try {
+    const repo = getPatientRepository();
+    const patient = await repo.findPatientById(req.params.patientId);
 
-    mockPatients.set(patientId, patient);
+    if (!patient) {
+      res.status(404).json({ error: "Patient not found" });
+      return;
+    }
 
-    res.status(201).json(diagnosis);
+    const diagnoses = await repo.listDiagnoses({ patientIds: [patient.id] });
+    res.json({ diagnoses, total: diagnoses.length });
   } catch (error) {
+    console.error("List diagnoses error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleAddDiagnosis: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to record diagnoses" });
+    return;
+  }
+
+  const parsed = addDiagnosisSchema.safeParse(req.body);
+  if (!parsed.success) {
     res.status(400).json({ error: "Invalid diagnosis data" });
+    return;
+  }
+
+  try {
+    const repo = getPatientRepository();
+    const patient = await repo.findPatientById(req.params.patientId);
+
+    if (!patient) {
+      res.status(404).json({ error: "Patient not found" });
+      return;
+    }
+
+    // Coded as a FHIR Condition would be: against a known NAMASTE
+    // concept, with its ICD-11 mapping when none was sent
+    const codes = await resolveConditionCodes(getTerminologyRepository(), {
+      namasteCode: parsed.data.namaste_code,
+      icd11Code: parsed.data.icd11_code ?? null,
+    });
+    if ("error" in codes) {
+      res.status(422).json({ error: codes.error });
+      return;
+    }
+
+    const id = randomUUID();
+    const diagnosis: NewPatientDiagnosis = {
+      ...codes,
+      symptoms: parsed.data.symptoms,
+      clinical_notes: parsed.data.clinical_notes,
+      clinical_status: "active",
+      verification_status: "confirmed",
+      recorded_by: user.email,
+      patient_id: patient.id,
+    };
+    const saved = singleWrite<PatientDiagnosisRow>(
+      await repo.applyWrites(
+        [{ action: "insert-diagnosis", id, diagnosis }],
+        [
+          diagnosisAuditEvent(
+            "create",
+            { ...diagnosis, id, version_id: 1 },
+            { agent: user.email, source: "app" },
+            await conditionMappings(getTerminologyRepository(), [diagnosis]),
+          ),
+        ],
+      ),
+    );
+
+    res.status(201).json(saved);
+  } catch (error) {
+    console.error("Add diagnosis error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleDeleteDiagnosis: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to delete diagnoses" });
+    return;
+  }
+
+  try {
+    const repo = getPatientRepository();
+    const [diagnosis] = (
+      await repo.listDiagnoses({ patientIds: [req.params.patientId] })
+    ).filter((row) => row.id === req.params.diagnosisId);
+
+    if (!diagnosis) {
+      res.status(404).json({ error: "Diagnosis not found" });
+      return;
+    }
+
+    if (
+      isStale(req.get("if-match"), diagnosis) ||
+      !(
+        "rows" in
+        (await repo.applyWrites(
+          [
+            {
+              action: "delete-diagnosis",
+              id: diagnosis.id,
+              expectedVersion: diagnosis.version_id,
+            },
+          ],
+          [
+            diagnosisAuditEvent(
+              "delete",
+              diagnosis,
+              { agent: user.email, source: "app" },
+              await conditionMappings(getTerminologyRepository(), [diagnosis]),
+            ),
+          ],
+        ))
+      )
+    ) {
+      res.status(412).json({
+        error: STALE_RECORD,
+        current: await repo.findDiagnosisById(diagnosis.id),
+      });
+      return;
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Delete diagnosis error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Every write that touched the patient or their diagnoses, newest first;
+// events outlive a deleted patient
+export const handleListPatientAudit: RequestHandler = async (req, res) => {
+  if (!getRequestUser(req)) {
+    res.status(401).json({ error: "Sign in to view patient history" });
+    return;
+  }
+
+  const parsed = listPatientsSchema.pick({ limit: true }).safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid query parameters" });
+    return;
+  }
+
+  try {
+    const { rows, total } = await getAuditRepository().searchAuditEvents({
+      patientId: req.params.patientId,
+      limit: parsed.data.limit ?? 100,
+    });
+    const response: AuditEventListResponse = { events: rows, total };
+    res.json(response);
+  } catch (error) {
+    console.error("List patient audit error:", error);
+    res.status(500).json({ error: "Internal server error" });
   }
 };
 
-export const handleExportPatientFHIR: RequestHandler = (req, res) => {
+export const handleExportPatientFHIR: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to export patients" });
+    return;
+  }
+
   try {
-    const { patientId } = req.params;
-    const patient = mockPatients.get(patientId);
+    const repo = getPatientRepository();
+    const patient = await repo.findPatientById(req.params.patientId);
 
     if (!patient) {
       res.status(404).json({ error: "Patient not found" });
       return;
     }
 
-    // Create a FHIR Bundle with Patient and Condition resources
-    const bundle = {
+    const diagnoses = await repo.listDiagnoses({ patientIds: [patient.id] });
+    // The whole codemap: displays for the Conditions, and the value sets
+    // their codes are validated against
+    const codemap = await getTerminologyRepository().list();
+
+    const base = fhirBaseUrl(req);
+    const timestamp = new Date().toISOString();
+    const subject = toFhirPatient(patient);
+    const conditions = diagnoses.map((diagnosis) =>
+      toFhirCondition(diagnosis, codemap),
+    );
+    const resources = [
+      patientRecordComposition(
+        randomUUID(),
+        subject,
+        conditions,
+        user.email,
+        timestamp,
+      ),
+      subject,
+      ...conditions,
+    ];
+
+    // A FHIR document Bundle: the Composition, then what it lists
+    const bundle: Bundle = {
       resourceType: "Bundle",
+      meta: { profile: [DOCUMENT_BUNDLE_PROFILE] },
+      identifier: {
+        system: "urn:ietf:rfc:3986",
+        value: `urn:uuid:${randomUUID()}`,
+      },
       type: "document",
-      timestamp: new Date().toISOString(),
-      entry: [
-        {
-          resource: patient.patient,
-        },
-        ...patient.diagnoses.map((diagnosis) => ({
-          resource: {
-            resourceType: "Condition",
-            id: `C${Date.now()}`,
-            code: {
-              coding: [
-                {
-                  system: "http://id.who.int/icd/release/11/mms",
-                  code: diagnosis.icd11Code,
-                  display: diagnosis.description,
-                },
-              ],
-            },
-            subject: {
-              reference: `Patient/${patient.id}`,
-            },
-            recordedDate: diagnosis.recordedDate,
-          },
-        })),
-      ],
+      timestamp,
+      entry: resources.map((resource) => ({
+        fullUrl: `${base}/${resource.resourceType}/${resource.id}`,
+        resource,
+      })),
     };
 
-    res.json(bundle);
+    // Nothing leaves that does not conform to the ABDM profiles
+    const issues = validateResource(bundle, codemap);
+    if (hasErrors(issues)) {
+      const errors = issues.filter((issue) => issue.severity === "error");
+      res.status(422).json({
+        error: `FHIR export failed validation: ${errors[0].diagnostics}${
+          errors.length > 1 ? ` (and ${errors.length - 1} more)` : ""
+        }`,
+        outcome: validationOutcome(issues),
+      });
+      return;
+    }
+
+    // JSON unless the request asks for XML
+    sendResource(res, bundle);
   } catch (error) {
+    console.error("Export patient error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
@@ -0,0 +1,119 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  it,
+  expect,
+  vi,
+} from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { NewAuditEvent } from "../audit/repository";
+import { createFileTerminologyRepository } from "../terminology/fileRepository";
+import type { TerminologyRepository } from "../terminology/repository";
+import { seedCodemap } from "../terminology/seed";
+import { authenticateRequest, type RequestUser } from "../utils/requestUser";
+import { handleCreateRelease } from "./releases";
+
+const state = vi.hoisted(() => ({
+  repo: null as TerminologyRepository | null,
+  audit: [] as NewAuditEvent[],
+}));
+
+vi.mock("../terminology", () => ({
+  getTerminologyRepository: () => state.repo,
+}));
+vi.mock("../audit", () => ({
+  recordAudit: async (events: NewAuditEvent[]) => {
+    state.audit.push(...events);
+  },
+}));
+
+// Bearer tokens are the users' names
+const USERS: Record<string, RequestUser> = {
+  author: { id: "u1", email: "author@caresync.com", role: "user" },
+  lead: { id: "u3", email: "lead@caresync.com", role: "admin" },
+};
+
+const app = express()
+  .use(authenticateRequest(async (token) => USERS[token] ?? null))
+  .post(
+    "/api/codes/releases",
+    express.raw({ type: "text/csv" }),
+    handleCreateRelease,
+  );
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(() => {
+  state.repo = createFileTerminologyRepository(
+    mkdtempSync(path.join(tmpdir(), "releases-")),
+  );
+  state.audit = [];
+});
+
+// Publishes the seeded NAMASTE codes, leaving out `without`
+async function publish(user: string, version: string, without: string[] = []) {
+  const codes = seedCodemap
+    .filter((row) => !without.includes(row.namaste_code))
+    .map((row) => `${row.namaste_code},${row.namaste_name}`);
+  const params = new URLSearchParams({ system: "namaste", version });
+
+  const res = await fetch(`${base}/api/codes/releases?${params}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${user}`, "Content-Type": "text/csv" },
+    body: ["code,display", ...codes].join("\n"),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+describe("release routes", () => {
+  it("should only let admins publish a release", async () => {
+    expect(await publish("author", "1.0")).toMatchObject({ status: 403 });
+    expect(await state.repo!.listReleases()).toEqual([]);
+  });
+
+  it("should mark mappings whose code the new release retires", async () => {
+    expect(await publish("lead", "1.0")).toMatchObject({
+      status: 201,
+      body: { diff: null, marked: 0 },
+    });
+
+    expect(await publish("lead", "2.0", ["AYR-001"])).toMatchObject({
+      status: 201,
+      body: { diff: { from: { version: "1.0" } }, marked: 1, stale: [] },
+    });
+    const retired = await state.repo!.findByNamasteCode("AYR-001");
+    expect(retired?.retired_in).toMatch(/2\.0/);
+    expect(state.audit).toHaveLength(1);
+  });
+
+  it("should finish marking when the latest release is published again", async () => {
+    await publish("lead", "1.0");
+    await publish("lead", "2.0", ["AYR-001"]);
+    const row = await state.repo!.findByNamasteCode("AYR-001");
+    await state.repo!.update(row!.id, { retired_in: null });
+
+    expect(await publish("lead", "2.0", ["AYR-001"])).toMatchObject({
+      status: 200,
+      body: { release: { version: "2.0" }, marked: 1 },
+    });
+    expect(await publish("lead", "2.0")).toMatchObject({ status: 409 });
+    expect(await publish("lead", "1.0")).toMatchObject({ status: 409 });
+    expect(await state.repo!.listReleases()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,250 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import type {
+  CodemapRow,
+  ReleaseCode,
+  ReleaseDiff,
+  TerminologyRelease,
+} from "@shared/api";
+import { mappingVersion } from "../../shared/codemap";
+import { recordAudit } from "../audit";
+import { mappingAuditEvent } from "../audit/events";
+import { getTerminologyRepository } from "../terminology";
+import type { TerminologyRepository } from "../terminology/repository";
+import {
+  formatForContentType,
+  readCodeList,
+} from "../terminology/codeListFiles";
+import {
+  diffReleases,
+  retirementChanges,
+  summarizeRelease,
+  tableToReleaseCodes,
+} from "../terminology/releases";
+import { getRequestUser } from "../utils/requestUser";
+
+const createQuerySchema = z.object({
+  system: z.enum(["namaste", "icd11"]),
+  version: z.string().trim().min(1),
+  format: z.enum(["csv", "xlsx"]).optional(),
+});
+
+export const handleListReleases: RequestHandler = async (_req, res) => {
+  try {
+    const releases = await getTerminologyRepository().listReleases();
+    res.json({
+      releases: releases.map(summarizeRelease),
+      total: releases.length,
+    });
+  } catch (error) {
+    console.error("List releases error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// How often a retirement mark is retried when its mapping changed since
+// the codemap was read
+const MARK_ATTEMPTS = 3;
+
+// Newest first by upload time, then by version for releases uploaded
+// within the same instant
+const byRecency = (a: TerminologyRelease, b: TerminologyRelease) =>
+  b.created_at.localeCompare(a.created_at) ||
+  b.version.localeCompare(a.version, undefined, { numeric: true });
+
+const sameCodes = (a: ReleaseCode[], b: ReleaseCode[]) => {
+  const key = (codes: ReleaseCode[]) =>
+    codes
+      .map((c) => `${c.code}\t${c.display}`)
+      .sort()
+      .join("\n");
+  return key(a) === key(b);
+};
+
+// Re-marks the codemap for `release`. Each mapping is written only if it
+// is still the version the marks were worked out from; mappings edited in
+// the meantime are re-read and retried, and any still changing are
+// returned as `stale`. Every mark is recomputed from the codemap, so
+// running this again for the same release picks up where it stopped.
+async function markRetirements(
+  repo: TerminologyRepository,
+  release: TerminologyRelease,
+  previous: TerminologyRelease | undefined,
+  agent: string,
+) {
+  let diff: ReleaseDiff | null = null;
+  let pending: Set<string> | null = null;
+  let marked = 0;
+  let cleared = 0;
+
+  for (let attempt = 0; attempt < MARK_ATTEMPTS; attempt++) {
+    const codemap = await repo.list();
+    const rows = new Map(codemap.map((row) => [row.id, row]));
+    const roundDiff = previous
+      ? diffReleases(previous, release, codemap)
+      : null;
+    diff ??= roundDiff;
+
+    const changes = retirementChanges(release, roundDiff, codemap).filter(
+      (change) => !pending || pending.has(change.id),
+    );
+    const updated: CodemapRow[] = [];
+    const stale = new Set<string>();
+    for (const change of changes) {
+      const row = await repo.update(
+        change.id,
+        { retired_in: change.retired_in },
+        mappingVersion(rows.get(change.id)!),
+      );
+      if (!row) {
+        stale.add(change.id);
+        continue;
+      }
+      updated.push(row);
+      if (change.retired_in) marked++;
+      else cleared++;
+    }
+    await recordAudit(
+      updated.map((row) =>
+        mappingAuditEvent("update", row, { agent, source: "release" }),
+      ),
+    );
+
+    pending = stale;
+    if (!stale.size) break;
+  }
+
+  return { diff, marked, cleared, stale: [...(pending ?? [])] };
+}
+
+// Stores an uploaded code list as a new version, diffs it against the
+// previous version of the same system and re-marks retired mappings.
+// Uploading the latest version again with the same codes only re-marks,
+// so a publish that failed part-way can be finished.
+export const handleCreateRelease: RequestHandler = async (req, res) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Sign in to publish a release" });
+    return;
+  }
+  if (user.role !== "admin") {
+    res.status(403).json({ error: "Only admins can publish a release" });
+    return;
+  }
+
+  const parsed = createQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "A system and version are required" });
+    return;
+  }
+
+  const { system, version } = parsed.data;
+  const format =
+    parsed.data.format ?? formatForContentType(req.headers["content-type"]);
+  if (format !== "csv" && format !== "xlsx") {
+    res.status(415).json({ error: "Send the release as CSV or XLSX" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const existing = (await repo.listReleases())
+      .filter((release) => release.system === system)
+      .sort(byRecency);
+    const published = existing.find((release) => release.version === version);
+
+    if (published && published !== existing[0]) {
+      res.status(409).json({ error: `Version ${version} already exists` });
+      return;
+    }
+
+    const table = await readCodeList(format, req.body);
+    if ("error" in table) {
+      res.status(400).json({ error: table.error });
+      return;
+    }
+
+    const codes = tableToReleaseCodes(table, system);
+    if (codes.length === 0) {
+      res.status(400).json({ error: "No codes found; expected a code column" });
+      return;
+    }
+    if (published && !sameCodes(published.codes, codes)) {
+      res.status(409).json({ error: `Version ${version} already exists` });
+      return;
+    }
+
+    const release =
+      published ??
+      (await repo.insertRelease({
+        system,
+        version,
+        created_by: user.email,
+        codes,
+      }));
+    const previous = existing.find((other) => other !== published);
+
+    res.status(published ? 200 : 201).json({
+      release: summarizeRelease(release),
+      ...(await markRetirements(repo, release, previous, user.email)),
+    });
+  } catch (error) {
+    console.error("Create release error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleGetRelease: RequestHandler = async (req, res) => {
+  try {
+    const release = await getTerminologyRepository().findReleaseById(
+      req.params.id,
+    );
+
+    if (!release) {
+      res.status(404).json({ error: "Release not found" });
+      return;
+    }
+
+    res.json(release);
+  } catch (error) {
+    console.error("Get release error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const diffQuerySchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+});
+
+export const handleDiffReleases: RequestHandler = async (req, res) => {
+  const parsed = diffQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Both from and to releases are required" });
+    return;
+  }
+
+  try {
+    const repo = getTerminologyRepository();
+    const [from, to] = await Promise.all([
+      repo.findReleaseById(parsed.data.from),
+      repo.findReleaseById(parsed.data.to),
+    ]);
+
+    if (!from || !to) {
+      res.status(404).json({ error: "Release not found" });
+      return;
+    }
+    if (from.system !== to.system) {
+      res
+        .status(400)
+        .json({ error: "Only releases of the same system can be compared" });
+      return;
+    }
+
+    res.json(diffReleases(from, to, await repo.list()));
+  } catch (error) {
+    console.error("Diff releases error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,70 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import type { MappingSuggestionResponse } from "@shared/api";
+import { getTerminologyRepository } from "../terminology";
+import {
+  getSuggestionProvider,
+  suggestionCandidates,
+} from "../terminology/suggestions";
+
+const suggestRequestSchema = z.object({
+  namaste_code: z.string().trim().min(1).optional(),
+  namaste_name: z.string().trim().min(1).optional(),
+  description: z.string().trim().optional(),
+  symptoms: z.string().trim().optional(),
+  category: z.enum(["Ayurveda", "Siddha", "Unani"]).optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+// Proposes ranked ICD-11 targets for a NAMASTE concept. Fields missing
+// from the request are filled in from the codemap when the code is known.
+export const handleSuggestMappings: RequestHandler = async (req, res) => {
+  const parsed = suggestRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid suggestion request" });
+    return;
+  }
+
+  try {
+    const { limit, ...request } = parsed.data;
+    const repo = getTerminologyRepository();
+    const [codemap, releases] = await Promise.all([
+      repo.list(),
+      repo.listReleases(),
+    ]);
+
+    const known = codemap.find(
+      (row) => row.namaste_code === request.namaste_code,
+    );
+    const namaste_name = request.namaste_name ?? known?.namaste_name;
+    if (!namaste_name) {
+      res
+        .status(400)
+        .json({ error: "A NAMASTE name or a known NAMASTE code is required" });
+      return;
+    }
+
+    const candidates = suggestionCandidates(releases, codemap);
+    const { provider, suggestions } = await getSuggestionProvider().suggest(
+      {
+        namaste_code: request.namaste_code,
+        namaste_name,
+        description: request.description || known?.description || undefined,
+        symptoms: request.symptoms || known?.symptoms || undefined,
+        category: request.category ?? known?.category,
+      },
+      { candidates, codemap },
+      limit,
+    );
+
+    const response: MappingSuggestionResponse = {
+      provider,
+      candidates: candidates.length,
+      suggestions,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Suggest mappings error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { planAutoMap, runAutoMapJob } from "./autoMap";
+import { createFileTerminologyRepository } from "./fileRepository";
+import { createLexicalSuggestionProvider } from "./suggestions";
+
+const setup = async () => {
+  const repo = createFileTerminologyRepository(
+    mkdtempSync(path.join(tmpdir(), "automap-")),
+  );
+  await repo.insertRelease({
+    system: "namaste",
+    version: "2025-01",
+    created_by: null,
+    codes: [
+      { code: "AYR-001", display: "Vata Vyadhi", category: "Ayurveda" },
+      { code: "AYR-200", display: "Jwara (Fever)", category: "Ayurveda" },
+      { code: "AYR-201", display: "Madhumeha", category: "Ayurveda" },
+      { code: "SID-300", display: "Suram", category: "Siddha" },
+    ],
+  });
+  await repo.insertRelease({
+    system: "icd11",
+    version: "2025-01",
+    created_by: null,
+    codes: [
+      { code: "MG26", display: "Fever of other or unknown origin" },
+      { code: "5A11", display: "Type 2 diabetes mellitus" },
+    ],
+  });
+  return repo;
+};
+
+const newJob = async (
+  repo: Awaited<ReturnType<typeof setup>>,
+  codes: string[],
+) =>
+  repo.insertAutoMapJob({
+    status: "running",
+    category: null,
+    min_confidence: 0.3,
+    max_per_code: 2,
+    codes,
+    processed: 0,
+    proposed: 0,
+    no_match: 0,
+    error: null,
+    created_by: "curator@example.com",
+  });
+
+describe("batch auto-map", () => {
+  it("should plan unmapped release codes and codes awaiting review", async () => {
+    const repo = await setup();
+    const plan = planAutoMap(await repo.list(), await repo.listReleases());
+
+    expect(plan).toEqual([
+      "AYR-200",
+      "AYR-201",
+      "SID-089",
+      "SID-300",
+      "UNA-012",
+    ]);
+    expect(
+      planAutoMap(await repo.list(), await repo.listReleases(), "Siddha"),
+    ).toEqual(["SID-089", "SID-300"]);
+  });
+
+  it("should store proposals, stop when cancelled and resume without duplicates", async () => {
+    const repo = await setup();
+    const job = await newJob(repo, ["AYR-200", "AYR-201", "SID-300"]);
+
+    // Cancel as soon as the first batch has been matched
+    const lexical = createLexicalSuggestionProvider();
+    const control = { cancelled: false };
+    const cancelling = {
+      ...lexical,
+      suggest: async (...args: Parameters<typeof lexical.suggest>) => {
+        control.cancelled = true;
+        return lexical.suggest(...args);
+      },
+    };
+
+    const stopped = await runAutoMapJob(job.id, repo, cancelling, control, 1);
+    expect(stopped).toMatchObject({ status: "cancelled", processed: 1 });
+
+    const resumed = await runAutoMapJob(
+      job.id,
+      repo,
+      lexical,
+      { cancelled: false },
+      1,
+    );
+    expect(resumed).toMatchObject({ status: "completed", processed: 3 });
+
+    const proposals = (await repo.list()).filter(
+      (row) => row.proposed_by === "auto-map",
+    );
+    expect(
+      proposals.map((row) => [row.namaste_code, row.icd11_code]).sort(),
+    ).toEqual([
+      ["AYR-200", "MG26"],
+      ["AYR-201", "5A11"],
+      ["AYR-201", "DA90"],
+      ["SID-300", "MG26"],
+    ]);
+    expect(proposals.every((row) => row.status === "proposed")).toBe(true);
+    expect(resumed!.proposed).toBe(4);
+    expect(await repo.listHistory(proposals[0].id)).toMatchObject([
+      { action: "propose", actor: "auto-map", to_status: "proposed" },
+    ]);
+
+    // A second run over the same codes finds nothing new to propose
+    const rerun = await newJob(repo, ["AYR-200", "AYR-201", "SID-300"]);
+    expect(
+      await runAutoMapJob(rerun.id, repo, lexical, { cancelled: false }),
+    ).toMatchObject({ status: "completed", proposed: 0, no_match: 3 });
+  });
+});
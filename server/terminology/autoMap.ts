@@ -0,0 +1,263 @@
+import type {
+  AutoMapJob,
+  AutoMapJobSummary,
+  CodeCategory,
+  CodemapRow,
+  TerminologyRelease,
+} from "@shared/api";
+import { normalizeStatus } from "../../shared/workflow";
+import { mappingAuditEvent, recordAuditEvents } from "../audit/events";
+import type { AuditRepository } from "../audit/repository";
+import type { NewCodemapRow, TerminologyRepository } from "./repository";
+import {
+  suggestionCandidates,
+  type SuggestionProvider,
+  type SuggestionSource,
+} from "./suggestions";
+
+// Batch auto-mapping: runs the suggestion provider over every NAMASTE
+// code that still needs a target and stores what it finds as "proposed"
+// rows, so curators only have to review.
+//
+// Jobs run inside the server process. Progress is saved after every
+// batch, so a cancelled, failed or interrupted job can be resumed from
+// where it stopped; a batch cut short by a crash is simply redone, and
+// pairs that already exist are never proposed twice.
+
+export const AUTO_MAP_ACTOR = "auto-map";
+
+const BATCH_SIZE = 25;
+
+const AWAITING_REVIEW = ["draft", "proposed"];
+
+const pairKey = (namasteCode: string, icd11Code: string) =>
+  `${namasteCode}||${icd11Code}`;
+
+export const summarizeAutoMapJob = (
+  { codes, ...job }: AutoMapJob,
+  active: boolean,
+): AutoMapJobSummary => ({ ...job, total: codes.length, active });
+
+// Codes the job works through: NAMASTE codes of the newest release that
+// have no codemap row yet, and codes whose rows all still await review
+export function planAutoMap(
+  codemap: CodemapRow[],
+  releases: TerminologyRelease[],
+  category?: CodeCategory,
+): string[] {
+  const rowsByCode = new Map<string, CodemapRow[]>();
+  for (const row of codemap) {
+    if (category && row.category !== category) continue;
+    rowsByCode.set(row.namaste_code, [
+      ...(rowsByCode.get(row.namaste_code) ?? []),
+      row,
+    ]);
+  }
+
+  const codes = new Set<string>();
+  rowsByCode.forEach((rows, code) => {
+    if (
+      rows.every((row) => AWAITING_REVIEW.includes(normalizeStatus(row.status)))
+    ) {
+      codes.add(code);
+    }
+  });
+
+  const namaste = releases.find((release) => release.system === "namaste");
+  for (const code of namaste?.codes ?? []) {
+    if (category && code.category !== category) continue;
+    if (!codemap.some((row) => row.namaste_code === code.code)) {
+      codes.add(code.code);
+    }
+  }
+
+  return Array.from(codes).sort();
+}
+
+// What the provider is told about each code: its codemap row when it has
+// one, otherwise its entry in the newest NAMASTE release
+function autoMapSources(codemap: CodemapRow[], releases: TerminologyRelease[]) {
+  const sources = new Map<string, SuggestionSource>();
+
+  for (const row of codemap) {
+    if (sources.has(row.namaste_code) || !row.namaste_name) continue;
+    sources.set(row.namaste_code, {
+      namaste_code: row.namaste_code,
+      namaste_name: row.namaste_name,
+      description: row.description ?? undefined,
+      symptoms: row.symptoms ?? undefined,
+      category: row.category,
+    });
+  }
+
+  const namaste = releases.find((release) => release.system === "namaste");
+  for (const code of namaste?.codes ?? []) {
+    if (sources.has(code.code) || !code.display) continue;
+    sources.set(code.code, {
+      namaste_code: code.code,
+      namaste_name: code.display,
+      category: code.category ?? undefined,
+    });
+  }
+
+  return sources;
+}
+
+export interface AutoMapControl {
+  cancelled: boolean;
+}
+
+// Works through the job's remaining codes, saving progress after each
+// batch and stopping at the next batch boundary once cancelled. Proposed
+// mappings are audited when `audit` is given.
+export async function runAutoMapJob(
+  jobId: string,
+  repo: TerminologyRepository,
+  provider: SuggestionProvider,
+  control: AutoMapControl,
+  batchSize = BATCH_SIZE,
+  audit?: AuditRepository,
+): Promise<AutoMapJob | null> {
+  const job = await repo.findAutoMapJobById(jobId);
+  if (!job) return null;
+
+  let { processed, proposed, no_match } = job;
+
+  try {
+    const [codemap, releases] = await Promise.all([
+      repo.list(),
+      repo.listReleases(),
+    ]);
+    const candidates = suggestionCandidates(releases, codemap);
+    const sources = autoMapSources(codemap, releases);
+    const pairs = new Set(
+      codemap.map((row) => pairKey(row.namaste_code, row.icd11_code)),
+    );
+
+    while (processed < job.codes.length && !control.cancelled) {
+      const batch = job.codes.slice(processed, processed + batchSize);
+      const rows: NewCodemapRow[] = [];
+
+      for (const code of batch) {
+        const source = sources.get(code);
+        const { suggestions } = source
+          ? await provider.suggest(
+              source,
+              { candidates, codemap },
+              job.max_per_code,
+            )
+          : { suggestions: [] };
+
+        const picked = suggestions.filter(
+          (s) =>
+            s.confidence >= job.min_confidence &&
+            !pairs.has(pairKey(code, s.icd11Code)),
+        );
+        if (!source || picked.length === 0) {
+          no_match++;
+          continue;
+        }
+
+        for (const suggestion of picked) {
+          pairs.add(pairKey(code, suggestion.icd11Code));
+          rows.push({
+            namaste_code: code,
+            namaste_name: source.namaste_name,
+            icd11_code: suggestion.icd11Code,
+            icd11_name: suggestion.icd11Description || null,
+            icd11_extensions: [],
+            // How the concepts relate is left for the curator to decide
+            equivalence: null,
+            // Same default as code list imports
+            category: source.category ?? "Ayurveda",
+            symptoms: source.symptoms ?? null,
+            description: source.description ?? null,
+            status: "proposed",
+            confidence: suggestion.confidence,
+            created_by: AUTO_MAP_ACTOR,
+            proposed_by: AUTO_MAP_ACTOR,
+          });
+        }
+      }
+
+      const saved = await repo.insertMany(rows);
+      for (const row of saved) {
+        await repo.appendHistory({
+          mapping_id: row.id,
+          action: "propose",
+          from_status: "draft",
+          to_status: "proposed",
+          actor: AUTO_MAP_ACTOR,
+          reviewer: null,
+          justification: `Auto-map job ${job.id} (confidence ${row.confidence})`,
+        });
+      }
+      if (audit) {
+        await recordAuditEvents(
+          audit,
+          saved.map((row) =>
+            mappingAuditEvent("create", row, {
+              agent: AUTO_MAP_ACTOR,
+              source: "auto-map",
+            }),
+          ),
+        );
+      }
+      codemap.push(...saved);
+
+      processed += batch.length;
+      proposed += saved.length;
+      await repo.updateAutoMapJob(job.id, { processed, proposed, no_match });
+
+      // Let queued requests, progress polls included, through
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    return repo.updateAutoMapJob(job.id, {
+      status: processed < job.codes.length ? "cancelled" : "completed",
+      processed,
+      proposed,
+      no_match,
+    });
+  } catch (error: any) {
+    console.error("Auto-map job error:", error);
+    return repo.updateAutoMapJob(job.id, {
+      status: "failed",
+      error: error?.message ?? String(error),
+      processed,
+      proposed,
+      no_match,
+    });
+  }
+}
+
+// Jobs running in this process, keyed by id
+const activeJobs = new Map<string, AutoMapControl>();
+
+export const isAutoMapJobActive = (id: string) => activeJobs.has(id);
+
+export const hasActiveAutoMapJob = () => activeJobs.size > 0;
+
+// Starts the job in the background; progress is read back from the store
+export function startAutoMapJob(
+  jobId: string,
+  repo: TerminologyRepository,
+  provider: SuggestionProvider,
+  audit?: AuditRepository,
+) {
+  const control: AutoMapControl = { cancelled: false };
+  activeJobs.set(jobId, control);
+
+  runAutoMapJob(jobId, repo, provider, control, BATCH_SIZE, audit).finally(() =>
+    activeJobs.delete(jobId),
+  );
+}
+
+// Returns false when the job is not running in this process
+export function requestAutoMapCancel(jobId: string) {
+  const control = activeJobs.get(jobId);
+  if (!control) return false;
+
+  control.cancelled = true;
+  return true;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { readCodeList, writeCodeList } from "./codeListFiles";
+import { previewImport, resolveColumns } from "./importer";
+import { seedCodemap } from "./seed";
+
+const roundTrip = async (format: "csv" | "xlsx" | "conceptmap") => {
+  const table = await readCodeList(
+    format,
+    await writeCodeList(format, seedCodemap),
+  );
+  if ("error" in table) throw new Error(table.error);
+  return previewImport(table, resolveColumns(table.headers), []);
+};
+
+describe("code list files", () => {
+  it.each(["csv", "xlsx", "conceptmap"] as const)(
+    "should read back its own %s export",
+    async (format) => {
+      const rows = await roundTrip(format);
+
+      expect(rows.map((row) => row.mapping.namaste_code)).toEqual(
+        expect.arrayContaining(seedCodemap.map((row) => row.namaste_code)),
+      );
+      expect(rows).toHaveLength(seedCodemap.length);
+      expect(rows[0].mapping).toMatchObject({
+        icd11_code: expect.any(String),
+        category: expect.stringMatching(/^(Ayurveda|Siddha|Unani)$/),
+      });
+      expect(
+        rows.flatMap((row) => row.issues.filter((i) => i.severity === "error")),
+      ).toEqual([]);
+    },
+  );
+
+  it("should reject JSON that is not a ConceptMap", async () => {
+    const table = await readCodeList(
+      "conceptmap",
+      Buffer.from(JSON.stringify({ resourceType: "Patient" })),
+    );
+
+    expect(table).toEqual({ error: "Expected a FHIR ConceptMap resource" });
+  });
+
+  it("should report an unreadable workbook", async () => {
+    const table = await readCodeList("xlsx", Buffer.from("not a zip"));
+
+    expect(table).toMatchObject({
+      error: expect.stringContaining("Could not read the XLSX file"),
+    });
+  });
+
+  it("should carry equivalence and postcoordinated targets in a ConceptMap", async () => {
+    const rows = [
+      {
+        ...seedCodemap[0],
+        icd11_code: "FA20",
+        icd11_extensions: ["XK9K"],
+        equivalence: "narrower" as const,
+      },
+      {
+        ...seedCodemap[0],
+        id: "unmatched",
+        icd11_code: "",
+        icd11_name: null,
+        equivalence: "unmatched" as const,
+      },
+    ];
+    const conceptMap = JSON.parse(
+      (await writeCodeList("conceptmap", rows)).toString("utf-8"),
+    );
+
+    expect(conceptMap.group[0].element[0].target).toEqual([
+      expect.objectContaining({
+        code: "FA20&XK9K",
+        equivalence: "narrower",
+        comment: expect.any(String),
+      }),
+      expect.not.objectContaining({ code: expect.anything() }),
+    ]);
+
+    const table = await readCodeList("conceptmap", conceptMap);
+    if ("error" in table) throw new Error(table.error);
+    expect(
+      previewImport(table, resolveColumns(table.headers), []).map(
+        (row) => row.mapping,
+      ),
+    ).toMatchObject([
+      {
+        icd11_code: "FA20",
+        icd11_extensions: ["XK9K"],
+        equivalence: "narrower",
+      },
+      { icd11_code: "", equivalence: "unmatched" },
+    ]);
+  });
+});
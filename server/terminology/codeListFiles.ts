@@ -0,0 +1,204 @@
+import Papa from "papaparse";
+import ExcelJS from "exceljs";
+import type {
+  CodemapFileFormat,
+  CodemapImportField,
+  CodemapRow,
+} from "@shared/api";
+import type { ConceptMap } from "@shared/fhir";
+import { buildConceptMap } from "../fhir/conceptMap";
+import { categoryForSystem } from "../fhir/systems";
+import type { CodeListTable } from "./importer";
+
+export const CONTENT_TYPES: Record<CodemapFileFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  conceptmap: "application/fhir+json",
+};
+
+export const FILE_EXTENSIONS: Record<CodemapFileFormat, string> = {
+  csv: "csv",
+  xlsx: "xlsx",
+  conceptmap: "json",
+};
+
+export function formatForContentType(
+  contentType = "",
+): CodemapFileFormat | undefined {
+  const mime = contentType.split(";")[0].trim().toLowerCase();
+  if (mime === CONTENT_TYPES.xlsx) return "xlsx";
+  if (mime === "text/csv") return "csv";
+  if (mime === "application/fhir+json" || mime === "application/json") {
+    return "conceptmap";
+  }
+  return undefined;
+}
+
+function readCsv(text: string): CodeListTable {
+  const result = Papa.parse(text.replace(/^\uFEFF/, ""), {
+    header: true,
+    skipEmptyLines: true,
+  });
+
+  // Papa reports structural problems (missing or extra fields) per row
+  const parseErrors = new Map<number, string[]>();
+  for (const error of result.errors) {
+    if (error.row === undefined) continue;
+    parseErrors.set(error.row, [
+      ...(parseErrors.get(error.row) ?? []),
+      error.message,
+    ]);
+  }
+
+  return {
+    headers: result.meta.fields ?? [],
+    rows: result.data as Record<string, unknown>[],
+    parseErrors,
+  };
+}
+
+// Reads the first worksheet; row 1 holds the headers
+async function readXlsx(buffer: Buffer): Promise<CodeListTable> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const sheet = workbook.worksheets[0];
+  const table: CodeListTable = {
+    headers: [],
+    rows: [],
+    parseErrors: new Map(),
+  };
+  if (!sheet) return table;
+
+  const headerByColumn = new Map<number, string>();
+  sheet.getRow(1).eachCell((cell, column) => {
+    const header = cell.text.trim();
+    if (header) headerByColumn.set(column, header);
+  });
+  table.headers = Array.from(headerByColumn.values());
+
+  for (let number = 2; number <= sheet.rowCount; number++) {
+    const row = sheet.getRow(number);
+    if (!row.hasValues) continue;
+
+    const record: Record<string, unknown> = {};
+    headerByColumn.forEach((header, column) => {
+      record[header] = row.getCell(column).text;
+    });
+    table.rows.push(record);
+  }
+
+  return table;
+}
+
+const CONCEPT_MAP_HEADERS: CodemapImportField[] = [
+  "namaste_code",
+  "namaste_name",
+  "icd11_code",
+  "icd11_name",
+  "equivalence",
+  "category",
+  "description",
+];
+
+// Flattens a ConceptMap into one row per source → target pair, using the
+// codemap field names as headers so no column mapping is needed.
+// Postcoordinated target codes are split again by the importer.
+function readConceptMap(resource: ConceptMap): CodeListTable {
+  const rows: Record<string, unknown>[] = [];
+
+  for (const group of resource.group ?? []) {
+    for (const element of group.element ?? []) {
+      for (const target of element.target ?? []) {
+        rows.push({
+          namaste_code: element.code,
+          namaste_name: element.display,
+          icd11_code: target.code,
+          icd11_name: target.display,
+          equivalence: target.equivalence,
+          // Unknown systems are passed through so validation reports them
+          category: categoryForSystem(group.source) ?? group.source,
+          description: target.comment,
+        });
+      }
+    }
+  }
+
+  return { headers: CONCEPT_MAP_HEADERS, rows, parseErrors: new Map() };
+}
+
+export async function readCodeList(
+  format: CodemapFileFormat,
+  body: Buffer | object,
+): Promise<CodeListTable | { error: string }> {
+  try {
+    if (format === "conceptmap") {
+      const resource = Buffer.isBuffer(body)
+        ? JSON.parse(body.toString("utf-8"))
+        : body;
+      if (resource?.resourceType !== "ConceptMap") {
+        return { error: "Expected a FHIR ConceptMap resource" };
+      }
+      return readConceptMap(resource);
+    }
+
+    if (!Buffer.isBuffer(body)) {
+      return { error: `Send the ${format.toUpperCase()} file as the body` };
+    }
+    return format === "xlsx"
+      ? await readXlsx(body)
+      : readCsv(body.toString("utf-8"));
+  } catch (error: any) {
+    return {
+      error: `Could not read the ${format.toUpperCase()} file: ${error.message}`,
+    };
+  }
+}
+
+const EXPORT_COLUMNS: Array<keyof CodemapRow> = [
+  "namaste_code",
+  "namaste_name",
+  "icd11_code",
+  "icd11_extensions",
+  "icd11_name",
+  "equivalence",
+  "category",
+  "symptoms",
+  "description",
+  "status",
+  "confidence",
+  "created_at",
+];
+
+// Exports use the codemap field names as headers, which the importer
+// recognises without any column mapping
+export async function writeCodeList(
+  format: CodemapFileFormat,
+  rows: CodemapRow[],
+): Promise<Buffer> {
+  if (format === "conceptmap") {
+    return Buffer.from(JSON.stringify(buildConceptMap(rows), null, 2));
+  }
+
+  // Extensions are written the way the importer reads them back
+  const records = rows.map((row) => ({
+    ...row,
+    icd11_extensions: (row.icd11_extensions ?? []).join("&"),
+  }));
+
+  if (format === "csv") {
+    return Buffer.from(Papa.unparse(records, { columns: EXPORT_COLUMNS }));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Codemap");
+  sheet.columns = EXPORT_COLUMNS.map((key) => ({
+    header: key,
+    key,
+    width: 20,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  records.forEach((row) => sheet.addRow(row));
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
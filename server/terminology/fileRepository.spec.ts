@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { mappingVersion } from "../../shared/codemap";
+import { createFileTerminologyRepository } from "./fileRepository";
+import type { CodemapCursor } from "./repository";
+import { seedCodemap } from "./seed";
+
+const tempDir = () => mkdtempSync(path.join(tmpdir(), "codemap-"));
+
+describe("file terminology repository", () => {
+  it("should fall back to the seed codes when the file is missing", async () => {
+    const repo = createFileTerminologyRepository(tempDir());
+    expect(await repo.list()).toHaveLength(seedCodemap.length);
+  });
+
+  it("should read rows from the data file", async () => {
+    const dir = tempDir();
+    writeFileSync(
+      path.join(dir, "codemap.json"),
+      JSON.stringify([seedCodemap[0]]),
+    );
+
+    const repo = createFileTerminologyRepository(dir);
+    expect((await repo.list()).map((r) => r.namaste_code)).toEqual(["AYR-001"]);
+  });
+
+  it("should filter by text and category", async () => {
+    const repo = createFileTerminologyRepository(tempDir());
+
+    expect(
+      (await repo.list({ q: "vyadhi" })).map((r) => r.namaste_code),
+    ).toEqual(["AYR-023", "AYR-001"]);
+    expect(await repo.list({ category: "Unani" })).toHaveLength(1);
+    expect(await repo.list({ limit: 2 })).toHaveLength(2);
+  });
+
+  it("should find a code by its NAMASTE code", async () => {
+    const repo = createFileTerminologyRepository(tempDir());
+
+    expect((await repo.findByNamasteCode("SID-045"))?.icd11_code).toBe("DA90");
+    expect(await repo.findByNamasteCode("NOPE")).toBeNull();
+  });
+
+  it("should persist updates and history across instances", async () => {
+    const dir = tempDir();
+    const repo = createFileTerminologyRepository(dir);
+
+    await repo.update("seed-ayr-001", { status: "approved" });
+    await repo.appendHistory({
+      mapping_id: "seed-ayr-001",
+      action: "approve",
+      from_status: "under_review",
+      to_status: "approved",
+      actor: "reviewer@caresync.com",
+      reviewer: "reviewer@caresync.com",
+      justification: null,
+    });
+
+    const reopened = createFileTerminologyRepository(dir);
+    expect((await reopened.findById("seed-ayr-001"))?.status).toBe("approved");
+    expect(await reopened.listHistory("seed-ayr-001")).toHaveLength(1);
+  });
+
+  it("should only write rows still at the expected version", async () => {
+    const repo = createFileTerminologyRepository(tempDir());
+    const row = (await repo.findById("seed-ayr-001"))!;
+    const version = mappingVersion(row);
+
+    const updated = await repo.update(
+      row.id,
+      { symptoms: "Joint pain" },
+      version,
+    );
+    expect(mappingVersion(updated!)).not.toBe(version);
+
+    expect(
+      await repo.update(row.id, { symptoms: "Stale" }, version),
+    ).toBeNull();
+    expect(await repo.remove(row.id, version)).toBe(false);
+    expect((await repo.findById(row.id))?.symptoms).toBe("Joint pain");
+
+    expect(await repo.remove(row.id, mappingVersion(updated!))).toBe(true);
+    expect(await repo.findById(row.id)).toBeNull();
+  });
+
+  it("should keep a version of every write", async () => {
+    const repo = createFileTerminologyRepository(tempDir());
+    const [created] = await repo.insertMany([
+      { ...seedCodemap[0], namaste_code: "AYR-900" },
+    ]);
+    await repo.update(created.id, { symptoms: "Fever" });
+    await repo.remove(created.id);
+
+    const versions = await repo.listVersions(created.id);
+    expect(versions.map((v) => [v.version_id, v.row?.symptoms])).toEqual([
+      [3, undefined],
+      [2, "Fever"],
+      [1, created.symptoms],
+    ]);
+    expect((await repo.findVersion(created.id, 2))?.row?.symptoms).toBe(
+      "Fever",
+    );
+
+    // A seed row's first write keeps it as it was seeded
+    await repo.update("seed-ayr-001", { symptoms: "Joint pain" });
+    expect(
+      (await repo.listVersions("seed-ayr-001")).map((v) => v.row?.symptoms),
+    ).toEqual(["Joint pain", seedCodemap[0].symptoms]);
+  });
+
+  it("should keep every one of concurrent writes", async () => {
+    const dir = tempDir();
+    const repo = createFileTerminologyRepository(dir);
+
+    await Promise.all([
+      repo.update("seed-ayr-001", { symptoms: "Joint pain" }),
+      repo.update("seed-sid-045", { symptoms: "Fever" }),
+      repo.insertMany([{ ...seedCodemap[0], namaste_code: "AYR-900" }]),
+    ]);
+
+    const reopened = createFileTerminologyRepository(dir);
+    expect((await reopened.findById("seed-ayr-001"))?.symptoms).toBe(
+      "Joint pain",
+    );
+    expect((await reopened.findById("seed-sid-045"))?.symptoms).toBe("Fever");
+    expect(await reopened.findByNamasteCode("AYR-900")).not.toBeNull();
+  });
+
+  it("should leave memory unchanged when a write fails", async () => {
+    const dir = tempDir();
+    const repo = createFileTerminologyRepository(dir);
+    const before = (await repo.findById("seed-ayr-001"))!;
+
+    // The temp file can't be renamed over a directory
+    mkdirSync(path.join(dir, "codemap.json"));
+    await expect(
+      repo.update(before.id, { symptoms: "Lost" }),
+    ).rejects.toThrow();
+    expect(await repo.findById(before.id)).toEqual(before);
+  });
+
+  it("should page through rows in sort order with a keyset cursor", async () => {
+    const repo = createFileTerminologyRepository(tempDir());
+    await repo.update("seed-una-012", { confidence: null });
+
+    const codes: string[] = [];
+    let after: CodemapCursor | undefined;
+    do {
+      const page = await repo.listPage({
+        sort: "confidence",
+        order: "desc",
+        limit: 2,
+        after,
+      });
+      expect(page.total).toBe(seedCodemap.length);
+
+      codes.push(...page.rows.map((r) => r.namaste_code));
+      const last = page.rows[page.rows.length - 1];
+      after = page.hasMore
+        ? { value: last.confidence, id: last.id }
+        : undefined;
+    } while (after);
+
+    // Rows without a confidence come last in either direction
+    expect(codes).toEqual([
+      "AYR-001",
+      "AYR-023",
+      "SID-045",
+      "SID-089",
+      "UNA-012",
+    ]);
+  });
+
+  it("should filter by status, confidence and creation date", async () => {
+    const repo = createFileTerminologyRepository(tempDir());
+    await repo.update("seed-sid-089", { status: "pending" });
+
+    const page = await repo.listPage({
+      statuses: ["proposed"],
+      minConfidence: 0.7,
+      createdFrom: "2024-01-02T00:00:00.000Z",
+      createdBefore: "2024-01-04T00:00:00.000Z",
+      sort: "namaste_code",
+      order: "asc",
+      limit: 10,
+    });
+    expect(page.rows.map((r) => r.namaste_code)).toEqual(["UNA-012"]);
+
+    expect(
+      (await repo.list({ statuses: ["proposed"] })).map((r) => r.namaste_code),
+    ).toEqual(["SID-089", "UNA-012"]);
+  });
+});
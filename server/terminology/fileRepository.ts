@@ -0,0 +1,373 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type {
+  AutoMapJob,
+  CodemapImportProfile,
+  CodemapRow,
+  MappingHistoryEntry,
+  MappingVersion,
+  TerminologyRelease,
+} from "@shared/api";
+import { mappingVersion } from "../../shared/codemap";
+import { seedCodemap } from "./seed";
+import {
+  compareForPage,
+  matchesQuery,
+  sortValue,
+  type TerminologyRepository,
+} from "./repository";
+
+async function readJson<T>(file: string, fallback: () => T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8")) as T;
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error;
+    return fallback();
+  }
+}
+
+// Write to a temp file first so a crash never leaves half a JSON document.
+// The temp name is unique so overlapping writes never share one.
+async function writeJson(file: string, data: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+    await fs.rename(tmp, file);
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+}
+
+// One JSON file holding a table. The file is read once, however many
+// callers ask at the same time. Changes run one at a time, each against
+// the table the previous one wrote, and replace it in memory only once
+// the file is written, so a failed write leaves both as they were.
+function jsonTable<T>(file: string, fallback: () => T[]) {
+  let loaded: Promise<T[]> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = () =>
+    (loaded ??= readJson(file, fallback).catch((error) => {
+      loaded = null;
+      throw error;
+    }));
+
+  // `change` returns the new table, or null to leave it as it is; it must
+  // not modify the table it is given
+  const write = (change: (rows: readonly T[]) => T[] | null) => {
+    const run = async () => {
+      const next = change(await load());
+      if (!next) return null;
+
+      await writeJson(file, next);
+      loaded = Promise.resolve(next);
+      return next;
+    };
+
+    const result = queue.then(run, run);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return { load, write };
+}
+
+// Two writes within the same millisecond must still change the version
+function nextVersion(row: CodemapRow) {
+  const now = new Date();
+  const previous = new Date(mappingVersion(row));
+  return (
+    now > previous ? now : new Date(previous.getTime() + 1)
+  ).toISOString();
+}
+
+interface RowChange {
+  id: string;
+  previous: CodemapRow | null;
+  row: CodemapRow | null;
+}
+
+// JSON-file backed codemap for local development and tests. Each table is
+// one file in `dataDir`; a missing codemap file is treated as a fresh
+// store seeded with the starter codes.
+export function createFileTerminologyRepository(
+  dataDir: string,
+): TerminologyRepository {
+  const codemap = jsonTable<CodemapRow>(
+    path.join(dataDir, "codemap.json"),
+    () => seedCodemap.map((row) => ({ ...row })),
+  );
+  const history = jsonTable<MappingHistoryEntry>(
+    path.join(dataDir, "codemap_history.json"),
+    () => [],
+  );
+  const versions = jsonTable<MappingVersion>(
+    path.join(dataDir, "codemap_versions.json"),
+    () => [],
+  );
+  const profiles = jsonTable<CodemapImportProfile>(
+    path.join(dataDir, "import_profiles.json"),
+    () => [],
+  );
+  const releases = jsonTable<TerminologyRelease>(
+    path.join(dataDir, "releases.json"),
+    () => [],
+  );
+  const jobs = jsonTable<AutoMapJob>(
+    path.join(dataDir, "automap_jobs.json"),
+    () => [],
+  );
+
+  // Keeps a version of each written row. The versions are a second file,
+  // written once the codemap is. A row from before versions were kept,
+  // such as a seed code, first gets the state it was in as version 1.
+  const recordVersions = (changes: RowChange[]) =>
+    versions.write((all) => {
+      const latest = new Map<string, number>();
+      for (const version of all) {
+        latest.set(
+          version.mapping_id,
+          Math.max(latest.get(version.mapping_id) ?? 0, version.version_id),
+        );
+      }
+
+      const recorded_at = new Date().toISOString();
+      const added: MappingVersion[] = [];
+      for (const { id, previous, row } of changes) {
+        let version_id = latest.get(id) ?? 0;
+        if (!version_id && previous) {
+          added.push({
+            mapping_id: id,
+            version_id: ++version_id,
+            row: previous,
+            recorded_at: previous.updated_at ?? previous.created_at,
+          });
+        }
+        added.push({
+          mapping_id: id,
+          version_id: ++version_id,
+          row,
+          recorded_at,
+        });
+        latest.set(id, version_id);
+      }
+      return [...all, ...added];
+    });
+
+  return {
+    async list(query = {}) {
+      const results = (await codemap.load())
+        .filter((row) => matchesQuery(row, query))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+      return query.limit ? results.slice(0, query.limit) : results;
+    },
+
+    async listPage({ sort, order, after, limit, ...query }) {
+      const key = (row: CodemapRow) => ({
+        value: sortValue(row, sort),
+        id: row.id,
+      });
+      const matching = (await codemap.load())
+        .filter((row) => matchesQuery(row, query))
+        .sort((a, b) => compareForPage(key(a), key(b), order));
+      const rest = after
+        ? matching.filter((row) => compareForPage(key(row), after, order) > 0)
+        : matching;
+
+      return {
+        rows: rest.slice(0, limit),
+        total: matching.length,
+        hasMore: rest.length > limit,
+      };
+    },
+
+    async findByNamasteCode(code) {
+      return (
+        (await codemap.load()).find((row) => row.namaste_code === code) ?? null
+      );
+    },
+
+    async findById(id) {
+      return (await codemap.load()).find((row) => row.id === id) ?? null;
+    },
+
+    async insertMany(newRows) {
+      const now = new Date().toISOString();
+      const saved = newRows.map((row) => ({
+        ...row,
+        id: randomUUID(),
+        created_at: now,
+      }));
+
+      await codemap.write((all) => [...all, ...saved]);
+      await recordVersions(
+        saved.map((row) => ({ id: row.id, previous: null, row })),
+      );
+      return saved;
+    },
+
+    async update(id, patch, expectedVersion) {
+      const changes: RowChange[] = [];
+      await codemap.write((all) => {
+        const row = all.find((row) => row.id === id);
+        if (!row) return null;
+        if (expectedVersion && mappingVersion(row) !== expectedVersion) {
+          return null;
+        }
+
+        const updated = {
+          ...row,
+          ...patch,
+          id,
+          updated_at: nextVersion(row),
+        };
+        changes.push({ id, previous: row, row: updated });
+        return all.map((other) => (other === row ? updated : other));
+      });
+
+      if (!changes.length) return null;
+      await recordVersions(changes);
+      return changes[0].row;
+    },
+
+    async remove(id, expectedVersion) {
+      const changes: RowChange[] = [];
+      await codemap.write((all) => {
+        const row = all.find((row) => row.id === id);
+        if (!row) return null;
+        if (expectedVersion && mappingVersion(row) !== expectedVersion) {
+          return null;
+        }
+
+        changes.push({ id, previous: row, row: null });
+        return all.filter((other) => other !== row);
+      });
+
+      if (!changes.length) return false;
+      await recordVersions(changes);
+      return true;
+    },
+
+    async appendHistory(entry) {
+      const saved: MappingHistoryEntry = {
+        ...entry,
+        id: randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+
+      await history.write((all) => [...all, saved]);
+      return saved;
+    },
+
+    async listHistory(mappingId) {
+      return (await history.load()).filter(
+        (entry) => entry.mapping_id === mappingId,
+      );
+    },
+
+    async listVersions(mappingId) {
+      return (await versions.load())
+        .filter((version) => version.mapping_id === mappingId)
+        .sort((a, b) => b.version_id - a.version_id);
+    },
+
+    async findVersion(mappingId, versionId) {
+      return (
+        (await versions.load()).find(
+          (version) =>
+            version.mapping_id === mappingId &&
+            version.version_id === versionId,
+        ) ?? null
+      );
+    },
+
+    async listImportProfiles() {
+      return [...(await profiles.load())].sort((a, b) =>
+        a.source.localeCompare(b.source),
+      );
+    },
+
+    async getImportProfile(source) {
+      return (
+        (await profiles.load()).find((profile) => profile.source === source) ??
+        null
+      );
+    },
+
+    async saveImportProfile(source, columns) {
+      const saved = { source, columns, updated_at: new Date().toISOString() };
+
+      await profiles.write((all) => [
+        ...all.filter((profile) => profile.source !== source),
+        saved,
+      ]);
+      return saved;
+    },
+
+    async listReleases() {
+      return [...(await releases.load())].sort((a, b) =>
+        b.created_at.localeCompare(a.created_at),
+      );
+    },
+
+    async findReleaseById(id) {
+      return (
+        (await releases.load()).find((release) => release.id === id) ?? null
+      );
+    },
+
+    async insertRelease(release) {
+      const saved: TerminologyRelease = {
+        ...release,
+        id: randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+
+      await releases.write((all) => [...all, saved]);
+      return saved;
+    },
+
+    async listAutoMapJobs() {
+      return [...(await jobs.load())].sort((a, b) =>
+        b.created_at.localeCompare(a.created_at),
+      );
+    },
+
+    async findAutoMapJobById(id) {
+      return (await jobs.load()).find((job) => job.id === id) ?? null;
+    },
+
+    async insertAutoMapJob(job) {
+      const now = new Date().toISOString();
+      const saved: AutoMapJob = {
+        ...job,
+        id: randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+
+      await jobs.write((all) => [...all, saved]);
+      return saved;
+    },
+
+    async updateAutoMapJob(id, patch) {
+      const written = await jobs.write((all) => {
+        const job = all.find((job) => job.id === id);
+        if (!job) return null;
+
+        const updated = {
+          ...job,
+          ...patch,
+          id,
+          updated_at: new Date().toISOString(),
+        };
+        return all.map((other) => (other === job ? updated : other));
+      });
+      return written?.find((job) => job.id === id) ?? null;
+    },
+  };
+}
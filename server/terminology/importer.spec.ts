@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import type { ColumnMapping } from "@shared/api";
+import { readCodeList } from "./codeListFiles";
+import { isImportable, previewImport, resolveColumns } from "./importer";
+import { seedCodemap } from "./seed";
+
+const preview = async (csv: string, saved?: ColumnMapping) => {
+  const table = await readCodeList("csv", Buffer.from(csv));
+  if ("error" in table) throw new Error(table.error);
+  return previewImport(
+    table,
+    resolveColumns(table.headers, saved),
+    seedCodemap,
+  );
+};
+
+const fields = (row: { issues: { field: string; severity: string }[] }) =>
+  row.issues.map((issue) => `${issue.severity}:${issue.field}`);
+
+describe("code list import", () => {
+  it("should accept a clean row and normalise its values", async () => {
+    const [row] = await preview(
+      "NAMASTE Code,NAMASTE Name,ICD11 Code,ICD Name,System\n" +
+        "AYR-100, Amavata ,fa20,Rheumatoid arthritis,ayurveda\n",
+    );
+
+    expect(row.line).toBe(2);
+    expect(row.mapping).toMatchObject({
+      namaste_code: "AYR-100",
+      namaste_name: "Amavata",
+      icd11_code: "FA20",
+      category: "Ayurveda",
+      status: "draft",
+    });
+    expect(row.issues).toEqual([]);
+    expect(isImportable(row)).toBe(true);
+  });
+
+  it("should flag unknown categories, bad ICD-11 codes and missing names", async () => {
+    const [row] = await preview(
+      "namaste_code,namaste_name,icd11_code,icd11_name,category\n" +
+        "AYR-101,,I10,,Homeopathy\n",
+    );
+
+    expect(fields(row)).toEqual([
+      "error:namaste_name",
+      "error:icd11_code",
+      "warning:icd11_name",
+      "error:category",
+    ]);
+    expect(isImportable(row)).toBe(false);
+  });
+
+  it("should report duplicates within the file and skip existing pairs", async () => {
+    const rows = await preview(
+      "namaste_code,namaste_name,icd11_code,icd11_name,category\n" +
+        "AYR-102,Sandhivata,FA01,Osteoarthritis,Ayurveda\n" +
+        "ayr-102,Sandhivata,fa01,Osteoarthritis,Ayurveda\n" +
+        "AYR-001,Vata Vyadhi,BA25.1,Nervous system,Ayurveda\n",
+    );
+
+    expect(rows[1].issues[0].message).toBe("Duplicate of line 2 in this file");
+    expect(rows[2].exists).toBe(true);
+    expect(rows.map(isImportable)).toEqual([true, false, false]);
+  });
+
+  it("should prefer a saved column mapping over header aliases", async () => {
+    const [row] = await preview(
+      "Code,Term,ICD,ICD Title,Tradition\n" +
+        "SID-300,Suram,1D2Z,Fever,Siddha\n",
+      {
+        namaste_code: "Code",
+        namaste_name: "Term",
+        icd11_code: "ICD",
+        icd11_name: "ICD Title",
+        category: "Tradition",
+      },
+    );
+
+    expect(row.mapping).toMatchObject({
+      namaste_code: "SID-300",
+      icd11_code: "1D2Z",
+      category: "Siddha",
+    });
+    expect(row.issues).toEqual([]);
+  });
+
+  it("should split postcoordinated targets and check equivalence", async () => {
+    const rows = await preview(
+      "namaste_code,namaste_name,icd11_code,icd11_name,category,equivalence\n" +
+        "AYR-103,Amlapitta,da22&xk8g,Gastritis,Ayurveda,subsumes\n" +
+        "AYR-103,Amlapitta,&XK8G,Gastritis,Ayurveda,unmatched\n" +
+        "AYR-104,Grahani,,,Ayurveda,unmatched\n" +
+        "AYR-105,Kamala,ME10.1&K8G,Jaundice,Ayurveda,close\n",
+    );
+
+    expect(rows[0].mapping).toMatchObject({
+      icd11_code: "DA22",
+      icd11_extensions: ["XK8G"],
+      equivalence: "wider",
+    });
+    expect(fields(rows[1])).toEqual(["error:icd11_code"]);
+    expect(rows[2].issues).toEqual([]);
+    expect(fields(rows[3])).toEqual([
+      "error:equivalence",
+      "error:icd11_extensions",
+    ]);
+  });
+});
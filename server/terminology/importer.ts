@@ -0,0 +1,211 @@
+import type {
+  CodeCategory,
+  CodemapImportField,
+  CodemapImportIssue,
+  CodemapImportRow,
+  CodemapRow,
+  ColumnMapping,
+  MappingEquivalence,
+} from "@shared/api";
+import {
+  formatIcd11Expression,
+  icd11TargetIssues,
+  isMappingEquivalence,
+  MAPPING_EQUIVALENCES,
+  parseIcd11Expression,
+  splitIcd11Extensions,
+} from "../../shared/codemap";
+
+const CATEGORIES: CodeCategory[] = ["Ayurveda", "Siddha", "Unani"];
+
+// The remaining FHIR ConceptMap equivalences, folded into the ones the
+// codemap records; "relatedto" says nothing more than an unset value
+const FHIR_EQUIVALENCE_ALIASES: Record<string, MappingEquivalence | null> = {
+  equal: "equivalent",
+  subsumes: "wider",
+  specializes: "narrower",
+  relatedto: null,
+};
+
+// Uploaded code lists, whatever their format, reach validation as a
+// header row plus one record per data row keyed by header
+export interface CodeListTable {
+  headers: string[];
+  rows: Record<string, unknown>[];
+  // Structural problems reported by the reader, by data row index
+  parseErrors: Map<number, string[]>;
+}
+
+// Header aliases recognised when a source has no saved column mapping
+export const IMPORT_FIELD_ALIASES: Record<CodemapImportField, string[]> = {
+  namaste_code: ["namaste_code", "namaste code", "namaste"],
+  namaste_name: ["namaste_name", "namaste name"],
+  icd11_code: ["icd11_code", "icd11 code", "icd_code", "icd"],
+  icd11_name: ["icd11_name", "icd11 name", "icd name"],
+  icd11_extensions: ["icd11_extensions", "icd11 extensions", "extensions"],
+  equivalence: ["equivalence", "relationship"],
+  category: ["category", "system"],
+  symptoms: ["symptoms", "symptom"],
+  description: ["description", "desc"],
+};
+
+const normalizeKey = (k: string) => k.toString().trim().toLowerCase();
+
+// Resolves which header feeds each field: a saved mapping wins when its
+// header is present in this file, otherwise the aliases are tried
+export function resolveColumns(
+  headers: string[],
+  saved: ColumnMapping = {},
+): ColumnMapping {
+  const columns: ColumnMapping = {};
+
+  for (const field of Object.keys(
+    IMPORT_FIELD_ALIASES,
+  ) as CodemapImportField[]) {
+    const header =
+      (saved[field] && headers.includes(saved[field]!) && saved[field]) ||
+      headers.find((h) =>
+        IMPORT_FIELD_ALIASES[field].includes(normalizeKey(h)),
+      );
+    if (header) columns[field] = header;
+  }
+
+  return columns;
+}
+
+function mapImportRow(row: Record<string, unknown>, columns: ColumnMapping) {
+  const find = (field: CodemapImportField) => {
+    const value = columns[field] ? row[columns[field]!] : undefined;
+    if (value === undefined || value === null) return null;
+    return String(value).trim() || null;
+  };
+
+  // The ICD-11 column may hold a postcoordinated cluster; extensions from
+  // a separate column are appended to the ones found there
+  const { stem, extensions } = parseIcd11Expression(find("icd11_code") ?? "");
+  const extraExtensions = splitIcd11Extensions(find("icd11_extensions") ?? "");
+
+  return {
+    mapping: {
+      namaste_code: find("namaste_code") ?? "",
+      namaste_name: find("namaste_name"),
+      icd11_code: stem,
+      icd11_name: find("icd11_name"),
+      icd11_extensions: Array.from(
+        new Set([...extensions, ...extraExtensions]),
+      ),
+      equivalence: null as MappingEquivalence | null,
+      category: find("category") ?? "",
+      symptoms: find("symptoms"),
+      description: find("description"),
+      // Imported rows always enter the review workflow as drafts
+      status: "draft",
+      confidence: null,
+    },
+    equivalence: find("equivalence")?.toLowerCase() ?? null,
+  };
+}
+
+// One NAMASTE code may have several targets, so a pair is the source code
+// plus the full postcoordinated target
+const pairKey = (
+  row: Pick<CodemapRow, "namaste_code" | "icd11_code" | "icd11_extensions">,
+) =>
+  `${row.namaste_code.toLowerCase()}||${formatIcd11Expression(
+    row.icd11_code,
+    row.icd11_extensions,
+  ).toLowerCase()}`;
+
+// Maps and validates every uploaded row without writing anything. Rows
+// with errors, or whose pair is already in `existing`, must not be
+// inserted; warnings are informational.
+export function previewImport(
+  table: CodeListTable,
+  columns: ColumnMapping,
+  existing: CodemapRow[],
+): CodemapImportRow[] {
+  const existingPairs = new Set(existing.map((row) => pairKey(row)));
+  const firstSeen = new Map<string, number>();
+
+  return table.rows.map((raw, index) => {
+    const line = index + 2;
+    const { mapping, equivalence } = mapImportRow(raw, columns);
+    const issues: CodemapImportIssue[] = [];
+    const error = (field: string, message: string) =>
+      issues.push({ field, severity: "error", message });
+    const warning = (field: string, message: string) =>
+      issues.push({ field, severity: "warning", message });
+
+    for (const message of table.parseErrors.get(index) ?? []) {
+      warning("row", message);
+    }
+
+    if (!mapping.namaste_code) {
+      error("namaste_code", "NAMASTE code is missing");
+    }
+    if (!mapping.namaste_name) {
+      error("namaste_name", "NAMASTE name is missing");
+    }
+
+    if (equivalence) {
+      if (isMappingEquivalence(equivalence)) {
+        mapping.equivalence = equivalence;
+      } else if (equivalence in FHIR_EQUIVALENCE_ALIASES) {
+        mapping.equivalence = FHIR_EQUIVALENCE_ALIASES[equivalence];
+      } else {
+        error(
+          "equivalence",
+          `Unknown equivalence "${equivalence}" (expected ${MAPPING_EQUIVALENCES.join(", ")})`,
+        );
+      }
+    }
+
+    for (const issue of icd11TargetIssues(mapping)) {
+      error(issue.field, issue.message);
+    }
+    if (mapping.equivalence !== "unmatched" && !mapping.icd11_name) {
+      warning("icd11_name", "ICD-11 name is missing");
+    }
+
+    if (!mapping.category) {
+      warning("category", "Category is missing; defaulting to Ayurveda");
+      mapping.category = "Ayurveda";
+    } else {
+      const category = CATEGORIES.find(
+        (c) => c.toLowerCase() === mapping.category.toLowerCase(),
+      );
+      if (category) {
+        mapping.category = category;
+      } else {
+        error(
+          "category",
+          `Unknown category "${mapping.category}" (expected ${CATEGORIES.join(", ")})`,
+        );
+      }
+    }
+
+    let exists = false;
+    if (mapping.namaste_code) {
+      const key = pairKey(mapping);
+
+      if (firstSeen.has(key)) {
+        error(
+          "namaste_code",
+          `Duplicate of line ${firstSeen.get(key)} in this file`,
+        );
+      } else {
+        firstSeen.set(key, line);
+      }
+
+      if (existingPairs.has(key)) {
+        exists = true;
+        warning("namaste_code", "Already in the codemap; will be skipped");
+      }
+    }
+
+    return { line, mapping, issues, exists };
+  });
+}
+
+export const isImportable = (row: CodemapImportRow) =>
+  !row.exists && !row.issues.some((issue) => issue.severity === "error");
@@ -0,0 +1,28 @@
+import path from "path";
+import { supabase } from "../utils/supabaseServerClient";
+import { createFileTerminologyRepository } from "./fileRepository";
+import { createSupabaseTerminologyRepository } from "./supabaseRepository";
+import type { TerminologyRepository } from "./repository";
+
+export type { TerminologyRepository, CodemapQuery } from "./repository";
+
+let repository: TerminologyRepository | null = null;
+
+// TERMINOLOGY_STORE=file|supabase picks the backend explicitly;
+// otherwise Supabase is used whenever it is configured.
+export function getTerminologyRepository(): TerminologyRepository {
+  if (repository) return repository;
+
+  const store =
+    process.env.TERMINOLOGY_STORE ??
+    (process.env.SUPABASE_URL ? "supabase" : "file");
+
+  repository =
+    store === "supabase"
+      ? createSupabaseTerminologyRepository(supabase)
+      : createFileTerminologyRepository(
+          process.env.TERMINOLOGY_DATA_DIR ?? path.resolve("data"),
+        );
+
+  return repository;
+}
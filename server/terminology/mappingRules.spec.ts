@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import type { CodemapRow } from "@shared/api";
+import {
+  planMappingCreate,
+  planMappingDelete,
+  planMappingUpdate,
+} from "./mappingRules";
+import { seedCodemap } from "./seed";
+
+const row = (patch: Partial<CodemapRow>): CodemapRow => ({
+  ...seedCodemap[0],
+  ...patch,
+});
+
+const curator = {
+  id: null,
+  email: "curator@caresync.com",
+  role: "user" as const,
+};
+const admin = { id: null, email: "lead@caresync.com", role: "admin" as const };
+
+describe("mapping rules", () => {
+  it("should create drafts and validate the ICD-11 target", () => {
+    const fields = {
+      namaste_code: "AYR-900",
+      namaste_name: "Jwara",
+      icd11_code: "MG26",
+      icd11_name: null,
+      icd11_extensions: [],
+      equivalence: "equivalent" as const,
+      category: "Ayurveda" as const,
+      symptoms: null,
+      description: null,
+      confidence: null,
+    };
+
+    expect(planMappingCreate(fields, curator)).toMatchObject({
+      row: {
+        namaste_code: "AYR-900",
+        status: "draft",
+        created_by: "curator@caresync.com",
+        proposed_by: null,
+      },
+    });
+    expect(
+      planMappingCreate({ ...fields, icd11_code: "MG2" }, curator),
+    ).toEqual({
+      status: 400,
+      error: '"MG2" is not a valid ICD-11 code',
+    });
+  });
+
+  it("should require the current version", () => {
+    const draft = row({ status: "draft", updated_at: "2025-02-01T00:00:00Z" });
+    const patch = { description: "Edited" };
+    const written = { patch: { ...patch, edited_by: curator.email } };
+
+    expect(planMappingUpdate(draft, patch, curator, undefined)).toMatchObject({
+      status: 428,
+    });
+    expect(
+      planMappingUpdate(draft, patch, curator, draft.created_at),
+    ).toMatchObject({ status: 412 });
+    expect(
+      planMappingUpdate(draft, patch, curator, "2025-02-01T00:00:00Z"),
+    ).toEqual(written);
+    expect(planMappingUpdate(draft, patch, curator, "*")).toEqual(written);
+  });
+
+  it("should keep non-admins to drafts and rejected mappings", () => {
+    const approved = row({ status: "approved" });
+    const version = approved.created_at;
+
+    expect(
+      planMappingUpdate(approved, { symptoms: "x" }, curator, version),
+    ).toMatchObject({ status: 403 });
+    expect(
+      planMappingUpdate(row({ status: "rejected" }), {}, curator, version),
+    ).toEqual({ patch: { edited_by: curator.email } });
+
+    expect(
+      planMappingDelete(row({ status: "rejected" }), curator, version),
+    ).toMatchObject({ status: 403 });
+    expect(
+      planMappingDelete(row({ status: "draft" }), curator, version),
+    ).toBeNull();
+    expect(planMappingDelete(approved, admin, version)).toBeNull();
+  });
+
+  it("should send an edited approved mapping back to review", () => {
+    const approved = row({
+      status: "approved",
+      proposed_by: "author@caresync.com",
+      reviewer: "reviewer@caresync.com",
+    });
+
+    expect(planMappingUpdate(approved, { symptoms: "x" }, admin, "*")).toEqual({
+      patch: {
+        symptoms: "x",
+        edited_by: admin.email,
+        status: "proposed",
+        proposed_by: admin.email,
+        reviewer: null,
+      },
+      entry: {
+        mapping_id: approved.id,
+        action: "propose",
+        from_status: "approved",
+        to_status: "proposed",
+        actor: admin.email,
+        reviewer: null,
+        justification: "Edited after approval",
+      },
+    });
+  });
+
+  it("should check the target as it will be after the edit", () => {
+    const draft = row({ status: "draft" });
+
+    expect(
+      planMappingUpdate(
+        draft,
+        { equivalence: "unmatched" },
+        curator,
+        draft.created_at,
+      ),
+    ).toEqual({
+      status: 400,
+      error: "Unmatched rows must not have an ICD-11 code",
+    });
+  });
+});
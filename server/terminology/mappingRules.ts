@@ -0,0 +1,132 @@
+import type {
+  CodemapFields,
+  CodemapRow,
+  MappingHistoryEntry,
+} from "@shared/api";
+import { icd11TargetIssues, mappingVersion } from "../../shared/codemap";
+import { normalizeStatus, STATUS_LABELS } from "../../shared/workflow";
+import type { RequestUser } from "../utils/requestUser";
+import type { NewCodemapRow } from "./repository";
+
+export type MappingRejection = { error: string; status: number };
+
+// Statuses a non-admin may still edit: work in progress, or sent back by
+// a reviewer. Anything further along is frozen until the workflow moves
+// it back.
+const EDITABLE_BY_USERS = ["draft", "rejected"];
+
+const rejectTarget = (
+  row: Pick<CodemapRow, "icd11_code" | "icd11_extensions" | "equivalence">,
+): MappingRejection | null => {
+  const issue = icd11TargetIssues(row)[0];
+  return issue ? { status: 400, error: issue.message } : null;
+};
+
+// `expectedVersion` comes from If-Match or the body's `updated_at`:
+// missing means the client never looked, "*" means it does not care
+function checkVersion(
+  row: CodemapRow,
+  expectedVersion: string | undefined,
+): MappingRejection | null {
+  if (!expectedVersion) {
+    return {
+      status: 428,
+      error: "Send the mapping's version in If-Match or updated_at",
+    };
+  }
+  if (expectedVersion !== "*" && expectedVersion !== mappingVersion(row)) {
+    return {
+      status: 412,
+      error: "The mapping was changed by someone else; reload and try again",
+    };
+  }
+  return null;
+}
+
+// New rows always start as drafts, whatever the client sent
+export function planMappingCreate(
+  fields: CodemapFields,
+  user: RequestUser,
+): MappingRejection | { row: NewCodemapRow } {
+  const rejection = rejectTarget(fields);
+  if (rejection) return rejection;
+
+  return {
+    row: {
+      ...fields,
+      status: "draft",
+      created_by: user.email,
+      proposed_by: null,
+      reviewer: null,
+    },
+  };
+}
+
+export type MappingUpdatePlan = {
+  patch: Partial<CodemapRow>;
+  // The history entry to append once the patch is written, when the edit
+  // moves the mapping through the workflow
+  entry?: Omit<MappingHistoryEntry, "id" | "created_at">;
+};
+
+// Validates a direct edit and returns the patch to write. Nothing is
+// written here.
+export function planMappingUpdate(
+  row: CodemapRow,
+  fields: Partial<CodemapFields>,
+  user: RequestUser,
+  expectedVersion: string | undefined,
+): MappingRejection | MappingUpdatePlan {
+  const status = normalizeStatus(row.status);
+  if (user.role !== "admin" && !EDITABLE_BY_USERS.includes(status)) {
+    return {
+      status: 403,
+      error: `Only admins can edit a mapping that is ${STATUS_LABELS[status].toLowerCase()}`,
+    };
+  }
+
+  const stale = checkVersion(row, expectedVersion);
+  if (stale) return stale;
+
+  const rejection = rejectTarget({ ...row, ...fields });
+  if (rejection) return rejection;
+
+  const patch = { ...fields, edited_by: user.email };
+  if (status !== "approved") return { patch };
+
+  // Approved content is only ever what a reviewer approved, so an edit
+  // proposes the mapping again, on behalf of whoever made it
+  return {
+    patch: {
+      ...patch,
+      status: "proposed",
+      proposed_by: user.email,
+      reviewer: null,
+    },
+    entry: {
+      mapping_id: row.id,
+      action: "propose",
+      from_status: status,
+      to_status: "proposed",
+      actor: user.email,
+      reviewer: null,
+      justification: "Edited after approval",
+    },
+  };
+}
+
+export function planMappingDelete(
+  row: CodemapRow,
+  user: RequestUser,
+  expectedVersion: string | undefined,
+): MappingRejection | null {
+  const status = normalizeStatus(row.status);
+  if (user.role !== "admin" && status !== "draft") {
+    return {
+      status: 403,
+      error: `Only admins can delete a mapping that is ${STATUS_LABELS[status].toLowerCase()}`,
+    };
+  }
+
+  return checkVersion(row, expectedVersion);
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import type { ReleaseCode, TerminologyRelease } from "@shared/api";
+import { diffReleases, retirementChanges } from "./releases";
+import { seedCodemap } from "./seed";
+
+const release = (
+  version: string,
+  codes: Array<[string, string]>,
+): TerminologyRelease => ({
+  id: `icd11-${version}`,
+  system: "icd11",
+  version,
+  created_by: null,
+  created_at: "2025-01-01T00:00:00.000Z",
+  codes: codes.map(([code, display]): ReleaseCode => ({ code, display })),
+});
+
+const v1 = release("2024-01", [
+  ["BA25.1", "Disorders of the nervous system"],
+  ["DA90", "Diabetes mellitus"],
+  ["DB20", "Asthma"],
+  ["EA03", "Hypertension"],
+]);
+
+const v2 = release("2025-01", [
+  ["BA25.1", "Disorders of the nervous system"],
+  ["DA90", "Diabetes mellitus, unspecified"],
+  ["CA23", "Asthma"],
+  ["QD82", "Symptoms and signs"],
+]);
+
+describe("terminology releases", () => {
+  it("should classify added, removed, renamed and remapped codes", () => {
+    const diff = diffReleases(v1, v2, seedCodemap);
+
+    expect(diff.added.map((c) => c.code)).toEqual(["QD82"]);
+    expect(diff.removed.map((c) => c.code)).toEqual(["EA03"]);
+    expect(diff.renamed).toEqual([
+      {
+        code: "DA90",
+        from: "Diabetes mellitus",
+        to: "Diabetes mellitus, unspecified",
+      },
+    ]);
+    expect(diff.remapped.map((r) => [r.from.code, r.to.code])).toEqual([
+      ["DB20", "CA23"],
+    ]);
+    expect(diff.affected_mappings.map((row) => row.icd11_code).sort()).toEqual([
+      "DB20",
+      "EA03",
+    ]);
+  });
+
+  it("should mark retired mappings and clear marks once a code returns", () => {
+    const diff = diffReleases(v1, v2, seedCodemap);
+    const marked = retirementChanges(v2, diff, seedCodemap);
+
+    expect(marked).toEqual([
+      { id: "seed-ayr-023", retired_in: "ICD-11 2025-01" },
+      { id: "seed-sid-089", retired_in: "ICD-11 2025-01" },
+    ]);
+
+    const codemap = seedCodemap.map((row) => ({
+      ...row,
+      retired_in: marked.find((m) => m.id === row.id)?.retired_in ?? null,
+    }));
+    const v3 = release("2026-01", [
+      ...v2.codes.map((c) => [c.code, c.display!] as [string, string]),
+      ["EA03", "Hypertension"],
+    ]);
+
+    expect(
+      retirementChanges(v3, diffReleases(v2, v3, codemap), codemap),
+    ).toEqual([{ id: "seed-sid-089", retired_in: null }]);
+  });
+});
@@ -0,0 +1,189 @@
+import type {
+  CodeCategory,
+  CodemapRow,
+  ReleaseCode,
+  ReleaseDiff,
+  TerminologyRelease,
+  TerminologyReleaseSummary,
+  TerminologySystem,
+} from "@shared/api";
+import type { CodeListTable } from "./importer";
+
+const CATEGORIES: CodeCategory[] = ["Ayurveda", "Siddha", "Unani"];
+
+// Header aliases for release code lists; both NAMASTE and ICD-11 exports
+// and our own codemap exports are recognised
+const RELEASE_FIELD_ALIASES = {
+  code: ["code", "namaste_code", "namaste code", "icd11_code", "icd11 code"],
+  display: [
+    "display",
+    "name",
+    "term",
+    "title",
+    "namaste_name",
+    "namaste name",
+    "icd11_name",
+    "icd11 name",
+  ],
+  category: ["category", "system"],
+};
+
+export const releaseLabel = (
+  release: Pick<TerminologyRelease, "system" | "version">,
+) =>
+  `${release.system === "namaste" ? "NAMASTE" : "ICD-11"} ${release.version}`;
+
+export const summarizeRelease = ({
+  codes,
+  ...release
+}: TerminologyRelease): TerminologyReleaseSummary => ({
+  ...release,
+  code_count: codes.length,
+});
+
+// The codemap column that holds a code of the given system
+const mappedCode = (row: CodemapRow, system: TerminologySystem) =>
+  system === "namaste" ? row.namaste_code : row.icd11_code;
+
+const normalizeTerm = (term: string | null) =>
+  (term ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+
+// Turns an uploaded code list into release codes. Rows without a code
+// are dropped and repeated codes keep their first occurrence.
+export function tableToReleaseCodes(
+  table: CodeListTable,
+  system: TerminologySystem,
+): ReleaseCode[] {
+  const headerFor = (aliases: string[]) =>
+    table.headers.find((h) => aliases.includes(h.trim().toLowerCase()));
+
+  const codeHeader = headerFor(RELEASE_FIELD_ALIASES.code);
+  const displayHeader = headerFor(RELEASE_FIELD_ALIASES.display);
+  const categoryHeader = headerFor(RELEASE_FIELD_ALIASES.category);
+  if (!codeHeader) return [];
+
+  const codes = new Map<string, ReleaseCode>();
+  for (const row of table.rows) {
+    let code = String(row[codeHeader] ?? "").trim();
+    if (!code) continue;
+    if (system === "icd11") code = code.toUpperCase();
+    if (codes.has(code)) continue;
+
+    const display = displayHeader
+      ? String(row[displayHeader] ?? "").trim() || null
+      : null;
+    const category = categoryHeader
+      ? CATEGORIES.find(
+          (c) =>
+            c.toLowerCase() ===
+            String(row[categoryHeader] ?? "")
+              .trim()
+              .toLowerCase(),
+        )
+      : undefined;
+
+    codes.set(code, {
+      code,
+      display,
+      ...(system === "namaste" && { category: category ?? null }),
+    });
+  }
+
+  return Array.from(codes.values());
+}
+
+// Compares two releases of the same system. A code that disappears while
+// its term shows up under a new code counts as remapped rather than as
+// one removal plus one addition.
+export function diffReleases(
+  from: TerminologyRelease,
+  to: TerminologyRelease,
+  codemap: CodemapRow[],
+): ReleaseDiff {
+  const before = new Map(from.codes.map((c) => [c.code, c]));
+  const after = new Map(to.codes.map((c) => [c.code, c]));
+
+  let added = to.codes.filter((c) => !before.has(c.code));
+  let removed = from.codes.filter((c) => !after.has(c.code));
+
+  const renamed = to.codes
+    .filter(
+      (c) =>
+        before.has(c.code) &&
+        normalizeTerm(before.get(c.code)!.display) !== normalizeTerm(c.display),
+    )
+    .map((c) => ({
+      code: c.code,
+      from: before.get(c.code)!.display,
+      to: c.display,
+    }));
+
+  const addedByTerm = new Map<string, ReleaseCode>();
+  for (const c of added) {
+    const term = normalizeTerm(c.display);
+    if (term && !addedByTerm.has(term)) addedByTerm.set(term, c);
+  }
+
+  const remapped: ReleaseDiff["remapped"] = [];
+  for (const c of removed) {
+    const replacement = addedByTerm.get(normalizeTerm(c.display));
+    if (!replacement) continue;
+    remapped.push({ from: c, to: replacement });
+    addedByTerm.delete(normalizeTerm(c.display));
+  }
+
+  const remappedFrom = new Set(remapped.map((r) => r.from.code));
+  const remappedTo = new Set(remapped.map((r) => r.to.code));
+  removed = removed.filter((c) => !remappedFrom.has(c.code));
+  added = added.filter((c) => !remappedTo.has(c.code));
+
+  const retired = new Set([...removed.map((c) => c.code), ...remappedFrom]);
+
+  return {
+    from: summarizeRelease(from),
+    to: summarizeRelease(to),
+    added,
+    removed,
+    renamed,
+    remapped,
+    affected_mappings: codemap
+      .filter((row) => retired.has(mappedCode(row, to.system)))
+      .map(({ id, namaste_code, icd11_code, status }) => ({
+        id,
+        namaste_code,
+        icd11_code,
+        status,
+      })),
+  };
+}
+
+// Works out which codemap rows need their `retired_in` mark changed once
+// `release` becomes the current one for its system: rows pointing at a
+// retired code are marked, and marks from an earlier release of the same
+// system are cleared when the code is back.
+export function retirementChanges(
+  release: TerminologyRelease,
+  diff: ReleaseDiff | null,
+  codemap: CodemapRow[],
+): Array<{ id: string; retired_in: string | null }> {
+  const label = releaseLabel(release);
+  const prefix = releaseLabel({ system: release.system, version: "" });
+  const current = new Set(release.codes.map((c) => c.code));
+  const affected = new Set(diff?.affected_mappings.map((row) => row.id));
+
+  const changes: Array<{ id: string; retired_in: string | null }> = [];
+  for (const row of codemap) {
+    if (affected.has(row.id)) {
+      if (row.retired_in !== label) {
+        changes.push({ id: row.id, retired_in: label });
+      }
+    } else if (
+      row.retired_in?.startsWith(prefix) &&
+      current.has(mappedCode(row, release.system))
+    ) {
+      changes.push({ id: row.id, retired_in: null });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,168 @@
+import type {
+  AutoMapJob,
+  CodeCategory,
+  CodemapImportProfile,
+  CodemapRow,
+  CodemapSortField,
+  ColumnMapping,
+  MappingHistoryEntry,
+  MappingVersion,
+  TerminologyRelease,
+} from "@shared/api";
+import { normalizeStatus, type MappingStatus } from "../../shared/workflow";
+
+export type NewCodemapRow = Omit<
+  CodemapRow,
+  "id" | "created_at" | "updated_at"
+>;
+
+export interface CodemapQuery {
+  q?: string;
+  category?: CodeCategory;
+  limit?: number;
+  namasteCodes?: string[];
+  // Workflow statuses; legacy stored values count as their new status
+  statuses?: MappingStatus[];
+  // Rows without a confidence never match a confidence range
+  minConfidence?: number;
+  maxConfidence?: number;
+  // Case-insensitive substring of created_by
+  createdBy?: string;
+  // ISO timestamps, inclusive and exclusive respectively
+  createdFrom?: string;
+  createdBefore?: string;
+}
+
+// Keyset position: the sort value and id of the last row already seen
+export interface CodemapCursor {
+  value: string | number | null;
+  id: string;
+}
+
+export interface CodemapPageQuery extends CodemapQuery {
+  sort: CodemapSortField;
+  order: "asc" | "desc";
+  after?: CodemapCursor;
+  limit: number;
+}
+
+export interface CodemapPage {
+  rows: CodemapRow[];
+  // Rows matching the filters, ignoring `after` and `limit`
+  total: number;
+  hasMore: boolean;
+}
+
+// Storage-agnostic access to the NAMASTE → ICD-11 codemap.
+// Both the file store (local runs, tests) and Supabase (production)
+// implement this, so routes never touch a concrete backend.
+export interface TerminologyRepository {
+  list(query?: CodemapQuery): Promise<CodemapRow[]>;
+  // Sorted by `sort` with nulls last in either direction, then by id
+  listPage(query: CodemapPageQuery): Promise<CodemapPage>;
+  findByNamasteCode(code: string): Promise<CodemapRow | null>;
+  findById(id: string): Promise<CodemapRow | null>;
+  insertMany(rows: NewCodemapRow[]): Promise<CodemapRow[]>;
+  // With `expectedVersion` (see mappingVersion) the write only happens if
+  // the row is still at that version; null means missing or changed since
+  update(
+    id: string,
+    patch: Partial<CodemapRow>,
+    expectedVersion?: string,
+  ): Promise<CodemapRow | null>;
+  remove(id: string, expectedVersion?: string): Promise<boolean>;
+
+  // Workflow history is append-only: there is no update or delete
+  appendHistory(
+    entry: Omit<MappingHistoryEntry, "id" | "created_at">,
+  ): Promise<MappingHistoryEntry>;
+  listHistory(mappingId: string): Promise<MappingHistoryEntry[]>;
+
+  // Every version of a mapping, newest first. insertMany, update and
+  // remove each keep one per row they write.
+  listVersions(mappingId: string): Promise<MappingVersion[]>;
+  findVersion(
+    mappingId: string,
+    versionId: number,
+  ): Promise<MappingVersion | null>;
+
+  // Column mappings remembered per code list source
+  listImportProfiles(): Promise<CodemapImportProfile[]>;
+  getImportProfile(source: string): Promise<CodemapImportProfile | null>;
+  saveImportProfile(
+    source: string,
+    columns: ColumnMapping,
+  ): Promise<CodemapImportProfile>;
+
+  // Named code list versions, newest first
+  listReleases(): Promise<TerminologyRelease[]>;
+  findReleaseById(id: string): Promise<TerminologyRelease | null>;
+  insertRelease(
+    release: Omit<TerminologyRelease, "id" | "created_at">,
+  ): Promise<TerminologyRelease>;
+
+  // Batch auto-map jobs, newest first
+  listAutoMapJobs(): Promise<AutoMapJob[]>;
+  findAutoMapJobById(id: string): Promise<AutoMapJob | null>;
+  insertAutoMapJob(
+    job: Omit<AutoMapJob, "id" | "created_at" | "updated_at">,
+  ): Promise<AutoMapJob>;
+  updateAutoMapJob(
+    id: string,
+    patch: Partial<AutoMapJob>,
+  ): Promise<AutoMapJob | null>;
+}
+
+export function matchesQuery(row: CodemapRow, query: CodemapQuery = {}) {
+  if (query.category && row.category !== query.category) return false;
+  if (query.namasteCodes && !query.namasteCodes.includes(row.namaste_code)) {
+    return false;
+  }
+  if (query.statuses && !query.statuses.includes(normalizeStatus(row.status))) {
+    return false;
+  }
+  if (query.minConfidence !== undefined || query.maxConfidence !== undefined) {
+    if (row.confidence === null || row.confidence === undefined) return false;
+    if (row.confidence < (query.minConfidence ?? 0)) return false;
+    if (row.confidence > (query.maxConfidence ?? 1)) return false;
+  }
+  if (
+    query.createdBy &&
+    !row.created_by?.toLowerCase().includes(query.createdBy.toLowerCase())
+  ) {
+    return false;
+  }
+  if (query.createdFrom && row.created_at < query.createdFrom) return false;
+  if (query.createdBefore && row.created_at >= query.createdBefore) {
+    return false;
+  }
+  if (!query.q) return true;
+
+  const searchTerm = query.q.toLowerCase();
+  return [row.namaste_code, row.namaste_name, row.icd11_code, row.icd11_name]
+    .filter(Boolean)
+    .some((value) => value!.toLowerCase().includes(searchTerm));
+}
+
+export const sortValue = (row: CodemapRow, sort: CodemapSortField) =>
+  row[sort] ?? null;
+
+// Page order for stores that sort in memory; rows compare equal to their
+// own cursor, so everything after it sorts strictly greater
+export function compareForPage(
+  a: CodemapCursor,
+  b: CodemapCursor,
+  order: "asc" | "desc",
+) {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+
+    const diff =
+      typeof a.value === "number" && typeof b.value === "number"
+        ? a.value - b.value
+        : String(a.value).localeCompare(String(b.value));
+    if (diff !== 0) return order === "asc" ? diff : -diff;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
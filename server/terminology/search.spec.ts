@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { phoneticKey, searchCodemap } from "./search";
+import { transliterate } from "./transliterate";
+import { seedCodemap } from "./seed";
+
+const topCode = (query: string) =>
+  searchCodemap(seedCodemap, query)[0]?.item.namaste_code;
+
+describe("transliterate", () => {
+  it("should romanise Devanagari with inherent vowels and virama", () => {
+    expect(transliterate("पित्त")).toBe("pitta");
+    expect(transliterate("वात व्याधि")).toBe("vaata vyaadhi");
+  });
+
+  it("should romanise Tamil", () => {
+    expect(transliterate("பித்தம்")).toBe("pittam");
+  });
+});
+
+describe("code search", () => {
+  it("should reduce spelling variants to the same phonetic key", () => {
+    expect(phoneticKey("Vyadi")).toBe(phoneticKey("Vyadhi"));
+    expect(phoneticKey("वात")).toBe(phoneticKey("Vata"));
+  });
+
+  it("should tolerate misspelt Sanskrit and Tamil terms", () => {
+    expect(topCode("Vata Vyadi")).toBe("AYR-001");
+    expect(
+      searchCodemap(seedCodemap, "Pittam").map((h) => h.item.namaste_code),
+    ).toContain("SID-045");
+  });
+
+  it("should match terms typed in Devanagari or Tamil script", () => {
+    expect(topCode("वात व्याधि")).toBe("AYR-001");
+    expect(
+      searchCodemap(seedCodemap, "பித்தம்").map((h) => h.item.namaste_code),
+    ).toContain("SID-045");
+  });
+
+  it("should rank an exact code match first with a full score", () => {
+    const [hit] = searchCodemap(seedCodemap, "DB20");
+    expect(hit.item.namaste_code).toBe("AYR-023");
+    expect(hit.score).toBe(1);
+  });
+
+  it("should return highlight ranges into the matched fragment", () => {
+    const [hit] = searchCodemap(seedCodemap, "asthma");
+    const highlight = hit.highlights.find(
+      (h) => h.field === "icd11Description",
+    );
+
+    const [start, end] = highlight!.ranges[0];
+    expect(highlight!.fragment.slice(start, end)).toBe("Asthma");
+  });
+
+  it("should drop unrelated rows", () => {
+    expect(searchCodemap(seedCodemap, "zzzz")).toEqual([]);
+  });
+});
@@ -0,0 +1,284 @@
+import type { CodemapRow, SearchHighlight } from "@shared/api";
+import { transliterate } from "./transliterate";
+
+// Ranked fuzzy search over codemap text.
+//
+// Every term is reduced to a phonetic key (script transliterated, accents
+// and aspiration dropped, doubled letters collapsed) so "Vyadi" meets
+// "Vyadhi" and "पित्त" meets "Pitta". Keys are then compared exactly, by
+// prefix, by edit distance and finally by trigram overlap.
+
+export interface SearchField {
+  name: string;
+  text: string | null | undefined;
+  weight: number;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+interface Token {
+  key: string;
+  start: number;
+  end: number;
+}
+
+const MIN_SCORE = 0.35;
+const MIN_HIGHLIGHT_SCORE = 0.3;
+const FRAGMENT_RADIUS = 60;
+
+export function phoneticKey(term: string): string {
+  return transliterate(term)
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/([kgcjtdpbs])h/g, "$1")
+    .replace(/w/g, "v")
+    .replace(/ee/g, "i")
+    .replace(/oo/g, "u")
+    .replace(/(.)\1+/g, "$1");
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+    const key = phoneticKey(match[0]);
+    if (key) {
+      tokens.push({
+        key,
+        start: match.index!,
+        end: match.index! + match[0].length,
+      });
+    }
+  }
+  return tokens;
+}
+
+// Traditional-medicine synonyms and transliteration variants. Each group
+// lists spellings that should be treated as the same concept.
+const SYNONYM_GROUPS = [
+  ["vata", "vatham", "vayu", "vali"],
+  ["pitta", "pittam", "azhal"],
+  ["kapha", "kapham", "iyam", "iyya", "shleshma"],
+  ["vyadhi", "roga", "noi"],
+  ["jwara", "suram", "fever"],
+  ["prameha", "madhumeha", "diabetes"],
+  ["tamaka", "swasa", "asthma"],
+];
+
+const SYNONYMS = new Map<string, string[]>();
+for (const group of SYNONYM_GROUPS) {
+  const keys = group.map(phoneticKey);
+  for (const key of keys) {
+    SYNONYMS.set(
+      key,
+      keys.filter((other) => other !== key),
+    );
+  }
+}
+
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost,
+      );
+      // Adjacent transposition ("vtaa" → "vata")
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+const trigrams = (key: string) => {
+  const padded = `  ${key} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+export function trigramSimilarity(a: string, b: string): number {
+  const ga = trigrams(a);
+  const gb = trigrams(b);
+  let shared = 0;
+  ga.forEach((gram) => gb.has(gram) && shared++);
+  return shared / (ga.size + gb.size - shared);
+}
+
+function tokenScore(query: string, candidate: string): number {
+  if (query === candidate) return 1;
+  if (query.length >= 2 && candidate.startsWith(query)) return 0.85;
+
+  const longest = Math.max(query.length, candidate.length);
+  const allowedEdits = longest <= 4 ? 1 : 2;
+  const distance = editDistance(query, candidate);
+  if (distance <= allowedEdits) return 0.9 * (1 - distance / longest);
+
+  const similarity = trigramSimilarity(query, candidate);
+  return similarity >= 0.3 ? 0.7 * similarity : 0;
+}
+
+function bestMatch(queryKey: string, tokens: Token[]) {
+  const alternatives = [
+    { key: queryKey, factor: 1 },
+    ...(SYNONYMS.get(queryKey) ?? []).map((key) => ({ key, factor: 0.95 })),
+  ];
+
+  let best = { score: 0, token: null as Token | null };
+  for (const token of tokens) {
+    for (const alt of alternatives) {
+      const score = tokenScore(alt.key, token.key) * alt.factor;
+      if (score > best.score) best = { score, token };
+    }
+  }
+  return best;
+}
+
+export interface TermMatch {
+  term: string;
+  // The word in the compared text that matched best, if any did
+  matched: string | null;
+  score: number;
+}
+
+// Best match in `text` for every term of `query`, with the same typo,
+// transliteration and synonym tolerance as search
+export function matchTerms(query: string, text: string): TermMatch[] {
+  const tokens = tokenize(text);
+
+  return tokenize(query).map((queryToken) => {
+    const best = bestMatch(queryToken.key, tokens);
+    return {
+      term: query.slice(queryToken.start, queryToken.end),
+      matched: best.token ? text.slice(best.token.start, best.token.end) : null,
+      score: best.score,
+    };
+  });
+}
+
+function toHighlight(
+  field: string,
+  text: string,
+  tokens: Token[],
+): SearchHighlight {
+  const first = tokens[0].start;
+  const last = tokens[tokens.length - 1].end;
+  const from =
+    text.length > FRAGMENT_RADIUS * 2
+      ? Math.max(0, first - FRAGMENT_RADIUS)
+      : 0;
+  const to =
+    text.length > FRAGMENT_RADIUS * 2
+      ? Math.min(text.length, last + FRAGMENT_RADIUS)
+      : text.length;
+
+  return {
+    field,
+    fragment: text.slice(from, to),
+    ranges: tokens.map(
+      (t) => [t.start - from, t.end - from] as [number, number],
+    ),
+  };
+}
+
+export function search<T>(
+  items: T[],
+  query: string,
+  fieldsOf: (item: T) => SearchField[],
+): SearchHit<T>[] {
+  const queryTokens = tokenize(query);
+  if (!queryTokens.length) return [];
+
+  // A whole-query code match ("AYR-001") outranks any text match
+  const normalizedQuery = query.trim().toLowerCase();
+  const hits: SearchHit<T>[] = [];
+
+  for (const item of items) {
+    const fields = fieldsOf(item)
+      .filter((field) => field.text)
+      .map((field) => ({ ...field, tokens: tokenize(field.text!) }));
+
+    const exactField = fields.find(
+      (field) => field.text!.toLowerCase() === normalizedQuery,
+    );
+
+    const matched = new Map<string, Token[]>();
+    let total = 0;
+
+    for (const queryToken of queryTokens) {
+      let best = {
+        score: 0,
+        field: null as string | null,
+        token: null as Token | null,
+      };
+
+      for (const field of fields) {
+        const match = bestMatch(queryToken.key, field.tokens);
+        const score = match.score * field.weight;
+        if (score > best.score)
+          best = { score, field: field.name, token: match.token };
+      }
+
+      total += best.score;
+      if (best.field && best.score >= MIN_HIGHLIGHT_SCORE) {
+        matched.set(best.field, [
+          ...(matched.get(best.field) ?? []),
+          best.token!,
+        ]);
+      }
+    }
+
+    const score = exactField ? 1 : total / queryTokens.length;
+    if (score < MIN_SCORE) continue;
+
+    if (exactField) {
+      matched.set(exactField.name, [
+        { key: "", start: 0, end: exactField.text!.length },
+      ]);
+    }
+
+    const highlights = fields
+      .filter((field) => matched.has(field.name))
+      .map((field) =>
+        toHighlight(
+          field.name,
+          field.text!,
+          matched
+            .get(field.name)!
+            .filter((t, i, all) => all.indexOf(t) === i)
+            .sort((a, b) => a.start - b.start),
+        ),
+      );
+
+    hits.push({ item, score: Math.round(score * 1000) / 1000, highlights });
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+export const codemapFields = (row: CodemapRow): SearchField[] => [
+  { name: "namasteCode", text: row.namaste_code, weight: 1 },
+  { name: "namasteDescription", text: row.namaste_name, weight: 1 },
+  { name: "icd11Code", text: row.icd11_code, weight: 1 },
+  { name: "icd11Description", text: row.icd11_name, weight: 0.8 },
+  { name: "symptoms", text: row.symptoms, weight: 0.6 },
+  { name: "description", text: row.description, weight: 0.5 },
+];
+
+export const searchCodemap = (rows: CodemapRow[], query: string) =>
+  search(rows, query, codemapFields);
@@ -0,0 +1,75 @@
+import type { CodemapRow } from "@shared/api";
+
+// Starter codemap used when the file store has no data file yet
+export const seedCodemap: CodemapRow[] = [
+  {
+    id: "seed-ayr-001",
+    namaste_code: "AYR-001",
+    namaste_name: "Vata Vyadhi (Wind Disorder)",
+    icd11_code: "BA25.1",
+    equivalence: "wider",
+    icd11_name: "Disorders of the nervous system and sense organs",
+    category: "Ayurveda",
+    symptoms: "Joint pain, Stiffness, Tremors",
+    description: null,
+    status: "approved",
+    confidence: 0.94,
+    created_at: "2024-01-01T00:00:00.000Z",
+  },
+  {
+    id: "seed-sid-045",
+    namaste_code: "SID-045",
+    namaste_name: "Pitta Roga (Pitta Disease)",
+    icd11_code: "DA90",
+    equivalence: "inexact",
+    icd11_name: "Diabetes mellitus",
+    category: "Siddha",
+    symptoms: "Excessive thirst, Burning sensation, Fatigue",
+    description: null,
+    status: "approved",
+    confidence: 0.87,
+    created_at: "2024-01-02T00:00:00.000Z",
+  },
+  {
+    id: "seed-una-012",
+    namaste_code: "UNA-012",
+    namaste_name: "Humoral Imbalance",
+    icd11_code: "QD82",
+    equivalence: "wider",
+    icd11_name: "Symptoms and signs",
+    category: "Unani",
+    symptoms: "Fatigue, Indigestion",
+    description: null,
+    status: "proposed",
+    confidence: 0.76,
+    created_at: "2024-01-03T00:00:00.000Z",
+  },
+  {
+    id: "seed-ayr-023",
+    namaste_code: "AYR-023",
+    namaste_name: "Kapha Vyadhi (Phlegm Disorder)",
+    icd11_code: "DB20",
+    equivalence: "narrower",
+    icd11_name: "Asthma",
+    category: "Ayurveda",
+    symptoms: "Cough, Breathlessness, Congestion",
+    description: null,
+    status: "approved",
+    confidence: 0.92,
+    created_at: "2024-01-04T00:00:00.000Z",
+  },
+  {
+    id: "seed-sid-089",
+    namaste_code: "SID-089",
+    namaste_name: "Iyya Pitta (Bodily Humours)",
+    icd11_code: "EA03",
+    equivalence: "inexact",
+    icd11_name: "Hypertension",
+    category: "Siddha",
+    symptoms: "Headache, Dizziness",
+    description: null,
+    status: "proposed",
+    confidence: 0.65,
+    created_at: "2024-01-05T00:00:00.000Z",
+  },
+];
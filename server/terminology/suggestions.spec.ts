@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createLexicalSuggestionProvider,
+  createLlmSuggestionProvider,
+  suggestionCandidates,
+} from "./suggestions";
+import { seedCodemap } from "./seed";
+
+const context = {
+  candidates: [
+    ...suggestionCandidates([], seedCodemap),
+    { code: "5A11", display: "Type 2 diabetes mellitus" },
+    { code: "MG26", display: "Fever of other or unknown origin" },
+    { code: "FA20", display: "Rheumatoid arthritis" },
+  ],
+  codemap: seedCodemap,
+};
+
+const lexical = createLexicalSuggestionProvider();
+
+describe("mapping suggestions", () => {
+  it("should rank candidates and explain the matched terms", async () => {
+    const { provider, suggestions } = await lexical.suggest(
+      { namaste_name: "Jwara", description: "Fever with body ache" },
+      context,
+      3,
+    );
+
+    expect(provider).toBe("lexical");
+    expect(suggestions[0].icd11Code).toBe("MG26");
+    expect(suggestions[0].features).toContainEqual(
+      expect.objectContaining({ feature: "name", matches: ["Jwara → Fever"] }),
+    );
+
+    const { confidence, features } = suggestions[0];
+    const weighted = features.reduce((sum, f) => sum + f.score * f.weight, 0);
+    expect(Math.abs(weighted - confidence)).toBeLessThan(0.02);
+  });
+
+  it("should be deterministic and use reviewed mappings as precedent", async () => {
+    const source = { namaste_code: "AYR-999", namaste_name: "Vata Vyadhi" };
+    const first = await lexical.suggest(source, context, 3);
+
+    expect(await lexical.suggest(source, context, 3)).toEqual(first);
+    expect(first.suggestions[0]).toMatchObject({
+      icd11Code: "BA25.1",
+      features: expect.arrayContaining([
+        expect.objectContaining({
+          feature: "precedent",
+          score: 1,
+          matches: ["AYR-001 Vata Vyadhi (Wind Disorder)"],
+        }),
+      ]),
+    });
+  });
+
+  it("should let a language model re-rank the shortlist only", async () => {
+    const complete = vi.fn(async () =>
+      JSON.stringify([
+        { code: "5A11", confidence: 0.9, rationale: "Madhumeha is diabetes" },
+        { code: "XX99", confidence: 1, rationale: "Not shortlisted" },
+      ]),
+    );
+    const llm = createLlmSuggestionProvider("test-llm", complete, lexical);
+
+    const { provider, suggestions } = await llm.suggest(
+      { namaste_name: "Madhumeha" },
+      context,
+      5,
+    );
+
+    expect(provider).toBe("test-llm");
+    expect(suggestions[0].icd11Code).toBe("5A11");
+    expect(suggestions.map((s) => s.icd11Code)).not.toContain("XX99");
+    expect(suggestions[0].features).toContainEqual({
+      feature: "llm",
+      score: 0.9,
+      weight: 0.5,
+      matches: ["Madhumeha is diabetes"],
+    });
+  });
+
+  it("should fall back to the lexical ranking when the model fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const llm = createLlmSuggestionProvider(
+      "test-llm",
+      async () => "not json",
+      lexical,
+    );
+
+    const result = await llm.suggest({ namaste_name: "Madhumeha" }, context, 2);
+
+    expect(result).toEqual(
+      await lexical.suggest({ namaste_name: "Madhumeha" }, context, 2),
+    );
+  });
+});
@@ -0,0 +1,413 @@
+import type {
+  CodemapRow,
+  MappingSuggestion,
+  MappingSuggestionRequest,
+  ReleaseCode,
+  SuggestionFeature,
+  SuggestionFeatureName,
+  TerminologyRelease,
+} from "@shared/api";
+import { normalizeStatus } from "../../shared/workflow";
+import { matchTerms, phoneticKey, tokenize } from "./search";
+
+// Automated NAMASTE → ICD-11 mapping suggestions.
+//
+// The lexical provider works offline and is deterministic: every ICD-11
+// candidate is scored on a few independent features (name, description
+// and symptom terms, character-level similarity, and reviewed mappings of
+// similar NAMASTE terms). The confidence is the weighted mean of the
+// features the request has input for, and the weights are reported
+// normalised so the explanation adds up to the confidence shown.
+//
+// A language model can re-rank the lexical shortlist; it may only choose
+// among shortlisted codes and any failure falls back to the lexical
+// ranking.
+
+export type SuggestionSource = Omit<
+  MappingSuggestionRequest,
+  "namaste_name" | "limit"
+> & { namaste_name: string };
+
+export interface SuggestionContext {
+  candidates: ReleaseCode[];
+  codemap: CodemapRow[];
+}
+
+export interface SuggestionResult {
+  // The provider whose ranking was returned, after any fallback
+  provider: string;
+  suggestions: MappingSuggestion[];
+}
+
+export interface SuggestionProvider {
+  name: string;
+  suggest(
+    source: SuggestionSource,
+    context: SuggestionContext,
+    limit: number,
+  ): Promise<SuggestionResult>;
+}
+
+const FEATURE_WEIGHTS: Record<Exclude<SuggestionFeatureName, "llm">, number> = {
+  name: 0.4,
+  description: 0.15,
+  symptoms: 0.15,
+  similarity: 0.1,
+  precedent: 0.2,
+};
+
+const MIN_CONFIDENCE = 0.1;
+const MIN_TERM_SCORE = 0.6;
+
+// Words that say "this is a disease" without saying which one
+const STOP_WORDS = new Set(
+  [
+    "a",
+    "an",
+    "and",
+    "or",
+    "of",
+    "the",
+    "in",
+    "to",
+    "with",
+    "without",
+    "due",
+    "other",
+    "unspecified",
+    "disorder",
+    "disorders",
+    "disease",
+    "diseases",
+    "condition",
+    "vyadhi",
+    "roga",
+    "noi",
+  ].map(phoneticKey),
+);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Share of the content terms of `text` found in `target`
+function termFeature(
+  feature: SuggestionFeatureName,
+  text: string | null | undefined,
+  target: string,
+): SuggestionFeature | null {
+  if (!text?.trim()) return null;
+
+  const terms = matchTerms(text, target).filter(
+    (match) => !STOP_WORDS.has(phoneticKey(match.term)),
+  );
+  if (terms.length === 0) return null;
+
+  const found = terms.filter((match) => match.score >= MIN_TERM_SCORE);
+  return {
+    feature,
+    score: round(
+      found.reduce((sum, match) => sum + match.score, 0) / terms.length,
+    ),
+    weight: FEATURE_WEIGHTS[feature as keyof typeof FEATURE_WEIGHTS],
+    matches: found.map((match) =>
+      match.term.toLowerCase() === match.matched!.toLowerCase()
+        ? match.term
+        : `${match.term} → ${match.matched}`,
+    ),
+  };
+}
+
+// Character trigram profile of the content words, compared by cosine
+// similarity; catches shared stems that whole-term matching misses
+function trigramProfile(text: string) {
+  const profile = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    if (STOP_WORDS.has(token.key)) continue;
+    const padded = ` ${token.key} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      const gram = padded.slice(i, i + 3);
+      profile.set(gram, (profile.get(gram) ?? 0) + 1);
+    }
+  }
+  return profile;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>) {
+  let dot = 0;
+  a.forEach((count, gram) => (dot += count * (b.get(gram) ?? 0)));
+  const norm = (p: Map<string, number>) =>
+    Math.sqrt(Array.from(p.values()).reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator ? dot / denominator : 0;
+}
+
+// Reviewed mappings of similar NAMASTE terms to the candidate code
+function precedentFeature(
+  source: SuggestionSource,
+  reviewed: CodemapRow[],
+): SuggestionFeature {
+  let score = 0;
+  const matches: string[] = [];
+  for (const row of reviewed) {
+    const terms = termFeature(
+      "precedent",
+      source.namaste_name,
+      row.namaste_name ?? "",
+    );
+    if (!terms || terms.score < MIN_TERM_SCORE) continue;
+
+    score = Math.max(score, terms.score);
+    matches.push(`${row.namaste_code} ${row.namaste_name}`);
+  }
+
+  return {
+    feature: "precedent",
+    score: round(score),
+    weight: FEATURE_WEIGHTS.precedent,
+    matches,
+  };
+}
+
+function scoreCandidate(
+  source: SuggestionSource,
+  candidate: ReleaseCode,
+  reviewed: CodemapRow[],
+  sourceProfile: Map<string, number>,
+): MappingSuggestion {
+  const display = candidate.display ?? "";
+  const features = [
+    termFeature("name", source.namaste_name, display),
+    termFeature("description", source.description, display),
+    termFeature("symptoms", source.symptoms, display),
+    sourceProfile.size > 0
+      ? {
+          feature: "similarity" as const,
+          score: round(cosine(sourceProfile, trigramProfile(display))),
+          weight: FEATURE_WEIGHTS.similarity,
+          matches: [],
+        }
+      : null,
+    reviewed.length > 0
+      ? precedentFeature(
+          source,
+          reviewed.filter((row) => row.icd11_code === candidate.code),
+        )
+      : null,
+  ].filter((feature): feature is SuggestionFeature => feature !== null);
+
+  const totalWeight = features.reduce((sum, f) => sum + f.weight, 0);
+  const normalized = features.map((f) => ({
+    ...f,
+    weight: totalWeight ? round(f.weight / totalWeight) : 0,
+  }));
+
+  return {
+    icd11Code: candidate.code,
+    icd11Description: display,
+    confidence: totalWeight
+      ? round(
+          features.reduce((sum, f) => sum + f.score * f.weight, 0) /
+            totalWeight,
+        )
+      : 0,
+    features: normalized,
+  };
+}
+
+// Codes the lexical model can propose: the newest ICD-11 release plus
+// every live target already in the codemap
+export function suggestionCandidates(
+  releases: TerminologyRelease[],
+  codemap: CodemapRow[],
+): ReleaseCode[] {
+  const latest = releases.find((release) => release.system === "icd11");
+  const candidates = new Map<string, ReleaseCode>(
+    (latest?.codes ?? []).map((code) => [code.code, code]),
+  );
+
+  for (const row of codemap) {
+    if (!row.icd11_code || row.retired_in) continue;
+    if (!candidates.has(row.icd11_code)) {
+      candidates.set(row.icd11_code, {
+        code: row.icd11_code,
+        display: row.icd11_name,
+      });
+    }
+  }
+
+  return Array.from(candidates.values());
+}
+
+export function createLexicalSuggestionProvider(): SuggestionProvider {
+  return {
+    name: "lexical",
+
+    async suggest(source, context, limit) {
+      // The source's own rows are left out so a suggestion never just
+      // echoes the mapping it is meant to check
+      const reviewed = context.codemap.filter(
+        (row) =>
+          normalizeStatus(row.status) === "approved" &&
+          row.namaste_code !== source.namaste_code,
+      );
+      const sourceProfile = trigramProfile(
+        [source.namaste_name, source.description].filter(Boolean).join(" "),
+      );
+
+      const suggestions = context.candidates
+        .map((candidate) =>
+          scoreCandidate(source, candidate, reviewed, sourceProfile),
+        )
+        .filter((suggestion) => suggestion.confidence >= MIN_CONFIDENCE)
+        .sort(
+          (a, b) =>
+            b.confidence - a.confidence ||
+            a.icd11Code.localeCompare(b.icd11Code),
+        );
+
+      return { provider: "lexical", suggestions: suggestions.slice(0, limit) };
+    },
+  };
+}
+
+// Sends a prompt and resolves with the model's text reply
+export type LlmCompletion = (prompt: string) => Promise<string>;
+
+const LLM_SHORTLIST = 20;
+const LLM_WEIGHT = 0.5;
+
+interface LlmRating {
+  confidence: number;
+  rationale: string;
+}
+
+function buildPrompt(source: SuggestionSource, shortlist: MappingSuggestion[]) {
+  return [
+    "You map traditional Indian medicine (NAMASTE) diagnoses to ICD-11 MMS codes.",
+    `Diagnosis: ${source.namaste_name}${source.namaste_code ? ` (${source.namaste_code})` : ""}`,
+    source.category && `System: ${source.category}`,
+    source.description && `Description: ${source.description}`,
+    source.symptoms && `Symptoms: ${source.symptoms}`,
+    "Candidate ICD-11 codes:",
+    ...shortlist.map((s) => `${s.icd11Code}: ${s.icd11Description}`),
+    'Reply with only a JSON array of {"code", "confidence", "rationale"} for the candidates that fit, ' +
+      "with confidence between 0 and 1 and a rationale of at most 20 words.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function parseRatings(reply: string) {
+  const json = reply.replace(/^```(?:json)?\s*|\s*```$/g, "");
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) throw new Error("Expected a JSON array");
+
+  const ratings = new Map<string, LlmRating>();
+  for (const item of parsed) {
+    if (typeof item?.code !== "string" || typeof item.confidence !== "number")
+      continue;
+    ratings.set(item.code.trim().toUpperCase(), {
+      confidence: Math.min(1, Math.max(0, item.confidence)),
+      rationale: typeof item.rationale === "string" ? item.rationale : "",
+    });
+  }
+  return ratings;
+}
+
+export function createLlmSuggestionProvider(
+  name: string,
+  complete: LlmCompletion,
+  lexical: SuggestionProvider = createLexicalSuggestionProvider(),
+): SuggestionProvider {
+  return {
+    name,
+
+    async suggest(source, context, limit) {
+      const shortlist = await lexical.suggest(source, context, LLM_SHORTLIST);
+      if (shortlist.suggestions.length === 0) return shortlist;
+
+      let ratings: Map<string, LlmRating>;
+      try {
+        ratings = parseRatings(
+          await complete(buildPrompt(source, shortlist.suggestions)),
+        );
+      } catch (error) {
+        console.error("LLM suggestion error:", error);
+        return {
+          provider: shortlist.provider,
+          suggestions: shortlist.suggestions.slice(0, limit),
+        };
+      }
+
+      const suggestions = shortlist.suggestions
+        .map((suggestion): MappingSuggestion => {
+          const rating = ratings.get(suggestion.icd11Code);
+          return {
+            ...suggestion,
+            confidence: round(
+              suggestion.confidence * (1 - LLM_WEIGHT) +
+                (rating?.confidence ?? 0) * LLM_WEIGHT,
+            ),
+            features: [
+              ...suggestion.features.map((f) => ({
+                ...f,
+                weight: round(f.weight * (1 - LLM_WEIGHT)),
+              })),
+              {
+                feature: "llm",
+                score: rating?.confidence ?? 0,
+                weight: LLM_WEIGHT,
+                matches: rating?.rationale ? [rating.rationale] : [],
+              },
+            ],
+          };
+        })
+        .sort((a, b) => b.confidence - a.confidence);
+
+      return { provider: name, suggestions: suggestions.slice(0, limit) };
+    },
+  };
+}
+
+export const geminiCompletion =
+  (apiKey: string, model = "gemini-1.5-flash"): LlmCompletion =>
+  async (prompt) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: prompt }] }],
+          generationConfig: {
+            temperature: 0,
+            responseMimeType: "application/json",
+          },
+        }),
+        signal: AbortSignal.timeout(15_000),
+      },
+    );
+    if (!response.ok) {
+      throw new Error(`Gemini request failed with ${response.status}`);
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) throw new Error("Gemini returned no text");
+    return text;
+  };
+
+let provider: SuggestionProvider | null = null;
+
+// SUGGESTION_PROVIDER=gemini re-ranks with Gemini when GEMINI_API_KEY is
+// set; otherwise the offline lexical model is used
+export function getSuggestionProvider(): SuggestionProvider {
+  if (provider) return provider;
+
+  const apiKey = process.env.GEMINI_API_KEY;
+  provider =
+    process.env.SUGGESTION_PROVIDER === "gemini" && apiKey
+      ? createLlmSuggestionProvider("gemini", geminiCompletion(apiKey))
+      : createLexicalSuggestionProvider();
+
+  return provider;
+}
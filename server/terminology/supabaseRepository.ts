@@ -0,0 +1,390 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AutoMapJob,
+  CodemapImportProfile,
+  CodemapRow,
+  CodemapSortField,
+  MappingHistoryEntry,
+  MappingVersion,
+  TerminologyRelease,
+} from "@shared/api";
+import { storedStatuses } from "../../shared/workflow";
+import type {
+  CodemapCursor,
+  CodemapQuery,
+  TerminologyRepository,
+} from "./repository";
+
+// Characters with meaning inside a PostgREST `or=(...)` filter
+const sanitizeFilterValue = (value: string) => value.replace(/[,()*%]/g, " ");
+
+// Rows per request when reading the whole codemap; no more than the
+// PostgREST max-rows setting
+const LIST_PAGE_SIZE = 1000;
+
+type CodemapFilterBuilder = ReturnType<
+  ReturnType<SupabaseClient["from"]>["select"]
+>;
+
+function applyFilters<T extends CodemapFilterBuilder>(
+  request: T,
+  query: CodemapQuery,
+): T {
+  let filtered = request;
+
+  if (query.q) {
+    const term = sanitizeFilterValue(query.q);
+    filtered = filtered.or(
+      [
+        `namaste_code.ilike.%${term}%`,
+        `namaste_name.ilike.%${term}%`,
+        `icd11_code.ilike.%${term}%`,
+        `icd11_name.ilike.%${term}%`,
+      ].join(","),
+    ) as T;
+  }
+
+  if (query.category) filtered = filtered.eq("category", query.category) as T;
+  if (query.namasteCodes) {
+    filtered = filtered.in("namaste_code", query.namasteCodes) as T;
+  }
+  if (query.statuses) {
+    filtered = filtered.in("status", storedStatuses(query.statuses)) as T;
+  }
+  if (query.minConfidence !== undefined) {
+    filtered = filtered.gte("confidence", query.minConfidence) as T;
+  }
+  if (query.maxConfidence !== undefined) {
+    filtered = filtered.lte("confidence", query.maxConfidence) as T;
+  }
+  if (query.createdBy) {
+    filtered = filtered.ilike(
+      "created_by",
+      `%${sanitizeFilterValue(query.createdBy)}%`,
+    ) as T;
+  }
+  if (query.createdFrom) {
+    filtered = filtered.gte("created_at", query.createdFrom) as T;
+  }
+  if (query.createdBefore) {
+    filtered = filtered.lt("created_at", query.createdBefore) as T;
+  }
+
+  return filtered;
+}
+
+const quoteFilterValue = (value: string | number) =>
+  `"${String(value).replace(/["\\]/g, "\\$&")}"`;
+
+// Rows after the cursor in (sort nulls last, id) order
+function afterFilter(
+  sort: CodemapSortField,
+  order: "asc" | "desc",
+  { value, id }: CodemapCursor,
+) {
+  const quotedId = quoteFilterValue(id);
+  if (value === null) return `and(${sort}.is.null,id.gt.${quotedId})`;
+
+  const quoted = quoteFilterValue(value);
+  return [
+    `${sort}.${order === "asc" ? "gt" : "lt"}.${quoted}`,
+    `and(${sort}.eq.${quoted},id.gt.${quotedId})`,
+    `${sort}.is.null`,
+  ].join(",");
+}
+
+// Matches rows still at `version` (see mappingVersion), so a stale
+// write changes nothing instead of overwriting someone else's edit
+const versionFilter = (version: string) =>
+  `updated_at.eq."${version}",and(updated_at.is.null,created_at.eq."${version}")`;
+
+// `codemap_versions` keeps the row as `data`
+const toVersion = (row: Record<string, any>): MappingVersion => ({
+  mapping_id: row.mapping_id,
+  version_id: row.version_id,
+  row: row.data ?? null,
+  recorded_at: row.recorded_at,
+});
+
+// Reads the same `codemap` table that the CodeMapping page edits. Every
+// write to it is versioned into `codemap_versions` by a trigger (see
+// supabase/migrations), so a version is kept however the row was written.
+export function createSupabaseTerminologyRepository(
+  client: SupabaseClient,
+): TerminologyRepository {
+  return {
+    // PostgREST returns at most max-rows (1000 by default) per request,
+    // so the rows are read a page at a time, until one comes back short
+    async list(query = {}) {
+      const rows: CodemapRow[] = [];
+
+      for (;;) {
+        const size = Math.min(
+          LIST_PAGE_SIZE,
+          (query.limit || Infinity) - rows.length,
+        );
+        if (size <= 0) return rows;
+
+        const { data, error } = await applyFilters(
+          client
+            .from("codemap")
+            .select("*")
+            .order("created_at", { ascending: false })
+            .order("id", { ascending: true }),
+          query,
+        ).range(rows.length, rows.length + size - 1);
+        if (error) throw new Error(error.message);
+
+        rows.push(...((data || []) as CodemapRow[]));
+        if ((data || []).length < size) return rows;
+      }
+    },
+
+    async listPage({ sort, order, after, limit, ...query }) {
+      const counted = applyFilters(
+        client.from("codemap").select("id", { count: "exact", head: true }),
+        query,
+      );
+
+      let request = applyFilters(
+        client
+          .from("codemap")
+          .select("*")
+          .order(sort, { ascending: order === "asc", nullsFirst: false })
+          .order("id", { ascending: true }),
+        query,
+      );
+      if (after) request = request.or(afterFilter(sort, order, after));
+
+      // One extra row tells whether another page follows
+      const [{ count, error: countError }, { data, error }] = await Promise.all(
+        [counted, request.limit(limit + 1)],
+      );
+      if (countError) throw new Error(countError.message);
+      if (error) throw new Error(error.message);
+
+      const rows = (data || []) as CodemapRow[];
+      return {
+        rows: rows.slice(0, limit),
+        total: count ?? 0,
+        hasMore: rows.length > limit,
+      };
+    },
+
+    async findByNamasteCode(code) {
+      const { data, error } = await client
+        .from("codemap")
+        .select("*")
+        .eq("namaste_code", code)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return (data as CodemapRow) ?? null;
+    },
+
+    async findById(id) {
+      const { data, error } = await client
+        .from("codemap")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return (data as CodemapRow) ?? null;
+    },
+
+    async insertMany(rows) {
+      if (!rows.length) return [];
+
+      const { data, error } = await client
+        .from("codemap")
+        .insert(rows)
+        .select();
+
+      if (error) throw new Error(error.message);
+      return (data || []) as CodemapRow[];
+    },
+
+    async update(id, patch, expectedVersion) {
+      let request = client
+        .from("codemap")
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (expectedVersion) request = request.or(versionFilter(expectedVersion));
+
+      const { data, error } = await request.select().maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return (data as CodemapRow) ?? null;
+    },
+
+    async remove(id, expectedVersion) {
+      let request = client.from("codemap").delete().eq("id", id);
+
+      if (expectedVersion) request = request.or(versionFilter(expectedVersion));
+
+      const { data, error } = await request.select("id");
+
+      if (error) throw new Error(error.message);
+      return (data || []).length > 0;
+    },
+
+    async appendHistory(entry) {
+      const { data, error } = await client
+        .from("codemap_history")
+        .insert(entry)
+        .select()
+        .single();
+
+      if (error) throw new Error(error.message);
+      return data as MappingHistoryEntry;
+    },
+
+    async listHistory(mappingId) {
+      const { data, error } = await client
+        .from("codemap_history")
+        .select("*")
+        .eq("mapping_id", mappingId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw new Error(error.message);
+      return (data || []) as MappingHistoryEntry[];
+    },
+
+    async listVersions(mappingId) {
+      const { data, error } = await client
+        .from("codemap_versions")
+        .select("*")
+        .eq("mapping_id", mappingId)
+        .order("version_id", { ascending: false });
+
+      if (error) throw new Error(error.message);
+      return (data || []).map(toVersion);
+    },
+
+    async findVersion(mappingId, versionId) {
+      const { data, error } = await client
+        .from("codemap_versions")
+        .select("*")
+        .eq("mapping_id", mappingId)
+        .eq("version_id", versionId)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return data ? toVersion(data) : null;
+    },
+
+    async listImportProfiles() {
+      const { data, error } = await client
+        .from("codemap_import_profiles")
+        .select("*")
+        .order("source");
+
+      if (error) throw new Error(error.message);
+      return (data || []) as CodemapImportProfile[];
+    },
+
+    async getImportProfile(source) {
+      const { data, error } = await client
+        .from("codemap_import_profiles")
+        .select("*")
+        .eq("source", source)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return (data as CodemapImportProfile) ?? null;
+    },
+
+    async saveImportProfile(source, columns) {
+      const { data, error } = await client
+        .from("codemap_import_profiles")
+        .upsert(
+          { source, columns, updated_at: new Date().toISOString() },
+          { onConflict: "source" },
+        )
+        .select()
+        .single();
+
+      if (error) throw new Error(error.message);
+      return data as CodemapImportProfile;
+    },
+
+    async listReleases() {
+      const { data, error } = await client
+        .from("terminology_releases")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw new Error(error.message);
+      return (data || []) as TerminologyRelease[];
+    },
+
+    async findReleaseById(id) {
+      const { data, error } = await client
+        .from("terminology_releases")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return (data as TerminologyRelease) ?? null;
+    },
+
+    async insertRelease(release) {
+      const { data, error } = await client
+        .from("terminology_releases")
+        .insert(release)
+        .select()
+        .single();
+
+      if (error) throw new Error(error.message);
+      return data as TerminologyRelease;
+    },
+
+    async listAutoMapJobs() {
+      const { data, error } = await client
+        .from("automap_jobs")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw new Error(error.message);
+      return (data || []) as AutoMapJob[];
+    },
+
+    async findAutoMapJobById(id) {
+      const { data, error } = await client
+        .from("automap_jobs")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return (data as AutoMapJob) ?? null;
+    },
+
+    async insertAutoMapJob(job) {
+      const { data, error } = await client
+        .from("automap_jobs")
+        .insert(job)
+        .select()
+        .single();
+
+      if (error) throw new Error(error.message);
+      return data as AutoMapJob;
+    },
+
+    async updateAutoMapJob(id, patch) {
+      const { data, error } = await client
+        .from("automap_jobs")
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return (data as AutoMapJob) ?? null;
+    },
+  };
+}
@@ -0,0 +1,178 @@
+// Script → Latin transliteration for Devanagari and Tamil so that terms
+// typed in either script can be matched against the Latin codemap names.
+// This is a search aid, not a scholarly romanisation: it only needs to
+// land close enough for the fuzzy matcher to do the rest.
+
+interface ScriptTable {
+  vowels: Record<string, string>;
+  signs: Record<string, string>;
+  consonants: Record<string, string>;
+  virama: string;
+  modifiers: Record<string, string>;
+}
+
+const DEVANAGARI: ScriptTable = {
+  vowels: {
+    अ: "a",
+    आ: "aa",
+    इ: "i",
+    ई: "ii",
+    उ: "u",
+    ऊ: "uu",
+    ऋ: "ri",
+    ए: "e",
+    ऐ: "ai",
+    ओ: "o",
+    औ: "au",
+  },
+  signs: {
+    "ा": "aa",
+    "ि": "i",
+    "ी": "ii",
+    "ु": "u",
+    "ू": "uu",
+    "ृ": "ri",
+    "े": "e",
+    "ै": "ai",
+    "ो": "o",
+    "ौ": "au",
+  },
+  consonants: {
+    क: "k",
+    ख: "kh",
+    ग: "g",
+    घ: "gh",
+    ङ: "n",
+    च: "ch",
+    छ: "chh",
+    ज: "j",
+    झ: "jh",
+    ञ: "n",
+    ट: "t",
+    ठ: "th",
+    ड: "d",
+    ढ: "dh",
+    ण: "n",
+    त: "t",
+    थ: "th",
+    द: "d",
+    ध: "dh",
+    न: "n",
+    प: "p",
+    फ: "ph",
+    ब: "b",
+    भ: "bh",
+    म: "m",
+    य: "y",
+    र: "r",
+    ल: "l",
+    व: "v",
+    श: "sh",
+    ष: "sh",
+    स: "s",
+    ह: "h",
+    ळ: "l",
+  },
+  virama: "्",
+  modifiers: { "ं": "m", "ँ": "n", "ः": "h" },
+};
+
+const TAMIL: ScriptTable = {
+  vowels: {
+    அ: "a",
+    ஆ: "aa",
+    இ: "i",
+    ஈ: "ii",
+    உ: "u",
+    ஊ: "uu",
+    எ: "e",
+    ஏ: "ee",
+    ஐ: "ai",
+    ஒ: "o",
+    ஓ: "oo",
+    ஔ: "au",
+  },
+  signs: {
+    "ா": "aa",
+    "ி": "i",
+    "ீ": "ii",
+    "ு": "u",
+    "ூ": "uu",
+    "ெ": "e",
+    "ே": "ee",
+    "ை": "ai",
+    "ொ": "o",
+    "ோ": "oo",
+    "ௌ": "au",
+  },
+  consonants: {
+    க: "k",
+    ங: "ng",
+    ச: "s",
+    ஞ: "nj",
+    ட: "t",
+    ண: "n",
+    த: "t",
+    ந: "n",
+    ப: "p",
+    ம: "m",
+    ய: "y",
+    ர: "r",
+    ல: "l",
+    வ: "v",
+    ழ: "zh",
+    ள: "l",
+    ற: "r",
+    ன: "n",
+    ஜ: "j",
+    ஷ: "sh",
+    ஸ: "s",
+    ஹ: "h",
+  },
+  virama: "்",
+  modifiers: { ஃ: "h" },
+};
+
+const SCRIPTS = [DEVANAGARI, TAMIL];
+
+const tableFor = (char: string) =>
+  SCRIPTS.find(
+    (table) =>
+      char in table.vowels ||
+      char in table.signs ||
+      char in table.consonants ||
+      char in table.modifiers ||
+      char === table.virama,
+  );
+
+export function transliterate(text: string): string {
+  const chars = Array.from(text.normalize("NFC"));
+  let out = "";
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const table = tableFor(char);
+
+    if (!table) {
+      out += char;
+      continue;
+    }
+
+    if (char in table.consonants) {
+      out += table.consonants[char];
+      const next = chars[i + 1];
+      // A bare consonant carries an inherent "a" unless a vowel sign or
+      // virama follows it
+      if (next === table.virama) i++;
+      else if (!(next in table.signs)) out += "a";
+    } else if (char in table.signs) {
+      out += table.signs[char];
+    } else if (char in table.vowels) {
+      out += table.vowels[char];
+    } else if (char in table.modifiers) {
+      out += table.modifiers[char];
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import type { CodemapRow } from "@shared/api";
+import { planTransition } from "./workflow";
+import { seedCodemap } from "./seed";
+
+const row = (patch: Partial<CodemapRow>): CodemapRow => ({
+  ...seedCodemap[0],
+  ...patch,
+});
+
+describe("mapping workflow", () => {
+  it("should record the proposer when a draft is proposed", () => {
+    const plan = planTransition(row({ status: "draft" }), {
+      action: "propose",
+      actor: "author@caresync.com",
+    });
+
+    expect(plan).toMatchObject({
+      patch: { status: "proposed", proposed_by: "author@caresync.com" },
+      entry: { from_status: "draft", to_status: "proposed" },
+    });
+  });
+
+  it("should reject transitions that are not allowed from the current state", () => {
+    const plan = planTransition(row({ status: "draft" }), {
+      action: "approve",
+      actor: "reviewer@caresync.com",
+    });
+
+    expect(plan).toMatchObject({ status: 409 });
+  });
+
+  it("should treat legacy pending rows as proposed", () => {
+    const plan = planTransition(row({ status: "pending" }), {
+      action: "assign",
+      actor: "lead@caresync.com",
+      reviewer: "reviewer@caresync.com",
+    });
+
+    expect(plan).toMatchObject({
+      patch: { status: "under_review", reviewer: "reviewer@caresync.com" },
+    });
+  });
+
+  it("should enforce the two-person rule", () => {
+    const underReview = row({
+      status: "under_review",
+      proposed_by: "author@caresync.com",
+      reviewer: "author@caresync.com",
+    });
+
+    expect(
+      planTransition(underReview, {
+        action: "approve",
+        actor: "author@caresync.com",
+      }),
+    ).toMatchObject({ status: 403 });
+
+    expect(
+      planTransition(row({ status: "proposed", proposed_by: "a@x.com" }), {
+        action: "assign",
+        actor: "lead@x.com",
+        reviewer: "A@x.com",
+      }),
+    ).toMatchObject({ status: 403 });
+  });
+
+  it("should not let the last editor approve what they wrote", () => {
+    const edited = row({
+      status: "under_review",
+      created_by: "author@caresync.com",
+      proposed_by: "author@caresync.com",
+      edited_by: "reviewer@caresync.com",
+      reviewer: "reviewer@caresync.com",
+    });
+
+    expect(
+      planTransition(edited, {
+        action: "approve",
+        actor: "reviewer@caresync.com",
+      }),
+    ).toMatchObject({ status: 403 });
+
+    // Until someone edits it, the creator is the author
+    expect(
+      planTransition(
+        row({
+          status: "proposed",
+          created_by: "a@x.com",
+          proposed_by: "b@x.com",
+        }),
+        { action: "assign", actor: "lead@x.com", reviewer: "a@x.com" },
+      ),
+    ).toMatchObject({ status: 403 });
+  });
+
+  it("should only let the assigned reviewer approve", () => {
+    const underReview = row({
+      status: "under_review",
+      proposed_by: "author@caresync.com",
+      reviewer: "reviewer@caresync.com",
+    });
+
+    expect(
+      planTransition(underReview, { action: "approve", actor: "other@x.com" }),
+    ).toMatchObject({ status: 403 });
+    expect(
+      planTransition(underReview, {
+        action: "approve",
+        actor: "reviewer@caresync.com",
+      }),
+    ).toMatchObject({ patch: { status: "approved" } });
+  });
+
+  it("should require a justification to reject", () => {
+    const underReview = row({
+      status: "under_review",
+      proposed_by: "author@caresync.com",
+      reviewer: "reviewer@caresync.com",
+    });
+
+    expect(
+      planTransition(underReview, {
+        action: "reject",
+        actor: "reviewer@caresync.com",
+        justification: "  ",
+      }),
+    ).toMatchObject({ status: 400 });
+    expect(
+      planTransition(underReview, {
+        action: "reject",
+        actor: "reviewer@caresync.com",
+        justification: "Target is too broad",
+      }),
+    ).toMatchObject({
+      entry: { to_status: "rejected", justification: "Target is too broad" },
+    });
+  });
+});
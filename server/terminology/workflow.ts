@@ -0,0 +1,116 @@
+import type { CodemapRow, MappingHistoryEntry } from "@shared/api";
+import {
+  normalizeStatus,
+  STATUS_LABELS,
+  TRANSITIONS,
+  type WorkflowAction,
+} from "../../shared/workflow";
+
+export interface TransitionRequest {
+  action: WorkflowAction;
+  actor: string;
+  reviewer?: string;
+  justification?: string;
+}
+
+export type TransitionPlan =
+  | { error: string; status: number }
+  | {
+      patch: Partial<CodemapRow>;
+      entry: Omit<MappingHistoryEntry, "id" | "created_at">;
+    };
+
+const same = (a?: string | null, b?: string | null) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Whoever proposed the mapping or last wrote its content
+const isAuthor = (row: CodemapRow, user: string | undefined) =>
+  same(user, row.proposed_by) || same(user, row.edited_by ?? row.created_by);
+
+// Validates a transition against the workflow rules and returns the row
+// patch plus the history entry to append. Nothing is written here.
+export function planTransition(
+  row: CodemapRow,
+  request: TransitionRequest,
+): TransitionPlan {
+  const from = normalizeStatus(row.status);
+  const transition = TRANSITIONS[request.action];
+
+  if (!transition.from.includes(from)) {
+    return {
+      status: 409,
+      error: `Cannot ${request.action} a mapping that is ${STATUS_LABELS[from].toLowerCase()}`,
+    };
+  }
+
+  const justification = request.justification?.trim() || null;
+  let patch: Partial<CodemapRow> = {};
+
+  switch (request.action) {
+    case "propose":
+      patch = { proposed_by: request.actor, reviewer: null };
+      break;
+
+    case "assign":
+      if (!request.reviewer?.trim()) {
+        return { status: 400, error: "A reviewer is required" };
+      }
+      if (isAuthor(row, request.reviewer)) {
+        return {
+          status: 403,
+          error: "The proposer or last editor cannot review the mapping",
+        };
+      }
+      patch = { reviewer: request.reviewer.trim() };
+      break;
+
+    case "approve":
+    case "reject":
+      if (!same(request.actor, row.reviewer)) {
+        return {
+          status: 403,
+          error: "Only the assigned reviewer can decide on this mapping",
+        };
+      }
+      // Two-person rule: whoever proposed a mapping, or last changed
+      // what it says, never approves it
+      if (isAuthor(row, request.actor)) {
+        return {
+          status: 403,
+          error:
+            "A mapping must be approved by someone other than its proposer or last editor",
+        };
+      }
+      if (request.action === "reject" && !justification) {
+        return { status: 400, error: "A justification is required to reject" };
+      }
+      break;
+
+    case "deprecate":
+      if (!justification) {
+        return {
+          status: 400,
+          error: "A justification is required to deprecate",
+        };
+      }
+      break;
+
+    case "withdraw":
+    case "rework":
+      patch = { reviewer: null };
+      break;
+  }
+
+  return {
+    patch: { ...patch, status: transition.to },
+    entry: {
+      mapping_id: row.id,
+      action: request.action,
+      from_status: from,
+      to_status: transition.to,
+      actor: request.actor,
+      reviewer: patch.reviewer ?? row.reviewer ?? null,
+      justification,
+    },
+  };
+}
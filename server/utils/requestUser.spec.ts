@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import type { Request, Response } from "express";
+import {
+  authenticateRequest,
+  getRequestUser,
+  type TokenVerifier,
+} from "./requestUser";
+
+const doctor = { id: "u1", email: "doctor@example.com", role: "user" as const };
+
+const verify: TokenVerifier = async (token) =>
+  token === "valid" ? doctor : null;
+
+const request = (headers: Record<string, string>) =>
+  ({ get: (name: string) => headers[name.toLowerCase()] }) as Request;
+
+const authenticate = async (req: Request) => {
+  await new Promise((next) =>
+    authenticateRequest(verify)(req, {} as Response, next),
+  );
+  return getRequestUser(req);
+};
+
+describe("request user", () => {
+  it("should only trust users whose bearer token verifies", async () => {
+    expect(
+      await authenticate(request({ authorization: "Bearer valid" })),
+    ).toEqual(doctor);
+    expect(
+      await authenticate(request({ authorization: "Bearer forged" })),
+    ).toBeNull();
+
+    // The headers the SPA used to send are ignored
+    expect(
+      await authenticate(
+        request({
+          "x-user-email": "admin@example.com",
+          "x-user-role": "admin",
+        }),
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import type { Request, RequestHandler } from "express";
+
+export interface RequestUser {
+  id: string | null;
+  email: string;
+  role: "admin" | "user";
+}
+
+// Who a bearer token belongs to; null when it is not valid
+export type TokenVerifier = (token: string) => Promise<RequestUser | null>;
+
+// Asks Supabase Auth who the access token was issued to. The role comes
+// from app_metadata, which only the service role can set; user_metadata
+// is editable by the user it describes.
+export const verifySupabaseToken: TokenVerifier = async (token) => {
+  // Loaded on first use, so nothing needs Supabase configured up front
+  const { supabase } = await import("./supabaseServerClient");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user?.email) return null;
+
+  return {
+    id: data.user.id,
+    email: data.user.email,
+    role: data.user.app_metadata?.role === "admin" ? "admin" : "user",
+  };
+};
+
+const verified = new WeakMap<Request, RequestUser>();
+
+// Verifies the `Authorization: Bearer` access token the SPA sends (see
+// client/lib/api.ts) once per request. A missing or rejected token leaves
+// the request anonymous; the routes decide what that may do.
+export const authenticateRequest =
+  (verify: TokenVerifier = verifySupabaseToken): RequestHandler =>
+  async (req, _res, next) => {
+    const token = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "")?.[1];
+
+    try {
+      const user = token ? await verify(token) : null;
+      if (user) verified.set(req, user);
+    } catch (error) {
+      console.error("Token verification error:", error);
+    }
+    next();
+  };
+
+// The user authenticateRequest verified, if any
+export const getRequestUser = (req: Request): RequestUser | null =>
+  verified.get(req) ?? null;
@@ -0,0 +1,30 @@
+import { mkdirSync } from "fs";
+import path from "path";
+import type { DatabaseSync } from "node:sqlite";
+
+// node:sqlite ships with Node 22.13 and later, which package.json and
+// .nvmrc ask for. It is looked up only when a SQLite store is opened, so
+// an older Node fails with this message rather than at startup.
+const sqliteModule = () =>
+  process.getBuiltinModule?.("node:sqlite") as
+    | typeof import("node:sqlite")
+    | undefined;
+
+// A database file, ":memory:" for a throwaway one, or a database another
+// store already opened, so both see the same tables and transactions
+export type SqliteSource = string | DatabaseSync;
+
+export function openSqliteDatabase(source: SqliteSource): DatabaseSync {
+  if (typeof source !== "string") return source;
+
+  const sqlite = sqliteModule();
+  if (!sqlite) {
+    throw new Error(
+      `The SQLite stores need Node 22.13 or later (running ${process.version}); set PATIENT_STORE=supabase to use Supabase instead`,
+    );
+  }
+  if (source !== ":memory:") {
+    mkdirSync(path.dirname(source), { recursive: true });
+  }
+  return new sqlite.DatabaseSync(source);
+}
@@ -3,7 +3,234 @@ export interface DemoResponse {
   message: string;
 }
 
+// Code Mapping (rows of the `codemap` table)
+export type CodeCategory = "Ayurveda" | "Siddha" | "Unani";
+
+// FHIR ConceptMap equivalence, read as "the ICD-11 target is ... the source"
+export type MappingEquivalence =
+  | "equivalent"
+  | "wider"
+  | "narrower"
+  | "inexact"
+  | "unmatched";
+
+// One row per NAMASTE → ICD-11 target; a source code with several
+// targets has several rows
+export interface CodemapRow {
+  id: string;
+  namaste_code: string;
+  namaste_name: string | null;
+  // ICD-11 stem code; empty when the equivalence is "unmatched"
+  icd11_code: string;
+  icd11_name: string | null;
+  // Postcoordination extension codes added to the stem
+  icd11_extensions?: string[] | null;
+  // Null on rows created before equivalence was recorded
+  equivalence?: MappingEquivalence | null;
+  category: CodeCategory;
+  symptoms: string | null;
+  description: string | null;
+  status: string;
+  confidence: number | null;
+  // Who added the row: a user's email, "auto-map", or null for old rows
+  created_by?: string | null;
+  // Who last changed the mapping's content; null until someone edits a
+  // row, when created_by is the author
+  edited_by?: string | null;
+  proposed_by?: string | null;
+  reviewer?: string | null;
+  // Label of the latest release that dropped this row's NAMASTE or ICD-11 code
+  retired_in?: string | null;
+  created_at: string;
+  // Set on every write; rows never written since creation have none
+  updated_at?: string | null;
+}
+
+// What curators edit directly; status and review fields only change
+// through workflow transitions
+export type CodemapFields = Pick<
+  CodemapRow,
+  | "namaste_code"
+  | "namaste_name"
+  | "icd11_code"
+  | "icd11_name"
+  | "icd11_extensions"
+  | "equivalence"
+  | "category"
+  | "symptoms"
+  | "description"
+  | "confidence"
+>;
+
+export type CodemapSortField =
+  | "namaste_code"
+  | "namaste_name"
+  | "icd11_code"
+  | "icd11_name"
+  | "category"
+  | "status"
+  | "confidence"
+  | "created_by"
+  | "created_at"
+  | "updated_at";
+
+// One page of GET /api/mappings. `total` counts every row matching the
+// filters; pass `next_cursor` back as `cursor` for the following page.
+export interface CodemapListResponse {
+  mappings: CodemapRow[];
+  total: number;
+  next_cursor: string | null;
+  // Rows per NAMASTE code on this page, across all pages
+  target_counts: Record<string, number>;
+}
+
+// Body of POST /api/mappings/bulk. Updates and deletes carry the
+// `updated_at` the client last saw; one stale row fails the whole batch.
+export interface CodemapBulkRequest {
+  create?: CodemapFields[];
+  update?: (Partial<CodemapFields> & { id: string; updated_at: string })[];
+  delete?: { id: string; updated_at: string }[];
+}
+
+export interface CodemapBulkResponse {
+  created: CodemapRow[];
+  updated: CodemapRow[];
+  deleted: string[];
+  // Ids of updates and deletes left undone because someone else changed
+  // the row between the check and the write
+  stale: string[];
+}
+
+// Append-only record of every workflow transition on a codemap row
+export interface MappingHistoryEntry {
+  id: string;
+  mapping_id: string;
+  action: string;
+  from_status: string;
+  to_status: string;
+  actor: string;
+  reviewer: string | null;
+  justification: string | null;
+  created_at: string;
+}
+
+// A codemap row as one write left it; every insert, update and delete
+// keeps one, numbered from 1 per mapping. `row` is null once deleted.
+export interface MappingVersion {
+  mapping_id: string;
+  version_id: number;
+  row: CodemapRow | null;
+  recorded_at: string;
+}
+
+// Code list import (POST /api/codes/import) and export
+export type CodemapFileFormat = "csv" | "xlsx" | "conceptmap";
+
+export type CodemapImportField =
+  | "namaste_code"
+  | "namaste_name"
+  | "icd11_code"
+  | "icd11_name"
+  | "icd11_extensions"
+  | "equivalence"
+  | "category"
+  | "symptoms"
+  | "description";
+
+// Which column of the uploaded file feeds each codemap field
+export type ColumnMapping = Partial<Record<CodemapImportField, string>>;
+
+// Column mapping saved for one supplier of code lists
+export interface CodemapImportProfile {
+  source: string;
+  columns: ColumnMapping;
+  updated_at: string;
+}
+
+export interface CodemapImportIssue {
+  field: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface CodemapImportRow {
+  // 1-based row of the uploaded table (the header is row 1)
+  line: number;
+  mapping: Omit<CodemapRow, "id" | "created_at" | "category"> & {
+    category: string;
+  };
+  issues: CodemapImportIssue[];
+  // The same NAMASTE → ICD-11 pair is already in the codemap
+  exists: boolean;
+}
+
+export interface CodemapImportResponse {
+  dryRun: boolean;
+  format: CodemapFileFormat;
+  source: string | null;
+  headers: string[];
+  columns: ColumnMapping;
+  rows: CodemapImportRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    warnings: number;
+    inserted: number;
+    skipped: number;
+  };
+}
+
+// Terminology releases (/api/codes/releases)
+export type TerminologySystem = "namaste" | "icd11";
+
+export interface ReleaseCode {
+  code: string;
+  display: string | null;
+  category?: CodeCategory | null;
+}
+
+export interface TerminologyRelease {
+  id: string;
+  system: TerminologySystem;
+  version: string;
+  created_by: string | null;
+  created_at: string;
+  codes: ReleaseCode[];
+}
+
+export type TerminologyReleaseSummary = Omit<TerminologyRelease, "codes"> & {
+  code_count: number;
+};
+
+export interface ReleaseDiff {
+  from: TerminologyReleaseSummary;
+  to: TerminologyReleaseSummary;
+  added: ReleaseCode[];
+  removed: ReleaseCode[];
+  renamed: Array<{ code: string; from: string | null; to: string | null }>;
+  // Retired codes whose term reappears under a new code
+  remapped: Array<{ from: ReleaseCode; to: ReleaseCode }>;
+  // Codemap rows that point at a code removed or remapped in `to`
+  affected_mappings: Array<
+    Pick<CodemapRow, "id" | "namaste_code" | "icd11_code" | "status">
+  >;
+}
+
 // Code Search
+export interface CodeSearchTarget {
+  icd11Code: string;
+  icd11Description: string;
+  icd11Extensions: string[];
+  // Postcoordinated cluster, e.g. "2C25.0&XH7SY3"; equals icd11Code
+  // when there are no extensions
+  icd11Expression: string;
+  equivalence: MappingEquivalence | null;
+  confidence: number;
+}
+
+// The top-level ICD-11 fields describe the best target; `targets` lists
+// every target mapped from the NAMASTE code
 export interface CodeSearchResult {
   namasteCode: string;
   namasteDescription: string;
@@ -11,6 +238,20 @@ export interface CodeSearchResult {
   icd11Description: string;
   confidence: number;
   category: "Ayurveda" | "Siddha" | "Unani";
+  icd11Extensions?: string[];
+  icd11Expression?: string;
+  equivalence?: MappingEquivalence | null;
+  targets?: CodeSearchTarget[];
+  // Relevance in [0, 1]; only set when the search had a text query
+  score?: number;
+  highlights?: SearchHighlight[];
+}
+
+// A field excerpt with the [start, end) character ranges that matched
+export interface SearchHighlight {
+  field: string;
+  fragment: string;
+  ranges: Array<[number, number]>;
 }
 
 export interface CodeSearchResponse {
@@ -18,49 +259,238 @@ export interface CodeSearchResponse {
   total: number;
 }
 
+// Mapping suggestions (POST /api/codes/suggestions)
+export interface MappingSuggestionRequest {
+  // Looked up in the codemap to fill in whatever else is missing
+  namaste_code?: string;
+  namaste_name?: string;
+  description?: string;
+  symptoms?: string;
+  category?: CodeCategory;
+  limit?: number;
+}
+
+export type SuggestionFeatureName =
+  | "name"
+  | "description"
+  | "symptoms"
+  | "similarity"
+  | "precedent"
+  | "llm";
+
+// One input to a suggestion's confidence. `score` is 0–1 and `weight` is
+// its share of the confidence; `matches` lists the evidence found.
+export interface SuggestionFeature {
+  feature: SuggestionFeatureName;
+  score: number;
+  weight: number;
+  matches: string[];
+}
+
+export interface MappingSuggestion {
+  icd11Code: string;
+  icd11Description: string;
+  confidence: number;
+  features: SuggestionFeature[];
+}
+
+export interface MappingSuggestionResponse {
+  // The provider that produced the ranking, e.g. "lexical" or "gemini"
+  provider: string;
+  candidates: number;
+  suggestions: MappingSuggestion[];
+}
+
+// Batch auto-map jobs (/api/codes/automap)
+export type AutoMapJobStatus = "running" | "cancelled" | "completed" | "failed";
+
+export interface AutoMapJob {
+  id: string;
+  status: AutoMapJobStatus;
+  category: CodeCategory | null;
+  // Only suggestions at or above this confidence are stored
+  min_confidence: number;
+  max_per_code: number;
+  // Work list fixed when the job starts; `processed` is how far through
+  // it the job got, and where a resumed job carries on
+  codes: string[];
+  processed: number;
+  proposed: number;
+  // Codes for which no new candidate reached min_confidence
+  no_match: number;
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AutoMapJobSummary = Omit<AutoMapJob, "codes"> & {
+  total: number;
+  // False for a "running" job whose server process has gone away
+  active: boolean;
+};
+
 // Patient Management
-export interface FHIRPatient {
-  resourceType: "Patient";
+export type PatientGender = "male" | "female" | "other";
+
+// Business identifier such as a hospital MRN or ABHA number; `system`
+// is the FHIR namespace URI
+export interface PatientIdentifier {
+  system: string | null;
+  value: string;
+}
+
+// A patient as stored, returned by /api/patients and shown by the
+// patient pages
+export interface PatientRow {
   id: string;
-  name: Array<{
-    use: string;
-    given: string[];
-    family: string;
-  }>;
-  birthDate?: string;
-  gender?: string;
-  contact?: Array<{
-    system: string;
-    value: string;
-  }>;
+  // The signed-in user who registered the patient
+  user_id: string | null;
+  first_name: string;
+  last_name: string;
+  date_of_birth: string | null;
+  gender: PatientGender | null;
+  admit_date: string | null;
+  // Free-text admitting diagnosis; coded ones are PatientDiagnosisRow
+  diagnosis: string | null;
+  email: string | null;
+  phone: string | null;
+  guardian_name: string | null;
+  guardian_phone: string | null;
+  address: string | null;
+  identifiers: PatientIdentifier[];
+  diagnosis_count: number;
+  created_at: string;
+  // Bumped by every write; the FHIR meta.versionId, and what If-Match
+  // headers are checked against
+  version_id: number;
+  updated_at: string;
 }
 
-export interface Diagnosis {
-  code: string;
-  icd11Code: string;
-  description: string;
-  recordedDate: string;
+// Identifiers are only managed through /fhir/Patient
+export type NewPatientRequest = Omit<
+  PatientRow,
+  | "id"
+  | "user_id"
+  | "identifiers"
+  | "diagnosis_count"
+  | "created_at"
+  | "version_id"
+  | "updated_at"
+>;
+
+export interface PatientListResponse {
+  patients: PatientRow[];
+  total: number;
 }
 
-export interface PatientRecord {
+// FHIR Condition.clinicalStatus and .verificationStatus codes
+export type ConditionClinicalStatus =
+  | "active"
+  | "recurrence"
+  | "relapse"
+  | "inactive"
+  | "remission"
+  | "resolved";
+
+export type ConditionVerificationStatus =
+  | "unconfirmed"
+  | "provisional"
+  | "differential"
+  | "confirmed"
+  | "refuted"
+  | "entered-in-error";
+
+// A coded diagnosis recorded on a patient, served as a FHIR Condition
+export interface PatientDiagnosisRow {
   id: string;
-  patient: FHIRPatient;
-  diagnoses: Diagnosis[];
-  createdAt: string;
-  updatedAt: string;
+  patient_id: string;
+  namaste_code: string;
+  icd11_code: string;
+  // Free text, usually comma-separated
+  symptoms: string | null;
+  clinical_notes: string | null;
+  clinical_status: ConditionClinicalStatus;
+  verification_status: ConditionVerificationStatus;
+  // Email of whoever recorded it
+  recorded_by: string | null;
+  created_at: string;
+  // As for PatientRow
+  version_id: number;
+  updated_at: string;
 }
 
-export interface CreatePatientRequest {
-  firstName: string;
-  lastName: string;
-  birthDate?: string;
-  gender?: "male" | "female" | "other";
+export type NewPatientDiagnosisRequest = Pick<
+  PatientDiagnosisRow,
+  "namaste_code" | "symptoms" | "clinical_notes"
+> & {
+  // Taken from the codemap when left out
+  icd11_code?: string;
+};
+
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditEntityType = "Patient" | "Condition" | "Mapping";
+
+// Where a write came in: the web app's API, the FHIR API, a code list
+// import, an auto-map job or a terminology release
+export type AuditSource = "app" | "fhir" | "import" | "auto-map" | "release";
+
+// One write to a patient, diagnosis or mapping; served as a FHIR
+// AuditEvent and a Provenance
+export interface AuditEventRow {
+  id: string;
+  recorded_at: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  // The version the write made: version_id for patients and diagnoses,
+  // mappingVersion for mappings. Null when a mapping is deleted.
+  entity_version: string | null;
+  // The patient whose record changed; null for mappings
+  patient_id: string | null;
+  // Email of whoever made the write, or "auto-map"; null when unknown
+  agent: string | null;
+  source: AuditSource;
+  // For diagnoses, the codemap row their ICD-11 code was taken from and
+  // its mappingVersion at the time; null when coded by hand
+  source_mapping_id: string | null;
+  source_mapping_version: string | null;
+  // e.g. "Recorded diagnosis AYR-001 (ICD-11 BA25.1)"
+  summary: string;
 }
 
-export interface AddDiagnosisRequest {
-  code: string;
-  icd11Code: string;
-  description: string;
+export interface AuditEventListResponse {
+  // Newest first
+  events: AuditEventRow[];
+  total: number;
+}
+
+export interface SymptomFrequency {
+  symptom: string;
+  count: number;
+}
+
+export interface CoOccurringCode {
+  namaste_code: string;
+  namaste_name: string | null;
+  // Patients diagnosed with both codes
+  patients: number;
+}
+
+// Diagnoses recorded per calendar month (YYYY-MM), gaps filled with 0
+export interface DiagnosisCountPoint {
+  month: string;
+  count: number;
+}
+
+export interface CodeAnalyticsResponse {
+  namaste_code: string;
+  diagnoses: number;
+  patients: number;
+  symptoms: SymptomFrequency[];
+  co_occurring: CoOccurringCode[];
+  timeline: DiagnosisCountPoint[];
 }
 
 export interface FHIRBundle {
@@ -0,0 +1,127 @@
+import type { CodemapSortField, MappingEquivalence } from "./api";
+
+// Codemap semantics shared by the server and the client: how a NAMASTE
+// concept relates to its ICD-11 target, and ICD-11 postcoordination.
+
+export const MAPPING_EQUIVALENCES: MappingEquivalence[] = [
+  "equivalent",
+  "wider",
+  "narrower",
+  "inexact",
+  "unmatched",
+];
+
+// Worded from the NAMASTE side, matching FHIR ConceptMap semantics where
+// "wider" means the ICD-11 target is broader than the source
+export const EQUIVALENCE_LABELS: Record<MappingEquivalence, string> = {
+  equivalent: "Equivalent",
+  wider: "ICD-11 is broader",
+  narrower: "ICD-11 is narrower",
+  inexact: "Partial overlap",
+  unmatched: "No ICD-11 match",
+};
+
+export const isMappingEquivalence = (
+  value: string,
+): value is MappingEquivalence =>
+  (MAPPING_EQUIVALENCES as string[]).includes(value);
+
+// ICD-11 MMS stem code: chapter character, a letter, a digit, an
+// alphanumeric, then up to two more characters after the dot. The letters
+// I and O are never used so they cannot be mistaken for 1 and 0, and
+// chapter X only holds extension codes.
+export const ICD11_STEM_PATTERN =
+  /^[0-9A-HJ-NP-WYZ][A-HJ-NP-Z][0-9][0-9A-HJ-NP-Z](\.[0-9A-HJ-NP-Z]{1,2})?$/;
+
+// Extension codes (severity, laterality, anatomy, ...), e.g. XK8G
+export const ICD11_EXTENSION_PATTERN = /^X[0-9A-HJ-NP-Z]{3,5}$/;
+
+// A postcoordinated cluster joins the stem and its extensions with "&",
+// e.g. "2C25.0&XH7SY3"
+export function formatIcd11Expression(
+  stem: string,
+  extensions?: string[] | null,
+) {
+  return [stem, ...(extensions ?? [])].filter(Boolean).join("&");
+}
+
+export function parseIcd11Expression(expression: string) {
+  const [stem = "", ...extensions] = expression
+    .split("&")
+    .map((part) => part.trim().toUpperCase())
+    .filter(Boolean);
+
+  return { stem, extensions };
+}
+
+// Extension lists are typed by hand, so accept &, commas or whitespace
+export const splitIcd11Extensions = (value: string) =>
+  value
+    .split(/[&,;\s]+/)
+    .map((part) => part.trim().toUpperCase())
+    .filter(Boolean);
+
+export interface Icd11TargetIssue {
+  field: "icd11_code" | "icd11_extensions";
+  message: string;
+}
+
+// Problems with the ICD-11 side of a mapping; empty when it can be saved.
+// Unmatched mappings must not carry a target, all others need one.
+export function icd11TargetIssues(target: {
+  icd11_code: string;
+  icd11_extensions?: string[] | null;
+  equivalence?: MappingEquivalence | null;
+}): Icd11TargetIssue[] {
+  const extensions = target.icd11_extensions ?? [];
+
+  if (target.equivalence === "unmatched") {
+    return target.icd11_code || extensions.length > 0
+      ? [
+          {
+            field: "icd11_code",
+            message: "Unmatched rows must not have an ICD-11 code",
+          },
+        ]
+      : [];
+  }
+
+  const issues: Icd11TargetIssue[] = [];
+  if (!target.icd11_code) {
+    issues.push({ field: "icd11_code", message: "ICD-11 code is missing" });
+  } else if (!ICD11_STEM_PATTERN.test(target.icd11_code)) {
+    issues.push({
+      field: "icd11_code",
+      message: `"${target.icd11_code}" is not a valid ICD-11 code`,
+    });
+  }
+  for (const extension of extensions) {
+    if (!ICD11_EXTENSION_PATTERN.test(extension)) {
+      issues.push({
+        field: "icd11_extensions",
+        message: `"${extension}" is not a valid ICD-11 extension code`,
+      });
+    }
+  }
+  return issues;
+}
+
+// Version token for optimistic concurrency, sent back as the ETag and
+// expected in If-Match when a row is changed
+export const mappingVersion = (row: {
+  created_at: string;
+  updated_at?: string | null;
+}) => row.updated_at ?? row.created_at;
+
+export const CODEMAP_SORT_FIELDS: CodemapSortField[] = [
+  "namaste_code",
+  "namaste_name",
+  "icd11_code",
+  "icd11_name",
+  "category",
+  "status",
+  "confidence",
+  "created_by",
+  "created_at",
+  "updated_at",
+];
@@ -0,0 +1,421 @@
+// Minimal FHIR R4 resource shapes produced and consumed by the /fhir API
+
+export interface Coding {
+  system?: string;
+  version?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Meta {
+  versionId?: string;
+  lastUpdated?: string;
+  profile?: string[];
+}
+
+export interface Identifier {
+  use?: string;
+  system?: string;
+  value?: string;
+}
+
+export interface HumanName {
+  use?: string;
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface ContactPoint {
+  system?: "phone" | "fax" | "email" | "pager" | "url" | "sms" | "other";
+  value?: string;
+  use?: string;
+}
+
+export interface Address {
+  use?: string;
+  text?: string;
+  line?: string[];
+  city?: string;
+  district?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  identifier?: Identifier;
+  display?: string;
+}
+
+export interface Annotation {
+  text: string;
+}
+
+export interface ParametersParameter {
+  name: string;
+  valueString?: string;
+  valueBoolean?: boolean;
+  valueCode?: string;
+  valueUri?: string;
+  valueDecimal?: number;
+  valueCoding?: Coding;
+  resource?: unknown;
+  part?: ParametersParameter[];
+}
+
+export interface Parameters {
+  resourceType: "Parameters";
+  parameter: ParametersParameter[];
+}
+
+export interface OperationOutcomeIssue {
+  severity: "fatal" | "error" | "warning" | "information";
+  code: string;
+  diagnostics?: string;
+  expression?: string[];
+}
+
+export interface OperationOutcome {
+  resourceType: "OperationOutcome";
+  issue: OperationOutcomeIssue[];
+}
+
+export type ConceptMapEquivalence =
+  | "relatedto"
+  | "equivalent"
+  | "equal"
+  | "wider"
+  | "subsumes"
+  | "narrower"
+  | "specializes"
+  | "inexact"
+  | "unmatched"
+  | "disjoint";
+
+export interface ConceptMapTarget {
+  code?: string;
+  display?: string;
+  equivalence: ConceptMapEquivalence;
+  comment?: string;
+  extension?: Array<{ url: string; valueDecimal?: number }>;
+}
+
+export interface ConceptMapElement {
+  code: string;
+  display?: string;
+  target: ConceptMapTarget[];
+}
+
+export interface ConceptMapGroup {
+  source: string;
+  target: string;
+  element: ConceptMapElement[];
+}
+
+export interface ConceptMap {
+  resourceType: "ConceptMap";
+  id: string;
+  meta?: Meta;
+  url: string;
+  name: string;
+  title?: string;
+  status: "draft" | "active" | "retired" | "unknown";
+  date?: string;
+  sourceUri?: string;
+  targetUri?: string;
+  group: ConceptMapGroup[];
+}
+
+export interface CodeSystemConcept {
+  code: string;
+  display?: string;
+  definition?: string;
+  property?: Array<{ code: string; valueString?: string; valueCode?: string }>;
+}
+
+export interface CodeSystem {
+  resourceType: "CodeSystem";
+  id: string;
+  url: string;
+  version?: string;
+  name: string;
+  title?: string;
+  status: "draft" | "active" | "retired" | "unknown";
+  date?: string;
+  publisher?: string;
+  caseSensitive?: boolean;
+  content: "not-present" | "example" | "fragment" | "complete" | "supplement";
+  count?: number;
+  property?: Array<{ code: string; description?: string; type: string }>;
+  concept?: CodeSystemConcept[];
+}
+
+export interface PatientContact {
+  relationship?: CodeableConcept[];
+  name?: HumanName;
+  telecom?: ContactPoint[];
+}
+
+export interface Patient {
+  resourceType: "Patient";
+  id?: string;
+  meta?: Meta;
+  identifier?: Identifier[];
+  active?: boolean;
+  name?: HumanName[];
+  telecom?: ContactPoint[];
+  gender?: "male" | "female" | "other" | "unknown";
+  birthDate?: string;
+  address?: Address[];
+  contact?: PatientContact[];
+}
+
+export interface Condition {
+  resourceType: "Condition";
+  id?: string;
+  meta?: Meta;
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  category?: CodeableConcept[];
+  code?: CodeableConcept;
+  subject: Reference;
+  recordedDate?: string;
+  recorder?: Reference;
+  evidence?: Array<{ code?: CodeableConcept[] }>;
+  note?: Annotation[];
+}
+
+export interface CompositionSection {
+  title?: string;
+  code?: CodeableConcept;
+  entry?: Reference[];
+}
+
+export interface Composition {
+  resourceType: "Composition";
+  id?: string;
+  meta?: Meta;
+  status: "preliminary" | "final" | "amended" | "entered-in-error";
+  type: CodeableConcept;
+  subject?: Reference;
+  date: string;
+  author: Reference[];
+  title: string;
+  section?: CompositionSection[];
+}
+
+export interface BundleLink {
+  relation: string;
+  url: string;
+}
+
+export interface BundleEntryRequest {
+  method: "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE";
+  url: string;
+  ifNoneExist?: string;
+  // ETag of the version an update expects to replace
+  ifMatch?: string;
+}
+
+export interface BundleEntryResponse {
+  // e.g. "201 Created"
+  status: string;
+  location?: string;
+  etag?: string;
+  lastModified?: string;
+  outcome?: OperationOutcome;
+}
+
+export interface BundleEntry<T = unknown> {
+  fullUrl?: string;
+  resource?: T;
+  search?: { mode: "match" | "include" | "outcome"; score?: number };
+  request?: BundleEntryRequest;
+  response?: BundleEntryResponse;
+}
+
+export interface Bundle<T = unknown> {
+  resourceType: "Bundle";
+  id?: string;
+  meta?: Meta;
+  identifier?: Identifier;
+  type:
+    | "searchset"
+    | "document"
+    | "collection"
+    | "history"
+    | "transaction"
+    | "transaction-response"
+    | "batch"
+    | "batch-response";
+  timestamp?: string;
+  total?: number;
+  link?: BundleLink[];
+  entry?: BundleEntry<T>[];
+}
+
+export interface ValueSetContains {
+  system: string;
+  code: string;
+  display?: string;
+  designation?: Array<{ language?: string; value: string }>;
+}
+
+export interface ValueSet {
+  resourceType: "ValueSet";
+  id: string;
+  url: string;
+  name: string;
+  title?: string;
+  status: "draft" | "active" | "retired" | "unknown";
+  compose?: {
+    include: Array<{ system: string }>;
+  };
+  expansion?: {
+    identifier?: string;
+    timestamp: string;
+    total: number;
+    offset: number;
+    parameter?: ParametersParameter[];
+    contains: ValueSetContains[];
+  };
+}
+
+// The parts of an element definition the profile validator understands:
+// cardinality, fixed/pattern values and terminology bindings. A
+// `sliceName` narrows the element to the repeats matching its pattern.
+export interface ElementDefinition {
+  id?: string;
+  path: string;
+  sliceName?: string;
+  short?: string;
+  min?: number;
+  // A number, or "*"
+  max?: string;
+  fixedCode?: string;
+  fixedUri?: string;
+  fixedString?: string;
+  patternCoding?: Coding;
+  patternCodeableConcept?: CodeableConcept;
+  // Invariants on the element; `key` names the rule that is checked
+  constraint?: Array<{
+    key: string;
+    severity: "error" | "warning";
+    human: string;
+    expression?: string;
+  }>;
+  binding?: {
+    strength: "required" | "extensible" | "preferred" | "example";
+    valueSet?: string;
+  };
+}
+
+export interface StructureDefinition {
+  resourceType: "StructureDefinition";
+  id: string;
+  url: string;
+  name: string;
+  title?: string;
+  status: "draft" | "active" | "retired" | "unknown";
+  kind: "resource";
+  abstract: boolean;
+  type: string;
+  baseDefinition?: string;
+  derivation?: "specialization" | "constraint";
+  differential: { element: ElementDefinition[] };
+}
+
+// Who did what to which resource, as recorded for every write
+export interface AuditEvent {
+  resourceType: "AuditEvent";
+  id: string;
+  type: Coding;
+  subtype?: Coding[];
+  action?: "C" | "R" | "U" | "D" | "E";
+  recorded: string;
+  // "0" is success
+  outcome?: "0" | "4" | "8" | "12";
+  agent: Array<{ who?: Reference; requestor: boolean }>;
+  // site is the channel the write came through
+  source: { site?: string; observer: Reference; type?: Coding[] };
+  entity?: Array<{
+    what?: Reference;
+    role?: Coding;
+    description?: string;
+    detail?: Array<{ type: string; valueString?: string }>;
+  }>;
+}
+
+// Where a version of a resource came from: its author, and for
+// Conditions the mapping its ICD-11 code was taken from
+export interface Provenance {
+  resourceType: "Provenance";
+  id: string;
+  target: Reference[];
+  recorded: string;
+  activity?: CodeableConcept;
+  agent: Array<{ type?: CodeableConcept; who: Reference }>;
+  entity?: Array<{
+    role: "derivation" | "revision" | "quotation" | "source" | "removal";
+    what: Reference;
+  }>;
+}
+
+export type SearchParamType =
+  | "number"
+  | "date"
+  | "string"
+  | "token"
+  | "reference"
+  | "composite"
+  | "quantity"
+  | "uri"
+  | "special";
+
+export interface CapabilityStatementSearchParam {
+  name: string;
+  type: SearchParamType;
+  documentation?: string;
+}
+
+export interface CapabilityStatementOperation {
+  name: string;
+  definition: string;
+}
+
+export interface CapabilityStatementResource {
+  type: string;
+  profile?: string;
+  interaction: Array<{ code: string }>;
+  versioning?: "no-version" | "versioned" | "versioned-update";
+  readHistory?: boolean;
+  searchParam?: CapabilityStatementSearchParam[];
+  operation?: CapabilityStatementOperation[];
+}
+
+export interface CapabilityStatement {
+  resourceType: "CapabilityStatement";
+  status: "draft" | "active" | "retired" | "unknown";
+  date: string;
+  publisher?: string;
+  kind: "instance" | "capability" | "requirements";
+  software?: { name: string; version?: string };
+  implementation?: { description: string; url?: string };
+  fhirVersion: string;
+  format: string[];
+  rest: Array<{
+    mode: "client" | "server";
+    documentation?: string;
+    security?: { cors?: boolean; description?: string };
+    resource: CapabilityStatementResource[];
+    interaction?: Array<{ code: string }>;
+    operation?: CapabilityStatementOperation[];
+  }>;
+}
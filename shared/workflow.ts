@@ -0,0 +1,80 @@
+// Review workflow for codemap rows, shared by the API (enforcement) and
+// the CodeMapping page (which actions to offer).
+
+export type MappingStatus =
+  | "draft"
+  | "proposed"
+  | "under_review"
+  | "approved"
+  | "rejected"
+  | "deprecated";
+
+export type WorkflowAction =
+  | "propose"
+  | "withdraw"
+  | "assign"
+  | "approve"
+  | "reject"
+  | "rework"
+  | "deprecate";
+
+export const MAPPING_STATUSES: MappingStatus[] = [
+  "draft",
+  "proposed",
+  "under_review",
+  "approved",
+  "rejected",
+  "deprecated",
+];
+
+export const TRANSITIONS: Record<
+  WorkflowAction,
+  { from: MappingStatus[]; to: MappingStatus }
+> = {
+  propose: { from: ["draft"], to: "proposed" },
+  withdraw: { from: ["proposed"], to: "draft" },
+  assign: { from: ["proposed", "under_review"], to: "under_review" },
+  approve: { from: ["under_review"], to: "approved" },
+  reject: { from: ["under_review"], to: "rejected" },
+  rework: { from: ["rejected"], to: "draft" },
+  deprecate: { from: ["approved"], to: "deprecated" },
+};
+
+export const STATUS_LABELS: Record<MappingStatus, string> = {
+  draft: "Draft",
+  proposed: "Proposed",
+  under_review: "Under review",
+  approved: "Approved",
+  rejected: "Rejected",
+  deprecated: "Deprecated",
+};
+
+// Rows created before the workflow only carry "pending" or "verified"
+const LEGACY_STATUSES: Record<string, MappingStatus> = {
+  verified: "approved",
+  pending: "proposed",
+};
+
+export function normalizeStatus(status: string | null | undefined) {
+  if (status && LEGACY_STATUSES[status]) return LEGACY_STATUSES[status];
+  return MAPPING_STATUSES.includes(status as MappingStatus)
+    ? (status as MappingStatus)
+    : "draft";
+}
+
+// Stored values to match when filtering by status, legacy ones included
+export function storedStatuses(statuses: MappingStatus[]): string[] {
+  return [
+    ...statuses,
+    ...Object.keys(LEGACY_STATUSES).filter((legacy) =>
+      statuses.includes(LEGACY_STATUSES[legacy]),
+    ),
+  ];
+}
+
+export function availableActions(status: string): WorkflowAction[] {
+  const current = normalizeStatus(status);
+  return (Object.keys(TRANSITIONS) as WorkflowAction[]).filter((action) =>
+    TRANSITIONS[action].from.includes(current),
+  );
+}
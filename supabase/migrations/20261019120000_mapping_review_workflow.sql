@@ -0,0 +1,24 @@
+-- Mapping review workflow: who proposed a codemap row and who reviews
+-- it, plus the append-only history of every transition.
+
+alter table codemap
+  add column if not exists proposed_by text,
+  add column if not exists reviewer text;
+
+create table if not exists codemap_history (
+  id uuid primary key default gen_random_uuid(),
+  mapping_id text not null,
+  action text not null,
+  from_status text not null,
+  to_status text not null,
+  actor text not null,
+  reviewer text,
+  justification text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists codemap_history_mapping
+  on codemap_history (mapping_id, created_at);
+
+-- Only the server, with the service role, reads or writes it
+alter table codemap_history enable row level security;
@@ -0,0 +1,8 @@
+-- Column mappings remembered per code list source, upserted by source
+create table if not exists codemap_import_profiles (
+  source text primary key,
+  columns jsonb not null default '{}',
+  updated_at timestamptz not null default now()
+);
+
+alter table codemap_import_profiles enable row level security;
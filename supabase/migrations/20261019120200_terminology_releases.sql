@@ -0,0 +1,19 @@
+-- Named versions of the NAMASTE and ICD-11 code lists. `codes` is the
+-- whole list as [{ code, display, category }].
+create table if not exists terminology_releases (
+  id uuid primary key default gen_random_uuid(),
+  system text not null check (system in ('namaste', 'icd11')),
+  version text not null,
+  created_by text,
+  created_at timestamptz not null default now(),
+  codes jsonb not null default '[]',
+  constraint unique_release_version unique (system, version)
+);
+
+create index if not exists terminology_releases_created
+  on terminology_releases (system, created_at);
+
+alter table terminology_releases enable row level security;
+
+-- Label of the latest release that dropped a row's NAMASTE or ICD-11 code
+alter table codemap add column if not exists retired_in text;
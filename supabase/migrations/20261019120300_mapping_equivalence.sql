@@ -0,0 +1,8 @@
+-- How a codemap row's target relates to its NAMASTE code, and the
+-- postcoordination extension codes added to the ICD-11 stem. Rows from
+-- before keep a null equivalence.
+alter table codemap
+  add column if not exists icd11_extensions text[] default '{}',
+  add column if not exists equivalence text
+    check (equivalence in
+      ('equivalent', 'wider', 'narrower', 'inexact', 'unmatched'));
@@ -0,0 +1,20 @@
+-- Batch auto-map jobs. `codes` is the work list fixed when the job
+-- starts, and `processed` how far through it the job got.
+create table if not exists automap_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null
+    check (status in ('running', 'cancelled', 'completed', 'failed')),
+  category text,
+  min_confidence double precision not null,
+  max_per_code integer not null,
+  codes text[] not null default '{}',
+  processed integer not null default 0,
+  proposed integer not null default 0,
+  no_match integer not null default 0,
+  error text,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table automap_jobs enable row level security;
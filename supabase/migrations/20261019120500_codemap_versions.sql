@@ -0,0 +1,6 @@
+-- updated_at is a codemap row's version for If-Match checks; rows never
+-- written since they were added have none. edited_by is whoever last
+-- changed the content, who may not review it.
+alter table codemap
+  add column if not exists updated_at timestamptz,
+  add column if not exists edited_by text;
@@ -0,0 +1,6 @@
+-- Who added a codemap row: a user's email, "auto-map", or null for rows
+-- from before it was recorded
+alter table codemap add column if not exists created_by text;
+
+-- The default order of GET /api/mappings, with id breaking ties
+create index if not exists codemap_created on codemap (created_at, id);
@@ -0,0 +1,6 @@
+-- FHIR Patient.identifier, as [{ system, value }]; searched with @>
+alter table patients
+  add column if not exists identifiers jsonb not null default '[]';
+
+create index if not exists patients_identifiers
+  on patients using gin (identifiers jsonb_path_ops);
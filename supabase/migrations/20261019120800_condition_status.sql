@@ -0,0 +1,11 @@
+-- FHIR Condition statuses and who recorded the diagnosis
+alter table patient_diagnoses
+  add column if not exists clinical_status text not null default 'active'
+    check (clinical_status in
+      ('active', 'recurrence', 'relapse', 'inactive', 'remission', 'resolved')),
+  add column if not exists verification_status text not null
+    default 'confirmed'
+    check (verification_status in
+      ('unconfirmed', 'provisional', 'differential', 'confirmed', 'refuted',
+       'entered-in-error')),
+  add column if not exists recorded_by text;
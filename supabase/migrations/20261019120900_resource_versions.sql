@@ -0,0 +1,44 @@
+-- version_id is bumped by every write to a patient or diagnosis; it is
+-- the FHIR meta.versionId and what If-Match is checked against.
+-- updated_at is meta.lastUpdated, and starts out as created_at.
+alter table patients
+  add column if not exists version_id integer not null default 1,
+  add column if not exists updated_at timestamptz;
+update patients set updated_at = created_at where updated_at is null;
+alter table patients
+  alter column updated_at set default now(),
+  alter column updated_at set not null;
+
+alter table patient_diagnoses
+  add column if not exists version_id integer not null default 1,
+  add column if not exists updated_at timestamptz;
+update patient_diagnoses set updated_at = created_at where updated_at is null;
+alter table patient_diagnoses
+  alter column updated_at set default now(),
+  alter column updated_at set not null;
+
+-- Every version of every patient and diagnosis; `data` is the row, or
+-- null once deleted
+create table if not exists resource_versions (
+  resource_type text not null check (resource_type in ('Patient', 'Condition')),
+  resource_id text not null,
+  version_id integer not null,
+  data jsonb,
+  recorded_at timestamptz not null default now(),
+  primary key (resource_type, resource_id, version_id)
+);
+
+alter table resource_versions enable row level security;
+
+-- Rows written before versions were kept get their current one
+insert into resource_versions
+  (resource_type, resource_id, version_id, data, recorded_at)
+select 'Patient', id::text, version_id, to_jsonb(patients), updated_at
+from patients
+on conflict do nothing;
+
+insert into resource_versions
+  (resource_type, resource_id, version_id, data, recorded_at)
+select 'Condition', id::text, version_id, to_jsonb(patient_diagnoses), updated_at
+from patient_diagnoses
+on conflict do nothing;
@@ -0,0 +1,24 @@
+-- One row per clinical or mapping write, served as both an AuditEvent and
+-- a Provenance. Append-only, and kept after what it describes is deleted.
+create table if not exists audit_events (
+  id text primary key default gen_random_uuid()::text,
+  recorded_at text not null,
+  action text not null check (action in ('create', 'update', 'delete')),
+  entity_type text not null,
+  entity_id text not null,
+  entity_version text,
+  patient_id text,
+  agent text,
+  source text not null,
+  source_mapping_id text,
+  source_mapping_version text,
+  summary text not null
+);
+
+create index if not exists audit_events_patient on audit_events (patient_id);
+create index if not exists audit_events_entity
+  on audit_events (entity_type, entity_id);
+create index if not exists audit_events_recorded
+  on audit_events (recorded_at, id);
+
+alter table audit_events enable row level security;
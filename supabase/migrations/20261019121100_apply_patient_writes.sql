@@ -0,0 +1,214 @@
+-- Makes a batch of patient and diagnosis writes, with the versions they
+-- record in resource_versions, in one transaction: all of them or none.
+-- PostgREST runs each request on its own, so this is how
+-- server/patients/supabaseRepository.ts writes.
+--
+-- `writes` is an array of {action, id, expected_version, values}, where
+-- action is insert-, update- or delete-patient or -diagnosis, and values
+-- holds the columns to set. Returns {"rows": [...]}, each row as written
+-- or null for deletes, or {"failed": index, "conflict": ...} for the
+-- first write that was missing, stale or clashed with another patient.
+create or replace function apply_patient_writes(writes jsonb)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  change jsonb;
+  at integer;
+  stamp timestamptz := now();
+  written jsonb := '[]';
+  saved jsonb;
+  patient_row patients;
+  current_patient patients;
+  diagnosis_row patient_diagnoses;
+  current_diagnosis patient_diagnoses;
+  violated text;
+begin
+  begin
+    for change, at in
+      select value, ordinality - 1
+      from jsonb_array_elements(writes) with ordinality
+    loop
+      -- The id, typed as the tables have it
+      patient_row := jsonb_populate_record(
+        null::patients, jsonb_build_object('id', change->'id'));
+      diagnosis_row := jsonb_populate_record(
+        null::patient_diagnoses, jsonb_build_object('id', change->'id'));
+
+      case change->>'action'
+        when 'insert-patient' then
+          patient_row := jsonb_populate_record(
+            null::patients,
+            change->'values' || jsonb_build_object('id', change->'id'));
+          insert into patients (
+            id, user_id, first_name, last_name, date_of_birth, gender,
+            admit_date, diagnosis, email, phone, guardian_name,
+            guardian_phone, address, identifiers, version_id, created_at,
+            updated_at)
+          values (
+            patient_row.id, patient_row.user_id, patient_row.first_name,
+            patient_row.last_name, patient_row.date_of_birth,
+            patient_row.gender, patient_row.admit_date, patient_row.diagnosis,
+            patient_row.email, patient_row.phone, patient_row.guardian_name,
+            patient_row.guardian_phone, patient_row.address,
+            coalesce(patient_row.identifiers, '[]'), 1, stamp, stamp)
+          returning * into patient_row;
+          saved := to_jsonb(patient_row);
+
+        when 'update-patient' then
+          select * into current_patient from patients
+          where id = patient_row.id
+          for update;
+          if not found
+            or current_patient.version_id
+              <> (change->>'expected_version')::integer then
+            raise no_data_found;
+          end if;
+
+          if change->'values' = '{}' then
+            saved := to_jsonb(current_patient);
+          else
+            patient_row := jsonb_populate_record(
+              current_patient, change->'values');
+            update patients set
+              user_id = patient_row.user_id,
+              first_name = patient_row.first_name,
+              last_name = patient_row.last_name,
+              date_of_birth = patient_row.date_of_birth,
+              gender = patient_row.gender,
+              admit_date = patient_row.admit_date,
+              diagnosis = patient_row.diagnosis,
+              email = patient_row.email,
+              phone = patient_row.phone,
+              guardian_name = patient_row.guardian_name,
+              guardian_phone = patient_row.guardian_phone,
+              address = patient_row.address,
+              identifiers = patient_row.identifiers,
+              version_id = current_patient.version_id + 1,
+              updated_at = stamp
+            where id = current_patient.id
+            returning * into patient_row;
+            saved := to_jsonb(patient_row);
+          end if;
+
+        -- The patient's diagnoses get a deleted version as well
+        when 'delete-patient' then
+          select * into current_patient from patients
+          where id = patient_row.id
+          for update;
+          if not found
+            or current_patient.version_id
+              <> (change->>'expected_version')::integer then
+            raise no_data_found;
+          end if;
+
+          insert into resource_versions
+            (resource_type, resource_id, version_id, data, recorded_at)
+          select 'Condition', id::text, version_id + 1, null, stamp
+          from patient_diagnoses
+          where patient_id = current_patient.id;
+          insert into resource_versions
+            (resource_type, resource_id, version_id, data, recorded_at)
+          values ('Patient', current_patient.id::text,
+            current_patient.version_id + 1, null, stamp);
+          delete from patients where id = current_patient.id;
+          saved := null;
+
+        when 'insert-diagnosis' then
+          diagnosis_row := jsonb_populate_record(
+            null::patient_diagnoses,
+            change->'values' || jsonb_build_object('id', change->'id'));
+          insert into patient_diagnoses (
+            id, patient_id, namaste_code, icd11_code, symptoms,
+            clinical_notes, clinical_status, verification_status,
+            recorded_by, version_id, created_at, updated_at)
+          values (
+            diagnosis_row.id, diagnosis_row.patient_id,
+            diagnosis_row.namaste_code, diagnosis_row.icd11_code,
+            diagnosis_row.symptoms, diagnosis_row.clinical_notes,
+            coalesce(diagnosis_row.clinical_status, 'active'),
+            coalesce(diagnosis_row.verification_status, 'confirmed'),
+            diagnosis_row.recorded_by, 1, stamp, stamp)
+          returning * into diagnosis_row;
+          saved := to_jsonb(diagnosis_row);
+
+        when 'update-diagnosis' then
+          select * into current_diagnosis from patient_diagnoses
+          where id = diagnosis_row.id
+          for update;
+          if not found
+            or current_diagnosis.version_id
+              <> (change->>'expected_version')::integer then
+            raise no_data_found;
+          end if;
+
+          if change->'values' = '{}' then
+            saved := to_jsonb(current_diagnosis);
+          else
+            diagnosis_row := jsonb_populate_record(
+              current_diagnosis, change->'values');
+            update patient_diagnoses set
+              namaste_code = diagnosis_row.namaste_code,
+              icd11_code = diagnosis_row.icd11_code,
+              symptoms = diagnosis_row.symptoms,
+              clinical_notes = diagnosis_row.clinical_notes,
+              clinical_status = diagnosis_row.clinical_status,
+              verification_status = diagnosis_row.verification_status,
+              recorded_by = diagnosis_row.recorded_by,
+              version_id = current_diagnosis.version_id + 1,
+              updated_at = stamp
+            where id = current_diagnosis.id
+            returning * into diagnosis_row;
+            saved := to_jsonb(diagnosis_row);
+          end if;
+
+        when 'delete-diagnosis' then
+          select * into current_diagnosis from patient_diagnoses
+          where id = diagnosis_row.id
+          for update;
+          if not found
+            or current_diagnosis.version_id
+              <> (change->>'expected_version')::integer then
+            raise no_data_found;
+          end if;
+
+          insert into resource_versions
+            (resource_type, resource_id, version_id, data, recorded_at)
+          values ('Condition', current_diagnosis.id::text,
+            current_diagnosis.version_id + 1, null, stamp);
+          delete from patient_diagnoses where id = current_diagnosis.id;
+          saved := null;
+
+        else
+          raise exception 'Unknown patient write %', change->>'action';
+      end case;
+
+      if saved is not null then
+        insert into resource_versions
+          (resource_type, resource_id, version_id, data, recorded_at)
+        values (
+          case when change->>'action' like '%-patient'
+            then 'Patient' else 'Condition' end,
+          saved->>'id', (saved->>'version_id')::integer, saved, stamp)
+        on conflict do nothing;
+      end if;
+      written := written || jsonb_build_array(saved);
+    end loop;
+  exception
+    -- Leaving the block undoes every write made in it
+    when no_data_found then
+      return jsonb_build_object('failed', at);
+    when unique_violation then
+      get stacked diagnostics violated = constraint_name;
+      if violated = 'unique_patient_email' then
+        return jsonb_build_object('failed', at, 'conflict', 'email');
+      elsif violated = 'unique_patient_name_dob' then
+        return jsonb_build_object('failed', at, 'conflict', 'name_dob');
+      end if;
+      raise;
+  end;
+
+  return jsonb_build_object('rows', written);
+end;
+$$;
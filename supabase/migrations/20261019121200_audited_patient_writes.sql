@@ -0,0 +1,32 @@
+-- apply_patient_writes, with the audit events describing the writes
+-- recorded in the same transaction: the events are only kept with the
+-- writes, and the writes only with their events. `events` is an array of
+-- audit_events rows without id and recorded_at.
+create or replace function apply_audited_patient_writes(
+  writes jsonb,
+  events jsonb
+)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  result jsonb := apply_patient_writes(writes);
+begin
+  if result ? 'rows' then
+    insert into audit_events (
+      recorded_at, action, entity_type, entity_id, entity_version,
+      patient_id, agent, source, source_mapping_id, source_mapping_version,
+      summary)
+    select
+      to_char(now() at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+      action, entity_type, entity_id, entity_version, patient_id, agent,
+      source, source_mapping_id, source_mapping_version, summary
+    from jsonb_to_recordset(events) as event (
+      action text, entity_type text, entity_id text, entity_version text,
+      patient_id text, agent text, source text, source_mapping_id text,
+      source_mapping_version text, summary text);
+  end if;
+  return result;
+end;
+$$;
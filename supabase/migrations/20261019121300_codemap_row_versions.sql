@@ -0,0 +1,43 @@
+-- Every version of every codemap row, numbered from 1 per mapping; `data`
+-- is the row, or null once deleted. A trigger keeps them, so writes from
+-- the CodeMapping page are versioned as well as the server's.
+create table if not exists codemap_versions (
+  mapping_id text not null,
+  version_id integer not null,
+  data jsonb,
+  recorded_at timestamptz not null default now(),
+  primary key (mapping_id, version_id)
+);
+
+alter table codemap_versions enable row level security;
+
+-- Rows written before versions were kept get their current one
+insert into codemap_versions (mapping_id, version_id, data, recorded_at)
+select id::text, 1, to_jsonb(codemap), coalesce(updated_at, created_at)
+from codemap
+on conflict do nothing;
+
+-- The write holds the row's lock until it commits, so the versions of a
+-- mapping are numbered in the order they were written
+create or replace function record_codemap_version()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  target text := case when tg_op = 'DELETE' then old.id::text else new.id::text end;
+begin
+  insert into codemap_versions (mapping_id, version_id, data)
+  select target,
+         coalesce(max(version_id), 0) + 1,
+         case when tg_op = 'DELETE' then null else to_jsonb(new) end
+  from codemap_versions
+  where mapping_id = target;
+  return null;
+end;
+$$;
+
+drop trigger if exists codemap_versions_on_write on codemap;
+create trigger codemap_versions_on_write
+  after insert or update or delete on codemap
+  for each row execute function record_codemap_version();